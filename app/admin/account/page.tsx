@@ -0,0 +1,18 @@
+import { redirect } from "next/navigation";
+
+import AdminAccountSettings from "@/components/admin/AdminAccountSettings";
+import { getAdminSession } from "@/lib/auth/session";
+
+export const metadata = {
+  title: "Admin Account"
+};
+
+const AdminAccountPage = async () => {
+  const session = await getAdminSession();
+  if (!session) {
+    redirect("/admin/sign-in");
+  }
+  return <AdminAccountSettings role={session.user.role} />;
+};
+
+export default AdminAccountPage;
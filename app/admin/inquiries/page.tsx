@@ -0,0 +1,22 @@
+import { redirect } from "next/navigation";
+
+import AdminInquiriesInbox from "@/components/admin/AdminInquiriesInbox";
+import { hasPermission } from "@/lib/auth/permissions";
+import { getAdminSession } from "@/lib/auth/session";
+
+export const metadata = {
+  title: "Admin Inquiries"
+};
+
+const AdminInquiriesPage = async () => {
+  const session = await getAdminSession();
+  if (!session) {
+    redirect("/admin/sign-in");
+  }
+  if (!hasPermission(session.user.role, "inquiries:manage")) {
+    redirect("/admin/projects");
+  }
+  return <AdminInquiriesInbox role={session.user.role} />;
+};
+
+export default AdminInquiriesPage;
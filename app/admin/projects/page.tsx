@@ -2,6 +2,7 @@ import { redirect } from "next/navigation";
 
 import AdminProjectsDashboard from "@/components/admin/AdminProjectsDashboard";
 import { getAdminSession } from "@/lib/auth/session";
+import { getTrashRetentionDays } from "@/lib/server/admin/projectService";
 
 export const metadata = {
   title: "Admin Project Dashboard"
@@ -12,7 +13,13 @@ const AdminProjectsPage = async () => {
   if (!session) {
     redirect("/admin/sign-in");
   }
-  return <AdminProjectsDashboard />;
+  return (
+    <AdminProjectsDashboard
+      role={session.user.role}
+      currentUserId={session.user.id}
+      trashRetentionDays={getTrashRetentionDays()}
+    />
+  );
 };
 
 export default AdminProjectsPage;
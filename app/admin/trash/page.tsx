@@ -0,0 +1,28 @@
+import { redirect } from "next/navigation";
+
+import AdminTrashBin from "@/components/admin/AdminTrashBin";
+import { hasPermission } from "@/lib/auth/permissions";
+import { getAdminSession } from "@/lib/auth/session";
+import { getTrashRetentionDays } from "@/lib/server/admin/projectService";
+
+export const metadata = {
+  title: "Admin Trash"
+};
+
+const AdminTrashPage = async () => {
+  const session = await getAdminSession();
+  if (!session) {
+    redirect("/admin/sign-in");
+  }
+  if (!hasPermission(session.user.role, "projects:delete")) {
+    redirect("/admin/projects");
+  }
+  return (
+    <AdminTrashBin
+      role={session.user.role}
+      retentionDays={getTrashRetentionDays()}
+    />
+  );
+};
+
+export default AdminTrashPage;
@@ -0,0 +1,27 @@
+import { redirect } from "next/navigation";
+
+import AdminUsersManager from "@/components/admin/AdminUsersManager";
+import { hasPermission } from "@/lib/auth/permissions";
+import { getAdminSession } from "@/lib/auth/session";
+
+export const metadata = {
+  title: "Admin Users"
+};
+
+const AdminUsersPage = async () => {
+  const session = await getAdminSession();
+  if (!session) {
+    redirect("/admin/sign-in");
+  }
+  if (!hasPermission(session.user.role, "users:manage")) {
+    redirect("/admin/projects");
+  }
+  return (
+    <AdminUsersManager
+      role={session.user.role}
+      currentUserId={session.user.id}
+    />
+  );
+};
+
+export default AdminUsersPage;
@@ -0,0 +1,22 @@
+import { redirect } from "next/navigation";
+
+import AdminWebhooksManager from "@/components/admin/AdminWebhooksManager";
+import { hasPermission } from "@/lib/auth/permissions";
+import { getAdminSession } from "@/lib/auth/session";
+
+export const metadata = {
+  title: "Admin Webhooks"
+};
+
+const AdminWebhooksPage = async () => {
+  const session = await getAdminSession();
+  if (!session) {
+    redirect("/admin/sign-in");
+  }
+  if (!hasPermission(session.user.role, "webhooks:manage")) {
+    redirect("/admin/projects");
+  }
+  return <AdminWebhooksManager role={session.user.role} />;
+};
+
+export default AdminWebhooksPage;
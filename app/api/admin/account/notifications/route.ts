@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import {
+  fetchNotificationPreferences,
+  updateNotificationPreferences
+} from "@/lib/server/admin/notificationService";
+import type { AdminNotificationPreferences } from "@/lib/types/admin";
+
+const handleError = (error: unknown) => {
+  console.error("[api/admin/account/notifications] error", error);
+  return NextResponse.json(
+    {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unable to process notification preferences."
+    },
+    { status: 500 }
+  );
+};
+
+export async function GET() {
+  try {
+    const { session, response } = await authorizeAdminRequest("projects:read");
+    if (!session) {
+      return response;
+    }
+    const data = await fetchNotificationPreferences(session.user.id);
+    if (!data) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const { session, response } = await authorizeAdminRequest("projects:read");
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as
+      | Partial<AdminNotificationPreferences>
+      | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Notification preferences are required" },
+        { status: 400 }
+      );
+    }
+    const data = await updateNotificationPreferences(session.user.id, body);
+    if (!data) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import {
+  fetchAdminActivity,
+  parsePageSize
+} from "@/lib/server/admin/projectHistoryService";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+export async function GET(request: Request) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:read"
+    );
+    if (!session) {
+      return response;
+    }
+    const { searchParams } = new URL(request.url);
+    const data = await fetchAdminActivity({
+      cursor: searchParams.get("cursor"),
+      limit: parsePageSize(searchParams.get("limit"))
+    });
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("[api/admin/activity] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to load admin activity."
+      },
+      { status: 500 }
+    );
+  }
+}
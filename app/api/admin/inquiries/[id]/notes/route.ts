@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { addInquiryNote } from "@/lib/server/admin/inquiryService";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "inquiries:manage"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as {
+      body?: unknown;
+    } | null;
+    const inquiry = await addInquiryNote(
+      params.id,
+      body?.body,
+      session.user.id
+    );
+    if (!inquiry) {
+      return NextResponse.json({ error: "Inquiry not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: inquiry }, { status: 201 });
+  } catch (error) {
+    console.error("[api/admin/inquiries/:id/notes] error", error);
+    if (error instanceof Error && error.name === "InquiryValidationError") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to add note."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { updateInquiry } from "@/lib/server/admin/inquiryService";
+import type { AdminInquiryUpdatePayload } from "@/lib/types/admin";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "inquiries:manage"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as
+      | AdminInquiryUpdatePayload
+      | null;
+    const inquiry = await updateInquiry(
+      params.id,
+      {
+        status: body?.status,
+        archived:
+          typeof body?.archived === "boolean" ? body.archived : undefined,
+        projectId: body?.projectId
+      },
+      session.user.id
+    );
+    if (!inquiry) {
+      return NextResponse.json({ error: "Inquiry not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: inquiry });
+  } catch (error) {
+    console.error("[api/admin/inquiries/:id] error", error);
+    if (error instanceof Error && error.name === "InquiryValidationError") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to update inquiry."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { fetchInquiries } from "@/lib/server/admin/inquiryService";
+
+export async function GET(request: Request) {
+  try {
+    const { response } = await authorizeAdminRequest("inquiries:manage");
+    if (response) {
+      return response;
+    }
+    const view = new URL(request.url).searchParams.get("view");
+    const data = await fetchInquiries(
+      view === "archived" ? "archived" : "inbox"
+    );
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("[api/admin/inquiries] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to load inquiries."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,7 @@ import {
   registerUploadedAsset,
   type MediaKind
 } from "@/lib/server/mediaService";
-import { getAdminSession } from "@/lib/auth/session";
+import { authorizeAdminRequest } from "@/lib/auth/session";
 
 type CommitBody = {
   projectId?: string;
@@ -19,9 +19,11 @@ type CommitBody = {
 
 export async function POST(request: Request) {
   try {
-    const session = await getAdminSession();
+    const { session, response } = await authorizeAdminRequest(
+      "media:upload"
+    );
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      return response;
     }
     const body = (await request.json()) as CommitBody;
     const {
@@ -50,7 +52,8 @@ export async function POST(request: Request) {
       width,
       height,
       fileSize,
-      contentType
+      contentType,
+      actorId: session.user.id
     });
 
     return NextResponse.json({ data });
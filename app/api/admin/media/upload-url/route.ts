@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 
 import { createUploadRequest, type MediaKind } from "@/lib/server/mediaService";
-import { getAdminSession } from "@/lib/auth/session";
+import { authorizeAdminRequest } from "@/lib/auth/session";
 
 type UploadUrlBody = {
   projectId?: string;
@@ -13,9 +13,11 @@ type UploadUrlBody = {
 
 export async function POST(request: Request) {
   try {
-    const session = await getAdminSession();
+    const { session, response } = await authorizeAdminRequest(
+      "media:upload"
+    );
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      return response;
     }
     const body = (await request.json()) as UploadUrlBody;
     const { projectId, projectSlug, contentType, fileName, kind = "gallery" } =
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { hasPermission } from "@/lib/auth/permissions";
+import {
+  deleteProjectComment,
+  updateProjectComment
+} from "@/lib/server/admin/projectCommentService";
+import { sendMentionNotifications } from "@/lib/server/admin/notificationService";
+
+type RouteParams = {
+  params: { id: string; commentId: string };
+};
+
+const handleError = (error: unknown) => {
+  console.error("[api/admin/projects/:id/comments/:commentId] error", error);
+  if (error instanceof Error && error.name === "CommentValidationError") {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof Error && error.name === "CommentForbiddenError") {
+    return NextResponse.json({ error: error.message }, { status: 403 });
+  }
+  return NextResponse.json(
+    {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unable to process comment request."
+    },
+    { status: 500 }
+  );
+};
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as {
+      body?: string;
+      resolved?: boolean;
+    } | null;
+    const result = await updateProjectComment(
+      params.id,
+      params.commentId,
+      {
+        body: typeof body?.body === "string" ? body.body : undefined,
+        resolved:
+          typeof body?.resolved === "boolean" ? body.resolved : undefined
+      },
+      {
+        id: session.user.id,
+        canModerate: hasPermission(session.user.role, "projects:delete")
+      }
+    );
+    if (!result) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+    await sendMentionNotifications({
+      projectId: params.id,
+      actorId: session.user.id,
+      userIds: result.mentionedUserIds,
+      body: (body?.body ?? "").trim()
+    });
+    return NextResponse.json({ data: result.thread });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
+    }
+    const result = await deleteProjectComment(params.id, params.commentId, {
+      id: session.user.id,
+      canModerate: hasPermission(session.user.role, "projects:delete")
+    });
+    if (!result) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    return handleError(error);
+  }
+}
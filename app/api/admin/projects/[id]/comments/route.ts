@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { hasPermission } from "@/lib/auth/permissions";
+import {
+  createProjectComment,
+  fetchProjectComments
+} from "@/lib/server/admin/projectCommentService";
+import { sendMentionNotifications } from "@/lib/server/admin/notificationService";
+import type { AdminProjectCommentPayload } from "@/lib/types/admin";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+const handleError = (error: unknown) => {
+  console.error("[api/admin/projects/:id/comments] error", error);
+  if (error instanceof Error && error.name === "CommentValidationError") {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return NextResponse.json(
+    {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unable to process comments request."
+    },
+    { status: 500 }
+  );
+};
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:read"
+    );
+    if (!session) {
+      return response;
+    }
+    const threads = await fetchProjectComments(params.id);
+    if (!threads) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: threads });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as
+      | Partial<AdminProjectCommentPayload>
+      | null;
+    const result = await createProjectComment(
+      params.id,
+      {
+        body: body?.body ?? "",
+        anchor: body?.anchor,
+        parentId: body?.parentId
+      },
+      {
+        id: session.user.id,
+        canModerate: hasPermission(session.user.role, "projects:delete")
+      }
+    );
+    if (!result) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    await sendMentionNotifications({
+      projectId: params.id,
+      actorId: session.user.id,
+      userIds: result.mentionedUserIds,
+      body: (body?.body ?? "").trim()
+    });
+    return NextResponse.json({ data: result.thread }, { status: 201 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
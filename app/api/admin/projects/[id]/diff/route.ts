@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+
+import {
+  diffAdminProject,
+  diffAdminProjectPayload
+} from "@/lib/server/admin/projectDiffService";
+import type {
+  AdminProjectDiffRef,
+  AdminProjectFormPayload
+} from "@/lib/types/admin";
+import type { AdminPermission } from "@/lib/auth/permissions";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+const parseDiffRef = (value: unknown): AdminProjectDiffRef | null => {
+  if (value === "draft" || value === "published") {
+    return value;
+  }
+  const version =
+    typeof value === "number" ? value : Number.parseInt(String(value ?? ""), 10);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+const handleError = (error: unknown) => {
+  console.error("[api/admin/projects/:id/diff] error", error);
+  return NextResponse.json(
+    {
+      error:
+        error instanceof Error ? error.message : "Unable to compare versions."
+    },
+    { status: 500 }
+  );
+};
+
+const ensureAuthorized = async (permission: AdminPermission) => {
+  const { response } = await authorizeAdminRequest(permission);
+  return response;
+};
+
+const notFound = () =>
+  NextResponse.json({ error: "Comparison source not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const unauthorized = await ensureAuthorized("projects:read");
+    if (unauthorized) {
+      return unauthorized;
+    }
+    const { searchParams } = new URL(request.url);
+    const from = parseDiffRef(searchParams.get("from") ?? "published");
+    const to = parseDiffRef(searchParams.get("to") ?? "draft");
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: "from and to must be draft, published, or a version number" },
+        { status: 400 }
+      );
+    }
+    const diff = await diffAdminProject(params.id, from, to);
+    if (!diff) {
+      return notFound();
+    }
+    return NextResponse.json({ data: diff });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const unauthorized = await ensureAuthorized("projects:read");
+    if (unauthorized) {
+      return unauthorized;
+    }
+    const body = (await request.json()) as {
+      from?: unknown;
+      project?: AdminProjectFormPayload;
+    };
+    if (!body?.project) {
+      return NextResponse.json(
+        { error: "Missing project payload" },
+        { status: 400 }
+      );
+    }
+    const from = parseDiffRef(body.from ?? "published");
+    if (from === null) {
+      return NextResponse.json(
+        { error: "from must be draft, published, or a version number" },
+        { status: 400 }
+      );
+    }
+    const diff = await diffAdminProjectPayload(params.id, from, body.project);
+    if (!diff) {
+      return notFound();
+    }
+    return NextResponse.json({ data: diff });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 
 import { duplicateAdminProject } from "@/lib/server/admin/projectService";
-import { getAdminSession } from "@/lib/auth/session";
+import { authorizeAdminRequest } from "@/lib/auth/session";
 
 type RouteParams = {
   params: { id: string };
@@ -9,11 +9,13 @@ type RouteParams = {
 
 export async function POST(_request: Request, { params }: RouteParams) {
   try {
-    const session = await getAdminSession();
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      return response;
     }
-    const project = await duplicateAdminProject(params.id);
+    const project = await duplicateAdminProject(params.id, session.user.id);
     return NextResponse.json({ data: project }, { status: 201 });
   } catch (error) {
     console.error("[api/admin/projects/:id/duplicate] error", error);
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+
+import { setAdminProjectFeatured } from "@/lib/server/admin/projectService";
+import type { AdminProjectFeaturedPayload } from "@/lib/types/admin";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:publish"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as
+      | Partial<AdminProjectFeaturedPayload>
+      | null;
+    if (typeof body?.isFeatured !== "boolean") {
+      return NextResponse.json(
+        { error: "isFeatured must be a boolean" },
+        { status: 400 }
+      );
+    }
+    const project = await setAdminProjectFeatured(
+      params.id,
+      body.isFeatured,
+      session.user.id
+    );
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: project });
+  } catch (error) {
+    console.error("[api/admin/projects/:id/featured] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to update featuring."
+      },
+      { status: 500 }
+    );
+  }
+}
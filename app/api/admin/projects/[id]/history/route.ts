@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+
+import {
+  fetchProjectHistory,
+  parsePageSize
+} from "@/lib/server/admin/projectHistoryService";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:read"
+    );
+    if (!session) {
+      return response;
+    }
+    const { searchParams } = new URL(request.url);
+    const data = await fetchProjectHistory(params.id, {
+      cursor: searchParams.get("cursor"),
+      limit: parsePageSize(searchParams.get("limit"))
+    });
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("[api/admin/projects/:id/history] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to load project history."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { revokePreviewLink } from "@/lib/server/admin/previewService";
+
+type RouteParams = {
+  params: { id: string; linkId: string };
+};
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
+    }
+    const revoked = await revokePreviewLink(params.id, params.linkId);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Preview link not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: { id: params.linkId } });
+  } catch (error) {
+    console.error("[api/admin/projects/:id/previews/:linkId] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to revoke preview link."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import {
+  createPreviewLink,
+  fetchPreviewLinks
+} from "@/lib/server/admin/previewService";
+import type { AdminPreviewLinkPayload } from "@/lib/types/admin";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+const handleError = (error: unknown) => {
+  console.error("[api/admin/projects/:id/previews] error", error);
+  if (error instanceof Error && error.name === "PreviewLinkValidationError") {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return NextResponse.json(
+    {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unable to process preview links request."
+    },
+    { status: 500 }
+  );
+};
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
+    }
+    const links = await fetchPreviewLinks(params.id);
+    if (!links) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: links });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => ({}))) as
+      | AdminPreviewLinkPayload
+      | null;
+    const link = await createPreviewLink(
+      params.id,
+      { label: body?.label, expiresInDays: body?.expiresInDays },
+      {
+        id: session.user.id,
+        name: session.user.name || session.user.email || "A studio admin"
+      }
+    );
+    if (!link) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: link }, { status: 201 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -1,9 +1,8 @@
 import { NextResponse } from "next/server";
-import { revalidatePath } from "next/cache";
 
 import { publishAdminProject } from "@/lib/server/admin/projectService";
 import type { AdminProjectFormPayload } from "@/lib/types/admin";
-import { getAdminSession } from "@/lib/auth/session";
+import { authorizeAdminRequest } from "@/lib/auth/session";
 
 type RouteParams = {
   params: { id: string };
@@ -11,19 +10,27 @@ type RouteParams = {
 
 type ValidationError = Error & { details?: string[] };
 
+type ConflictError = Error & { current?: unknown };
+
 const isProjectValidationError = (
   error: unknown
 ): error is ValidationError =>
   error instanceof Error && error.name === "ProjectValidationError";
 
+const isProjectConflictError = (error: unknown): error is ConflictError =>
+  error instanceof Error && error.name === "ProjectConflictError";
+
 export async function POST(request: Request, { params }: RouteParams) {
   try {
-    const session = await getAdminSession();
+    const { session, response } = await authorizeAdminRequest(
+      "projects:publish"
+    );
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      return response;
     }
     const body = (await request.json()) as {
       project: AdminProjectFormPayload;
+      expectedRevision?: number;
     };
     if (!body?.project) {
       return NextResponse.json(
@@ -31,19 +38,30 @@ export async function POST(request: Request, { params }: RouteParams) {
         { status: 400 }
       );
     }
-    const project = await publishAdminProject(params.id, body.project);
-    
-    // Revalidate public pages that display projects
-    revalidatePath('/');
-    revalidatePath('/api/public/projects');
-    // Revalidate the individual project page
-    if (project.slug) {
-      revalidatePath(`/projects/${project.slug}`);
+    // Saves without the revision they were based on could silently
+    // overwrite someone else's newer changes.
+    if (typeof body.expectedRevision !== "number") {
+      return NextResponse.json(
+        { error: "expectedRevision is required" },
+        { status: 428 }
+      );
     }
-    
+    const { expectedRevision } = body;
+    const project = await publishAdminProject(
+      params.id,
+      body.project,
+      session.user.id,
+      { expectedRevision }
+    );
     return NextResponse.json({ data: project });
   } catch (error) {
     console.error("[api/admin/projects/:id/publish] error", error);
+    if (isProjectConflictError(error)) {
+      return NextResponse.json(
+        { error: error.message, current: error.current },
+        { status: 409 }
+      );
+    }
     if (isProjectValidationError(error)) {
       return NextResponse.json(
         { error: error.message, details: error.details },
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { approveProjectReview } from "@/lib/server/admin/projectService";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+type ValidationError = Error & { details?: string[] };
+
+type ConflictError = Error & { current?: unknown };
+
+const isProjectValidationError = (
+  error: unknown
+): error is ValidationError =>
+  error instanceof Error && error.name === "ProjectValidationError";
+
+const isProjectConflictError = (error: unknown): error is ConflictError =>
+  error instanceof Error && error.name === "ProjectConflictError";
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:publish"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as {
+      expectedRevision?: number;
+    } | null;
+    if (typeof body?.expectedRevision !== "number") {
+      return NextResponse.json(
+        { error: "expectedRevision is required" },
+        { status: 428 }
+      );
+    }
+    // The submitted content is published as stored; the body only pins the
+    // revision the approver reviewed.
+    const project = await approveProjectReview(params.id, session.user.id, {
+      expectedRevision: body.expectedRevision
+    });
+    return NextResponse.json({ data: project });
+  } catch (error) {
+    console.error("[api/admin/projects/:id/review/approve] error", error);
+    if (isProjectConflictError(error)) {
+      return NextResponse.json(
+        { error: error.message, current: error.current },
+        { status: 409 }
+      );
+    }
+    if (isProjectValidationError(error)) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to approve project."
+      },
+      { status: 500 }
+    );
+  }
+}
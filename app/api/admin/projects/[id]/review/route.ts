@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+
+import { submitProjectForReview } from "@/lib/server/admin/projectService";
+import type { AdminProjectFormPayload } from "@/lib/types/admin";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+type ValidationError = Error & { details?: string[] };
+
+type ConflictError = Error & { current?: unknown };
+
+const isProjectValidationError = (
+  error: unknown
+): error is ValidationError =>
+  error instanceof Error && error.name === "ProjectValidationError";
+
+const isProjectConflictError = (error: unknown): error is ConflictError =>
+  error instanceof Error && error.name === "ProjectConflictError";
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json()) as {
+      project: AdminProjectFormPayload;
+      expectedRevision?: number;
+      note?: string;
+    };
+    if (!body?.project) {
+      return NextResponse.json(
+        { error: "Missing project payload" },
+        { status: 400 }
+      );
+    }
+    if (typeof body?.expectedRevision !== "number") {
+      return NextResponse.json(
+        { error: "expectedRevision is required" },
+        { status: 428 }
+      );
+    }
+    const project = await submitProjectForReview(
+      params.id,
+      body.project,
+      session.user.id,
+      {
+        expectedRevision: body.expectedRevision,
+        note: typeof body.note === "string" ? body.note : undefined
+      }
+    );
+    return NextResponse.json({ data: project });
+  } catch (error) {
+    console.error("[api/admin/projects/:id/review] error", error);
+    if (isProjectConflictError(error)) {
+      return NextResponse.json(
+        { error: error.message, current: error.current },
+        { status: 409 }
+      );
+    }
+    if (isProjectValidationError(error)) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to submit project for review."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,4 @@
 import { NextResponse } from "next/server";
-import { revalidatePath } from "next/cache";
 
 import {
   deleteAdminProject,
@@ -7,7 +6,8 @@ import {
   saveAdminProject
 } from "@/lib/server/admin/projectService";
 import type { AdminProjectFormPayload } from "@/lib/types/admin";
-import { getAdminSession } from "@/lib/auth/session";
+import type { AdminPermission } from "@/lib/auth/permissions";
+import { authorizeAdminRequest } from "@/lib/auth/session";
 
 type RouteParams = {
   params: { id: string };
@@ -15,13 +15,24 @@ type RouteParams = {
 
 type ValidationError = Error & { details?: string[] };
 
+type ConflictError = Error & { current?: unknown };
+
 const isProjectValidationError = (
   error: unknown
 ): error is ValidationError =>
   error instanceof Error && error.name === "ProjectValidationError";
 
+const isProjectConflictError = (error: unknown): error is ConflictError =>
+  error instanceof Error && error.name === "ProjectConflictError";
+
 const handleError = (error: unknown) => {
   console.error("[api/admin/projects/:id] error", error);
+  if (isProjectConflictError(error)) {
+    return NextResponse.json(
+      { error: error.message, current: error.current },
+      { status: 409 }
+    );
+  }
   if (isProjectValidationError(error)) {
     return NextResponse.json(
       { error: error.message, details: error.details },
@@ -39,17 +50,14 @@ const handleError = (error: unknown) => {
   );
 };
 
-const ensureAuthorized = async () => {
-  const session = await getAdminSession();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-  return null;
+const ensureAuthorized = async (permission: AdminPermission) => {
+  const { response } = await authorizeAdminRequest(permission);
+  return response;
 };
 
 export async function GET(_request: Request, { params }: RouteParams) {
   try {
-    const unauthorized = await ensureAuthorized();
+    const unauthorized = await ensureAuthorized("projects:read");
     if (unauthorized) {
       return unauthorized;
     }
@@ -65,12 +73,15 @@ export async function GET(_request: Request, { params }: RouteParams) {
 
 export async function PUT(request: Request, { params }: RouteParams) {
   try {
-    const unauthorized = await ensureAuthorized();
-    if (unauthorized) {
-      return unauthorized;
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
     }
     const body = (await request.json()) as {
       project: AdminProjectFormPayload;
+      expectedRevision?: number;
     };
     if (!body?.project) {
       return NextResponse.json(
@@ -78,7 +89,21 @@ export async function PUT(request: Request, { params }: RouteParams) {
         { status: 400 }
       );
     }
-    const project = await saveAdminProject(params.id, body.project);
+    // Saves without the revision they were based on could silently
+    // overwrite someone else's newer changes.
+    if (typeof body.expectedRevision !== "number") {
+      return NextResponse.json(
+        { error: "expectedRevision is required" },
+        { status: 428 }
+      );
+    }
+    const { expectedRevision } = body;
+    const project = await saveAdminProject(
+      params.id,
+      body.project,
+      session.user.id,
+      { expectedRevision }
+    );
     return NextResponse.json({ data: project });
   } catch (error) {
     return handleError(error);
@@ -87,20 +112,13 @@ export async function PUT(request: Request, { params }: RouteParams) {
 
 export async function DELETE(_request: Request, { params }: RouteParams) {
   try {
-    const unauthorized = await ensureAuthorized();
-    if (unauthorized) {
-      return unauthorized;
-    }
-    const project = await deleteAdminProject(params.id);
-    
-    // Revalidate public pages that display projects
-    revalidatePath('/');
-    revalidatePath('/api/public/projects');
-    // Revalidate the individual project page if it was published
-    if (project.slug) {
-      revalidatePath(`/projects/${project.slug}`);
+    const { session, response } = await authorizeAdminRequest(
+      "projects:delete"
+    );
+    if (!session) {
+      return response;
     }
-    
+    const project = await deleteAdminProject(params.id, session.user.id);
     return NextResponse.json({ data: project });
   } catch (error) {
     return handleError(error);
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { scheduleAdminProject } from "@/lib/server/admin/projectService";
+import type { AdminProjectSchedulePayload } from "@/lib/types/admin";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+type ValidationError = Error & { details?: string[] };
+
+const isProjectValidationError = (
+  error: unknown
+): error is ValidationError =>
+  error instanceof Error && error.name === "ProjectValidationError";
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:publish"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as
+      | Partial<AdminProjectSchedulePayload>
+      | null;
+    const project = await scheduleAdminProject(
+      params.id,
+      {
+        publishAt: body?.publishAt ?? null,
+        unpublishAt: body?.unpublishAt ?? null
+      },
+      session.user.id
+    );
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: project });
+  } catch (error) {
+    console.error("[api/admin/projects/:id/schedule] error", error);
+    if (isProjectValidationError(error)) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to update the schedule."
+      },
+      { status: 500 }
+    );
+  }
+}
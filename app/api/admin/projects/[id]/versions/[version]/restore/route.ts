@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+
+import { restoreAdminProjectVersion } from "@/lib/server/admin/projectService";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string; version: string };
+};
+
+type ValidationError = Error & { details?: string[] };
+
+const isProjectValidationError = (
+  error: unknown
+): error is ValidationError =>
+  error instanceof Error && error.name === "ProjectValidationError";
+
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
+    }
+    const version = Number.parseInt(params.version, 10);
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+    }
+    const project = await restoreAdminProjectVersion(
+      params.id,
+      version,
+      session.user.id
+    );
+    if (!project) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: project });
+  } catch (error) {
+    console.error("[api/admin/projects/:id/versions/:version/restore] error", error);
+    if (isProjectValidationError(error)) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to restore project version."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+
+import { fetchAdminProjectVersions } from "@/lib/server/admin/projectService";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:read"
+    );
+    if (!session) {
+      return response;
+    }
+    const versions = await fetchAdminProjectVersions(params.id);
+    return NextResponse.json({ data: versions });
+  } catch (error) {
+    console.error("[api/admin/projects/:id/versions] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to load project versions."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { reorderFeaturedProjects } from "@/lib/server/admin/projectService";
+import type { AdminFeaturedOrderPayload } from "@/lib/types/admin";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type ValidationError = Error & { details?: string[] };
+
+const isProjectValidationError = (
+  error: unknown
+): error is ValidationError =>
+  error instanceof Error && error.name === "ProjectValidationError";
+
+export async function PUT(request: Request) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:publish"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as
+      | Partial<AdminFeaturedOrderPayload>
+      | null;
+    if (
+      !Array.isArray(body?.projectIds) ||
+      body.projectIds.some((id) => typeof id !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "projectIds must be a list of project ids" },
+        { status: 400 }
+      );
+    }
+    const order = await reorderFeaturedProjects(body.projectIds);
+    return NextResponse.json({ data: order });
+  } catch (error) {
+    console.error("[api/admin/projects/featured] error", error);
+    if (isProjectValidationError(error)) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to reorder featured projects."
+      },
+      { status: 500 }
+    );
+  }
+}
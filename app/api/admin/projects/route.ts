@@ -4,7 +4,8 @@ import {
   createAdminProject,
   fetchAdminProjects
 } from "@/lib/server/admin/projectService";
-import { getAdminSession } from "@/lib/auth/session";
+import type { AdminPermission } from "@/lib/auth/permissions";
+import { authorizeAdminRequest } from "@/lib/auth/session";
 
 const handleError = (error: unknown) => {
   console.error("[api/admin/projects] error", error);
@@ -19,17 +20,14 @@ const handleError = (error: unknown) => {
   );
 };
 
-const ensureAuthorized = async () => {
-  const session = await getAdminSession();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-  return null;
+const ensureAuthorized = async (permission: AdminPermission) => {
+  const { response } = await authorizeAdminRequest(permission);
+  return response;
 };
 
 export async function GET() {
   try {
-    const unauthorized = await ensureAuthorized();
+    const unauthorized = await ensureAuthorized("projects:read");
     if (unauthorized) {
       return unauthorized;
     }
@@ -42,11 +40,13 @@ export async function GET() {
 
 export async function POST() {
   try {
-    const unauthorized = await ensureAuthorized();
-    if (unauthorized) {
-      return unauthorized;
+    const { session, response } = await authorizeAdminRequest(
+      "projects:write"
+    );
+    if (!session) {
+      return response;
     }
-    const project = await createAdminProject();
+    const project = await createAdminProject(session.user.id);
     return NextResponse.json({ data: project }, { status: 201 });
   } catch (error) {
     return handleError(error);
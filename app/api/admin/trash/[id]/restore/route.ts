@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+
+import { restoreTrashedProject } from "@/lib/server/admin/projectService";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+type ValidationError = Error & { details?: string[] };
+
+const isProjectValidationError = (
+  error: unknown
+): error is ValidationError =>
+  error instanceof Error && error.name === "ProjectValidationError";
+
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:delete"
+    );
+    if (!session) {
+      return response;
+    }
+    const project = await restoreTrashedProject(params.id, session.user.id);
+    if (!project) {
+      return NextResponse.json(
+        { error: "No saved version to restore from" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: project });
+  } catch (error) {
+    console.error("[api/admin/trash/:id/restore] error", error);
+    if (isProjectValidationError(error)) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to restore project."
+      },
+      { status: 500 }
+    );
+  }
+}
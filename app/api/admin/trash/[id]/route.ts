@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { purgeTrashedProject } from "@/lib/server/admin/projectService";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:delete"
+    );
+    if (!session) {
+      return response;
+    }
+    const project = await purgeTrashedProject(params.id, session.user.id);
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found in trash" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: project });
+  } catch (error) {
+    console.error("[api/admin/trash/:id] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to purge project."
+      },
+      { status: 500 }
+    );
+  }
+}
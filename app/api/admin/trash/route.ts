@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { fetchTrashedProjects } from "@/lib/server/admin/projectService";
+import { authorizeAdminRequest } from "@/lib/auth/session";
+
+export async function GET() {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "projects:delete"
+    );
+    if (!session) {
+      return response;
+    }
+    const data = await fetchTrashedProjects();
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("[api/admin/trash] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to load the trash."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { resendAdminInvitation } from "@/lib/server/admin/userService";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest("users:manage");
+    if (!session) {
+      return response;
+    }
+    const result = await resendAdminInvitation(params.id, {
+      name: session.user.name || session.user.email || "A studio admin"
+    });
+    if (!result) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: result.user, emailSent: result.emailSent });
+  } catch (error) {
+    console.error("[api/admin/users/:id/invitation] error", error);
+    if (error instanceof Error && error.name === "UserValidationError") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to resend invitation."
+      },
+      { status: 500 }
+    );
+  }
+}
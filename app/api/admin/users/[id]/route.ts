@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import {
+  deleteAdminUser,
+  updateAdminUser
+} from "@/lib/server/admin/userService";
+import type { AdminUserUpdatePayload } from "@/lib/types/admin";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+const handleError = (error: unknown) => {
+  console.error("[api/admin/users/:id] error", error);
+  if (error instanceof Error && error.name === "UserValidationError") {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return NextResponse.json(
+    {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unable to process user request."
+    },
+    { status: 500 }
+  );
+};
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest("users:manage");
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json()) as AdminUserUpdatePayload;
+    const user = await updateAdminUser(
+      params.id,
+      { role: body?.role, status: body?.status },
+      session.user.id
+    );
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: user });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest("users:manage");
+    if (!session) {
+      return response;
+    }
+    const user = await deleteAdminUser(params.id);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data: user });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { fetchMentionableUsers } from "@/lib/server/admin/userService";
+
+export async function GET() {
+  try {
+    const { session, response } = await authorizeAdminRequest("projects:read");
+    if (!session) {
+      return response;
+    }
+    const data = await fetchMentionableUsers();
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("[api/admin/users/mentionable] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to load mentionable users."
+      },
+      { status: 500 }
+    );
+  }
+}
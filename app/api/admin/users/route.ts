@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import {
+  fetchAdminUsers,
+  inviteAdminUser
+} from "@/lib/server/admin/userService";
+import type { AdminUserInvitePayload } from "@/lib/types/admin";
+
+const handleError = (error: unknown) => {
+  console.error("[api/admin/users] error", error);
+  if (error instanceof Error && error.name === "UserValidationError") {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof Error && error.name === "UserConflictError") {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  return NextResponse.json(
+    {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unable to process admin users request."
+    },
+    { status: 500 }
+  );
+};
+
+export async function GET() {
+  try {
+    const { session, response } = await authorizeAdminRequest("users:manage");
+    if (!session) {
+      return response;
+    }
+    const data = await fetchAdminUsers();
+    return NextResponse.json({ data });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { session, response } = await authorizeAdminRequest("users:manage");
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json()) as Partial<AdminUserInvitePayload>;
+    if (!body?.email || !body.role) {
+      return NextResponse.json(
+        { error: "email and role are required" },
+        { status: 400 }
+      );
+    }
+    const { user, emailSent } = await inviteAdminUser(
+      { email: body.email, role: body.role, fullName: body.fullName },
+      {
+        id: session.user.id,
+        name: session.user.name || session.user.email || "A studio admin"
+      }
+    );
+    return NextResponse.json({ data: user, emailSent }, { status: 201 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
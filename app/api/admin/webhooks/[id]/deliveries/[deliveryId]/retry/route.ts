@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { retryWebhookDelivery } from "@/lib/server/admin/webhookService";
+
+type RouteParams = {
+  params: { id: string; deliveryId: string };
+};
+
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "webhooks:manage"
+    );
+    if (!session) {
+      return response;
+    }
+    const data = await retryWebhookDelivery(params.id, params.deliveryId);
+    if (!data) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(
+      "[api/admin/webhooks/:id/deliveries/:deliveryId/retry] error",
+      error
+    );
+    if (error instanceof Error && error.name === "WebhookValidationError") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to retry delivery."
+      },
+      { status: 500 }
+    );
+  }
+}
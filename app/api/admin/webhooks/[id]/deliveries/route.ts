@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { fetchWebhookDeliveries } from "@/lib/server/admin/webhookService";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "webhooks:manage"
+    );
+    if (!session) {
+      return response;
+    }
+    const data = await fetchWebhookDeliveries(params.id);
+    if (!data) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("[api/admin/webhooks/:id/deliveries] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to load webhook deliveries."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import {
+  deleteWebhook,
+  updateWebhook
+} from "@/lib/server/admin/webhookService";
+import type { AdminWebhookPayload } from "@/lib/types/admin";
+
+type RouteParams = {
+  params: { id: string };
+};
+
+const handleError = (error: unknown) => {
+  console.error("[api/admin/webhooks/:id] error", error);
+  if (error instanceof Error && error.name === "WebhookValidationError") {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return NextResponse.json(
+    {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unable to process webhook request."
+    },
+    { status: 500 }
+  );
+};
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "webhooks:manage"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as
+      | (Partial<AdminWebhookPayload> & { rotateSecret?: boolean })
+      | null;
+    const data = await updateWebhook(params.id, {
+      name: body?.name,
+      url: body?.url,
+      events: body?.events,
+      active: body?.active,
+      rotateSecret: body?.rotateSecret === true
+    });
+    if (!data) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "webhooks:manage"
+    );
+    if (!session) {
+      return response;
+    }
+    const data = await deleteWebhook(params.id);
+    if (!data) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+    return NextResponse.json({ data });
+  } catch (error) {
+    return handleError(error);
+  }
+}
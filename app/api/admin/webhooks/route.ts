@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+
+import { authorizeAdminRequest } from "@/lib/auth/session";
+import { createWebhook, fetchWebhooks } from "@/lib/server/admin/webhookService";
+import type { AdminWebhookPayload } from "@/lib/types/admin";
+
+const handleError = (error: unknown) => {
+  console.error("[api/admin/webhooks] error", error);
+  if (error instanceof Error && error.name === "WebhookValidationError") {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return NextResponse.json(
+    {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unable to process webhooks request."
+    },
+    { status: 500 }
+  );
+};
+
+export async function GET() {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "webhooks:manage"
+    );
+    if (!session) {
+      return response;
+    }
+    const data = await fetchWebhooks();
+    return NextResponse.json({ data });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { session, response } = await authorizeAdminRequest(
+      "webhooks:manage"
+    );
+    if (!session) {
+      return response;
+    }
+    const body = (await request.json().catch(() => null)) as
+      | Partial<AdminWebhookPayload>
+      | null;
+    const data = await createWebhook(
+      {
+        name: body?.name ?? "",
+        url: body?.url ?? "",
+        events: body?.events ?? [],
+        active: body?.active
+      },
+      session.user.id
+    );
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
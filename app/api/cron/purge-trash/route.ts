@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { isAuthorizedCronRequest } from "@/lib/auth/cron";
+import { purgeExpiredTrash } from "@/lib/server/admin/projectService";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  try {
+    const purged = await purgeExpiredTrash();
+    return NextResponse.json({ data: { purged } });
+  } catch (error) {
+    console.error("[api/cron/purge-trash] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to purge the trash."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+
+import { isAuthorizedCronRequest } from "@/lib/auth/cron";
+import { resyncPublishedProjects } from "@/lib/server/admin/projectService";
+
+export const dynamic = "force-dynamic";
+
+// A one-off deploy step rather than a schedule, hence POST. It runs in the
+// server so the rebuilt records also evict the cached public pages.
+export async function POST(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  try {
+    const result = await resyncPublishedProjects();
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error("[api/cron/resync-published-projects] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to resync published projects."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { isAuthorizedCronRequest } from "@/lib/auth/cron";
+import { runWebhookDeliveries } from "@/lib/server/admin/webhookService";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  try {
+    const results = await runWebhookDeliveries();
+    return NextResponse.json({ data: { results } });
+  } catch (error) {
+    console.error("[api/cron/webhooks] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to deliver webhooks."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import { Readable } from "node:stream";
 
 import { getR2Bucket, getR2Client } from "@/lib/server/r2";
+import { RATE_LIMIT_POLICIES, enforceRateLimit } from "@/lib/server/rateLimit";
 
 const toWebReadableStream = (body: unknown) => {
   if (!body) {
@@ -20,6 +21,11 @@ const toWebReadableStream = (body: unknown) => {
 };
 
 export async function GET(request: Request) {
+  const limited = await enforceRateLimit(request, RATE_LIMIT_POLICIES.media);
+  if (limited) {
+    return limited;
+  }
+
   const { searchParams } = new URL(request.url);
   const encodedKey = searchParams.get("key");
   const key = encodedKey ? decodeURIComponent(encodedKey) : null;
@@ -0,0 +1,13 @@
+import { cookies, draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+
+import { PREVIEW_TOKEN_COOKIE } from "@/lib/server/admin/previewService";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  draftMode().disable();
+  cookies().delete(PREVIEW_TOKEN_COOKIE);
+  const slug = new URL(request.url).searchParams.get("slug");
+  redirect(slug ? `/projects/${encodeURIComponent(slug)}` : "/");
+}
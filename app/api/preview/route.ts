@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { cookies, draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+
+import {
+  PREVIEW_TOKEN_COOKIE,
+  resolvePreviewToken
+} from "@/lib/server/admin/previewService";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get("token");
+  let preview: Awaited<ReturnType<typeof resolvePreviewToken>> = null;
+  try {
+    preview = await resolvePreviewToken(token);
+  } catch (error) {
+    console.error("[api/preview] error", error);
+    return NextResponse.json(
+      { error: "Unable to open the preview." },
+      { status: 500 }
+    );
+  }
+  if (!preview) {
+    return NextResponse.json(
+      { error: "This preview link is invalid or has expired." },
+      { status: 401 }
+    );
+  }
+
+  draftMode().enable();
+  cookies().set(PREVIEW_TOKEN_COOKIE, token ?? "", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: preview.expiresAt
+  });
+
+  // Redirecting drops the token from the address bar before anyone copies it.
+  redirect(`/projects/${preview.slug}`);
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { fetchPublishedCategories } from "@/lib/projects";
+import { RATE_LIMIT_POLICIES, enforceRateLimit } from "@/lib/server/rateLimit";
+
+export async function GET(request: Request) {
+  const limited = await enforceRateLimit(
+    request,
+    RATE_LIMIT_POLICIES.publicRead
+  );
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const categories = await fetchPublishedCategories();
+    return NextResponse.json({ data: categories });
+  } catch (error) {
+    console.error("[api/public/categories] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to load categories."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { Types } from "mongoose";
+import { NextResponse } from "next/server";
+
+import { submitInquiry } from "@/lib/server/admin/inquiryService";
+import { RATE_LIMIT_POLICIES, enforceRateLimit } from "@/lib/server/rateLimit";
+import { screenFormSubmission } from "@/lib/server/spamGuard";
+import type { InquiryFormPayload } from "@/lib/types/inquiries";
+
+type InquiryValidationError = Error & { fields?: Record<string, string> };
+
+const isInquiryValidationError = (
+  error: unknown
+): error is InquiryValidationError =>
+  error instanceof Error && error.name === "InquiryValidationError";
+
+export async function POST(request: Request) {
+  const limited = await enforceRateLimit(request, RATE_LIMIT_POLICIES.inquiry);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const body = (await request.json().catch(() => null)) as
+      | Partial<InquiryFormPayload>
+      | null;
+    const { website, formToken, challengeToken, ...submission } = body ?? {};
+    const screening = await screenFormSubmission(request, {
+      honeypot: website,
+      formToken,
+      challengeToken
+    });
+    if (!screening.ok) {
+      console.warn("[api/public/inquiries] rejected", screening.reason);
+      if (screening.silent) {
+        // Same shape as a real submission so the bot cannot tell.
+        return NextResponse.json(
+          { data: { id: new Types.ObjectId().toString() } },
+          { status: 201 }
+        );
+      }
+      return NextResponse.json({ error: screening.reason }, { status: 400 });
+    }
+
+    const inquiry = await submitInquiry(submission);
+    return NextResponse.json({ data: inquiry }, { status: 201 });
+  } catch (error) {
+    if (isInquiryValidationError(error)) {
+      return NextResponse.json(
+        { error: error.message, fields: error.fields },
+        { status: 400 }
+      );
+    }
+    console.error("[api/public/inquiries] error", error);
+    return NextResponse.json(
+      { error: "Unable to send your inquiry. Please try again later." },
+      { status: 500 }
+    );
+  }
+}
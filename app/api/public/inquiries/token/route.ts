@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+
+import { RATE_LIMIT_POLICIES, enforceRateLimit } from "@/lib/server/rateLimit";
+import { issueFormToken } from "@/lib/server/spamGuard";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const limited = await enforceRateLimit(
+    request,
+    RATE_LIMIT_POLICIES.publicRead
+  );
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    return NextResponse.json(
+      { data: { token: issueFormToken() } },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("[api/public/inquiries/token] error", error);
+    return NextResponse.json(
+      { error: "Unable to prepare the contact form." },
+      { status: 500 }
+    );
+  }
+}
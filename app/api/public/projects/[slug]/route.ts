@@ -1,15 +1,34 @@
 import { NextResponse } from "next/server";
 
-import { fetchPublishedProjectBySlug } from "@/lib/projects";
+import {
+  fetchCurrentSlugForRetiredSlug,
+  fetchPublishedProjectBySlug
+} from "@/lib/projects";
+import { RATE_LIMIT_POLICIES, enforceRateLimit } from "@/lib/server/rateLimit";
 
 type RouteParams = {
   params: { slug: string };
 };
 
-export async function GET(_request: Request, { params }: RouteParams) {
+export async function GET(request: Request, { params }: RouteParams) {
+  const limited = await enforceRateLimit(
+    request,
+    RATE_LIMIT_POLICIES.publicRead
+  );
+  if (limited) {
+    return limited;
+  }
+
   try {
     const project = await fetchPublishedProjectBySlug(params.slug);
     if (!project) {
+      const currentSlug = await fetchCurrentSlugForRetiredSlug(params.slug);
+      if (currentSlug) {
+        return NextResponse.redirect(
+          new URL(`/api/public/projects/${currentSlug}`, request.url),
+          308
+        );
+      }
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
     return NextResponse.json({ data: project });
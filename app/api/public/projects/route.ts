@@ -1,15 +1,68 @@
 import { NextResponse } from "next/server";
 
-import { fetchPublishedProjects } from "@/lib/projects";
+import { fetchPublishedProjectPage } from "@/lib/projects";
+import { RATE_LIMIT_POLICIES, enforceRateLimit } from "@/lib/server/rateLimit";
+import type { ProjectSort } from "@/lib/types/projects";
 
-export const dynamic = 'force-dynamic';
-export const revalidate = 0;
+const parseOptionalInt = (value: string | null) => {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+};
+
+export async function GET(request: Request) {
+  const limited = await enforceRateLimit(
+    request,
+    RATE_LIMIT_POLICIES.publicRead
+  );
+  if (limited) {
+    return limited;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const yearFrom = parseOptionalInt(searchParams.get("yearFrom"));
+  const yearTo = parseOptionalInt(searchParams.get("yearTo"));
+  const limit = parseOptionalInt(searchParams.get("limit"));
+  if ([yearFrom, yearTo, limit].some((value) => Number.isNaN(value))) {
+    return NextResponse.json(
+      { error: "yearFrom, yearTo and limit must be whole numbers." },
+      { status: 400 }
+    );
+  }
+
+  // Callers from before pagination send neither and get every project, as
+  // they always did; `limit` or `cursor` opts into pages.
+  const cursor = searchParams.get("cursor") ?? undefined;
+  const all = limit === undefined && cursor === undefined;
 
-export async function GET() {
   try {
-    const projects = await fetchPublishedProjects();
-    return NextResponse.json({ data: projects });
+    const page = await fetchPublishedProjectPage({
+      category: searchParams.get("category") ?? undefined,
+      categoryId: searchParams.get("categoryId") ?? undefined,
+      service: searchParams.get("service") ?? undefined,
+      location: searchParams.get("location") ?? undefined,
+      yearFrom,
+      yearTo,
+      sort: (searchParams.get("sort") ?? undefined) as ProjectSort | undefined,
+      cursor,
+      limit,
+      all
+    });
+    // `data` stays the list of projects so existing consumers keep working.
+    return NextResponse.json({
+      data: page.items,
+      meta: {
+        nextCursor: page.nextCursor,
+        total: page.total,
+        facets: page.facets
+      }
+    });
   } catch (error) {
+    if (error instanceof Error && error.name === "ProjectQueryError") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("[api/public/projects] error", error);
     return NextResponse.json(
       {
@@ -22,5 +75,3 @@ export async function GET() {
     );
   }
 }
-
-
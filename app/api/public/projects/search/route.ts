@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { searchPublishedProjects } from "@/lib/projects";
+import { RATE_LIMIT_POLICIES, enforceRateLimit } from "@/lib/server/rateLimit";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 20;
+const MAX_QUERY_LENGTH = 200;
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const limited = await enforceRateLimit(
+    request,
+    RATE_LIMIT_POLICIES.publicSearch
+  );
+  if (limited) {
+    return limited;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = (searchParams.get("q") ?? "").trim().slice(0, MAX_QUERY_LENGTH);
+  const requestedLimit = Number.parseInt(searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(requestedLimit)
+    ? Math.min(Math.max(requestedLimit, 1), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  try {
+    const results = await searchPublishedProjects(query, limit);
+    return NextResponse.json({ data: { query, results } });
+  } catch (error) {
+    console.error("[api/public/projects/search] error", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to search projects."
+      },
+      { status: 500 }
+    );
+  }
+}
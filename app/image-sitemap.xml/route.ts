@@ -0,0 +1,66 @@
+import { fetchPublishedProjects } from "@/lib/projects";
+import { getSiteUrl } from "@/lib/server/email";
+import type { ImageSource } from "@/lib/types/projects";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const toAbsoluteUrl = (siteUrl: string, image: ImageSource) => {
+  const src = typeof image === "string" ? image : image.src;
+  if (!src) {
+    return null;
+  }
+  return src.startsWith("/") ? `${siteUrl}${src}` : src;
+};
+
+/**
+ * Image sitemap (https://developers.google.com/search/docs/crawling-indexing/sitemaps/image-sitemaps)
+ * listing the hero and gallery images of every published project against
+ * the project page they appear on.
+ */
+export async function GET() {
+  const siteUrl = getSiteUrl();
+  const projects = await fetchPublishedProjects();
+
+  const entries = projects.map((project) => {
+    const images = [
+      project.heroImage,
+      ...project.gallery.map((item) => item.image)
+    ]
+      .map((image) => toAbsoluteUrl(siteUrl, image))
+      .filter((url): url is string => Boolean(url));
+    const imageTags = Array.from(new Set(images))
+      .map(
+        (url) =>
+          `    <image:image>\n      <image:loc>${escapeXml(url)}</image:loc>\n    </image:image>`
+      )
+      .join("\n");
+    return [
+      "  <url>",
+      `    <loc>${escapeXml(`${siteUrl}/projects/${project.slug}`)}</loc>`,
+      imageTags,
+      "  </url>"
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...entries,
+    "</urlset>",
+    ""
+  ].join("\n");
+
+  return new Response(xml, {
+    headers: {
+      "Content-Type": "application/xml"
+    }
+  });
+}
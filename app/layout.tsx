@@ -3,6 +3,7 @@ import { Inter, Archivo } from "next/font/google";
 import "./globals.css";
 
 import SessionProvider from "@/components/providers/SessionProvider";
+import { getSiteUrl } from "@/lib/server/email";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -18,6 +19,8 @@ const archivo = Archivo({
 });
 
 export const metadata: Metadata = {
+  // Absolute URLs for generated Open Graph images resolve against this.
+  metadataBase: new URL(getSiteUrl()),
   title: "MOR Architecture — Architecture Studio",
   description:
     "A contemporary architecture studio portfolio showcasing crafted spaces, projects, and contact information."
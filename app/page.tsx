@@ -4,18 +4,27 @@ import Hero from "@/components/sections/Hero";
 import ProjectsSection from "@/components/sections/ProjectsSection";
 import AboutSection from "@/components/sections/AboutSection";
 import ContactSection from "@/components/sections/ContactSection";
-import { fetchPublishedProjects } from "@/lib/projects";
+import {
+  fetchFeaturedProjects,
+  fetchPublishedProjectPage
+} from "@/lib/projects";
 
-export const dynamic = 'force-dynamic';
+const PROJECTS_PAGE_SIZE = 6;
 
 const HomePage = async () => {
-  const projects = await fetchPublishedProjects();
+  const [featured, projectsPage] = await Promise.all([
+    fetchFeaturedProjects(),
+    fetchPublishedProjectPage({ limit: PROJECTS_PAGE_SIZE })
+  ]);
   return (
     <>
       <Navbar />
       <main className="flex min-h-screen flex-col">
-        <Hero />
-        <ProjectsSection projects={projects} />
+        <Hero featured={featured} />
+        <ProjectsSection
+          initialPage={projectsPage}
+          pageSize={PROJECTS_PAGE_SIZE}
+        />
         <AboutSection />
         <ContactSection />
       </main>
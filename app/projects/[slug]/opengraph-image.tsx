@@ -0,0 +1,198 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { ImageResponse } from "next/og";
+
+import { fetchProjectOgImageSource } from "@/lib/projects";
+import { readMediaObject } from "@/lib/server/mediaService";
+import type { ProjectOgImageSource } from "@/lib/types/projects";
+
+const alt = "MOR Architecture project";
+const size = { width: 1200, height: 630 };
+
+// Satori can only decode these; other hero formats get a text-only card.
+const EMBEDDABLE_CONTENT_TYPES = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/gif"
+]);
+
+// Satori reads WOFF but not WOFF2; the file ships in the repo (OFL, see
+// assets/fonts/Archivo-OFL.txt) so renders never wait on a font download.
+const ARCHIVO_PATH = join(
+  process.cwd(),
+  "assets/fonts/archivo-latin-500-normal.woff"
+);
+
+type OpenGraphImageProps = {
+  params: {
+    slug: string;
+  };
+};
+
+/**
+ * The image URL carries the project's publish version as its id, so a
+ * republished project gets a new URL rather than a card cached under the
+ * old one. Projects with an uploaded Open Graph image set it in the page's
+ * generateMetadata instead, which takes precedence over this file.
+ */
+export async function generateImageMetadata({
+  params
+}: OpenGraphImageProps) {
+  const source = await fetchProjectOgImageSource(params.slug);
+  return [
+    {
+      id: source?.version ?? "default",
+      alt: source ? `${source.title} — MOR Architecture` : alt,
+      size,
+      contentType: "image/png"
+    }
+  ];
+}
+
+// Archivo is the studio's display face (see app/layout.tsx). Read once per
+// server process; a missing file falls back to the default font.
+let archivoFont: Promise<ArrayBuffer | null> | null = null;
+
+const loadArchivo = () => {
+  archivoFont ??= readFile(ARCHIVO_PATH)
+    .then((file) =>
+      file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength)
+    )
+    .catch((error) => {
+      console.warn("[og-image] Falling back to the default font", error);
+      return null;
+    });
+  return archivoFont;
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Emulates `object-fit: cover` around the hero's focal point by sizing and
+ * offsetting the image against the card, since Satori has no
+ * `object-position`. Without stored dimensions the image is centred.
+ */
+const coverStyle = (hero: ProjectOgImageSource["hero"]) => {
+  if (!hero.width || !hero.height) {
+    return {
+      width: size.width,
+      height: size.height,
+      objectFit: "cover" as const
+    };
+  }
+  const scale = Math.max(size.width / hero.width, size.height / hero.height);
+  const width = hero.width * scale;
+  const height = hero.height * scale;
+  const focalX = hero.focalPoint?.x ?? 0.5;
+  const focalY = hero.focalPoint?.y ?? 0.5;
+  return {
+    width,
+    height,
+    left: clamp(size.width / 2 - focalX * width, size.width - width, 0),
+    top: clamp(size.height / 2 - focalY * height, size.height - height, 0)
+  };
+};
+
+const loadHeroDataUrl = async (src: string) => {
+  try {
+    const object = await readMediaObject(src);
+    if (!object || !EMBEDDABLE_CONTENT_TYPES.has(object.contentType)) {
+      return null;
+    }
+    const base64 = Buffer.from(object.body).toString("base64");
+    return `data:${object.contentType};base64,${base64}`;
+  } catch (error) {
+    console.error("[og-image] Failed to load hero image", error);
+    return null;
+  }
+};
+
+export default async function OpenGraphImage({ params }: OpenGraphImageProps) {
+  const source = await fetchProjectOgImageSource(params.slug);
+  const [heroDataUrl, archivo] = await Promise.all([
+    source ? loadHeroDataUrl(source.hero.src) : null,
+    loadArchivo()
+  ]);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          position: "relative",
+          backgroundColor: "#111111",
+          fontFamily: archivo ? "Archivo" : undefined
+        }}
+      >
+        {heroDataUrl && source ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={heroDataUrl}
+            alt=""
+            style={{ position: "absolute", ...coverStyle(source.hero) }}
+          />
+        ) : null}
+        <div
+          style={{
+            position: "absolute",
+            left: 0,
+            top: 0,
+            width: "100%",
+            height: "100%",
+            backgroundImage:
+              "linear-gradient(to top, rgba(17, 17, 17, 0.88), rgba(17, 17, 17, 0) 65%)"
+          }}
+        />
+        <div
+          style={{
+            position: "absolute",
+            left: 72,
+            right: 72,
+            bottom: 64,
+            display: "flex",
+            flexDirection: "column",
+            color: "#FFFFFF",
+            textTransform: "uppercase"
+          }}
+        >
+          <div
+            style={{ fontSize: 22, letterSpacing: "0.28em", color: "#C8B080" }}
+          >
+            MOR Architecture
+          </div>
+          <div
+            style={{
+              marginTop: 20,
+              fontSize: 72,
+              lineHeight: 1.05,
+              letterSpacing: "-0.04em"
+            }}
+          >
+            {source?.title ?? "Projects"}
+          </div>
+          {source ? (
+            <div
+              style={{
+                marginTop: 24,
+                fontSize: 24,
+                letterSpacing: "0.24em",
+                color: "#E0E0E0"
+              }}
+            >
+              {[source.location, source.year].filter(Boolean).join(" — ")}
+            </div>
+          ) : null}
+        </div>
+      </div>
+    ),
+    {
+      ...size,
+      fonts: archivo
+        ? [{ name: "Archivo", data: archivo, weight: 500, style: "normal" }]
+        : undefined
+    }
+  );
+}
@@ -1,11 +1,14 @@
-import { notFound } from "next/navigation";
+import { notFound, permanentRedirect } from "next/navigation";
 import type { Metadata } from "next";
 
 import ProjectDetail from "@/components/projects/ProjectDetail";
 import {
-  fetchPublishedProjectBySlug,
+  fetchCurrentSlugForRetiredSlug,
+  fetchProjectBySlugForRequest,
+  fetchProjectOgImageSource,
   fetchPublishedProjectSlugs
 } from "@/lib/projects";
+import { getSiteUrl } from "@/lib/server/email";
 
 type ProjectPageProps = {
   params: {
@@ -14,14 +17,17 @@ type ProjectPageProps = {
 };
 
 export async function generateStaticParams() {
-  const slugs = await fetchPublishedProjectSlugs();
-  return slugs.map((slug) => ({ slug }));
+  const entries = await fetchPublishedProjectSlugs();
+  return entries.map(({ slug }) => ({ slug }));
 }
 
 export async function generateMetadata({
   params
 }: ProjectPageProps): Promise<Metadata> {
-  const project = await fetchPublishedProjectBySlug(params.slug);
+  const [{ project, isDraft }, ogSource] = await Promise.all([
+    fetchProjectBySlugForRequest(params.slug),
+    fetchProjectOgImageSource(params.slug)
+  ]);
 
   if (!project) {
     return {
@@ -29,20 +35,67 @@ export async function generateMetadata({
     };
   }
 
+  const title =
+    project.seo?.metaTitle || `${project.title} — MOR Architecture`;
+  const description = project.seo?.metaDescription || project.excerpt;
+
+  // An uploaded image replaces the generated one from opengraph-image.tsx,
+  // with its own type and dimensions.
+  const ogAsset = ogSource?.ogAsset;
+  const uploadedImages = ogAsset
+    ? [
+        {
+          url: ogAsset.url,
+          width: ogAsset.width,
+          height: ogAsset.height,
+          ...(ogAsset.contentType ? { type: ogAsset.contentType } : {}),
+          alt: title
+        }
+      ]
+    : null;
+
   return {
-    title: `${project.title} — MOR Architecture`,
-    description: project.excerpt
+    title,
+    description,
+    alternates: { canonical: `/projects/${project.slug}` },
+    // Without `images` here, opengraph-image.tsx in this folder supplies them;
+    // setting the key at all, even to undefined, would switch that off.
+    openGraph: {
+      type: "article",
+      title,
+      description,
+      siteName: "MOR Architecture",
+      ...(uploadedImages ? { images: uploadedImages } : {})
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      ...(uploadedImages ? { images: uploadedImages } : {})
+    },
+    ...(isDraft ? { robots: { index: false, follow: false } } : {})
   };
 }
 
 const ProjectPage = async ({ params }: ProjectPageProps) => {
-  const project = await fetchPublishedProjectBySlug(params.slug);
+  const { project, isDraft } = await fetchProjectBySlugForRequest(params.slug);
 
   if (!project) {
+    // Links to a renamed project keep working via a 308 to the current slug.
+    const currentSlug = await fetchCurrentSlugForRetiredSlug(params.slug);
+    if (currentSlug) {
+      permanentRedirect(`/projects/${currentSlug}`);
+    }
     notFound();
   }
 
-  return <ProjectDetail project={project} />;
+  return (
+    <ProjectDetail
+      project={project}
+      isDraftPreview={isDraft}
+      url={`${getSiteUrl()}/projects/${project.slug}`}
+    />
+  );
 };
 
 export default ProjectPage;
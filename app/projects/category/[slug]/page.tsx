@@ -0,0 +1,64 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+
+import CategoryProjects from "@/components/projects/CategoryProjects";
+import {
+  fetchPublishedCategories,
+  fetchPublishedCategoryBySlug,
+  fetchPublishedProjectPage
+} from "@/lib/projects";
+
+const CATEGORY_PAGE_SIZE = 9;
+
+type CategoryPageProps = {
+  params: {
+    slug: string;
+  };
+};
+
+export async function generateStaticParams() {
+  const categories = await fetchPublishedCategories();
+  return categories.map((category) => ({ slug: category.slug }));
+}
+
+export async function generateMetadata({
+  params
+}: CategoryPageProps): Promise<Metadata> {
+  const category = await fetchPublishedCategoryBySlug(params.slug);
+
+  if (!category) {
+    return {
+      title: "Projects — MOR Architecture"
+    };
+  }
+
+  return {
+    title: `${category.name} projects — MOR Architecture`,
+    description:
+      category.description ||
+      `${category.name} projects by MOR Architecture Studio.`
+  };
+}
+
+const CategoryPage = async ({ params }: CategoryPageProps) => {
+  const category = await fetchPublishedCategoryBySlug(params.slug);
+
+  if (!category) {
+    notFound();
+  }
+
+  const initialPage = await fetchPublishedProjectPage({
+    categoryId: category.id,
+    limit: CATEGORY_PAGE_SIZE
+  });
+
+  return (
+    <CategoryProjects
+      category={category}
+      initialPage={initialPage}
+      pageSize={CATEGORY_PAGE_SIZE}
+    />
+  );
+};
+
+export default CategoryPage;
@@ -0,0 +1,16 @@
+import type { MetadataRoute } from "next";
+
+import { getSiteUrl } from "@/lib/server/email";
+
+export default function robots(): MetadataRoute.Robots {
+  const siteUrl = getSiteUrl();
+  return {
+    rules: {
+      userAgent: "*",
+      allow: ["/", "/api/media"],
+      disallow: ["/admin", "/api/"]
+    },
+    sitemap: [`${siteUrl}/sitemap.xml`, `${siteUrl}/image-sitemap.xml`],
+    host: siteUrl
+  };
+}
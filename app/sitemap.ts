@@ -0,0 +1,42 @@
+import type { MetadataRoute } from "next";
+
+import {
+  fetchPublishedCategories,
+  fetchPublishedProjectSlugs
+} from "@/lib/projects";
+import { getSiteUrl } from "@/lib/server/email";
+
+// Gallery images are listed separately in /image-sitemap.xml because this
+// version of Next.js cannot write image entries from sitemap.ts.
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const siteUrl = getSiteUrl();
+  const [projects, categories] = await Promise.all([
+    fetchPublishedProjectSlugs(),
+    fetchPublishedCategories()
+  ]);
+  const lastSyncedAt = projects.reduce<string | undefined>(
+    (latest, project) =>
+      !latest || project.syncedAt > latest ? project.syncedAt : latest,
+    undefined
+  );
+
+  return [
+    {
+      url: siteUrl,
+      lastModified: lastSyncedAt,
+      changeFrequency: "weekly",
+      priority: 1
+    },
+    ...categories.map((category) => ({
+      url: `${siteUrl}/projects/category/${category.slug}`,
+      changeFrequency: "weekly" as const,
+      priority: 0.6
+    })),
+    ...projects.map((project) => ({
+      url: `${siteUrl}/projects/${project.slug}`,
+      lastModified: project.syncedAt,
+      changeFrequency: "monthly" as const,
+      priority: 0.8
+    }))
+  ];
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import Link from "next/link";
+import Image from "next/image";
+import { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+
+import type { ProjectSearchResult } from "@/lib/types/projects";
+import type { TextSegment } from "@/lib/utils/text";
+
+const SEARCH_DEBOUNCE_MS = 200;
+const SEARCH_MIN_LENGTH = 2;
+
+type SearchOverlayProps = {
+  open: boolean;
+  onClose: () => void;
+};
+
+const Highlighted = ({ segments }: { segments: TextSegment[] }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.highlight ? (
+        <mark key={index} className="bg-brand-secondary/60 text-text">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </>
+);
+
+const SearchOverlay = ({ open, onClose }: SearchOverlayProps) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ProjectSearchResult[]>([]);
+  const [status, setStatus] = useState<"idle" | "loading" | "error">("idle");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    inputRef.current?.focus();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onClose]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < SEARCH_MIN_LENGTH) {
+      setResults([]);
+      setStatus("idle");
+      return;
+    }
+
+    // Aborting keeps a slow response for an older query from replacing the
+    // results of the one currently typed.
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => {
+      setStatus("loading");
+      fetch(`/api/public/projects/search?q=${encodeURIComponent(trimmed)}`, {
+        signal: controller.signal
+      })
+        .then((response) => {
+          if (!response.ok) {
+            throw new Error(response.statusText);
+          }
+          return response.json();
+        })
+        .then((payload: { data: { results: ProjectSearchResult[] } }) => {
+          setResults(payload.data.results);
+          setStatus("idle");
+        })
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          console.error("[search] error", error);
+          setStatus("error");
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  const handleClose = () => {
+    setQuery("");
+    onClose();
+  };
+
+  const hasQuery = query.trim().length >= SEARCH_MIN_LENGTH;
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          key="search-overlay"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.25, ease: [0.25, 0.1, 0.25, 1] }}
+          className="fixed inset-0 z-[60] flex justify-center bg-background/90 px-4 pt-24 backdrop-blur-xl"
+          onMouseDown={(event) => {
+            if (event.target === event.currentTarget) {
+              handleClose();
+            }
+          }}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Search projects"
+        >
+          <motion.div
+            initial={{ y: -16 }}
+            animate={{ y: 0 }}
+            exit={{ y: -16 }}
+            transition={{ duration: 0.3, ease: [0.25, 0.1, 0.25, 1] }}
+            className="flex w-full max-w-2xl flex-col"
+          >
+            <div className="flex items-center gap-4 border-b border-text pb-3">
+              <input
+                ref={inputRef}
+                type="search"
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                placeholder="Search projects, places, categories"
+                className="w-full bg-transparent text-2xl font-medium uppercase tracking-[0.08em] text-text placeholder:text-text-muted/60 focus:outline-none md:text-3xl"
+                aria-label="Search projects"
+              />
+              <button
+                type="button"
+                onClick={handleClose}
+                className="font-condensed text-[0.7rem] uppercase tracking-[0.24em] text-text-muted transition hover:text-text"
+              >
+                Close
+              </button>
+            </div>
+
+            <div className="mt-6 max-h-[65vh] overflow-y-auto">
+              {status === "error" ? (
+                <p className="font-condensed text-[0.7rem] uppercase tracking-[0.24em] text-red-600">
+                  Search is unavailable right now.
+                </p>
+              ) : hasQuery && status === "idle" && !results.length ? (
+                <p className="font-condensed text-[0.7rem] uppercase tracking-[0.24em] text-text-muted">
+                  No projects match “{query.trim()}”.
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {results.map((result) => (
+                    <li key={result.slug}>
+                      <Link
+                        href={`/projects/${result.slug}`}
+                        onClick={handleClose}
+                        className="group flex gap-4 rounded-2xl border border-transparent p-2 transition hover:border-brand-secondary/70 hover:bg-white/70"
+                      >
+                        <div className="relative aspect-[3/4] w-16 shrink-0 overflow-hidden border border-brand-secondary/70">
+                          {result.heroImage ? (
+                            <Image
+                              src={result.heroImage}
+                              alt={result.title}
+                              fill
+                              sizes="64px"
+                              className="object-cover"
+                            />
+                          ) : null}
+                        </div>
+                        <div className="min-w-0 space-y-1">
+                          <p className="text-base font-medium uppercase tracking-[0.12em] text-text">
+                            <Highlighted segments={result.titleSegments} />
+                          </p>
+                          <p className="font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+                            {result.category} — {result.location} — {result.year}
+                          </p>
+                          <p className="line-clamp-2 text-sm text-text-muted">
+                            <Highlighted segments={result.snippet} />
+                          </p>
+                        </div>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SearchOverlay;
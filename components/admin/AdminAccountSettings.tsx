@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import AdminNavBar from "@/components/admin/AdminNavBar";
+import Container from "@/components/Container";
+import { hasPermission, type AdminRole } from "@/lib/auth/permissions";
+import type {
+  AdminNotificationEvent,
+  AdminNotificationPreferences
+} from "@/lib/types/admin";
+
+type Notice = {
+  variant: "success" | "error";
+  message: string;
+};
+
+async function requestJson<T>(url: string, options: RequestInit = {}) {
+  const response = await fetch(url, {
+    cache: "no-store",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.headers ?? {})
+    }
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error ?? response.statusText);
+  }
+  return payload as T;
+}
+
+const NOTIFICATION_OPTIONS: Array<{
+  event: AdminNotificationEvent;
+  label: string;
+  description: string;
+}> = [
+  {
+    event: "published",
+    label: "Project published",
+    description: "A project goes live, by hand, on schedule or after review."
+  },
+  {
+    event: "unpublished",
+    label: "Project unpublished",
+    description: "A live project is taken offline."
+  },
+  {
+    event: "deleted",
+    label: "Project deleted",
+    description: "A project is moved to the trash."
+  },
+  {
+    event: "reviewRequested",
+    label: "Review requested",
+    description: "An editor submits a project for sign-off."
+  },
+  {
+    event: "mentioned",
+    label: "Mentions",
+    description: "Someone @mentions you in a review comment."
+  }
+];
+
+type AdminAccountSettingsProps = {
+  role: AdminRole;
+};
+
+const AdminAccountSettings = ({ role }: AdminAccountSettingsProps) => {
+  const [preferences, setPreferences] =
+    useState<AdminNotificationPreferences | null>(null);
+  const [savingEvent, setSavingEvent] = useState<AdminNotificationEvent | null>(
+    null
+  );
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  useEffect(() => {
+    requestJson<{ data: AdminNotificationPreferences }>(
+      "/api/admin/account/notifications"
+    )
+      .then(({ data }) => setPreferences(data))
+      .catch((error) => {
+        setNotice({
+          variant: "error",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Unable to load notification preferences."
+        });
+      });
+  }, []);
+
+  const handleToggle = async (event: AdminNotificationEvent) => {
+    if (!preferences) return;
+    setSavingEvent(event);
+    setNotice(null);
+    try {
+      const { data } = await requestJson<{ data: AdminNotificationPreferences }>(
+        "/api/admin/account/notifications",
+        {
+          method: "PUT",
+          body: JSON.stringify({ [event]: !preferences[event] })
+        }
+      );
+      setPreferences(data);
+      setNotice({ variant: "success", message: "Preferences saved." });
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message:
+          error instanceof Error ? error.message : "Unable to save preferences."
+      });
+    } finally {
+      setSavingEvent(null);
+    }
+  };
+
+  // Only people who can publish are asked to review.
+  const options = NOTIFICATION_OPTIONS.filter(
+    (option) =>
+      option.event !== "reviewRequested" ||
+      hasPermission(role, "projects:publish")
+  );
+
+  return (
+    <div className="relative min-h-screen bg-background text-text">
+      <AdminNavBar role={role} />
+      <main className="pt-32 pb-24">
+        <section className="py-12">
+          <Container className="max-w-[min(92vw,78rem)] space-y-10">
+            <div className="rounded-[40px] border border-brand-secondary/70 bg-white/90 px-8 py-14 shadow-sm backdrop-blur">
+              <div className="flex flex-wrap items-center gap-4 font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+                <span className="rounded-full border border-brand-secondary px-4 py-1">
+                  Account
+                </span>
+              </div>
+              <h1 className="mt-8 text-4xl font-medium uppercase tracking-tightest md:text-[3rem]">
+                Email notifications
+              </h1>
+              <p className="mt-5 max-w-2xl text-lg text-text-muted">
+                Choose which studio events reach your inbox. You are never
+                emailed about your own changes.
+              </p>
+            </div>
+
+            {notice ? (
+              <p
+                className={`rounded-2xl border px-4 py-3 text-sm ${
+                  notice.variant === "success"
+                    ? "border-green-300 bg-green-50 text-green-700"
+                    : "border-red-200 bg-red-50 text-red-600"
+                }`}
+              >
+                {notice.message}
+              </p>
+            ) : null}
+
+            <div className="space-y-3 rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+              {!preferences ? (
+                <p className="text-sm text-text-muted">Loading preferences…</p>
+              ) : (
+                options.map((option) => {
+                  const enabled = preferences[option.event];
+                  return (
+                    <div
+                      key={option.event}
+                      className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-brand-secondary/60 px-4 py-3"
+                    >
+                      <div className="space-y-1">
+                        <p className="text-sm font-semibold uppercase tracking-[0.12em]">
+                          {option.label}
+                        </p>
+                        <p className="text-[0.75rem] text-text-muted">
+                          {option.description}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        role="switch"
+                        aria-checked={enabled}
+                        disabled={savingEvent !== null}
+                        onClick={() => {
+                          void handleToggle(option.event);
+                        }}
+                        className={`rounded-full border px-4 py-1 text-xs uppercase tracking-[0.28em] transition disabled:opacity-30 ${
+                          enabled
+                            ? "border-text bg-text text-white"
+                            : "border-brand-secondary text-text-muted hover:border-text"
+                        }`}
+                      >
+                        {enabled ? "On" : "Off"}
+                      </button>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </Container>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default AdminAccountSettings;
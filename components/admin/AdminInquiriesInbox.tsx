@@ -0,0 +1,511 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+
+import AdminNavBar from "@/components/admin/AdminNavBar";
+import Container from "@/components/Container";
+import { hasPermission, type AdminRole } from "@/lib/auth/permissions";
+import type {
+  AdminInquiry,
+  AdminInquiryList,
+  AdminInquiryStatus,
+  AdminInquiryUpdatePayload,
+  AdminInquiryView,
+  AdminProjectResponse
+} from "@/lib/types/admin";
+
+type Notice = {
+  variant: "success" | "error";
+  message: string;
+};
+
+type ProjectOption = {
+  id: string;
+  title: string;
+};
+
+const STATUS_LABELS: Record<AdminInquiryStatus, string> = {
+  new: "New",
+  read: "Read",
+  replied: "Replied"
+};
+
+const STATUS_STYLES: Record<AdminInquiryStatus, string> = {
+  new: "border-orange-400 text-orange-600",
+  read: "border-brand-secondary text-text-muted",
+  replied: "border-brand-accent text-text"
+};
+
+async function requestJson<T>(url: string, options: RequestInit = {}) {
+  const response = await fetch(url, {
+    cache: "no-store",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.headers ?? {})
+    }
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error ?? response.statusText);
+  }
+  return payload as T;
+}
+
+const formatDate = (value?: string) =>
+  value
+    ? new Intl.DateTimeFormat("en", {
+        dateStyle: "medium",
+        timeStyle: "short"
+      }).format(new Date(value))
+    : "—";
+
+type AdminInquiriesInboxProps = {
+  role: AdminRole;
+};
+
+const AdminInquiriesInbox = ({ role }: AdminInquiriesInboxProps) => {
+  const [view, setView] = useState<AdminInquiryView>("inbox");
+  const [inquiries, setInquiries] = useState<AdminInquiry[]>([]);
+  const [counts, setCounts] = useState<AdminInquiryList["counts"]>({
+    new: 0,
+    inbox: 0,
+    archived: 0
+  });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [noteDraft, setNoteDraft] = useState("");
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  const loadInquiries = useCallback(async (nextView: AdminInquiryView) => {
+    setIsLoading(true);
+    try {
+      const { data } = await requestJson<{ data: AdminInquiryList }>(
+        `/api/admin/inquiries?view=${nextView}`
+      );
+      setInquiries(data.inquiries);
+      setCounts(data.counts);
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message:
+          error instanceof Error ? error.message : "Unable to load inquiries."
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadInquiries(view);
+  }, [loadInquiries, view]);
+
+  // The project picker is optional; without projects:read it stays empty.
+  useEffect(() => {
+    if (!hasPermission(role, "projects:read")) return;
+    requestJson<{ data: AdminProjectResponse[] }>("/api/admin/projects")
+      .then(({ data }) =>
+        setProjects(
+          data
+            .map((project) => ({
+              id: project.id,
+              title: project.title || "Untitled project"
+            }))
+            .sort((a, b) => a.title.localeCompare(b.title))
+        )
+      )
+      .catch(() => setProjects([]));
+  }, [role]);
+
+  const selected =
+    inquiries.find((inquiry) => inquiry.id === selectedId) ?? null;
+
+  const replaceInquiry = (updated: AdminInquiry) => {
+    const previous = inquiries.find((item) => item.id === updated.id);
+    const wasNew = previous?.status === "new" && !previous.archived;
+    const isNew = updated.status === "new" && !updated.archived;
+    if (previous && previous.archived !== updated.archived) {
+      // Archiving or restoring moves the inquiry out of the current view.
+      setInquiries((prev) => prev.filter((item) => item.id !== updated.id));
+      setCounts((current) => ({
+        new: current.new + Number(isNew) - Number(wasNew),
+        inbox: current.inbox + (updated.archived ? -1 : 1),
+        archived: current.archived + (updated.archived ? 1 : -1)
+      }));
+      return;
+    }
+    setInquiries((prev) =>
+      prev.map((item) => (item.id === updated.id ? updated : item))
+    );
+    if (previous && wasNew !== isNew) {
+      setCounts((current) => ({
+        ...current,
+        new: current.new + Number(isNew) - Number(wasNew)
+      }));
+    }
+  };
+
+  const runUpdate = async (
+    inquiry: AdminInquiry,
+    payload: AdminInquiryUpdatePayload,
+    successMessage?: string
+  ) => {
+    setIsBusy(true);
+    setNotice(null);
+    try {
+      const { data } = await requestJson<{ data: AdminInquiry }>(
+        `/api/admin/inquiries/${inquiry.id}`,
+        { method: "PATCH", body: JSON.stringify(payload) }
+      );
+      replaceInquiry(data);
+      if (successMessage) {
+        setNotice({ variant: "success", message: successMessage });
+      }
+      return data;
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message:
+          error instanceof Error ? error.message : "Unable to update inquiry."
+      });
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSelect = (inquiry: AdminInquiry) => {
+    setSelectedId(inquiry.id);
+    setNoteDraft("");
+    if (inquiry.status === "new") {
+      void runUpdate(inquiry, { status: "read" });
+    }
+  };
+
+  const handleViewChange = (nextView: AdminInquiryView) => {
+    if (nextView === view) return;
+    setSelectedId(null);
+    setView(nextView);
+  };
+
+  const handleAddNote = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!selected || !noteDraft.trim()) return;
+    setIsBusy(true);
+    setNotice(null);
+    try {
+      const { data } = await requestJson<{ data: AdminInquiry }>(
+        `/api/admin/inquiries/${selected.id}/notes`,
+        { method: "POST", body: JSON.stringify({ body: noteDraft }) }
+      );
+      replaceInquiry(data);
+      setNoteDraft("");
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message: error instanceof Error ? error.message : "Unable to add note."
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const replyHref = selected
+    ? `mailto:${selected.email}?subject=${encodeURIComponent(
+        `Re: ${selected.projectType || "Your inquiry"}`
+      )}`
+    : "";
+
+  return (
+    <div className="relative min-h-screen bg-background text-text">
+      <AdminNavBar role={role} />
+      <main className="pt-32 pb-24">
+        <section className="py-12">
+          <Container className="max-w-[min(92vw,78rem)] space-y-10">
+            <div className="rounded-[40px] border border-brand-secondary/70 bg-white/90 px-8 py-14 shadow-sm backdrop-blur">
+              <div className="flex flex-wrap items-center gap-4 font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+                <span className="rounded-full border border-brand-secondary px-4 py-1">
+                  Studio
+                </span>
+                <span>{counts.new} new</span>
+              </div>
+              <h1 className="mt-8 text-4xl font-medium uppercase tracking-tightest md:text-[3rem]">
+                Inquiries
+              </h1>
+              <p className="mt-5 max-w-2xl text-lg text-text-muted">
+                Messages sent through the contact form. Opening one marks it
+                read; reply from your mail client and mark it replied.
+              </p>
+            </div>
+
+            {notice ? (
+              <p
+                className={`rounded-2xl border px-4 py-3 text-sm ${
+                  notice.variant === "success"
+                    ? "border-green-300 bg-green-50 text-green-700"
+                    : "border-red-200 bg-red-50 text-red-600"
+                }`}
+              >
+                {notice.message}
+              </p>
+            ) : null}
+
+            <div className="grid gap-6 lg:grid-cols-[minmax(280px,360px)_1fr]">
+              <div className="space-y-4 rounded-[32px] border border-brand-secondary/70 bg-white px-4 py-6 md:px-6">
+                <div className="flex gap-2">
+                  {(["inbox", "archived"] as const).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => handleViewChange(option)}
+                      className={`rounded-full border px-4 py-1 text-xs uppercase tracking-[0.28em] transition ${
+                        view === option
+                          ? "border-text bg-text text-white"
+                          : "border-brand-secondary text-text-muted hover:border-text"
+                      }`}
+                    >
+                      {option === "inbox" ? "Inbox" : "Archived"}{" "}
+                      {option === "inbox" ? counts.inbox : counts.archived}
+                    </button>
+                  ))}
+                </div>
+
+                {isLoading ? (
+                  <p className="text-sm text-text-muted">Loading inquiries…</p>
+                ) : !inquiries.length ? (
+                  <p className="text-sm text-text-muted">
+                    {view === "inbox"
+                      ? "No inquiries waiting."
+                      : "Nothing archived yet."}
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {inquiries.map((inquiry) => (
+                      <li key={inquiry.id}>
+                        <button
+                          type="button"
+                          onClick={() => handleSelect(inquiry)}
+                          className={`w-full rounded-2xl border px-4 py-3 text-left transition ${
+                            inquiry.id === selectedId
+                              ? "border-text"
+                              : "border-brand-secondary/60 hover:border-text"
+                          }`}
+                        >
+                          <span className="flex items-center justify-between gap-3">
+                            <span
+                              className={`truncate text-sm uppercase tracking-[0.08em] ${
+                                inquiry.status === "new" ? "font-semibold" : ""
+                              }`}
+                            >
+                              {inquiry.name}
+                            </span>
+                            <span
+                              className={`shrink-0 rounded-full border px-2 py-0.5 text-[0.55rem] uppercase tracking-[0.28em] ${STATUS_STYLES[inquiry.status]}`}
+                            >
+                              {STATUS_LABELS[inquiry.status]}
+                            </span>
+                          </span>
+                          <span className="mt-1 block truncate text-[0.75rem] text-text-muted">
+                            {inquiry.projectType || inquiry.message}
+                          </span>
+                          <span className="mt-1 block text-[0.65rem] uppercase tracking-[0.2em] text-text-muted">
+                            {formatDate(inquiry.createdAt)}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+                {!selected ? (
+                  <p className="text-sm text-text-muted">
+                    Select an inquiry to read it.
+                  </p>
+                ) : (
+                  <div className="space-y-8">
+                    <div className="flex flex-wrap items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <p className="text-xl font-medium uppercase tracking-[0.08em]">
+                          {selected.name}
+                        </p>
+                        <a
+                          href={`mailto:${selected.email}`}
+                          className="text-sm text-text-muted hover:text-text hover:underline"
+                        >
+                          {selected.email}
+                        </a>
+                        <p className="text-[0.7rem] uppercase tracking-[0.2em] text-text-muted">
+                          {formatDate(selected.createdAt)}
+                          {selected.projectType
+                            ? ` · ${selected.projectType}`
+                            : ""}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <a
+                          href={replyHref}
+                          className="rounded-full border border-text px-4 py-1 text-xs uppercase tracking-[0.28em] transition hover:bg-brand-secondary"
+                        >
+                          Reply by email
+                        </a>
+                        {selected.status !== "replied" ? (
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => {
+                              void runUpdate(
+                                selected,
+                                { status: "replied" },
+                                "Marked as replied."
+                              );
+                            }}
+                            className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text disabled:opacity-30"
+                          >
+                            Mark replied
+                          </button>
+                        ) : null}
+                        {selected.status !== "new" ? (
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => {
+                              void runUpdate(selected, { status: "new" });
+                            }}
+                            className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text disabled:opacity-30"
+                          >
+                            Mark unread
+                          </button>
+                        ) : null}
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => {
+                            void runUpdate(
+                              selected,
+                              { archived: !selected.archived },
+                              selected.archived
+                                ? "Moved back to the inbox."
+                                : "Archived."
+                            ).then((updated) => {
+                              if (updated) setSelectedId(null);
+                            });
+                          }}
+                          className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text disabled:opacity-30"
+                        >
+                          {selected.archived ? "Unarchive" : "Archive"}
+                        </button>
+                      </div>
+                    </div>
+
+                    <p className="whitespace-pre-wrap text-base leading-relaxed">
+                      {selected.message}
+                    </p>
+
+                    <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+                      Related project
+                      <select
+                        value={selected.project?.id ?? ""}
+                        disabled={isBusy || !projects.length}
+                        onChange={(event) => {
+                          void runUpdate(
+                            selected,
+                            { projectId: event.target.value || null },
+                            event.target.value
+                              ? "Project linked."
+                              : "Project unlinked."
+                          );
+                        }}
+                        className="mt-2 w-full rounded-2xl border border-brand-secondary/70 px-4 py-2 text-sm font-normal normal-case tracking-normal focus:border-text focus:outline-none disabled:opacity-50"
+                      >
+                        <option value="">No project</option>
+                        {selected.project &&
+                        !projects.some(
+                          (project) => project.id === selected.project?.id
+                        ) ? (
+                          <option value={selected.project.id}>
+                            {selected.project.title}
+                          </option>
+                        ) : null}
+                        {projects.map((project) => (
+                          <option key={project.id} value={project.id}>
+                            {project.title}
+                          </option>
+                        ))}
+                      </select>
+                      {selected.project ? (
+                        <a
+                          href={`/projects/${selected.project.slug}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="mt-2 inline-block text-[0.7rem] font-normal uppercase tracking-[0.2em] text-text-muted hover:text-text hover:underline"
+                        >
+                          Open {selected.project.title} ↗
+                        </a>
+                      ) : null}
+                    </label>
+
+                    <div className="space-y-4">
+                      <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+                        Internal notes
+                      </p>
+                      {selected.notes.length ? (
+                        <ul className="space-y-3">
+                          {selected.notes.map((note) => (
+                            <li
+                              key={note.id}
+                              className="rounded-2xl border border-brand-secondary/60 px-4 py-3"
+                            >
+                              <p className="whitespace-pre-wrap text-sm">
+                                {note.body}
+                              </p>
+                              <p className="mt-2 text-[0.65rem] uppercase tracking-[0.2em] text-text-muted">
+                                {note.author?.name ?? "Former user"} ·{" "}
+                                {formatDate(note.createdAt)}
+                              </p>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-text-muted">
+                          No notes yet. Notes are only visible to the studio.
+                        </p>
+                      )}
+                      <form
+                        onSubmit={(event) => {
+                          void handleAddNote(event);
+                        }}
+                        className="space-y-3"
+                      >
+                        <textarea
+                          value={noteDraft}
+                          onChange={(event) => setNoteDraft(event.target.value)}
+                          rows={3}
+                          maxLength={2000}
+                          placeholder="Add a note for the team"
+                          className="w-full rounded-2xl border border-brand-secondary/70 px-4 py-3 text-sm focus:border-text focus:outline-none"
+                        />
+                        <button
+                          type="submit"
+                          disabled={isBusy || !noteDraft.trim()}
+                          className="rounded-full border border-text px-4 py-1 text-xs uppercase tracking-[0.28em] transition hover:bg-brand-secondary disabled:opacity-30"
+                        >
+                          Add note
+                        </button>
+                      </form>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </Container>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default AdminInquiriesInbox;
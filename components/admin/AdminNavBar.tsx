@@ -0,0 +1,104 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { signOut, useSession } from "next-auth/react";
+
+import Container from "@/components/Container";
+import {
+  hasPermission,
+  type AdminPermission,
+  type AdminRole
+} from "@/lib/auth/permissions";
+
+const NAV_LINKS: Array<{
+  href: string;
+  label: string;
+  permission: AdminPermission;
+}> = [
+  { href: "/admin/projects", label: "Projects", permission: "projects:read" },
+  { href: "/admin/trash", label: "Trash", permission: "projects:delete" },
+  {
+    href: "/admin/inquiries",
+    label: "Inquiries",
+    permission: "inquiries:manage"
+  },
+  { href: "/admin/users", label: "Users", permission: "users:manage" },
+  { href: "/admin/webhooks", label: "Webhooks", permission: "webhooks:manage" },
+  { href: "/admin/account", label: "Account", permission: "projects:read" }
+];
+
+type AdminNavBarProps = {
+  role: AdminRole;
+};
+
+const AdminNavBar = ({ role }: AdminNavBarProps) => {
+  const { data: session, status } = useSession();
+  const pathname = usePathname();
+  const userName = session?.user?.name;
+  const userEmail = session?.user?.email;
+  const displayName = userName || userEmail || "Authorized admin";
+  const isLoading = status === "loading";
+  const links = NAV_LINKS.filter((link) => hasPermission(role, link.permission));
+
+  const handleSignOut = () => {
+    void signOut({ callbackUrl: "/admin/sign-in" });
+  };
+
+  return (
+  <div className="fixed inset-x-0 top-4 z-40">
+    <Container>
+        <div className="flex flex-col gap-3 rounded-full border border-brand-secondary/70 bg-white/80 px-6 py-4 text-xs shadow-sm backdrop-blur md:flex-row md:items-center md:justify-between md:text-sm">
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-semibold uppercase tracking-[0.24em]">
+            MOR Architecture
+          </span>
+          <span className="rounded-full bg-brand-accent/30 px-3 py-1 font-condensed text-[0.7rem] uppercase tracking-[0.32em] text-text">
+            {role}
+          </span>
+          {links.length > 1 ? (
+            <nav className="flex items-center gap-2">
+              {links.map((link) => (
+                <Link
+                  key={link.href}
+                  href={link.href}
+                  className={`rounded-full px-3 py-1 font-condensed text-[0.65rem] uppercase tracking-[0.28em] transition ${
+                    pathname?.startsWith(link.href)
+                      ? "border border-text text-text"
+                      : "border border-transparent text-text-muted hover:text-text"
+                  }`}
+                >
+                  {link.label}
+                </Link>
+              ))}
+            </nav>
+          ) : null}
+        </div>
+          <div className="flex flex-wrap items-center justify-end gap-3 text-[0.65rem] uppercase tracking-[0.28em] text-text-muted md:text-right">
+            <div className="text-right">
+              <p>{isLoading ? "Verifying access…" : "Signed in as"}</p>
+              {!isLoading ? (
+                <p className="text-text">{displayName}</p>
+              ) : null}
+            </div>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="rounded-full border border-brand-secondary px-4 py-1 font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text transition hover:border-text"
+            >
+              Sign out
+            </button>
+          <Link
+            href="/"
+              className="rounded-full border border-brand-secondary px-4 py-1 font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text transition hover:border-text"
+          >
+            Back to site
+          </Link>
+        </div>
+      </div>
+    </Container>
+  </div>
+);
+};
+
+export default AdminNavBar;
@@ -1,6 +1,11 @@
 'use client';
 
-import type { MutableRefObject, ReactNode } from "react";
+import type {
+  Dispatch,
+  MutableRefObject,
+  ReactNode,
+  SetStateAction
+} from "react";
 import {
   useCallback,
   useEffect,
@@ -9,15 +14,33 @@ import {
   useState
 } from "react";
 import Image, { StaticImageData } from "next/image";
-import Link from "next/link";
-import { signOut, useSession } from "next-auth/react";
 import { AnimatePresence, motion } from "framer-motion";
 
+import AdminNavBar from "@/components/admin/AdminNavBar";
 import Container from "@/components/Container";
+import { hasPermission, type AdminRole } from "@/lib/auth/permissions";
 import type { Project } from "@/lib/types/projects";
 import type {
+  AdminActivityEntry,
+  AdminActivityPage,
+  AdminProjectDiff,
   AdminProjectFormPayload,
-  AdminProjectResponse
+  AdminProjectListField,
+  AdminPreviewLink,
+  AdminPreviewLinkCreated,
+  AdminCommentAnchor,
+  AdminCommentAnchorKind,
+  AdminFeaturedOrderPayload,
+  AdminMentionableUser,
+  AdminProjectComment,
+  AdminProjectCommentThread,
+  AdminProjectItemIds,
+  AdminProjectResponse,
+  AdminProjectReview,
+  AdminProjectSchedulePayload,
+  AdminProjectScalarField,
+  AdminProjectSeo,
+  AdminProjectVersionSummary
 } from "@/lib/types/admin";
 type ImageSource = StaticImageData | string;
 
@@ -31,18 +54,26 @@ type AdminGalleryImage = {
   height?: number;
 };
 
-type AdminProjectStatus = "draft" | "published" | "archived";
+type AdminProjectStatus = "draft" | "in_review" | "published" | "archived";
 
-type AdminProjectRecord = Omit<Project, "heroImage" | "gallery"> & {
+type AdminProjectRecord = Omit<Project, "heroImage" | "gallery" | "seo"> & {
   heroImage: ImageSource;
   gallery: AdminGalleryImage[];
+  seo: AdminProjectSeo;
   id: string;
   status: AdminProjectStatus;
+  revision: number;
   lastEdited: string;
   heroAssetId?: string;
+  scheduledPublishAt?: string;
+  scheduledUnpublishAt?: string;
+  review?: AdminProjectReview;
+  isFeatured?: boolean;
+  featuredOrder?: number;
+  itemIds?: AdminProjectItemIds;
 };
 
-type FormGroupId = "essentials" | "narrative" | "gallery";
+type FormGroupId = "essentials" | "narrative" | "gallery" | "seo";
 
 type Toast = {
   id: string;
@@ -53,7 +84,14 @@ type Toast = {
 type ValidationResult = Record<string, string>;
 type SortOption = "recent" | "alpha";
 type PreviewMode = "card" | "hero";
-type ActionState = "idle" | "saving" | "publishing" | "unpublishing";
+type ActionState =
+  | "idle"
+  | "saving"
+  | "publishing"
+  | "unpublishing"
+  | "restoring"
+  | "submitting"
+  | "requesting-changes";
 
 type FormSectionProps = {
   id: FormGroupId;
@@ -61,9 +99,18 @@ type FormSectionProps = {
   open: boolean;
   onToggle: (group: FormGroupId) => void;
   onAutofill?: () => void;
+  readOnly?: boolean;
+  commentCount?: number;
+  onOpenComments?: (anchor: AdminCommentAnchor | null) => void;
   children: ReactNode;
 };
 
+type ProjectConflict = {
+  base: AdminProjectRecord;
+  mine: AdminProjectRecord;
+  theirs: AdminProjectRecord;
+};
+
 type PendingUploadEntry = {
   file: File;
   previewUrl: string;
@@ -78,6 +125,12 @@ const MIN_META_COUNT = 0;
 const MIN_GALLERY_DELETE_THRESHOLD = 0;
 const MAX_GALLERY_UPLOAD = 5;
 const MAX_GALLERY_COUNT = 15;
+// Hard limits match the server; the recommended lengths are roughly what
+// search engines show before truncating.
+const SEO_META_TITLE_MAX = 90;
+const SEO_META_TITLE_RECOMMENDED = 60;
+const SEO_META_DESCRIPTION_MAX = 300;
+const SEO_META_DESCRIPTION_RECOMMENDED = 160;
 
 const pickRandom = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
 
@@ -199,6 +252,11 @@ const formatRelativeTime = (iso: string) => {
   return `Updated ${days}d ago`;
 };
 
+const truncateText = (value: string, maxLength: number) =>
+  value.length > maxLength
+    ? `${value.slice(0, maxLength - 1).trimEnd()}…`
+    : value;
+
 const cloneProject = (project: AdminProjectRecord): AdminProjectRecord => ({
   ...project,
   heroAssetId: project.heroAssetId,
@@ -206,7 +264,13 @@ const cloneProject = (project: AdminProjectRecord): AdminProjectRecord => ({
   meta: project.meta.map((item) => ({ ...item })),
   services: [...project.services],
   collaborators: [...project.collaborators],
-  gallery: project.gallery.map((item) => ({ ...item }))
+  gallery: project.gallery.map((item) => ({ ...item })),
+  seo: { ...project.seo }
+});
+
+const createEmptySeo = (): AdminProjectSeo => ({
+  metaTitle: "",
+  metaDescription: ""
 });
 
 const adaptProjectFromApi = (
@@ -215,6 +279,7 @@ const adaptProjectFromApi = (
   ...project,
   heroAssetId: project.heroAssetId,
   heroImage: project.heroImage || "",
+  seo: project.seo ?? createEmptySeo(),
   gallery: project.gallery.map((item) => ({
     image: item.src,
     caption: item.caption,
@@ -241,7 +306,8 @@ const initializeBlankProjectDraft = (
   meta: [],
   services: [],
   collaborators: [],
-  gallery: []
+  gallery: [],
+  seo: createEmptySeo()
 });
 
 const toApiPayload = (
@@ -269,9 +335,35 @@ const toApiPayload = (
     caption: item.caption,
     width: item.width,
     height: item.height
-  }))
+  })),
+  seo: {
+    metaTitle: record.seo.metaTitle,
+    metaDescription: record.seo.metaDescription,
+    ogImageAssetId: record.seo.ogImageAssetId
+  }
 });
 
+type RequestErrorPayload = {
+  error?: string;
+  data?: unknown;
+  current?: AdminProjectResponse;
+};
+
+class RequestError extends Error {
+  status: number;
+  payload: RequestErrorPayload | null;
+
+  constructor(message: string, status: number, payload: unknown) {
+    super(message);
+    this.name = "RequestError";
+    this.status = status;
+    this.payload =
+      payload && typeof payload === "object"
+        ? (payload as RequestErrorPayload)
+        : null;
+  }
+}
+
 async function request<T>(
   url: string,
   options: RequestInit = {}
@@ -293,7 +385,11 @@ async function request<T>(
   }
 
   if (!response.ok) {
-    throw new Error(payload?.error ?? response.statusText);
+    throw new RequestError(
+      payload?.error ?? response.statusText,
+      response.status,
+      payload
+    );
   }
 
   return (payload?.data ?? payload) as T;
@@ -320,9 +416,73 @@ const projectComparablePayload = (project: AdminProjectRecord) => ({
     assetId: item.assetId,
     caption: item.caption,
     image: serializeImageSource(item.image)
-  }))
+  })),
+  seo: project.seo
 });
 
+const MERGEABLE_FIELDS = [
+  "title",
+  "slug",
+  "category",
+  "location",
+  "year",
+  "heroImage",
+  "heroAssetId",
+  "heroCaption",
+  "excerpt",
+  "description",
+  "meta",
+  "services",
+  "collaborators",
+  "gallery",
+  "seo"
+] as const;
+
+type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+
+const MERGEABLE_FIELD_LABELS: Record<MergeableField, string> = {
+  title: "Title",
+  slug: "Slug",
+  category: "Category",
+  location: "Location",
+  year: "Year",
+  heroImage: "Hero image",
+  heroAssetId: "Hero image",
+  heroCaption: "Hero caption",
+  excerpt: "Excerpt",
+  description: "Description",
+  meta: "Meta list",
+  services: "Services",
+  collaborators: "Collaborators",
+  gallery: "Gallery",
+  seo: "Search & sharing"
+};
+
+const changedFields = (
+  from: AdminProjectRecord,
+  to: AdminProjectRecord
+): MergeableField[] => {
+  const before = projectComparablePayload(from);
+  const after = projectComparablePayload(to);
+  return MERGEABLE_FIELDS.filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+};
+
+// Three-way merge on top of the server copy: fields the editor touched since
+// loading win, everything else follows the newer server revision.
+const mergeProjectRecords = (
+  base: AdminProjectRecord,
+  mine: AdminProjectRecord,
+  theirs: AdminProjectRecord
+): AdminProjectRecord => {
+  const merged = cloneProject(theirs);
+  changedFields(base, mine).forEach((field) => {
+    Object.assign(merged, { [field]: mine[field] });
+  });
+  return cloneProject(merged);
+};
+
 const areProjectsEqual = (
   a: AdminProjectRecord | undefined,
   b: AdminProjectRecord | undefined
@@ -398,6 +558,14 @@ const validateProject = (
     errors.heroCaption = "Caption max is 140 characters";
   }
 
+  if (draft.seo.metaTitle.trim().length > SEO_META_TITLE_MAX) {
+    errors.metaTitle = `Meta title max is ${SEO_META_TITLE_MAX} characters`;
+  }
+
+  if (draft.seo.metaDescription.trim().length > SEO_META_DESCRIPTION_MAX) {
+    errors.metaDescription = `Meta description max is ${SEO_META_DESCRIPTION_MAX} characters`;
+  }
+
   return errors;
 };
 
@@ -410,7 +578,20 @@ const collectPublishBlockingIssues = (draft: AdminProjectRecord): string[] => {
   return issues;
 };
 
-const AdminProjectsDashboard = () => {
+type AdminProjectsDashboardProps = {
+  role: AdminRole;
+  currentUserId: string;
+  trashRetentionDays: number;
+};
+
+const AdminProjectsDashboard = ({
+  role,
+  currentUserId,
+  trashRetentionDays
+}: AdminProjectsDashboardProps) => {
+  const canWrite = hasPermission(role, "projects:write");
+  const canPublish = hasPermission(role, "projects:publish");
+  const canDelete = hasPermission(role, "projects:delete");
   const [records, setRecords] = useState<AdminProjectRecord[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [draft, setDraft] = useState<AdminProjectRecord | null>(null);
@@ -425,7 +606,8 @@ const AdminProjectsDashboard = () => {
   const [openGroups, setOpenGroups] = useState<Record<FormGroupId, boolean>>({
     essentials: true,
     narrative: true,
-    gallery: true
+    gallery: true,
+    seo: true
   });
   const [isHydrated, setIsHydrated] = useState(false);
   const [toasts, setToasts] = useState<Toast[]>([]);
@@ -435,6 +617,24 @@ const AdminProjectsDashboard = () => {
   const [deleteTarget, setDeleteTarget] = useState<AdminProjectRecord | null>(
     null
   );
+  const [restoreTarget, setRestoreTarget] =
+    useState<AdminProjectVersionSummary | null>(null);
+  const [publishReview, setPublishReview] =
+    useState<AdminProjectFormPayload | null>(null);
+  const [commentThreads, setCommentThreads] = useState<
+    AdminProjectCommentThread[]
+  >([]);
+  const [commentFocus, setCommentFocus] = useState<AdminCommentAnchor | null>(
+    null
+  );
+  const commentsPanelRef = useRef<HTMLDivElement | null>(null);
+  const [reviewCommentMode, setReviewCommentMode] =
+    useState<ReviewCommentMode | null>(null);
+  const [conflict, setConflict] = useState<ProjectConflict | null>(null);
+  const [highlightedVersion, setHighlightedVersion] = useState<number | null>(
+    null
+  );
+  const draftOverrideRef = useRef<AdminProjectRecord | null>(null);
 
   useEffect(() => {
     return () => {
@@ -466,7 +666,13 @@ const AdminProjectsDashboard = () => {
 
   useEffect(() => {
     if (!currentRecord) return;
-    setDraft(cloneProject(currentRecord));
+    const override = draftOverrideRef.current;
+    draftOverrideRef.current = null;
+    setDraft(
+      cloneProject(
+        override && override.id === currentRecord.id ? override : currentRecord
+      )
+    );
     setSlugManuallyEdited(false);
   }, [currentRecord]);
 
@@ -637,6 +843,97 @@ const syncRecordIntoState = useCallback(
   []
 );
 
+  const openConflictIfStale = (error: unknown, mine: AdminProjectRecord) => {
+    if (
+      !(error instanceof RequestError) ||
+      error.status !== 409 ||
+      !error.payload?.current ||
+      !currentRecord
+    ) {
+      return false;
+    }
+    setConflict({
+      base: cloneProject(currentRecord),
+      mine: cloneProject(mine),
+      theirs: adaptProjectFromApi(error.payload.current)
+    });
+    return true;
+  };
+
+  useEffect(() => {
+    setCommentThreads([]);
+    setCommentFocus(null);
+    if (!selectedId) return;
+    let cancelled = false;
+    request<AdminProjectCommentThread[]>(
+      `/api/admin/projects/${selectedId}/comments`
+    )
+      .then((threads) => {
+        if (!cancelled) setCommentThreads(threads);
+      })
+      .catch(() => {
+        if (!cancelled) setCommentThreads([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const openCommentCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    commentThreads
+      .filter((thread) => !thread.resolvedAt)
+      .forEach((thread) => {
+        const key = commentAnchorKey(thread.anchor);
+        counts[key] = (counts[key] ?? 0) + 1;
+        counts[thread.anchor.kind] = (counts[thread.anchor.kind] ?? 0) + 1;
+      });
+    return counts;
+  }, [commentThreads]);
+
+  const handleOpenComments = (anchor: AdminCommentAnchor | null) => {
+    setCommentFocus(anchor);
+    commentsPanelRef.current?.scrollIntoView({
+      behavior: "smooth",
+      block: "start"
+    });
+  };
+
+  const handleOpenVersion = (projectId: string, version: number) => {
+    if (projectId !== selectedId) {
+      if (!records.some((record) => record.id === projectId)) {
+        pushToast("info", "That project is no longer in the list.");
+        return;
+      }
+      setSelectedId(projectId);
+    }
+    setHighlightedVersion(version);
+  };
+
+  const handleReloadLatest = () => {
+    if (!conflict) return;
+    syncRecordIntoState(conflict.theirs);
+    setConflict(null);
+    pushToast("info", "Loaded the latest saved version.");
+  };
+
+  const handleMergeConflict = () => {
+    if (!conflict) return;
+    const merged = mergeProjectRecords(
+      conflict.base,
+      conflict.mine,
+      conflict.theirs
+    );
+    draftOverrideRef.current = merged;
+    syncRecordIntoState(conflict.theirs);
+    setDraft(merged);
+    setConflict(null);
+    pushToast(
+      "info",
+      "Your edits were merged onto the latest version. Review and save again."
+    );
+  };
+
   const handleCreateProject = async () => {
     try {
       setActionState("saving");
@@ -698,7 +995,7 @@ const syncRecordIntoState = useCallback(
       setDraft(null);
       }
       setSlugManuallyEdited(false);
-      pushToast("success", `Removed ${deleteTarget.title}`);
+      pushToast("success", `Moved ${deleteTarget.title} to the trash`);
     } catch (error) {
       const message =
         error instanceof Error ? error.message : "Unable to delete project.";
@@ -728,19 +1025,24 @@ const syncRecordIntoState = useCallback(
     }
 
     setActionState("saving");
+    let preparedDraft = draft;
     try {
-      const preparedDraft = (await finalizePendingGallery()) ?? draft;
+      preparedDraft = (await finalizePendingGallery()) ?? draft;
       const payload = toApiPayload(preparedDraft);
       const updated = await request<AdminProjectResponse>(
         `/api/admin/projects/${preparedDraft.id}`,
         {
           method: "PUT",
-          body: JSON.stringify({ project: payload })
+          body: JSON.stringify({
+            project: payload,
+            expectedRevision: preparedDraft.revision
+          })
         }
       );
       syncRecordIntoState(adaptProjectFromApi(updated));
       pushToast("success", "Draft saved");
     } catch (error) {
+      if (openConflictIfStale(error, preparedDraft)) return;
       const message =
         error instanceof Error ? error.message : "Unable to save draft.";
       pushToast("error", message);
@@ -749,7 +1051,7 @@ const syncRecordIntoState = useCallback(
     }
   };
 
-  const handlePublish = async () => {
+  const handlePublish = () => {
     if (!draft) return;
     const blockingIssues = collectPublishBlockingIssues(draft);
     if (blockingIssues.length > 0) {
@@ -761,20 +1063,47 @@ const syncRecordIntoState = useCallback(
       pushToast("error", "Resolve validation issues before publishing");
       return;
     }
+    if (draft.status === "in_review" && isDirty) {
+      pushToast(
+        "error",
+        "Approving publishes the version submitted for review. Discard your edits first, or save them to withdraw the request."
+      );
+      return;
+    }
+    setPublishReview(toApiPayload(draft));
+  };
+
+  const confirmPublish = async () => {
+    if (!draft) return;
+    setPublishReview(null);
     setActionState("publishing");
+    // Publishing a project that is in review signs off on the request.
+    const isApproval = draft.status === "in_review";
+    let preparedDraft = draft;
     try {
-      const preparedDraft = (await finalizePendingGallery()) ?? draft;
+      preparedDraft = (await finalizePendingGallery()) ?? draft;
       const payload = toApiPayload(preparedDraft);
       const updated = await request<AdminProjectResponse>(
-        `/api/admin/projects/${preparedDraft.id}/publish`,
+        isApproval
+          ? `/api/admin/projects/${preparedDraft.id}/review/approve`
+          : `/api/admin/projects/${preparedDraft.id}/publish`,
         {
           method: "POST",
-          body: JSON.stringify({ project: payload })
+          // Approval publishes the content as submitted, never local edits.
+          body: JSON.stringify(
+            isApproval
+              ? { expectedRevision: preparedDraft.revision }
+              : { project: payload, expectedRevision: preparedDraft.revision }
+          )
         }
       );
       syncRecordIntoState(adaptProjectFromApi(updated));
-      pushToast("success", `${draft.title} published`);
+      pushToast(
+        "success",
+        isApproval ? `${draft.title} approved and published` : `${draft.title} published`
+      );
     } catch (error) {
+      if (openConflictIfStale(error, preparedDraft)) return;
       const message =
         error instanceof Error ? error.message : "Unable to publish project.";
       pushToast("error", message);
@@ -783,6 +1112,71 @@ const syncRecordIntoState = useCallback(
     }
   };
 
+  const handleSubmitForReview = () => {
+    if (!draft) return;
+    const blockingIssues = collectPublishBlockingIssues(draft);
+    if (blockingIssues.length > 0) {
+      blockingIssues.forEach((message) => pushToast("error", message));
+      setOpenGroups((prev) => ({ ...prev, essentials: true }));
+      return;
+    }
+    if (Object.keys(validationErrors).length > 0) {
+      pushToast("error", "Resolve validation issues before submitting for review");
+      return;
+    }
+    setReviewCommentMode("submit");
+  };
+
+  const confirmReviewComment = async (comment: string) => {
+    if (!draft || !reviewCommentMode) return;
+    const mode = reviewCommentMode;
+    setReviewCommentMode(null);
+    setActionState(mode === "submit" ? "submitting" : "requesting-changes");
+    let preparedDraft = draft;
+    try {
+      let updated: AdminProjectResponse;
+      if (mode === "submit") {
+        preparedDraft = (await finalizePendingGallery()) ?? draft;
+        updated = await request<AdminProjectResponse>(
+          `/api/admin/projects/${preparedDraft.id}/review`,
+          {
+            method: "POST",
+            body: JSON.stringify({
+              project: toApiPayload(preparedDraft),
+              expectedRevision: preparedDraft.revision,
+              note: comment
+            })
+          }
+        );
+      } else {
+        updated = await request<AdminProjectResponse>(
+          `/api/admin/projects/${draft.id}/review/request-changes`,
+          {
+            method: "POST",
+            body: JSON.stringify({
+              comment,
+              expectedRevision: draft.revision
+            })
+          }
+        );
+      }
+      syncRecordIntoState(adaptProjectFromApi(updated));
+      pushToast(
+        "success",
+        mode === "submit"
+          ? `${draft.title} submitted for review`
+          : `Changes requested on ${draft.title}`
+      );
+    } catch (error) {
+      if (openConflictIfStale(error, preparedDraft)) return;
+      const message =
+        error instanceof Error ? error.message : "Unable to update the review.";
+      pushToast("error", message);
+    } finally {
+      setActionState("idle");
+    }
+  };
+
   const handleUnpublish = async () => {
     if (!draft) return;
     if (Object.keys(essentialErrors).length > 0) {
@@ -802,19 +1196,24 @@ const syncRecordIntoState = useCallback(
     }
 
     setActionState("unpublishing");
+    let preparedDraft = draft;
     try {
-      const preparedDraft = (await finalizePendingGallery()) ?? draft;
+      preparedDraft = (await finalizePendingGallery()) ?? draft;
       const payload = toApiPayload(preparedDraft);
       const updated = await request<AdminProjectResponse>(
         `/api/admin/projects/${preparedDraft.id}/unpublish`,
         {
           method: "POST",
-          body: JSON.stringify({ project: payload })
+          body: JSON.stringify({
+            project: payload,
+            expectedRevision: preparedDraft.revision
+          })
         }
       );
       syncRecordIntoState(adaptProjectFromApi(updated));
       pushToast("success", `${draft.title} reverted to draft.`);
     } catch (error) {
+      if (openConflictIfStale(error, preparedDraft)) return;
       const message =
         error instanceof Error ? error.message : "Unable to unpublish project.";
       pushToast("error", message);
@@ -823,6 +1222,142 @@ const syncRecordIntoState = useCallback(
     }
   };
 
+  const handleSaveSchedule = async (schedule: AdminProjectSchedulePayload) => {
+    if (!draft) return false;
+    try {
+      const updated = adaptProjectFromApi(
+        await request<AdminProjectResponse>(
+          `/api/admin/projects/${draft.id}/schedule`,
+          { method: "PUT", body: JSON.stringify(schedule) }
+        )
+      );
+      const withSchedule = <T extends AdminProjectRecord>(record: T): T => ({
+        ...record,
+        scheduledPublishAt: updated.scheduledPublishAt,
+        scheduledUnpublishAt: updated.scheduledUnpublishAt
+      });
+      // The schedule is not part of the content, so unsaved edits survive.
+      if (draftRef.current?.id === updated.id) {
+        draftOverrideRef.current = withSchedule(draftRef.current);
+      }
+      setRecords((prev) =>
+        prev.map((item) => (item.id === updated.id ? withSchedule(item) : item))
+      );
+      pushToast(
+        "success",
+        updated.scheduledPublishAt || updated.scheduledUnpublishAt
+          ? "Schedule saved."
+          : "Schedule cleared."
+      );
+      return true;
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to update the schedule.";
+      pushToast("error", message);
+      return false;
+    }
+  };
+
+  const featuredRecords = useMemo(
+    () =>
+      records
+        .filter((record) => record.isFeatured)
+        .sort((a, b) => (a.featuredOrder ?? 0) - (b.featuredOrder ?? 0)),
+    [records]
+  );
+
+  // Featuring is not part of the content, so unsaved edits survive.
+  const applyFeaturedState = (
+    updates: Array<
+      Pick<AdminProjectRecord, "id" | "isFeatured" | "featuredOrder">
+    >
+  ) => {
+    const byId = new Map(updates.map((update) => [update.id, update]));
+    const withFeatured = <T extends AdminProjectRecord>(record: T): T => {
+      const update = byId.get(record.id);
+      return update
+        ? {
+            ...record,
+            isFeatured: update.isFeatured,
+            featuredOrder: update.featuredOrder
+          }
+        : record;
+    };
+    if (draftRef.current && byId.has(draftRef.current.id)) {
+      draftOverrideRef.current = withFeatured(draftRef.current);
+    }
+    setRecords((prev) => prev.map(withFeatured));
+  };
+
+  const handleToggleFeatured = async () => {
+    if (!draft) return false;
+    try {
+      const updated = await request<AdminProjectResponse>(
+        `/api/admin/projects/${draft.id}/featured`,
+        {
+          method: "PUT",
+          body: JSON.stringify({ isFeatured: !draft.isFeatured })
+        }
+      );
+      applyFeaturedState([updated]);
+      pushToast(
+        "success",
+        updated.isFeatured
+          ? "Added to the homepage hero."
+          : "Removed from the homepage hero."
+      );
+      return true;
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to update featuring.";
+      pushToast("error", message);
+      return false;
+    }
+  };
+
+  const handleReorderFeatured = async (projectIds: string[]) => {
+    try {
+      const payload: AdminFeaturedOrderPayload = { projectIds };
+      const order = await request<Array<{ id: string; featuredOrder: number }>>(
+        "/api/admin/projects/featured",
+        { method: "PUT", body: JSON.stringify(payload) }
+      );
+      applyFeaturedState(
+        order.map((item) => ({ ...item, isFeatured: true }))
+      );
+      pushToast("success", "Featured order saved.");
+      return true;
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unable to reorder featured projects.";
+      pushToast("error", message);
+      return false;
+    }
+  };
+
+  const confirmRestore = async () => {
+    if (!restoreTarget || !draft) return;
+    const target = restoreTarget;
+    try {
+      setActionState("restoring");
+      const updated = await request<AdminProjectResponse>(
+        `/api/admin/projects/${draft.id}/versions/${target.version}/restore`,
+        { method: "POST" }
+      );
+      syncRecordIntoState(adaptProjectFromApi(updated));
+      pushToast("success", `Restored version ${target.version}`);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to restore version.";
+      pushToast("error", message);
+    } finally {
+      setRestoreTarget(null);
+      setActionState("idle");
+    }
+  };
+
   const handleAutofillEssentials = useCallback(() => {
     if (!draft) return;
     const sample = generateEssentialsAutofill();
@@ -996,7 +1531,7 @@ const handleSetHeroFromGallery = (entry: AdminGalleryImage) => {
 if (isLoading) {
   return (
     <div className="relative min-h-screen bg-background text-text">
-      <AdminNavBar />
+      <AdminNavBar role={role} />
       <main className="flex min-h-[60vh] flex-col items-center justify-center gap-4 px-6 text-center">
         <p className="text-text-muted">Loading projects…</p>
       </main>
@@ -1007,7 +1542,7 @@ if (isLoading) {
 if (loadError && records.length === 0) {
   return (
     <div className="relative min-h-screen bg-background text-text">
-      <AdminNavBar />
+      <AdminNavBar role={role} />
       <main className="flex min-h-[60vh] flex-col items-center justify-center gap-4 px-6 text-center">
             <p className="text-text-muted">{loadError}</p>
             <button
@@ -1028,14 +1563,18 @@ const hasDraft = Boolean(draft);
 
   return (
     <div className="relative min-h-screen bg-background text-text">
-      <AdminNavBar />
+      <AdminNavBar role={role} />
       <main className="pt-32 pb-24">
         <section className="relative overflow-hidden pb-16">
           <Container>
             <IntroHeader
-              onCreateProject={() => {
-                void handleCreateProject();
-              }}
+              onCreateProject={
+                canWrite
+                  ? () => {
+                      void handleCreateProject();
+                    }
+                  : undefined
+              }
               projectCount={records.length}
             />
           </Container>
@@ -1052,6 +1591,7 @@ const hasDraft = Boolean(draft);
                 categories={categories}
                 selectedId={selectedId ?? ""}
                 onSelect={(id) => {
+                  setHighlightedVersion(null);
                   setSelectedId((prev) => {
                     if (prev === id) {
                       setDraft(null);
@@ -1066,13 +1606,21 @@ const hasDraft = Boolean(draft);
                 onChangeCategory={setCategoryFilter}
                 sortOrder={sortOrder}
                 onSort={setSortOrder}
-                onCreateProject={() => {
-                  void handleCreateProject();
-                }}
-                onDuplicate={(record) => {
-                  void handleDuplicateProject(record);
-                }}
-                onDelete={handleDeleteProject}
+                onCreateProject={
+                  canWrite
+                    ? () => {
+                        void handleCreateProject();
+                      }
+                    : undefined
+                }
+                onDuplicate={
+                  canWrite
+                    ? (record) => {
+                        void handleDuplicateProject(record);
+                      }
+                    : undefined
+                }
+                onDelete={canDelete ? handleDeleteProject : undefined}
                 isHydrated={isHydrated}
               />
 
@@ -1097,6 +1645,14 @@ const hasDraft = Boolean(draft);
                     pendingUploads={pendingUploadsRef}
                   onAutofillEssentials={handleAutofillEssentials}
                   onAutofillNarrative={handleAutofillNarrative}
+                    readOnly={!canWrite}
+                    commentCounts={openCommentCounts}
+                    onOpenComments={handleOpenComments}
+                  />
+
+                  <ReviewStatusNotice
+                    status={draft.status}
+                    review={currentRecord?.review}
                   />
 
                   <ActionBar
@@ -1104,27 +1660,80 @@ const hasDraft = Boolean(draft);
                     isDirty={isDirty}
                     canPublish={Object.keys(validationErrors).length === 0}
                     currentStatus={draft.status}
-                    onSaveDraft={() => {
-                      void handleSaveDraft();
-                    }}
-                    onPublish={() => {
-                      void handlePublish();
-                    }}
+                    onSubmitForReview={
+                      canWrite && !canPublish && draft.status === "draft"
+                        ? handleSubmitForReview
+                        : undefined
+                    }
+                    onRequestChanges={
+                      canPublish && draft.status === "in_review"
+                        ? () => setReviewCommentMode("changes")
+                        : undefined
+                    }
+                    onSaveDraft={
+                      canWrite
+                        ? () => {
+                            void handleSaveDraft();
+                          }
+                        : undefined
+                    }
+                    onPublish={canPublish ? handlePublish : undefined}
                     onUnpublish={
-                      draft.status === "published"
+                      canPublish && draft.status === "published"
                         ? () => {
                             void handleUnpublish();
                           }
                         : undefined
                     }
-                    onDelete={() => {
-                        handleDeleteProject(draft);
-                    }}
+                    onDelete={
+                      canDelete
+                        ? () => {
+                            handleDeleteProject(draft);
+                          }
+                        : undefined
+                    }
                   />
                       </>
                     ) : null}
                 </div>
 
+                  {draft ? (
+                <div ref={commentsPanelRef} className="scroll-mt-32">
+                  <CommentsPanel
+                    projectId={draft.id}
+                    project={currentRecord ?? draft}
+                    threads={commentThreads}
+                    focus={commentFocus}
+                    currentUserId={currentUserId}
+                    canComment={canWrite}
+                    canModerate={canDelete}
+                    onFocusChange={setCommentFocus}
+                    onThreadsChange={setCommentThreads}
+                    onPushToast={pushToast}
+                  />
+                </div>
+                  ) : null}
+
+                  {draft ? (
+                <SchedulePanel
+                  status={draft.status}
+                  scheduledPublishAt={currentRecord?.scheduledPublishAt}
+                  scheduledUnpublishAt={currentRecord?.scheduledUnpublishAt}
+                  disabled={actionState !== "idle"}
+                  onSave={canPublish ? handleSaveSchedule : undefined}
+                />
+                  ) : null}
+
+                  {draft ? (
+                <FeaturedPanel
+                  project={draft}
+                  featured={featuredRecords}
+                  disabled={actionState !== "idle"}
+                  onToggle={canPublish ? handleToggleFeatured : undefined}
+                  onReorder={canPublish ? handleReorderFeatured : undefined}
+                />
+                  ) : null}
+
                   {draft ? (
                 <PreviewStrip
                   project={draft}
@@ -1132,14 +1741,54 @@ const hasDraft = Boolean(draft);
                   onModeChange={setPreviewMode}
                 />
                   ) : null}
+
+                  {draft && canWrite ? (
+                <PreviewLinksPanel
+                  projectId={draft.id}
+                  isDirty={isDirty}
+                  onPushToast={pushToast}
+                />
+                  ) : null}
+
+                  {draft ? (
+                <VersionHistoryPanel
+                  projectId={draft.id}
+                  refreshKey={currentRecord?.lastEdited ?? ""}
+                  disabled={actionState !== "idle"}
+                  highlightVersion={highlightedVersion}
+                  onRestore={canWrite ? setRestoreTarget : undefined}
+                />
+                  ) : null}
+
+                  {draft ? (
+                <ActivityTimelinePanel
+                  projectId={draft.id}
+                  refreshKey={[
+                    currentRecord?.lastEdited,
+                    currentRecord?.scheduledPublishAt,
+                    currentRecord?.scheduledUnpublishAt
+                  ].join("|")}
+                  onOpenVersion={handleOpenVersion}
+                />
+                  ) : null}
               </div>
               ) : (
-                <EmptyEditorState
-                  onCreateProject={() => {
-                    void handleCreateProject();
-                  }}
-                  loadError={loadError}
-                />
+                <div className="space-y-10">
+                  <EmptyEditorState
+                    onCreateProject={
+                      canWrite
+                        ? () => {
+                            void handleCreateProject();
+                          }
+                        : undefined
+                    }
+                    loadError={loadError}
+                  />
+                  <ActivityTimelinePanel
+                    refreshKey={records[0]?.lastEdited ?? ""}
+                    onOpenVersion={handleOpenVersion}
+                  />
+                </div>
               )}
             </div>
           </Container>
@@ -1150,9 +1799,70 @@ const hasDraft = Boolean(draft);
 
       <DeleteConfirmModal
         project={deleteTarget}
+        trashRetentionDays={trashRetentionDays}
         onCancel={() => setDeleteTarget(null)}
         onConfirm={confirmDelete}
       />
+
+      <ConflictModal
+        conflict={conflict}
+        onCancel={() => setConflict(null)}
+        onReload={handleReloadLatest}
+        onMerge={handleMergeConflict}
+      />
+
+      <ProjectDiffModal
+        open={Boolean(restoreTarget && draft)}
+        eyebrow={`Restore version ${restoreTarget?.version ?? ""}`}
+        title={restoreTarget?.title || "Untitled"}
+        description="The draft will be replaced with this snapshot and saved as a new version. The live site is not affected until you publish."
+        warning={
+          isDirty ? "Unsaved edits in the form will be discarded." : undefined
+        }
+        fromLabel="Current draft"
+        toLabel={`Version ${restoreTarget?.version ?? ""}`}
+        diffUrl={
+          restoreTarget && draft
+            ? `/api/admin/projects/${draft.id}/diff?from=draft&to=${restoreTarget.version}`
+            : ""
+        }
+        confirmLabel="Restore version"
+        onCancel={() => setRestoreTarget(null)}
+        onConfirm={() => {
+          void confirmRestore();
+        }}
+      />
+
+      <ProjectDiffModal
+        open={Boolean(publishReview && draft)}
+        eyebrow="Review before publishing"
+        title={draft?.title || "Untitled"}
+        description="These changes go live on the public grid and detail page when you confirm."
+        fromLabel="Live site"
+        toLabel="This publish"
+        diffUrl={draft ? `/api/admin/projects/${draft.id}/diff` : ""}
+        diffBody={
+          publishReview
+            ? JSON.stringify({ from: "published", project: publishReview })
+            : undefined
+        }
+        confirmLabel={
+          draft?.status === "in_review" ? "Approve & publish" : "Publish now"
+        }
+        onCancel={() => setPublishReview(null)}
+        onConfirm={() => {
+          void confirmPublish();
+        }}
+      />
+
+      <ReviewCommentModal
+        mode={reviewCommentMode}
+        title={draft?.title || "Untitled"}
+        onCancel={() => setReviewCommentMode(null)}
+        onConfirm={(comment) => {
+          void confirmReviewComment(comment);
+        }}
+      />
     </div>
   );
 };
@@ -1201,7 +1911,7 @@ const AdminImage = ({
 };
 
 type IntroHeaderProps = {
-  onCreateProject: () => void;
+  onCreateProject?: () => void;
   projectCount: number;
 };
 
@@ -1223,13 +1933,15 @@ const IntroHeader = ({ onCreateProject, projectCount }: IntroHeaderProps) => (
           project to the live grid and detail route.
         </p>
       </div>
-      <button
-        type="button"
-        onClick={onCreateProject}
-        className="inline-flex items-center justify-center rounded-full border border-text px-10 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition hover:bg-brand-secondary"
-      >
-        Create project
-      </button>
+      {onCreateProject ? (
+        <button
+          type="button"
+          onClick={onCreateProject}
+          className="inline-flex items-center justify-center rounded-full border border-text px-10 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition hover:bg-brand-secondary"
+        >
+          Create project
+        </button>
+      ) : null}
     </div>
   </div>
 );
@@ -1245,9 +1957,9 @@ type ProjectListPanelProps = {
   onChangeCategory: (value: string) => void;
   sortOrder: SortOption;
   onSort: (value: SortOption) => void;
-  onCreateProject: () => void;
-  onDuplicate: (record: AdminProjectRecord) => void;
-  onDelete: (record: AdminProjectRecord) => void;
+  onCreateProject?: () => void;
+  onDuplicate?: (record: AdminProjectRecord) => void;
+  onDelete?: (record: AdminProjectRecord) => void;
   isHydrated: boolean;
 };
 
@@ -1284,13 +1996,15 @@ const ProjectListPanel = ({
           placeholder="Search title or location"
           className="flex-1 rounded-full border border-brand-secondary/70 px-4 py-2 text-sm font-normal placeholder:font-normal placeholder:text-text-muted/60 focus:border-text focus:outline-none"
         />
-        <button
-          type="button"
-          onClick={onCreateProject}
-          className="rounded-full border border-text px-5 py-2 font-condensed text-[0.7rem] uppercase tracking-[0.28em] transition hover:bg-brand-secondary"
-        >
-          New
-        </button>
+        {onCreateProject ? (
+          <button
+            type="button"
+            onClick={onCreateProject}
+            className="rounded-full border border-text px-5 py-2 font-condensed text-[0.7rem] uppercase tracking-[0.28em] transition hover:bg-brand-secondary"
+          >
+            New
+          </button>
+        ) : null}
       </div>
 
       <div className="flex flex-wrap gap-2">
@@ -1374,63 +2088,71 @@ const ProjectListPanel = ({
                       className={`rounded-full border px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] ${
                         project.status === "published"
                           ? "border-brand-accent text-text"
+                          : project.status === "in_review"
+                          ? "border-orange-400 text-orange-600"
                           : "border-brand-secondary text-text-muted"
                       }`}
                     >
-                      {project.status}
+                      {project.status === "in_review" ? "in review" : project.status}
                     </span>
                     <p className="text-[0.65rem] text-text-muted">
                       {isHydrated
                         ? formatRelativeTime(project.lastEdited)
                         : "—"}
                     </p>
-                    <div className="relative">
-                      <button
-                        type="button"
-                        aria-label="Project actions"
-                        className="rounded-full border border-brand-secondary px-3 py-1 text-[0.65rem]"
-                        onClick={(event) => {
-                          event.stopPropagation();
-                          setActiveMenuId((prev) =>
-                            prev === project.id ? null : project.id
-                          );
-                        }}
-                      >
-                        ⋯
-                      </button>
-                      <AnimatePresence>
-                        {activeMenuId === project.id ? (
-                          <motion.div
-                            initial={{ opacity: 0, y: -6 }}
-                            animate={{ opacity: 1, y: 0 }}
-                            exit={{ opacity: 0, y: -6 }}
-                            transition={{ duration: 0.18 }}
-                            className="absolute right-0 z-20 mt-2 w-40 rounded-2xl border border-brand-secondary/70 bg-white shadow-card"
-                          >
-                            <button
-                              type="button"
-                              onClick={() => {
-                                onDuplicate(project);
-                                setActiveMenuId(null);
-                              }}
-                              className="block w-full border-b border-brand-secondary/40 px-4 py-2 text-left text-sm text-text hover:bg-background-alternate"
+                    {onDuplicate || onDelete ? (
+                      <div className="relative">
+                        <button
+                          type="button"
+                          aria-label="Project actions"
+                          className="rounded-full border border-brand-secondary px-3 py-1 text-[0.65rem]"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            setActiveMenuId((prev) =>
+                              prev === project.id ? null : project.id
+                            );
+                          }}
+                        >
+                          ⋯
+                        </button>
+                        <AnimatePresence>
+                          {activeMenuId === project.id ? (
+                            <motion.div
+                              initial={{ opacity: 0, y: -6 }}
+                              animate={{ opacity: 1, y: 0 }}
+                              exit={{ opacity: 0, y: -6 }}
+                              transition={{ duration: 0.18 }}
+                              className="absolute right-0 z-20 mt-2 w-40 rounded-2xl border border-brand-secondary/70 bg-white shadow-card"
                             >
-                              Duplicate
-                            </button>
-                            <button
-                              type="button"
-                              onClick={() => {
-                                onDelete(project);
-                                setActiveMenuId(null);
-                              }}
-                              className="block w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-background-alternate"
-                            >
-                              Delete
-                            </button>
-                          </motion.div>
-                        ) : null}
-                      </AnimatePresence>
-                    </div>
+                              {onDuplicate ? (
+                                <button
+                                  type="button"
+                                  onClick={() => {
+                                    onDuplicate(project);
+                                    setActiveMenuId(null);
+                                  }}
+                                  className="block w-full border-b border-brand-secondary/40 px-4 py-2 text-left text-sm text-text hover:bg-background-alternate"
+                                >
+                                  Duplicate
+                                </button>
+                              ) : null}
+                              {onDelete ? (
+                                <button
+                                  type="button"
+                                  onClick={() => {
+                                    onDelete(project);
+                                    setActiveMenuId(null);
+                                  }}
+                                  className="block w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-background-alternate"
+                                >
+                                  Delete
+                                </button>
+                              ) : null}
+                            </motion.div>
+                          ) : null}
+                        </AnimatePresence>
+                      </div>
+                    ) : null}
                   </div>
                 </div>
               </div>
@@ -1461,6 +2183,9 @@ type ProjectFormProps = {
   pendingUploads: MutableRefObject<Record<string, PendingUploadEntry>>;
   onAutofillEssentials: () => void;
   onAutofillNarrative: () => void;
+  readOnly?: boolean;
+  commentCounts?: Record<string, number>;
+  onOpenComments?: (anchor: AdminCommentAnchor | null) => void;
 };
 
 const ACCEPTED_IMAGE_TYPES = new Set([
@@ -1508,22 +2233,42 @@ const ProjectForm = ({
   onPushToast,
   pendingUploads,
   onAutofillEssentials,
-  onAutofillNarrative
+  onAutofillNarrative,
+  readOnly = false,
+  commentCounts = {},
+  onOpenComments
 }: ProjectFormProps) => {
   const [isUploadingMedia, setIsUploadingMedia] = useState(false);
   const [serviceInput, setServiceInput] = useState("");
   const [collaboratorInput, setCollaboratorInput] = useState("");
+  const [siteHost, setSiteHost] = useState("");
   const galleryInputRef = useRef<HTMLInputElement | null>(null);
   const remainingGallerySlots = Math.max(
     MAX_GALLERY_COUNT - draft.gallery.length,
     0
   );
 
-  const addParagraph = () => {
-    onChange("narrative", (data) => ({
-      ...data,
-      description: [...data.description, ""]
-    }));
+  // Items added since the last save have no id yet, so they get no marker.
+  const renderCommentMarker = (
+    kind: Exclude<AdminCommentAnchorKind, "project">,
+    index: number
+  ) => {
+    const itemId = draft.itemIds?.[kind][index];
+    if (!itemId || !onOpenComments) return null;
+    const anchor = { kind, itemId };
+    return (
+      <CommentMarker
+        count={commentCounts[commentAnchorKey(anchor)] ?? 0}
+        onClick={() => onOpenComments(anchor)}
+      />
+    );
+  };
+
+  const addParagraph = () => {
+    onChange("narrative", (data) => ({
+      ...data,
+      description: [...data.description, ""]
+    }));
   };
 
   const removeParagraph = (index: number) => {
@@ -1705,6 +2450,34 @@ const ProjectForm = ({
       <p className="text-sm text-red-600">{validationErrors[key]}</p>
     ) : null;
 
+  useEffect(() => {
+    setSiteHost(window.location.host);
+  }, []);
+
+  // Mirrors generateMetadata on the project page.
+  const searchTitle =
+    draft.seo.metaTitle.trim() ||
+    `${draft.title.trim() || "Untitled project"} — MOR Architecture`;
+  const searchDescription =
+    draft.seo.metaDescription.trim() || draft.excerpt.trim();
+
+  // Only saved images have an asset id to point at.
+  const socialImageOptions = [
+    { assetId: draft.heroAssetId, label: "Hero image", image: draft.heroImage },
+    ...draft.gallery.map((item, index) => ({
+      assetId: item.assetId,
+      label: `Gallery ${String(index + 1).padStart(2, "0")} — ${item.caption}`,
+      image: item.image
+    }))
+  ].filter(
+    (option, index, options): option is typeof option & { assetId: string } =>
+      Boolean(option.assetId) &&
+      options.findIndex((entry) => entry.assetId === option.assetId) === index
+  );
+  const selectedSocialImage = socialImageOptions.find(
+    (option) => option.assetId === draft.seo.ogImageAssetId
+  );
+
   return (
     <form className="space-y-8" onSubmit={(event) => event.preventDefault()}>
       <FormSection
@@ -1713,6 +2486,9 @@ const ProjectForm = ({
         open={openGroups.essentials}
         onToggle={onToggleGroup}
         onAutofill={onAutofillEssentials}
+        readOnly={readOnly}
+        commentCount={commentCounts.project ?? 0}
+        onOpenComments={onOpenComments}
       >
         <div className="space-y-4">
           <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
@@ -1918,6 +2694,11 @@ const ProjectForm = ({
         open={openGroups.narrative}
         onToggle={onToggleGroup}
         onAutofill={onAutofillNarrative}
+        readOnly={readOnly}
+        commentCount={
+          (commentCounts.description ?? 0) + (commentCounts.meta ?? 0)
+        }
+        onOpenComments={onOpenComments}
       >
         <div className="space-y-6">
           <div>
@@ -1947,8 +2728,11 @@ const ProjectForm = ({
                     }
                     className="h-28 w-full resize-none rounded-none border border-brand-secondary/70 px-4 py-3 text-sm font-normal placeholder:font-normal placeholder:text-text-muted/60 focus:border-text focus:outline-none"
                   />
-                  <div className="flex justify-between text-xs text-text-muted">
+                  <div className="flex items-center justify-between gap-3 text-xs text-text-muted">
                     <span>Paragraph {index + 1}</span>
+                    <span className="ml-auto">
+                      {renderCommentMarker("description", index)}
+                    </span>
                     <button
                       type="button"
                       disabled={draft.description.length <= MIN_DESCRIPTION_COUNT}
@@ -1993,7 +2777,7 @@ const ProjectForm = ({
               {draft.meta.map((item, index) => (
                 <div
                   key={`meta-${index}`}
-                  className="grid gap-3 rounded-2xl border border-brand-secondary/60 px-4 py-3 sm:grid-cols-[0.9fr_1fr_auto]"
+                  className="grid gap-3 rounded-2xl border border-brand-secondary/60 px-4 py-3 sm:grid-cols-[0.9fr_1fr_auto_auto] sm:items-center"
                 >
                   <input
                     value={item.label}
@@ -2033,6 +2817,7 @@ const ProjectForm = ({
                   >
                     Remove
                   </button>
+                  {renderCommentMarker("meta", index)}
                 </div>
               ))}
             </div>
@@ -2142,6 +2927,9 @@ const ProjectForm = ({
         title="Gallery"
         open={openGroups.gallery}
         onToggle={onToggleGroup}
+        readOnly={readOnly}
+        commentCount={commentCounts.gallery ?? 0}
+        onOpenComments={onOpenComments}
       >
         <div className="space-y-6">
           {draft.gallery.map((item, index) => (
@@ -2213,6 +3001,7 @@ const ProjectForm = ({
                   >
                     Remove
                   </button>
+                  {renderCommentMarker("gallery", index)}
                 </div>
               </div>
             </div>
@@ -2256,6 +3045,167 @@ const ProjectForm = ({
           {renderFieldError("gallery")}
         </div>
       </FormSection>
+
+      <FormSection
+        id="seo"
+        title="Search & sharing"
+        open={openGroups.seo}
+        onToggle={onToggleGroup}
+        readOnly={readOnly}
+      >
+        <div className="space-y-6">
+          <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+            Meta title
+            <input
+              type="text"
+              value={draft.seo.metaTitle}
+              maxLength={SEO_META_TITLE_MAX}
+              placeholder={searchTitle}
+              onChange={(event) =>
+                onChange("seo", (data) => ({
+                  ...data,
+                  seo: { ...data.seo, metaTitle: event.target.value }
+                }))
+              }
+              className="mt-2 w-full rounded-none border border-brand-secondary/70 px-4 py-2 text-sm font-normal placeholder:font-normal placeholder:text-text-muted/60 focus:border-text focus:outline-none"
+            />
+            <div className="mt-1 flex justify-between text-xs text-text-muted">
+              <span className="font-normal normal-case tracking-normal">
+                Aim for 50–{SEO_META_TITLE_RECOMMENDED} characters. Leave empty
+                to use the title.
+              </span>
+              <span
+                className={`font-normal normal-case tracking-normal ${
+                  draft.seo.metaTitle.length > SEO_META_TITLE_RECOMMENDED
+                    ? "text-amber-700"
+                    : ""
+                }`}
+              >
+                {draft.seo.metaTitle.length}/{SEO_META_TITLE_RECOMMENDED}
+              </span>
+            </div>
+            {renderFieldError("metaTitle")}
+          </label>
+
+          <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+            Meta description
+            <textarea
+              value={draft.seo.metaDescription}
+              maxLength={SEO_META_DESCRIPTION_MAX}
+              placeholder={draft.excerpt}
+              onChange={(event) =>
+                onChange("seo", (data) => ({
+                  ...data,
+                  seo: { ...data.seo, metaDescription: event.target.value }
+                }))
+              }
+              className="mt-2 h-28 w-full resize-none rounded-none border border-brand-secondary/70 px-4 py-3 text-sm font-normal placeholder:font-normal placeholder:text-text-muted/60 focus:border-text focus:outline-none"
+            />
+            <div className="mt-1 flex justify-between text-xs text-text-muted">
+              <span className="font-normal normal-case tracking-normal">
+                Aim for 120–{SEO_META_DESCRIPTION_RECOMMENDED} characters. Leave
+                empty to use the excerpt.
+              </span>
+              <span
+                className={`font-normal normal-case tracking-normal ${
+                  draft.seo.metaDescription.length >
+                  SEO_META_DESCRIPTION_RECOMMENDED
+                    ? "text-amber-700"
+                    : ""
+                }`}
+              >
+                {draft.seo.metaDescription.length}/
+                {SEO_META_DESCRIPTION_RECOMMENDED}
+              </span>
+            </div>
+            {renderFieldError("metaDescription")}
+          </label>
+
+          <div className="rounded-2xl border border-brand-secondary/60 bg-background-alternate px-5 py-4">
+            <p className="font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+              Search result preview
+            </p>
+            <p className="mt-3 truncate text-xs text-text-muted">
+              {siteHost} › projects › {draft.slug || "slug"}
+            </p>
+            <p className="mt-1 truncate text-lg text-[#1a0dab]">
+              {truncateText(searchTitle, SEO_META_TITLE_RECOMMENDED)}
+            </p>
+            <p className="mt-1 text-sm leading-relaxed text-text-muted">
+              {truncateText(
+                searchDescription,
+                SEO_META_DESCRIPTION_RECOMMENDED
+              )}
+            </p>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-[1fr_1.2fr]">
+            <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+              Social image
+              <select
+                value={draft.seo.ogImageAssetId ?? ""}
+                onChange={(event) =>
+                  onChange("seo", (data) => ({
+                    ...data,
+                    seo: {
+                      ...data.seo,
+                      ogImageAssetId: event.target.value || undefined
+                    }
+                  }))
+                }
+                className="mt-2 w-full rounded-none border border-brand-secondary/70 bg-white px-4 py-2 text-sm font-normal focus:border-text focus:outline-none"
+              >
+                <option value="">Generated from the hero</option>
+                {socialImageOptions.map((option) => (
+                  <option key={option.assetId} value={option.assetId}>
+                    {option.label}
+                  </option>
+                ))}
+                {draft.seo.ogImageAssetId && !selectedSocialImage ? (
+                  <option value={draft.seo.ogImageAssetId}>
+                    Previously chosen image
+                  </option>
+                ) : null}
+              </select>
+              <p className="mt-1 text-xs font-normal normal-case tracking-normal text-text-muted">
+                Shown when the project is shared. The generated card sets the
+                title, location and year over the hero. New uploads can be
+                picked once saved.
+              </p>
+            </label>
+            <div className="relative aspect-[1200/630] overflow-hidden border border-brand-secondary/70 bg-text">
+              {selectedSocialImage ? (
+                <AdminImage
+                  source={selectedSocialImage.image}
+                  alt={selectedSocialImage.label}
+                  sizes="(max-width: 1024px) 90vw, 420px"
+                />
+              ) : (
+                <>
+                  {draft.heroImage ? (
+                    <AdminImage
+                      source={draft.heroImage}
+                      alt={draft.heroCaption}
+                      sizes="(max-width: 1024px) 90vw, 420px"
+                    />
+                  ) : null}
+                  <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-text/90 to-transparent px-5 pb-4 pt-10 uppercase text-white">
+                    <p className="font-condensed text-[0.55rem] tracking-[0.28em] text-brand-accent">
+                      MOR Architecture
+                    </p>
+                    <p className="mt-1 truncate text-lg font-medium tracking-tightest">
+                      {draft.title || "Untitled project"}
+                    </p>
+                    <p className="font-condensed text-[0.55rem] tracking-[0.24em] text-brand-secondary">
+                      {[draft.location, draft.year].filter(Boolean).join(" — ")}
+                    </p>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </FormSection>
     </form>
   );
 };
@@ -2266,6 +3216,9 @@ const FormSection = ({
   open,
   onToggle,
   onAutofill,
+  readOnly = false,
+  commentCount = 0,
+  onOpenComments,
   children
 }: FormSectionProps) => (
   <div className="rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8 md:py-10">
@@ -2274,10 +3227,18 @@ const FormSection = ({
         <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
           {title}
         </p>
-        <p className="text-[0.75rem] text-text-muted">Manual save required</p>
+        <p className="text-[0.75rem] text-text-muted">
+          {readOnly ? "View only" : "Manual save required"}
+        </p>
       </div>
       <div className="flex gap-2">
-        {typeof onAutofill === "function" ? (
+        {commentCount > 0 && onOpenComments ? (
+          <CommentMarker
+            count={commentCount}
+            onClick={() => onOpenComments(null)}
+          />
+        ) : null}
+        {typeof onAutofill === "function" && !readOnly ? (
           <button
             type="button"
             onClick={onAutofill}
@@ -2305,7 +3266,9 @@ const FormSection = ({
           transition={{ duration: 0.3 }}
           className="mt-8 space-y-6"
         >
-          {children}
+          <fieldset disabled={readOnly} className="min-w-0 space-y-6">
+            {children}
+          </fieldset>
         </motion.div>
       ) : null}
     </AnimatePresence>
@@ -2362,6 +3325,211 @@ const PreviewStrip = ({ project, mode, onModeChange }: PreviewStripProps) => (
   </div>
 );
 
+const PREVIEW_LINK_EXPIRY_OPTIONS = [1, 7, 30];
+
+type PreviewLinksPanelProps = {
+  projectId: string;
+  isDirty: boolean;
+  onPushToast: (variant: Toast["variant"], message: string) => void;
+};
+
+const PreviewLinksPanel = ({
+  projectId,
+  isDirty,
+  onPushToast
+}: PreviewLinksPanelProps) => {
+  const [links, setLinks] = useState<AdminPreviewLink[]>([]);
+  const [label, setLabel] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [created, setCreated] = useState<AdminPreviewLinkCreated | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCreated(null);
+    request<AdminPreviewLink[]>(`/api/admin/projects/${projectId}/previews`)
+      .then((list) => {
+        if (!cancelled) setLinks(list);
+      })
+      .catch(() => {
+        if (!cancelled) setLinks([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const createdUrl =
+    created && typeof window !== "undefined"
+      ? `${window.location.origin}${created.path}`
+      : "";
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    try {
+      const link = await request<AdminPreviewLinkCreated>(
+        `/api/admin/projects/${projectId}/previews`,
+        {
+          method: "POST",
+          body: JSON.stringify({ label, expiresInDays })
+        }
+      );
+      setCreated(link);
+      setLinks((prev) => [link, ...prev]);
+      setLabel("");
+    } catch (error) {
+      onPushToast(
+        "error",
+        error instanceof Error ? error.message : "Unable to create preview link."
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      onPushToast("success", "Preview link copied.");
+    } catch {
+      onPushToast("error", "Copy failed — select the link and copy it manually.");
+    }
+  };
+
+  const handleRevoke = async (link: AdminPreviewLink) => {
+    setIsBusy(true);
+    try {
+      await request(`/api/admin/projects/${projectId}/previews/${link.id}`, {
+        method: "DELETE"
+      });
+      setLinks((prev) => prev.filter((item) => item.id !== link.id));
+      if (created?.id === link.id) {
+        setCreated(null);
+      }
+      onPushToast("info", "Preview link revoked.");
+    } catch (error) {
+      onPushToast(
+        "error",
+        error instanceof Error ? error.message : "Unable to revoke preview link."
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+      <div>
+        <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+          Share preview
+        </p>
+        <p className="text-[0.75rem] text-text-muted">
+          Anyone with the link sees the last saved draft on the real project
+          page until it expires or is revoked.
+          {isDirty ? " Save first to include your latest edits." : ""}
+        </p>
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-end gap-3">
+        <label className="block flex-1 text-sm font-semibold uppercase tracking-[0.24em]">
+          Label
+          <input
+            type="text"
+            value={label}
+            maxLength={120}
+            placeholder="e.g. Client review"
+            onChange={(event) => setLabel(event.target.value)}
+            className="mt-2 w-full rounded-none border border-brand-secondary/70 px-4 py-2 text-sm font-normal placeholder:font-normal placeholder:text-text-muted/60 focus:border-text focus:outline-none"
+          />
+        </label>
+        <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+          Expires
+          <select
+            value={expiresInDays}
+            onChange={(event) => setExpiresInDays(Number(event.target.value))}
+            className="mt-2 block rounded-none border border-brand-secondary/70 px-4 py-2 text-sm font-normal focus:border-text focus:outline-none"
+          >
+            {PREVIEW_LINK_EXPIRY_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days === 1 ? "1 day" : `${days} days`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          disabled={isBusy}
+          onClick={() => {
+            void handleCreate();
+          }}
+          className="rounded-full border border-text px-4 py-2 text-xs uppercase tracking-[0.28em] transition hover:bg-brand-secondary disabled:opacity-30"
+        >
+          Create link
+        </button>
+      </div>
+
+      {created ? (
+        <div className="mt-4 flex flex-wrap items-center gap-3 rounded-2xl border border-brand-accent px-4 py-3">
+          <input
+            type="text"
+            readOnly
+            value={createdUrl}
+            onFocus={(event) => event.target.select()}
+            className="min-w-0 flex-1 bg-transparent text-sm focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={() => {
+              void handleCopy();
+            }}
+            className="rounded-full border border-text px-4 py-1 text-xs uppercase tracking-[0.28em] transition hover:bg-brand-secondary"
+          >
+            Copy
+          </button>
+          <p className="w-full text-[0.75rem] text-text-muted">
+            Copy it now — the full link is only shown once.
+          </p>
+        </div>
+      ) : null}
+
+      {links.length ? (
+        <div className="mt-6 space-y-3">
+          {links.map((link) => (
+            <div
+              key={link.id}
+              className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-brand-secondary/60 px-4 py-3"
+            >
+              <div className="space-y-1">
+                <p className="text-sm font-semibold uppercase tracking-[0.12em]">
+                  {link.label || "Preview link"}
+                </p>
+                <p className="font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+                  Expires {formatVersionTimestamp(link.expiresAt)}
+                  {link.createdBy ? ` • by ${link.createdBy}` : ""}
+                  {link.lastUsedAt
+                    ? ` • last opened ${formatVersionTimestamp(link.lastUsedAt)}`
+                    : " • not opened yet"}
+                </p>
+              </div>
+              <button
+                type="button"
+                disabled={isBusy}
+                onClick={() => {
+                  void handleRevoke(link);
+                }}
+                className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text disabled:opacity-30"
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
 const ProjectCardPreview = ({ project }: { project: AdminProjectRecord }) => {
   const hasTitle = Boolean(project.title?.trim());
   const hasLocation = Boolean(project.location?.trim());
@@ -2474,22 +3642,32 @@ const ActionBar = ({
   onSaveDraft,
   onPublish,
   onUnpublish,
+  onSubmitForReview,
+  onRequestChanges,
   onDelete
 }: {
   status: ActionState;
   isDirty: boolean;
   canPublish: boolean;
   currentStatus: AdminProjectStatus;
-  onSaveDraft: () => void;
-  onPublish: () => void;
+  onSaveDraft?: () => void;
+  onPublish?: () => void;
   onUnpublish?: () => void;
-  onDelete: () => void;
+  onSubmitForReview?: () => void;
+  onRequestChanges?: () => void;
+  onDelete?: () => void;
 }) => {
   const disabled = status !== "idle";
   const primaryLabel =
-    currentStatus === "published" ? "Publish update" : "Publish";
+    currentStatus === "published"
+      ? "Publish update"
+      : currentStatus === "in_review"
+      ? "Approve & publish"
+      : "Publish";
   const saveLabel = currentStatus === "published" ? "Save changes" : "Save draft";
   const showUnpublish = currentStatus === "published" && typeof onUnpublish === "function";
+  const isReadOnly =
+    !onSaveDraft && !onPublish && !onSubmitForReview && !onDelete;
 
   const renderContent = (buttonClass: string) => (
     <>
@@ -2504,28 +3682,60 @@ const ActionBar = ({
             ? "Publishing…"
             : status === "unpublishing"
             ? "Unpublishing…"
+            : status === "restoring"
+            ? "Restoring…"
+            : status === "submitting"
+            ? "Submitting for review…"
+            : status === "requesting-changes"
+            ? "Sending feedback…"
+            : isReadOnly
+            ? "Read-only access"
             : isDirty
             ? "Unsaved edits"
             : "Up to date"}
         </span>
       </div>
       <div className="flex flex-wrap gap-3">
-        <button
-          type="button"
-          onClick={onSaveDraft}
-          disabled={disabled || !isDirty}
-          className={`${buttonClass} border-brand-secondary text-text disabled:opacity-40`}
-        >
-          {saveLabel}
-        </button>
-        <button
-          type="button"
-          onClick={onPublish}
-          disabled={disabled || !canPublish}
-          className={`${buttonClass} border-text text-text disabled:opacity-40`}
-        >
-          {primaryLabel}
-        </button>
+        {onSaveDraft ? (
+          <button
+            type="button"
+            onClick={onSaveDraft}
+            disabled={disabled || !isDirty}
+            className={`${buttonClass} border-brand-secondary text-text disabled:opacity-40`}
+          >
+            {saveLabel}
+          </button>
+        ) : null}
+        {onPublish ? (
+          <button
+            type="button"
+            onClick={onPublish}
+            disabled={disabled || !canPublish}
+            className={`${buttonClass} border-text text-text disabled:opacity-40`}
+          >
+            {primaryLabel}
+          </button>
+        ) : null}
+        {onSubmitForReview ? (
+          <button
+            type="button"
+            onClick={onSubmitForReview}
+            disabled={disabled || !canPublish}
+            className={`${buttonClass} border-text text-text disabled:opacity-40`}
+          >
+            Submit for review
+          </button>
+        ) : null}
+        {onRequestChanges ? (
+          <button
+            type="button"
+            onClick={onRequestChanges}
+            disabled={disabled}
+            className={`${buttonClass} border-orange-400 text-orange-600 disabled:opacity-40`}
+          >
+            Request changes
+          </button>
+        ) : null}
         {showUnpublish ? (
           <button
             type="button"
@@ -2536,13 +3746,15 @@ const ActionBar = ({
             Unpublish
           </button>
         ) : null}
-        <button
-          type="button"
-          onClick={onDelete}
-          className={`${buttonClass} border-red-400 text-red-600`}
-        >
-          Delete
-        </button>
+        {onDelete ? (
+          <button
+            type="button"
+            onClick={onDelete}
+            className={`${buttonClass} border-red-400 text-red-600`}
+          >
+            Delete
+          </button>
+        ) : null}
       </div>
     </>
   );
@@ -2597,12 +3809,14 @@ const ToastStack = ({ toasts, onDismiss }: ToastStackProps) => (
 
 type DeleteConfirmModalProps = {
   project: AdminProjectRecord | null;
+  trashRetentionDays: number;
   onCancel: () => void;
   onConfirm: () => void;
 };
 
 const DeleteConfirmModal = ({
   project,
+  trashRetentionDays,
   onCancel,
   onConfirm
 }: DeleteConfirmModalProps) => (
@@ -2629,8 +3843,9 @@ const DeleteConfirmModal = ({
               {project.title}
             </h3>
             <p className="mt-4 text-sm text-text-muted">
-            Are you sure you want to delete this project? This action cannot be
-            undone.
+            The project moves to the trash and is removed from the live site.
+            Admins can restore it until it is purged after{" "}
+            {trashRetentionDays} days.
             </p>
             <div className="mt-6 flex flex-wrap justify-center gap-4">
               <button
@@ -2654,81 +3869,1577 @@ const DeleteConfirmModal = ({
     </AnimatePresence>
   );
 
-const AdminNavBar = () => {
-  const { data: session, status } = useSession();
-  const userName = session?.user?.name;
-  const userEmail = session?.user?.email;
-  const displayName = userName || userEmail || "Authorized admin";
-  const isLoading = status === "loading";
-
-  const handleSignOut = () => {
-    void signOut({ callbackUrl: "/admin/sign-in" });
-  };
+type ReviewCommentMode = "submit" | "changes";
 
-  return (
-  <div className="fixed inset-x-0 top-4 z-40">
-    <Container>
-        <div className="flex flex-col gap-3 rounded-full border border-brand-secondary/70 bg-white/80 px-6 py-4 text-xs shadow-sm backdrop-blur md:flex-row md:items-center md:justify-between md:text-sm">
-        <div className="flex items-center gap-3">
-          <span className="text-sm font-semibold uppercase tracking-[0.24em]">
-            MOR Architecture
-          </span>
-          <span className="rounded-full bg-brand-accent/30 px-3 py-1 font-condensed text-[0.7rem] uppercase tracking-[0.32em] text-text">
-            Admin
-          </span>
-        </div>
-          <div className="flex flex-wrap items-center justify-end gap-3 text-[0.65rem] uppercase tracking-[0.28em] text-text-muted md:text-right">
-            <div className="text-right">
-              <p>{isLoading ? "Verifying access…" : "Signed in as"}</p>
-              {!isLoading ? (
-                <p className="text-text">{displayName}</p>
-              ) : null}
-            </div>
-            <button
-              type="button"
-              onClick={handleSignOut}
-              className="rounded-full border border-brand-secondary px-4 py-1 font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text transition hover:border-text"
-            >
-              Sign out
-            </button>
-          <Link
-            href="/"
-              className="rounded-full border border-brand-secondary px-4 py-1 font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text transition hover:border-text"
-          >
-            Back to site
-          </Link>
-        </div>
-      </div>
-    </Container>
-  </div>
-);
+type ReviewCommentModalProps = {
+  mode: ReviewCommentMode | null;
+  title: string;
+  onCancel: () => void;
+  onConfirm: (comment: string) => void;
 };
 
-type EmptyEditorStateProps = {
-  onCreateProject: () => void;
-  loadError: string | null;
-};
+const ReviewCommentModal = ({
+  mode,
+  title,
+  onCancel,
+  onConfirm
+}: ReviewCommentModalProps) => {
+  const [comment, setComment] = useState("");
 
-const EmptyEditorState = ({ onCreateProject, loadError }: EmptyEditorStateProps) => (
-  <div className="flex flex-col items-center justify-center rounded-[32px] border border-dashed border-brand-secondary/60 bg-white/70 px-10 py-16 text-center text-text">
-    <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
-      No project selected
-    </p>
-    <h3 className="mt-4 text-2xl font-semibold uppercase tracking-tightest">
-      Create your first project
-    </h3>
-    <p className="mt-3 max-w-md text-sm text-text-muted">
-      {loadError
-        ? "We couldn’t load any projects. Try again or start a new one."
-        : "Get started by creating a new project. You can always duplicate or import existing work later."}
-    </p>
-    <button
-      type="button"
-      onClick={onCreateProject}
-      className="mt-6 inline-flex items-center justify-center rounded-full border border-text px-8 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition hover:bg-brand-secondary"
-    >
-      Create project
-    </button>
+  useEffect(() => {
+    if (mode) setComment("");
+  }, [mode]);
+
+  const isChanges = mode === "changes";
+  const canConfirm = !isChanges || comment.trim().length > 0;
+
+  return (
+    <AnimatePresence>
+      {mode ? (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4"
+        >
+          <motion.div
+            initial={{ scale: 0.96, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.94, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-lg rounded-[32px] border border-brand-secondary/70 bg-white p-8 text-center"
+          >
+            <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+              {isChanges ? "Request changes" : "Submit for review"}
+            </p>
+            <h3 className="mt-4 text-2xl font-semibold uppercase tracking-tightest">
+              {title}
+            </h3>
+            <p className="mt-4 text-sm text-text-muted">
+              {isChanges
+                ? "The project goes back to draft and the editor sees your comment."
+                : "Your edits are saved and an approver is asked to sign off before it goes live."}
+            </p>
+            <textarea
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+              maxLength={2000}
+              rows={4}
+              placeholder={
+                isChanges ? "What needs to change?" : "Optional note for the reviewer"
+              }
+              className="mt-6 w-full rounded-none border border-brand-secondary/70 px-4 py-2 text-left text-sm placeholder:text-text-muted/60 focus:border-text focus:outline-none"
+            />
+            <div className="mt-6 flex flex-wrap justify-center gap-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="rounded-full border border-brand-secondary px-6 py-2 font-condensed text-xs uppercase tracking-[0.32em]"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={!canConfirm}
+                onClick={() => onConfirm(comment.trim())}
+                className="rounded-full border border-text px-6 py-2 font-condensed text-xs uppercase tracking-[0.32em] disabled:opacity-40"
+              >
+                {isChanges ? "Send feedback" : "Submit"}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      ) : null}
+    </AnimatePresence>
+  );
+};
+
+const ReviewStatusNotice = ({
+  status,
+  review
+}: {
+  status: AdminProjectStatus;
+  review?: AdminProjectReview;
+}) => {
+  if (status === "in_review" && review?.submittedAt) {
+    return (
+      <div className="mt-6 rounded-2xl border border-orange-300 bg-orange-50 px-4 py-3 text-sm text-orange-700">
+        <p>Submitted for review {formatVersionTimestamp(review.submittedAt)}.</p>
+        {review.note ? <p className="mt-1 whitespace-pre-line">“{review.note}”</p> : null}
+      </div>
+    );
+  }
+  if (status !== "published" && review?.changesRequestedAt && review.feedback) {
+    return (
+      <div className="mt-6 rounded-2xl border border-brand-secondary bg-background px-4 py-3 text-sm text-text">
+        <p className="text-text-muted">
+          Changes requested {formatVersionTimestamp(review.changesRequestedAt)}:
+        </p>
+        <p className="mt-1 whitespace-pre-line">{review.feedback}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+const VERSION_SOURCE_LABELS: Record<AdminProjectVersionSummary["source"], string> = {
+  "manual-save": "Saved",
+  publish: "Published",
+  unpublish: "Unpublished",
+  restore: "Restored"
+};
+
+const formatVersionTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short"
+  });
+
+// datetime-local inputs work in the browser's timezone without an offset.
+const toDateTimeInputValue = (iso?: string) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const fromDateTimeInputValue = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+type SchedulePanelProps = {
+  status: AdminProjectStatus;
+  scheduledPublishAt?: string;
+  scheduledUnpublishAt?: string;
+  disabled: boolean;
+  onSave?: (schedule: AdminProjectSchedulePayload) => Promise<boolean>;
+};
+
+const SchedulePanel = ({
+  status,
+  scheduledPublishAt,
+  scheduledUnpublishAt,
+  disabled,
+  onSave
+}: SchedulePanelProps) => {
+  const [publishAt, setPublishAt] = useState(() =>
+    toDateTimeInputValue(scheduledPublishAt)
+  );
+  const [unpublishAt, setUnpublishAt] = useState(() =>
+    toDateTimeInputValue(scheduledUnpublishAt)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setPublishAt(toDateTimeInputValue(scheduledPublishAt));
+    setUnpublishAt(toDateTimeInputValue(scheduledUnpublishAt));
+  }, [scheduledPublishAt, scheduledUnpublishAt]);
+
+  const hasSchedule = Boolean(scheduledPublishAt || scheduledUnpublishAt);
+  if (!onSave && !hasSchedule) {
+    return null;
+  }
+
+  const isChanged =
+    publishAt !== toDateTimeInputValue(scheduledPublishAt) ||
+    unpublishAt !== toDateTimeInputValue(scheduledUnpublishAt);
+
+  const submit = async (schedule: AdminProjectSchedulePayload) => {
+    if (!onSave) return;
+    setIsSaving(true);
+    await onSave(schedule);
+    setIsSaving(false);
+  };
+
+  const inputClass =
+    "mt-2 w-full rounded-none border border-brand-secondary/70 px-4 py-2 text-sm font-normal focus:border-text focus:outline-none disabled:opacity-50";
+
+  return (
+    <div className="rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+            Schedule
+          </p>
+          <p className="text-[0.75rem] text-text-muted">
+            Scheduled jobs publish the latest saved draft, not unsaved edits.
+          </p>
+        </div>
+        {hasSchedule ? (
+          <span className="rounded-full border border-brand-accent px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] text-text">
+            Scheduled
+          </span>
+        ) : null}
+      </div>
+
+      {onSave ? (
+        <div className="mt-6 space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+              {status === "published" ? "Republish at" : "Publish at"}
+              <input
+                type="datetime-local"
+                value={publishAt}
+                disabled={disabled || isSaving}
+                onChange={(event) => setPublishAt(event.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+              Unpublish at
+              <input
+                type="datetime-local"
+                value={unpublishAt}
+                disabled={disabled || isSaving}
+                onChange={(event) => setUnpublishAt(event.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              disabled={disabled || isSaving || !isChanged}
+              onClick={() => {
+                void submit({
+                  publishAt: fromDateTimeInputValue(publishAt),
+                  unpublishAt: fromDateTimeInputValue(unpublishAt)
+                });
+              }}
+              className="rounded-full border border-text px-4 py-1 text-xs uppercase tracking-[0.28em] transition hover:bg-brand-secondary disabled:opacity-30"
+            >
+              {isSaving ? "Saving…" : "Save schedule"}
+            </button>
+            {hasSchedule ? (
+              <button
+                type="button"
+                disabled={disabled || isSaving}
+                onClick={() => {
+                  void submit({ publishAt: null, unpublishAt: null });
+                }}
+                className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text disabled:opacity-30"
+              >
+                Clear schedule
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : (
+        <div className="mt-6 space-y-1 text-sm text-text-muted">
+          {scheduledPublishAt ? (
+            <p>Publishes {formatVersionTimestamp(scheduledPublishAt)}</p>
+          ) : null}
+          {scheduledUnpublishAt ? (
+            <p>Unpublishes {formatVersionTimestamp(scheduledUnpublishAt)}</p>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+};
+
+type FeaturedPanelProps = {
+  project: AdminProjectRecord;
+  featured: AdminProjectRecord[];
+  disabled: boolean;
+  onToggle?: () => Promise<boolean>;
+  onReorder?: (projectIds: string[]) => Promise<boolean>;
+};
+
+const FeaturedPanel = ({
+  project,
+  featured,
+  disabled,
+  onToggle,
+  onReorder
+}: FeaturedPanelProps) => {
+  const savedOrder = featured.map((record) => record.id);
+  const [order, setOrder] = useState<string[]>(savedOrder);
+  const [isSaving, setIsSaving] = useState(false);
+  const savedOrderKey = savedOrder.join(",");
+
+  useEffect(() => {
+    setOrder(savedOrderKey ? savedOrderKey.split(",") : []);
+  }, [savedOrderKey]);
+
+  if (!onToggle && !featured.length) {
+    return null;
+  }
+
+  const recordsById = new Map(featured.map((record) => [record.id, record]));
+  const orderedRecords = order
+    .map((id) => recordsById.get(id))
+    .filter((record): record is AdminProjectRecord => Boolean(record));
+  const isChanged = order.join(",") !== savedOrderKey;
+
+  const move = (index: number, offset: -1 | 1) => {
+    setOrder((prev) => {
+      const next = [...prev];
+      const target = index + offset;
+      if (target < 0 || target >= next.length) {
+        return prev;
+      }
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsSaving(true);
+    await action();
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+            Homepage hero
+          </p>
+          <p className="text-[0.75rem] text-text-muted">
+            Featured projects rotate in this order once they are published.
+          </p>
+        </div>
+        {onToggle ? (
+          <button
+            type="button"
+            role="switch"
+            aria-checked={Boolean(project.isFeatured)}
+            disabled={disabled || isSaving}
+            onClick={() => {
+              void run(onToggle);
+            }}
+            className={`rounded-full border px-4 py-1 text-xs uppercase tracking-[0.28em] transition disabled:opacity-30 ${
+              project.isFeatured
+                ? "border-text bg-text text-white"
+                : "border-brand-secondary text-text-muted hover:border-text"
+            }`}
+          >
+            {project.isFeatured ? "Featured" : "Feature"}
+          </button>
+        ) : project.isFeatured ? (
+          <span className="rounded-full border border-brand-accent px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] text-text">
+            Featured
+          </span>
+        ) : null}
+      </div>
+
+      {orderedRecords.length ? (
+        <ol className="mt-6 space-y-2">
+          {orderedRecords.map((record, index) => (
+            <li
+              key={record.id}
+              className={`flex items-center justify-between gap-3 rounded-2xl border px-4 py-2 text-sm ${
+                record.id === project.id
+                  ? "border-text"
+                  : "border-brand-secondary/60"
+              }`}
+            >
+              <span className="flex min-w-0 items-center gap-3">
+                <span className="font-condensed text-xs text-text-muted">
+                  {index + 1}
+                </span>
+                <span className="truncate uppercase tracking-[0.08em]">
+                  {record.title || "Untitled project"}
+                </span>
+                {record.status !== "published" ? (
+                  <span className="shrink-0 text-[0.6rem] uppercase tracking-[0.28em] text-text-muted">
+                    Not live
+                  </span>
+                ) : null}
+              </span>
+              {onReorder ? (
+                <span className="flex shrink-0 gap-1">
+                  <button
+                    type="button"
+                    disabled={disabled || isSaving || index === 0}
+                    onClick={() => move(index, -1)}
+                    className="rounded-full border border-brand-secondary px-2 text-xs transition hover:border-text disabled:opacity-30"
+                    aria-label={`Move ${record.title} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    disabled={
+                      disabled || isSaving || index === orderedRecords.length - 1
+                    }
+                    onClick={() => move(index, 1)}
+                    className="rounded-full border border-brand-secondary px-2 text-xs transition hover:border-text disabled:opacity-30"
+                    aria-label={`Move ${record.title} down`}
+                  >
+                    ↓
+                  </button>
+                </span>
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="mt-6 text-sm text-text-muted">
+          No featured projects yet. The hero shows the studio image instead.
+        </p>
+      )}
+
+      {onReorder && isChanged ? (
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            disabled={disabled || isSaving}
+            onClick={() => {
+              void run(() => onReorder(order));
+            }}
+            className="rounded-full border border-text px-4 py-1 text-xs uppercase tracking-[0.28em] transition hover:bg-brand-secondary disabled:opacity-30"
+          >
+            {isSaving ? "Saving…" : "Save order"}
+          </button>
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => setOrder(savedOrder)}
+            className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text disabled:opacity-30"
+          >
+            Reset
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+const commentAnchorKey = (anchor: AdminCommentAnchor) =>
+  `${anchor.kind}:${anchor.itemId ?? ""}`;
+
+const describeCommentAnchor = (
+  anchor: AdminCommentAnchor,
+  project: AdminProjectRecord
+) => {
+  if (anchor.kind === "project" || !anchor.itemId) {
+    return "Whole project";
+  }
+  const index = project.itemIds?.[anchor.kind].indexOf(anchor.itemId) ?? -1;
+  if (anchor.kind === "description") {
+    return index >= 0 ? `Paragraph ${index + 1}` : "Removed paragraph";
+  }
+  if (anchor.kind === "meta") {
+    return index >= 0
+      ? `Meta: ${project.meta[index]?.label || `row ${index + 1}`}`
+      : "Removed meta row";
+  }
+  return index >= 0 ? `Gallery image ${index + 1}` : "Removed gallery image";
+};
+
+const CommentMarker = ({
+  count,
+  onClick
+}: {
+  count: number;
+  onClick: () => void;
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`rounded-full border px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] transition ${
+      count > 0
+        ? "border-orange-400 text-orange-600"
+        : "border-brand-secondary text-text-muted hover:border-text hover:text-text"
+    }`}
+  >
+    {count > 0 ? `${count} comment${count === 1 ? "" : "s"}` : "Comment"}
+  </button>
+);
+
+const MENTION_QUERY_PATTERN = /(^|\s)@([\w.+-]*)$/;
+
+type MentionTextareaProps = {
+  value: string;
+  onChange: (value: string) => void;
+  users: AdminMentionableUser[];
+  placeholder: string;
+  rows?: number;
+};
+
+// Typing "@" suggests teammates; picking one inserts their handle.
+const MentionTextarea = ({
+  value,
+  onChange,
+  users,
+  placeholder,
+  rows = 3
+}: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [query, setQuery] = useState<string | null>(null);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = MENTION_QUERY_PATTERN.exec(text.slice(0, caret));
+    setQuery(match ? match[2].toLowerCase() : null);
+  };
+
+  const suggestions =
+    query === null
+      ? []
+      : users
+          .filter(
+            (user) =>
+              user.handle.startsWith(query) ||
+              user.name.toLowerCase().includes(query)
+          )
+          .slice(0, 5);
+
+  const insertMention = (user: AdminMentionableUser) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const before = value
+      .slice(0, caret)
+      .replace(MENTION_QUERY_PATTERN, `$1@${user.handle} `);
+    onChange(`${before}${value.slice(caret)}`);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        rows={rows}
+        maxLength={2000}
+        placeholder={placeholder}
+        onChange={(event) => {
+          onChange(event.target.value);
+          updateQuery(event.target.value, event.target.selectionStart);
+        }}
+        onBlur={() => setQuery(null)}
+        className="w-full resize-none rounded-none border border-brand-secondary/70 px-4 py-2 text-sm placeholder:text-text-muted/60 focus:border-text focus:outline-none"
+      />
+      {suggestions.length ? (
+        <div className="absolute left-0 top-full z-10 mt-1 w-64 rounded-2xl border border-brand-secondary/70 bg-white py-2 shadow-sm">
+          {suggestions.map((user) => (
+            <button
+              key={user.id}
+              type="button"
+              // mousedown fires before the textarea blurs and clears the query
+              onMouseDown={(event) => {
+                event.preventDefault();
+                insertMention(user);
+              }}
+              className="flex w-full items-baseline justify-between gap-3 px-4 py-1 text-left text-sm hover:bg-background"
+            >
+              <span>{user.name}</span>
+              <span className="text-xs text-text-muted">@{user.handle}</span>
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+const CommentBody = ({ body }: { body: string }) => (
+  <p className="whitespace-pre-line text-sm text-text">
+    {body.split(/(@[\w.+-]+)/g).map((part, index) =>
+      part.startsWith("@") ? (
+        <span key={index} className="font-semibold text-brand-accent">
+          {part}
+        </span>
+      ) : (
+        part
+      )
+    )}
+  </p>
+);
+
+type CommentsPanelProps = {
+  projectId: string;
+  project: AdminProjectRecord;
+  threads: AdminProjectCommentThread[];
+  focus: AdminCommentAnchor | null;
+  currentUserId: string;
+  canComment: boolean;
+  canModerate: boolean;
+  onFocusChange: (anchor: AdminCommentAnchor | null) => void;
+  onThreadsChange: Dispatch<SetStateAction<AdminProjectCommentThread[]>>;
+  onPushToast: (variant: Toast["variant"], message: string) => void;
+};
+
+const CommentsPanel = ({
+  projectId,
+  project,
+  threads,
+  focus,
+  currentUserId,
+  canComment,
+  canModerate,
+  onFocusChange,
+  onThreadsChange,
+  onPushToast
+}: CommentsPanelProps) => {
+  const [users, setUsers] = useState<AdminMentionableUser[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [draftBody, setDraftBody] = useState("");
+  const [replyTarget, setReplyTarget] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!canComment) return;
+    request<AdminMentionableUser[]>("/api/admin/users/mentionable")
+      .then(setUsers)
+      .catch(() => setUsers([]));
+  }, [canComment]);
+
+  const replaceThread = (
+    thread: AdminProjectCommentThread | null,
+    removedId?: string
+  ) => {
+    onThreadsChange((prev) => {
+      const without = prev.filter(
+        (item) => item.id !== (thread?.id ?? removedId)
+      );
+      return thread
+        ? [...without, thread].sort((a, b) =>
+            a.createdAt.localeCompare(b.createdAt)
+          )
+        : without;
+    });
+  };
+
+  const runCommentAction = async (
+    action: () => Promise<void>,
+    fallback: string
+  ) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      onPushToast("error", error instanceof Error ? error.message : fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    runCommentAction(async () => {
+      const thread = await request<AdminProjectCommentThread>(
+        `/api/admin/projects/${projectId}/comments`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            body: draftBody,
+            anchor: focus ?? { kind: "project" }
+          })
+        }
+      );
+      replaceThread(thread);
+      setDraftBody("");
+    }, "Unable to post comment.");
+
+  const handleReply = (threadId: string) =>
+    runCommentAction(async () => {
+      const thread = await request<AdminProjectCommentThread>(
+        `/api/admin/projects/${projectId}/comments`,
+        {
+          method: "POST",
+          body: JSON.stringify({ body: replyBody, parentId: threadId })
+        }
+      );
+      replaceThread(thread);
+      setReplyTarget(null);
+      setReplyBody("");
+    }, "Unable to post reply.");
+
+  const handleResolve = (thread: AdminProjectCommentThread) =>
+    runCommentAction(async () => {
+      const updated = await request<AdminProjectCommentThread>(
+        `/api/admin/projects/${projectId}/comments/${thread.id}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ resolved: !thread.resolvedAt })
+        }
+      );
+      replaceThread(updated);
+    }, "Unable to update comment.");
+
+  const handleDelete = (commentId: string, threadId: string) =>
+    runCommentAction(async () => {
+      const result = await request<{
+        id: string;
+        thread: AdminProjectCommentThread | null;
+      }>(`/api/admin/projects/${projectId}/comments/${commentId}`, {
+        method: "DELETE"
+      });
+      replaceThread(result.thread, threadId);
+    }, "Unable to delete comment.");
+
+  const visibleThreads = threads.filter(
+    (thread) =>
+      (showResolved || !thread.resolvedAt) &&
+      (!focus || commentAnchorKey(thread.anchor) === commentAnchorKey(focus))
+  );
+  const openCount = threads.filter((thread) => !thread.resolvedAt).length;
+
+  const renderComment = (
+    comment: AdminProjectComment,
+    threadId: string,
+    isReply: boolean
+  ) => (
+    <div
+      key={comment.id}
+      className={isReply ? "border-l border-brand-secondary/70 pl-4" : ""}
+    >
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.12em]">
+          {comment.author?.name ?? "Unknown"}
+        </p>
+        <p className="text-[0.65rem] text-text-muted">
+          {formatVersionTimestamp(comment.createdAt)}
+          {comment.editedAt ? " (edited)" : ""}
+        </p>
+      </div>
+      <div className="mt-1">
+        <CommentBody body={comment.body} />
+      </div>
+      {canComment &&
+      (comment.author?.id === currentUserId || canModerate) ? (
+        <button
+          type="button"
+          disabled={isBusy}
+          onClick={() => {
+            void handleDelete(comment.id, threadId);
+          }}
+          className="mt-1 text-[0.6rem] uppercase tracking-[0.28em] text-text-muted hover:text-red-600 disabled:opacity-30"
+        >
+          Delete
+        </button>
+      ) : null}
+    </div>
+  );
+
+  return (
+    <div className="rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+            Review comments
+          </p>
+          <p className="text-[0.75rem] text-text-muted">
+            {openCount} open thread{openCount === 1 ? "" : "s"}. Mention a
+            teammate with @.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowResolved((prev) => !prev)}
+          className="rounded-full border border-brand-secondary px-3 py-1 text-xs uppercase tracking-[0.28em] text-text-muted hover:border-text hover:text-text"
+        >
+          {showResolved ? "Hide resolved" : "Show resolved"}
+        </button>
+      </div>
+
+      {focus ? (
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-text-muted">
+          <span>
+            Showing comments on{" "}
+            <strong className="text-text">
+              {describeCommentAnchor(focus, project)}
+            </strong>
+          </span>
+          <button
+            type="button"
+            onClick={() => onFocusChange(null)}
+            className="text-xs uppercase tracking-[0.28em] underline"
+          >
+            Show all
+          </button>
+        </div>
+      ) : null}
+
+      <div className="mt-6 space-y-4">
+        {visibleThreads.length === 0 ? (
+          <p className="text-sm text-text-muted">No comments here yet.</p>
+        ) : (
+          visibleThreads.map((thread) => (
+            <div
+              key={thread.id}
+              className={`space-y-3 rounded-2xl border px-4 py-3 ${
+                thread.resolvedAt
+                  ? "border-brand-secondary/40 opacity-70"
+                  : "border-brand-secondary/70"
+              }`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <button
+                  type="button"
+                  onClick={() => onFocusChange(thread.anchor)}
+                  className="rounded-full border border-brand-secondary px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] text-text-muted hover:border-text hover:text-text"
+                >
+                  {describeCommentAnchor(thread.anchor, project)}
+                </button>
+                {thread.resolvedAt ? (
+                  <span className="text-[0.65rem] text-text-muted">
+                    Resolved{thread.resolvedBy ? ` by ${thread.resolvedBy}` : ""}
+                  </span>
+                ) : null}
+              </div>
+              {renderComment(thread, thread.id, false)}
+              {thread.replies.map((reply) =>
+                renderComment(reply, thread.id, true)
+              )}
+              {canComment ? (
+                replyTarget === thread.id ? (
+                  <div className="space-y-2">
+                    <MentionTextarea
+                      value={replyBody}
+                      onChange={setReplyBody}
+                      users={users}
+                      placeholder="Reply…"
+                      rows={2}
+                    />
+                    <div className="flex gap-3">
+                      <button
+                        type="button"
+                        disabled={isBusy || !replyBody.trim()}
+                        onClick={() => {
+                          void handleReply(thread.id);
+                        }}
+                        className="rounded-full border border-text px-4 py-1 text-xs uppercase tracking-[0.28em] disabled:opacity-30"
+                      >
+                        Reply
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setReplyTarget(null)}
+                        className="text-xs uppercase tracking-[0.28em] text-text-muted"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-3 text-xs uppercase tracking-[0.28em] text-text-muted">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setReplyTarget(thread.id);
+                        setReplyBody("");
+                      }}
+                      className="hover:text-text"
+                    >
+                      Reply
+                    </button>
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => {
+                        void handleResolve(thread);
+                      }}
+                      className="hover:text-text disabled:opacity-30"
+                    >
+                      {thread.resolvedAt ? "Reopen" : "Resolve"}
+                    </button>
+                  </div>
+                )
+              ) : null}
+            </div>
+          ))
+        )}
+      </div>
+
+      {canComment ? (
+        <div className="mt-6 space-y-3">
+          <MentionTextarea
+            value={draftBody}
+            onChange={setDraftBody}
+            users={users}
+            placeholder={`Comment on ${describeCommentAnchor(
+              focus ?? { kind: "project" },
+              project
+            ).toLowerCase()}…`}
+          />
+          <button
+            type="button"
+            disabled={isBusy || !draftBody.trim()}
+            onClick={() => {
+              void handleCreate();
+            }}
+            className="rounded-full border border-text px-4 py-1 text-xs uppercase tracking-[0.28em] transition hover:bg-brand-secondary disabled:opacity-30"
+          >
+            Post comment
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+type VersionHistoryPanelProps = {
+  projectId: string;
+  refreshKey: string;
+  disabled: boolean;
+  highlightVersion?: number | null;
+  onRestore?: (version: AdminProjectVersionSummary) => void;
+};
+
+const VersionHistoryPanel = ({
+  projectId,
+  refreshKey,
+  disabled,
+  highlightVersion,
+  onRestore
+}: VersionHistoryPanelProps) => {
+  const [versions, setVersions] = useState<AdminProjectVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const rowRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    if (!highlightVersion) return;
+    rowRefs.current[highlightVersion]?.scrollIntoView({
+      behavior: "smooth",
+      block: "nearest"
+    });
+  }, [highlightVersion, versions]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    request<AdminProjectVersionSummary[]>(
+      `/api/admin/projects/${projectId}/versions`
+    )
+      .then((list) => {
+        if (!cancelled) setVersions(list);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : "Unable to load versions."
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, refreshKey]);
+
+  return (
+    <div className="rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+            Version history
+          </p>
+          <p className="text-[0.75rem] text-text-muted">
+            Every save and publish keeps a snapshot you can roll back to.
+          </p>
+        </div>
+        <span className="text-xs uppercase tracking-[0.28em] text-text-muted">
+          {versions.length} versions
+        </span>
+      </div>
+
+      <div className="mt-6 max-h-80 space-y-3 overflow-y-auto pr-1">
+        {isLoading && versions.length === 0 ? (
+          <p className="text-sm text-text-muted">Loading versions…</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-text-muted">No snapshots recorded yet.</p>
+        ) : (
+          versions.map((version, index) => {
+            const isCurrent = index === 0;
+            return (
+              <div
+                key={version.version}
+                ref={(node) => {
+                  rowRefs.current[version.version] = node;
+                }}
+                className={`flex flex-wrap items-center justify-between gap-4 rounded-2xl border px-4 py-3 transition ${
+                  highlightVersion === version.version
+                    ? "border-text bg-background"
+                    : "border-brand-secondary/60"
+                }`}
+              >
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold uppercase tracking-[0.12em]">
+                    v{version.version} — {version.title || "Untitled"}
+                  </p>
+                  <p className="font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+                    {VERSION_SOURCE_LABELS[version.source]} •{" "}
+                    {formatVersionTimestamp(version.createdAt)}
+                  </p>
+                </div>
+                {isCurrent ? (
+                  <span className="rounded-full border border-brand-accent px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] text-text">
+                    Current
+                  </span>
+                ) : onRestore ? (
+                  <button
+                    type="button"
+                    disabled={disabled}
+                    onClick={() => onRestore(version)}
+                    className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text disabled:opacity-30"
+                  >
+                    Restore
+                  </button>
+                ) : null}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SCALAR_FIELD_LABELS: Record<AdminProjectScalarField, string> = {
+  title: "Title",
+  slug: "Slug",
+  categoryLabel: "Category",
+  location: "Location",
+  yearDisplay: "Year",
+  excerpt: "Excerpt",
+  heroImage: "Hero image",
+  heroCaption: "Hero caption",
+  metaTitle: "Meta title",
+  metaDescription: "Meta description"
+};
+
+const LIST_FIELD_LABELS: Record<AdminProjectListField, string> = {
+  descriptionBlocks: "Description",
+  meta: "Meta list",
+  services: "Services",
+  collaborators: "Collaborators",
+  gallery: "Gallery"
+};
+
+const LIST_CHANGE_STYLES: Record<string, string> = {
+  added: "border-green-400 text-green-700",
+  removed: "border-red-400 text-red-600",
+  edited: "border-brand-accent text-text",
+  reordered: "border-brand-secondary text-text-muted"
+};
+
+const ACTIVITY_ACTION_LABELS: Record<AdminActivityEntry["action"], string> = {
+  created: "Created",
+  duplicated: "Duplicated",
+  saved: "Saved draft",
+  published: "Published",
+  unpublished: "Unpublished",
+  deleted: "Moved to trash",
+  restored: "Restored",
+  purged: "Permanently deleted",
+  "schedule-updated": "Updated schedule",
+  "scheduled-publish": "Published on schedule",
+  "scheduled-unpublish": "Unpublished on schedule",
+  "schedule-failed": "Scheduled job failed",
+  "review-requested": "Submitted for review",
+  "review-approved": "Approved and published",
+  "changes-requested": "Requested changes",
+  "featured-updated": "Updated featuring"
+};
+
+type ActivityTimelinePanelProps = {
+  projectId?: string;
+  refreshKey: string;
+  onOpenVersion: (projectId: string, version: number) => void;
+};
+
+const ActivityTimelinePanel = ({
+  projectId,
+  refreshKey,
+  onOpenVersion
+}: ActivityTimelinePanelProps) => {
+  const [entries, setEntries] = useState<AdminActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const baseUrl = projectId
+    ? `/api/admin/projects/${projectId}/history`
+    : "/api/admin/activity";
+
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const page = await request<AdminActivityPage>(
+          cursor ? `${baseUrl}?cursor=${encodeURIComponent(cursor)}` : baseUrl
+        );
+        setEntries((prev) => (cursor ? [...prev, ...page.entries] : page.entries));
+        setNextCursor(page.nextCursor);
+      } catch (loadError) {
+        setError(
+          loadError instanceof Error
+            ? loadError.message
+            : "Unable to load activity."
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl]
+  );
+
+  useEffect(() => {
+    void loadPage(null);
+  }, [loadPage, refreshKey]);
+
+  return (
+    <div className="rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+      <div>
+        <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+          {projectId ? "Activity" : "Recent activity"}
+        </p>
+        <p className="text-[0.75rem] text-text-muted">
+          {projectId
+            ? "Who changed this project and when."
+            : "Latest changes across all projects."}
+        </p>
+      </div>
+
+      <ol className="mt-6 max-h-96 space-y-4 overflow-y-auto border-l border-brand-secondary/60 pl-5 pr-1">
+        {entries.map((entry) => (
+          <li key={entry.id} className="relative space-y-1">
+            <span className="absolute -left-[1.6rem] top-1.5 h-2 w-2 rounded-full bg-text" />
+            <p className="text-sm">
+              <span className="font-semibold">
+                {entry.actor?.name ?? "Unknown user"}
+              </span>{" "}
+              <span className="text-text-muted">
+                {ACTIVITY_ACTION_LABELS[entry.action].toLowerCase()}
+              </span>
+              {projectId ? null : (
+                <>
+                  {" "}
+                  <span className="font-semibold">{entry.projectTitle}</span>
+                </>
+              )}
+            </p>
+            {entry.summary ? (
+              <p className="text-[0.75rem] text-text-muted">{entry.summary}</p>
+            ) : null}
+            <div className="flex flex-wrap items-center gap-3 font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+              <span>{formatVersionTimestamp(entry.createdAt)}</span>
+              {entry.fromStatus && entry.toStatus && entry.fromStatus !== entry.toStatus ? (
+                <span>
+                  {entry.fromStatus} → {entry.toStatus}
+                </span>
+              ) : null}
+              {entry.snapshotVersion && entry.versionAvailable ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    onOpenVersion(entry.projectId, entry.snapshotVersion as number)
+                  }
+                  className="rounded-full border border-brand-secondary px-3 py-0.5 text-text transition hover:border-text"
+                >
+                  v{entry.snapshotVersion}
+                </button>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {error ? <p className="mt-4 text-sm text-red-600">{error}</p> : null}
+      {!isLoading && !error && entries.length === 0 ? (
+        <p className="mt-4 text-sm text-text-muted">No activity recorded yet.</p>
+      ) : null}
+      {isLoading ? (
+        <p className="mt-4 text-sm text-text-muted">Loading activity…</p>
+      ) : nextCursor ? (
+        <button
+          type="button"
+          onClick={() => {
+            void loadPage(nextCursor);
+          }}
+          className="mt-4 rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text"
+        >
+          Load more
+        </button>
+      ) : null}
+    </div>
+  );
+};
+
+type ProjectDiffViewProps = {
+  diff: AdminProjectDiff;
+  fromLabel: string;
+  toLabel: string;
+};
+
+const ProjectDiffView = ({ diff, fromLabel, toLabel }: ProjectDiffViewProps) => {
+  if (!diff.hasChanges) {
+    return (
+      <p className="rounded-2xl border border-dashed border-brand-secondary/60 p-6 text-center text-sm text-text-muted">
+        No differences between {fromLabel.toLowerCase()} and{" "}
+        {toLabel.toLowerCase()}.
+      </p>
+    );
+  }
+
+  const listFields = (
+    Object.keys(LIST_FIELD_LABELS) as AdminProjectListField[]
+  ).filter((field) => diff.lists[field].length > 0);
+
+  return (
+    <div className="space-y-6">
+      {!diff.from.exists ? (
+        <p className="text-sm text-text-muted">
+          {fromLabel} has no content yet — everything below is new.
+        </p>
+      ) : null}
+
+      {diff.scalars.length ? (
+        <div className="space-y-3">
+          <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+            Fields
+          </p>
+          {diff.scalars.map((change) => (
+            <div
+              key={change.field}
+              className="grid gap-3 rounded-2xl border border-brand-secondary/60 px-4 py-3 text-sm sm:grid-cols-[8rem_1fr_1fr]"
+            >
+              <span className="font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+                {SCALAR_FIELD_LABELS[change.field]}
+              </span>
+              {change.field === "heroImage" ? (
+                <>
+                  <div className="relative h-16 w-24 overflow-hidden border border-brand-secondary/60">
+                    <AdminImage source={change.before} alt={fromLabel} />
+                  </div>
+                  <div className="relative h-16 w-24 overflow-hidden border border-brand-secondary/60">
+                    <AdminImage source={change.after} alt={toLabel} />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <span className="text-red-600 line-through decoration-red-300">
+                    {change.before || "—"}
+                  </span>
+                  <span className="text-text">{change.after || "—"}</span>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {listFields.map((field) => (
+        <div key={field} className="space-y-3">
+          <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+            {LIST_FIELD_LABELS[field]}
+          </p>
+          {diff.lists[field].map((change, index) => (
+            <div
+              key={`${field}-${change.type}-${index}`}
+              className="flex items-start gap-3 rounded-2xl border border-brand-secondary/60 px-4 py-3 text-sm"
+            >
+              <span
+                className={`shrink-0 rounded-full border px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] ${
+                  LIST_CHANGE_STYLES[change.type]
+                }`}
+              >
+                {change.type}
+              </span>
+              {change.image ? (
+                <div className="relative h-12 w-16 shrink-0 overflow-hidden border border-brand-secondary/60">
+                  <AdminImage source={change.image} alt={change.after ?? change.before ?? ""} />
+                </div>
+              ) : null}
+              <div className="min-w-0 space-y-1">
+                {change.type === "edited" ? (
+                  <>
+                    <p className="text-red-600 line-through decoration-red-300">
+                      {change.before}
+                    </p>
+                    <p className="text-text">{change.after}</p>
+                  </>
+                ) : change.type === "reordered" ? (
+                  <p className="text-text">
+                    {change.after}{" "}
+                    <span className="text-text-muted">
+                      (#{(change.fromIndex ?? 0) + 1} → #
+                      {(change.toIndex ?? 0) + 1})
+                    </span>
+                  </p>
+                ) : (
+                  <p
+                    className={
+                      change.type === "removed"
+                        ? "text-red-600 line-through decoration-red-300"
+                        : "text-text"
+                    }
+                  >
+                    {change.after ?? change.before}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+type ProjectDiffModalProps = {
+  open: boolean;
+  eyebrow: string;
+  title: string;
+  description: string;
+  warning?: string;
+  fromLabel: string;
+  toLabel: string;
+  diffUrl: string;
+  diffBody?: string;
+  confirmLabel: string;
+  onCancel: () => void;
+  onConfirm: () => void;
+};
+
+const ProjectDiffModal = ({
+  open,
+  eyebrow,
+  title,
+  description,
+  warning,
+  fromLabel,
+  toLabel,
+  diffUrl,
+  diffBody,
+  confirmLabel,
+  onCancel,
+  onConfirm
+}: ProjectDiffModalProps) => {
+  const [diff, setDiff] = useState<AdminProjectDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !diffUrl) {
+      setDiff(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    request<AdminProjectDiff>(
+      diffUrl,
+      diffBody ? { method: "POST", body: diffBody } : {}
+    )
+      .then((result) => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : "Unable to compare versions."
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, diffUrl, diffBody]);
+
+  return (
+    <AnimatePresence>
+      {open ? (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4"
+        >
+          <motion.div
+            initial={{ scale: 0.96, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.94, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="flex max-h-[85vh] w-full max-w-3xl flex-col rounded-[32px] border border-brand-secondary/70 bg-white p-8"
+          >
+            <div className="text-center">
+              <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+                {eyebrow}
+              </p>
+              <h3 className="mt-4 text-2xl font-semibold uppercase tracking-tightest">
+                {title}
+              </h3>
+              <p className="mt-4 text-sm text-text-muted">{description}</p>
+              {warning ? (
+                <p className="mt-3 text-sm text-red-600">{warning}</p>
+              ) : null}
+            </div>
+
+            <div className="mt-6 flex justify-between font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+              <span>{fromLabel}</span>
+              <span>→ {toLabel}</span>
+            </div>
+
+            <div className="mt-4 min-h-0 flex-1 overflow-y-auto pr-1">
+              {error ? (
+                <p className="text-sm text-red-600">{error}</p>
+              ) : diff ? (
+                <ProjectDiffView
+                  diff={diff}
+                  fromLabel={fromLabel}
+                  toLabel={toLabel}
+                />
+              ) : (
+                <p className="text-sm text-text-muted">Comparing…</p>
+              )}
+            </div>
+
+            <div className="mt-6 flex flex-wrap justify-center gap-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="rounded-full border border-brand-secondary px-6 py-2 font-condensed text-xs uppercase tracking-[0.32em]"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={onConfirm}
+                className="rounded-full border border-text px-6 py-2 font-condensed text-xs uppercase tracking-[0.32em]"
+              >
+                {confirmLabel}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      ) : null}
+    </AnimatePresence>
+  );
+};
+
+type ConflictModalProps = {
+  conflict: ProjectConflict | null;
+  onCancel: () => void;
+  onReload: () => void;
+  onMerge: () => void;
+};
+
+const ConflictModal = ({
+  conflict,
+  onCancel,
+  onReload,
+  onMerge
+}: ConflictModalProps) => {
+  const describe = (fields: MergeableField[]) =>
+    Array.from(
+      new Set(fields.map((field) => MERGEABLE_FIELD_LABELS[field]))
+    ).join(", ");
+  const mine = conflict ? changedFields(conflict.base, conflict.mine) : [];
+  const theirs = conflict ? changedFields(conflict.base, conflict.theirs) : [];
+  const overlapping = mine.filter((field) => theirs.includes(field));
+
+  return (
+    <AnimatePresence>
+      {conflict ? (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4"
+        >
+          <motion.div
+            initial={{ scale: 0.96, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.94, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-lg rounded-[32px] border border-brand-secondary/70 bg-white p-8 text-center"
+          >
+            <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+              Edit conflict
+            </p>
+            <h3 className="mt-4 text-2xl font-semibold uppercase tracking-tightest">
+              {conflict.theirs.title}
+            </h3>
+            <p className="mt-4 text-sm text-text-muted">
+              Someone saved revision {conflict.theirs.revision} after you opened
+              this project (you started from revision {conflict.base.revision}).
+              Nothing was overwritten.
+            </p>
+            <div className="mt-4 space-y-1 text-sm text-text-muted">
+              <p>Their changes: {theirs.length ? describe(theirs) : "none"}</p>
+              <p>Your changes: {mine.length ? describe(mine) : "none"}</p>
+              {overlapping.length ? (
+                <p className="text-red-600">
+                  Both edited {describe(overlapping)} — merging keeps yours.
+                </p>
+              ) : null}
+            </div>
+            <div className="mt-6 flex flex-wrap justify-center gap-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="rounded-full border border-brand-secondary px-6 py-2 font-condensed text-xs uppercase tracking-[0.32em]"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={onReload}
+                className="rounded-full border border-orange-400 px-6 py-2 font-condensed text-xs uppercase tracking-[0.32em] text-orange-600"
+              >
+                Reload latest
+              </button>
+              <button
+                type="button"
+                onClick={onMerge}
+                className="rounded-full border border-text px-6 py-2 font-condensed text-xs uppercase tracking-[0.32em]"
+              >
+                Merge my edits
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      ) : null}
+    </AnimatePresence>
+  );
+};
+
+type EmptyEditorStateProps = {
+  onCreateProject?: () => void;
+  loadError: string | null;
+};
+
+const EmptyEditorState = ({ onCreateProject, loadError }: EmptyEditorStateProps) => (
+  <div className="flex flex-col items-center justify-center rounded-[32px] border border-dashed border-brand-secondary/60 bg-white/70 px-10 py-16 text-center text-text">
+    <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+      No project selected
+    </p>
+    <h3 className="mt-4 text-2xl font-semibold uppercase tracking-tightest">
+      Create your first project
+    </h3>
+    <p className="mt-3 max-w-md text-sm text-text-muted">
+      {loadError
+        ? "We couldn’t load any projects. Try again or start a new one."
+        : "Get started by creating a new project. You can always duplicate or import existing work later."}
+    </p>
+    {onCreateProject ? (
+      <button
+        type="button"
+        onClick={onCreateProject}
+        className="mt-6 inline-flex items-center justify-center rounded-full border border-text px-8 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition hover:bg-brand-secondary"
+      >
+        Create project
+      </button>
+    ) : null}
   </div>
 );
 
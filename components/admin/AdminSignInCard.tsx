@@ -8,7 +8,7 @@ type AdminSignInCardProps = {
 };
 
 const ERROR_MESSAGES: Record<string, string> = {
-  AccessDenied: "This Google account is not authorized for the admin dashboard.",
+  AccessDenied: "This Google account has not been invited to the admin dashboard.",
   Configuration: "Authentication is not configured correctly. Please review the server logs.",
   default: "We couldn’t complete the sign-in request. Please try again."
 };
@@ -60,8 +60,8 @@ const AdminSignInCard = ({ errorCode }: AdminSignInCardProps) => {
         Continue with Google
       </button>
       <p className="mt-6 text-xs text-text-muted">
-        Trouble signing in? Contact your system administrator to get your email
-        allow-listed.
+        Trouble signing in? Ask a studio admin to send an invitation to your
+        Google account.
       </p>
       <Link
         href="/"
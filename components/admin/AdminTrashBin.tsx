@@ -0,0 +1,248 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+
+import AdminNavBar from "@/components/admin/AdminNavBar";
+import Container from "@/components/Container";
+import type { AdminRole } from "@/lib/auth/permissions";
+import type { AdminTrashedProject } from "@/lib/types/admin";
+
+type Notice = {
+  variant: "success" | "error";
+  message: string;
+};
+
+async function requestJson<T>(url: string, options: RequestInit = {}) {
+  const response = await fetch(url, {
+    cache: "no-store",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.headers ?? {})
+    }
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error ?? response.statusText);
+  }
+  return payload as T;
+}
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat("en", { dateStyle: "medium" }).format(new Date(value));
+
+const daysUntil = (value: string) =>
+  Math.max(Math.ceil((new Date(value).getTime() - Date.now()) / 86400000), 0);
+
+type AdminTrashBinProps = {
+  role: AdminRole;
+  retentionDays: number;
+};
+
+const AdminTrashBin = ({ role, retentionDays }: AdminTrashBinProps) => {
+  const [projects, setProjects] = useState<AdminTrashedProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeTarget, setPurgeTarget] = useState<AdminTrashedProject | null>(
+    null
+  );
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data } = await requestJson<{ data: AdminTrashedProject[] }>(
+        "/api/admin/trash"
+      );
+      setProjects(data);
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message: error instanceof Error ? error.message : "Unable to load the trash."
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTrash();
+  }, [loadTrash]);
+
+  const runAction = async (
+    project: AdminTrashedProject,
+    url: string,
+    method: "POST" | "DELETE",
+    successMessage: string
+  ) => {
+    setBusyId(project.id);
+    setNotice(null);
+    try {
+      await requestJson(url, { method });
+      setProjects((prev) => prev.filter((item) => item.id !== project.id));
+      setNotice({ variant: "success", message: successMessage });
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message: error instanceof Error ? error.message : "Unable to update the trash."
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (project: AdminTrashedProject) =>
+    runAction(
+      project,
+      `/api/admin/trash/${project.id}/restore`,
+      "POST",
+      `${project.title} restored as a draft.`
+    );
+
+  const confirmPurge = () => {
+    if (!purgeTarget) return;
+    const target = purgeTarget;
+    setPurgeTarget(null);
+    void runAction(
+      target,
+      `/api/admin/trash/${target.id}`,
+      "DELETE",
+      `${target.title} permanently deleted.`
+    );
+  };
+
+  return (
+    <div className="relative min-h-screen bg-background text-text">
+      <AdminNavBar role={role} />
+      <main className="pt-32 pb-24">
+        <section className="py-12">
+          <Container className="max-w-[min(92vw,78rem)] space-y-10">
+            <div className="rounded-[40px] border border-brand-secondary/70 bg-white/90 px-8 py-14 shadow-sm backdrop-blur">
+              <div className="flex flex-wrap items-center gap-4 font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+                <span className="rounded-full border border-brand-secondary px-4 py-1">
+                  Trash
+                </span>
+                <span>{projects.length} deleted projects</span>
+              </div>
+              <h1 className="mt-8 text-4xl font-medium uppercase tracking-tightest md:text-[3rem]">
+                Recover deleted work
+              </h1>
+              <p className="mt-5 max-w-2xl text-lg text-text-muted">
+                Restoring rebuilds a draft from the last saved version. Projects
+                and their media are purged automatically {retentionDays} days
+                after deletion.
+              </p>
+            </div>
+
+            {notice ? (
+              <p
+                className={`rounded-2xl border px-4 py-3 text-sm ${
+                  notice.variant === "success"
+                    ? "border-green-300 bg-green-50 text-green-700"
+                    : "border-red-200 bg-red-50 text-red-600"
+                }`}
+              >
+                {notice.message}{" "}
+                {notice.variant === "success" ? (
+                  <Link href="/admin/projects" className="underline">
+                    Open projects
+                  </Link>
+                ) : null}
+              </p>
+            ) : null}
+
+            <div className="space-y-3 rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+              {isLoading && projects.length === 0 ? (
+                <p className="text-sm text-text-muted">Loading trash…</p>
+              ) : projects.length === 0 ? (
+                <p className="text-sm text-text-muted">The trash is empty.</p>
+              ) : (
+                projects.map((project) => {
+                  const isBusy = busyId === project.id;
+                  const remaining = daysUntil(project.purgeAt);
+                  return (
+                    <div
+                      key={project.id}
+                      className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-brand-secondary/60 px-4 py-3"
+                    >
+                      <div className="space-y-1">
+                        <p className="text-sm font-semibold uppercase tracking-[0.12em]">
+                          {project.title}
+                        </p>
+                        <p className="font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+                          {project.category} • Deleted {formatDate(project.deletedAt)}
+                          {project.deletedBy ? ` by ${project.deletedBy}` : ""}
+                        </p>
+                        <p className="text-[0.75rem] text-text-muted">
+                          {remaining > 0
+                            ? `Purged in ${remaining} day${remaining === 1 ? "" : "s"}`
+                            : "Purged on the next cleanup run"}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => {
+                            void handleRestore(project);
+                          }}
+                          className="rounded-full border border-text px-4 py-1 text-xs uppercase tracking-[0.28em] transition hover:bg-brand-secondary disabled:opacity-30"
+                        >
+                          Restore
+                        </button>
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => setPurgeTarget(project)}
+                          className="rounded-full border border-red-400 px-4 py-1 text-xs uppercase tracking-[0.28em] text-red-600 disabled:opacity-30"
+                        >
+                          Delete forever
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </Container>
+        </section>
+      </main>
+
+      {purgeTarget ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4">
+          <div className="w-full max-w-md rounded-[32px] border border-brand-secondary/70 bg-white p-8 text-center">
+            <p className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+              Delete forever
+            </p>
+            <h3 className="mt-4 text-2xl font-semibold uppercase tracking-tightest">
+              {purgeTarget.title}
+            </h3>
+            <p className="mt-4 text-sm text-text-muted">
+              The project, its version history and any media no other project
+              uses will be removed. This cannot be undone.
+            </p>
+            <div className="mt-6 flex flex-wrap justify-center gap-4">
+              <button
+                type="button"
+                onClick={() => setPurgeTarget(null)}
+                className="rounded-full border border-brand-secondary px-6 py-2 font-condensed text-xs uppercase tracking-[0.32em]"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={confirmPurge}
+                className="rounded-full border border-red-400 px-6 py-2 font-condensed text-xs uppercase tracking-[0.32em] text-red-600"
+              >
+                Delete forever
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default AdminTrashBin;
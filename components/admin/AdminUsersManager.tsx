@@ -0,0 +1,385 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+
+import AdminNavBar from "@/components/admin/AdminNavBar";
+import Container from "@/components/Container";
+import { ADMIN_ROLES, type AdminRole } from "@/lib/auth/permissions";
+import type {
+  AdminUserInvitePayload,
+  AdminUserSummary,
+  AdminUserUpdatePayload
+} from "@/lib/types/admin";
+
+type Notice = {
+  variant: "success" | "error";
+  message: string;
+};
+
+type MutationResult = {
+  data: AdminUserSummary;
+  emailSent?: boolean;
+};
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  admin: "Publish, delete and manage users",
+  editor: "Edit drafts and upload media",
+  viewer: "Read-only access"
+};
+
+const STATUS_STYLES: Record<AdminUserSummary["status"], string> = {
+  active: "border-brand-accent text-text",
+  invited: "border-orange-400 text-orange-600",
+  disabled: "border-red-400 text-red-600"
+};
+
+async function requestJson<T>(url: string, options: RequestInit = {}) {
+  const response = await fetch(url, {
+    cache: "no-store",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.headers ?? {})
+    }
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error ?? response.statusText);
+  }
+  return payload as T;
+}
+
+const formatDate = (value?: string) =>
+  value
+    ? new Intl.DateTimeFormat("en", {
+        dateStyle: "medium",
+        timeStyle: "short"
+      }).format(new Date(value))
+    : "—";
+
+type AdminUsersManagerProps = {
+  role: AdminRole;
+  currentUserId: string;
+};
+
+const AdminUsersManager = ({ role, currentUserId }: AdminUsersManagerProps) => {
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [invite, setInvite] = useState<AdminUserInvitePayload>({
+    email: "",
+    fullName: "",
+    role: "editor"
+  });
+  const [isInviting, setIsInviting] = useState(false);
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data } = await requestJson<{ data: AdminUserSummary[] }>(
+        "/api/admin/users"
+      );
+      setUsers(data);
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message: error instanceof Error ? error.message : "Unable to load users."
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadUsers();
+  }, [loadUsers]);
+
+  const replaceUser = (user: AdminUserSummary) => {
+    setUsers((prev) => prev.map((item) => (item.id === user.id ? user : item)));
+  };
+
+  const describeDelivery = (email: string, emailSent?: boolean) =>
+    emailSent
+      ? `Invitation sent to ${email}.`
+      : `Invitation saved for ${email}, but the email could not be sent. Try resending.`;
+
+  const handleInvite = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsInviting(true);
+    setNotice(null);
+    try {
+      const { data, emailSent } = await requestJson<MutationResult>(
+        "/api/admin/users",
+        { method: "POST", body: JSON.stringify(invite) }
+      );
+      setUsers((prev) => [data, ...prev]);
+      setInvite({ email: "", fullName: "", role: invite.role });
+      setNotice({
+        variant: emailSent ? "success" : "error",
+        message: describeDelivery(data.email, emailSent)
+      });
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message: error instanceof Error ? error.message : "Unable to invite user."
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const runUserAction = async (
+    user: AdminUserSummary,
+    action: () => Promise<void>
+  ) => {
+    setBusyId(user.id);
+    setNotice(null);
+    try {
+      await action();
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message: error instanceof Error ? error.message : "Unable to update user."
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUpdate = (user: AdminUserSummary, payload: AdminUserUpdatePayload) =>
+    runUserAction(user, async () => {
+      const { data } = await requestJson<MutationResult>(
+        `/api/admin/users/${user.id}`,
+        { method: "PATCH", body: JSON.stringify(payload) }
+      );
+      replaceUser(data);
+      setNotice({ variant: "success", message: `${data.email} updated.` });
+    });
+
+  const handleResend = (user: AdminUserSummary) =>
+    runUserAction(user, async () => {
+      const { data, emailSent } = await requestJson<MutationResult>(
+        `/api/admin/users/${user.id}/invitation`,
+        { method: "POST" }
+      );
+      replaceUser(data);
+      setNotice({
+        variant: emailSent ? "success" : "error",
+        message: describeDelivery(data.email, emailSent)
+      });
+    });
+
+  const handleRevoke = (user: AdminUserSummary) =>
+    runUserAction(user, async () => {
+      await requestJson<MutationResult>(`/api/admin/users/${user.id}`, {
+        method: "DELETE"
+      });
+      setUsers((prev) => prev.filter((item) => item.id !== user.id));
+      setNotice({
+        variant: "success",
+        message: `Invitation for ${user.email} revoked.`
+      });
+    });
+
+  return (
+    <div className="relative min-h-screen bg-background text-text">
+      <AdminNavBar role={role} />
+      <main className="pt-32 pb-24">
+        <section className="py-12">
+          <Container className="max-w-[min(92vw,78rem)] space-y-10">
+            <div className="rounded-[40px] border border-brand-secondary/70 bg-white/90 px-8 py-14 shadow-sm backdrop-blur">
+              <div className="flex flex-wrap items-center gap-4 font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+                <span className="rounded-full border border-brand-secondary px-4 py-1">
+                  Team access
+                </span>
+                <span>{users.length} accounts</span>
+              </div>
+              <h1 className="mt-8 text-4xl font-medium uppercase tracking-tightest md:text-[3rem]">
+                Manage admin users
+              </h1>
+              <p className="mt-5 max-w-2xl text-lg text-text-muted">
+                Invited people sign in with the Google account for their email.
+                Disabled accounts lose access immediately.
+              </p>
+            </div>
+
+            <form
+              onSubmit={(event) => {
+                void handleInvite(event);
+              }}
+              className="grid gap-4 rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:grid-cols-[2fr_2fr_1fr_auto] md:items-end md:px-8"
+            >
+              <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+                Email
+                <input
+                  type="email"
+                  required
+                  value={invite.email}
+                  onChange={(event) =>
+                    setInvite((prev) => ({ ...prev, email: event.target.value }))
+                  }
+                  placeholder="name@studio.com"
+                  className="mt-2 w-full rounded-2xl border border-brand-secondary/70 px-4 py-2 text-sm font-normal normal-case tracking-normal focus:border-text focus:outline-none"
+                />
+              </label>
+              <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+                Name
+                <input
+                  type="text"
+                  value={invite.fullName ?? ""}
+                  onChange={(event) =>
+                    setInvite((prev) => ({ ...prev, fullName: event.target.value }))
+                  }
+                  placeholder="Optional"
+                  className="mt-2 w-full rounded-2xl border border-brand-secondary/70 px-4 py-2 text-sm font-normal normal-case tracking-normal focus:border-text focus:outline-none"
+                />
+              </label>
+              <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+                Role
+                <select
+                  value={invite.role}
+                  onChange={(event) =>
+                    setInvite((prev) => ({
+                      ...prev,
+                      role: event.target.value as AdminRole
+                    }))
+                  }
+                  className="mt-2 w-full rounded-2xl border border-brand-secondary/70 px-4 py-2 text-sm font-normal normal-case tracking-normal"
+                >
+                  {ADMIN_ROLES.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="submit"
+                disabled={isInviting}
+                className="rounded-full border border-text px-8 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition hover:bg-brand-secondary disabled:opacity-40"
+              >
+                {isInviting ? "Inviting…" : "Send invite"}
+              </button>
+              <p className="text-xs text-text-muted md:col-span-4">
+                {ROLE_DESCRIPTIONS[invite.role]}
+              </p>
+            </form>
+
+            {notice ? (
+              <p
+                className={`rounded-2xl border px-4 py-3 text-sm ${
+                  notice.variant === "success"
+                    ? "border-green-300 bg-green-50 text-green-700"
+                    : "border-red-200 bg-red-50 text-red-600"
+                }`}
+              >
+                {notice.message}
+              </p>
+            ) : null}
+
+            <div className="space-y-3 rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+              {isLoading && users.length === 0 ? (
+                <p className="text-sm text-text-muted">Loading users…</p>
+              ) : users.length === 0 ? (
+                <p className="text-sm text-text-muted">No users yet.</p>
+              ) : (
+                users.map((user) => {
+                  const isSelf = user.id === currentUserId;
+                  const isBusy = busyId === user.id;
+                  return (
+                    <div
+                      key={user.id}
+                      className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-brand-secondary/60 px-4 py-3"
+                    >
+                      <div className="space-y-1">
+                        <p className="text-sm font-semibold uppercase tracking-[0.12em]">
+                          {user.fullName}
+                          {isSelf ? " (you)" : ""}
+                        </p>
+                        <p className="text-sm text-text-muted">{user.email}</p>
+                        <p className="font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+                          {user.status === "invited"
+                            ? `Invited ${formatDate(user.invitedAt)}`
+                            : `Last sign-in ${formatDate(user.lastLoginAt)}`}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span
+                          className={`rounded-full border px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] ${STATUS_STYLES[user.status]}`}
+                        >
+                          {user.status}
+                        </span>
+                        <select
+                          value={user.role}
+                          disabled={isSelf || isBusy}
+                          onChange={(event) => {
+                            void handleUpdate(user, {
+                              role: event.target.value as AdminRole
+                            });
+                          }}
+                          className="rounded-full border border-brand-secondary px-3 py-1 text-[0.65rem] uppercase tracking-[0.28em] disabled:opacity-40"
+                        >
+                          {ADMIN_ROLES.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                        {user.status === "invited" ? (
+                          <>
+                            <button
+                              type="button"
+                              disabled={isBusy}
+                              onClick={() => {
+                                void handleResend(user);
+                              }}
+                              className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text disabled:opacity-30"
+                            >
+                              Resend
+                            </button>
+                            <button
+                              type="button"
+                              disabled={isBusy}
+                              onClick={() => {
+                                void handleRevoke(user);
+                              }}
+                              className="rounded-full border border-red-400 px-4 py-1 text-xs uppercase tracking-[0.28em] text-red-600 disabled:opacity-30"
+                            >
+                              Revoke
+                            </button>
+                          </>
+                        ) : null}
+                        {!isSelf && user.status !== "invited" ? (
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => {
+                              void handleUpdate(user, {
+                                status:
+                                  user.status === "disabled" ? "active" : "disabled"
+                              });
+                            }}
+                            className={`rounded-full border px-4 py-1 text-xs uppercase tracking-[0.28em] disabled:opacity-30 ${
+                              user.status === "disabled"
+                                ? "border-brand-secondary text-text"
+                                : "border-red-400 text-red-600"
+                            }`}
+                          >
+                            {user.status === "disabled" ? "Enable" : "Disable"}
+                          </button>
+                        ) : null}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </Container>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default AdminUsersManager;
@@ -0,0 +1,551 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+
+import AdminNavBar from "@/components/admin/AdminNavBar";
+import Container from "@/components/Container";
+import type { AdminRole } from "@/lib/auth/permissions";
+import type {
+  AdminWebhook,
+  AdminWebhookDelivery,
+  AdminWebhookEvent,
+  AdminWebhookPayload,
+  AdminWebhookWithSecret
+} from "@/lib/types/admin";
+
+type Notice = {
+  variant: "success" | "error";
+  message: string;
+};
+
+const WEBHOOK_EVENT_OPTIONS: Array<{ event: AdminWebhookEvent; label: string }> = [
+  { event: "published", label: "Published" },
+  { event: "unpublished", label: "Unpublished" },
+  { event: "deleted", label: "Deleted" }
+];
+
+const DELIVERY_STATUS_STYLES: Record<AdminWebhookDelivery["status"], string> = {
+  delivered: "border-brand-accent text-text",
+  pending: "border-orange-400 text-orange-600",
+  failed: "border-red-400 text-red-600"
+};
+
+const EMPTY_FORM: AdminWebhookPayload = {
+  name: "",
+  url: "",
+  events: ["published", "unpublished", "deleted"]
+};
+
+async function requestJson<T>(url: string, options: RequestInit = {}) {
+  const response = await fetch(url, {
+    cache: "no-store",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.headers ?? {})
+    }
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error ?? response.statusText);
+  }
+  return payload as T;
+}
+
+const formatDate = (value?: string) =>
+  value
+    ? new Intl.DateTimeFormat("en", {
+        dateStyle: "medium",
+        timeStyle: "short"
+      }).format(new Date(value))
+    : "—";
+
+type AdminWebhooksManagerProps = {
+  role: AdminRole;
+};
+
+const AdminWebhooksManager = ({ role }: AdminWebhooksManagerProps) => {
+  const [webhooks, setWebhooks] = useState<AdminWebhook[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [form, setForm] = useState<AdminWebhookPayload>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<{
+    name: string;
+    secret: string;
+  } | null>(null);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<AdminWebhookDelivery[]>([]);
+  const [isLoadingLog, setIsLoadingLog] = useState(false);
+
+  const loadWebhooks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data } = await requestJson<{ data: AdminWebhook[] }>(
+        "/api/admin/webhooks"
+      );
+      setWebhooks(data);
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message: error instanceof Error ? error.message : "Unable to load webhooks."
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadWebhooks();
+  }, [loadWebhooks]);
+
+  const loadDeliveries = useCallback(async (webhookId: string) => {
+    setIsLoadingLog(true);
+    try {
+      const { data } = await requestJson<{ data: AdminWebhookDelivery[] }>(
+        `/api/admin/webhooks/${webhookId}/deliveries`
+      );
+      setDeliveries(data);
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message:
+          error instanceof Error ? error.message : "Unable to load deliveries."
+      });
+    } finally {
+      setIsLoadingLog(false);
+    }
+  }, []);
+
+  // Secrets are only ever held in revealedSecret, never in the list.
+  const replaceWebhook = ({
+    secret: _secret,
+    ...updated
+  }: AdminWebhook & { secret?: string }) =>
+    setWebhooks((prev) =>
+      prev.map((item) => (item.id === updated.id ? updated : item))
+    );
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const toggleFormEvent = (event: AdminWebhookEvent) =>
+    setForm((prev) => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter((item) => item !== event)
+        : [...prev.events, event]
+    }));
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setNotice(null);
+    try {
+      if (editingId) {
+        const { data } = await requestJson<{ data: AdminWebhook }>(
+          `/api/admin/webhooks/${editingId}`,
+          { method: "PATCH", body: JSON.stringify(form) }
+        );
+        replaceWebhook(data);
+        setNotice({ variant: "success", message: `${data.name} updated.` });
+      } else {
+        const {
+          data: { secret, ...created }
+        } = await requestJson<{ data: AdminWebhookWithSecret }>(
+          "/api/admin/webhooks",
+          { method: "POST", body: JSON.stringify(form) }
+        );
+        setWebhooks((prev) => [...prev, created]);
+        setRevealedSecret({ name: created.name, secret });
+      }
+      resetForm();
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message: error instanceof Error ? error.message : "Unable to save webhook."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runAction = async (
+    webhook: AdminWebhook,
+    action: () => Promise<void>,
+    fallback: string
+  ) => {
+    setBusyId(webhook.id);
+    setNotice(null);
+    try {
+      await action();
+    } catch (error) {
+      setNotice({
+        variant: "error",
+        message: error instanceof Error ? error.message : fallback
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleActive = (webhook: AdminWebhook) =>
+    runAction(
+      webhook,
+      async () => {
+        const { data } = await requestJson<{ data: AdminWebhook }>(
+          `/api/admin/webhooks/${webhook.id}`,
+          { method: "PATCH", body: JSON.stringify({ active: !webhook.active }) }
+        );
+        replaceWebhook(data);
+      },
+      "Unable to update webhook."
+    );
+
+  const handleRotateSecret = (webhook: AdminWebhook) =>
+    runAction(
+      webhook,
+      async () => {
+        const { data } = await requestJson<{ data: AdminWebhookWithSecret }>(
+          `/api/admin/webhooks/${webhook.id}`,
+          { method: "PATCH", body: JSON.stringify({ rotateSecret: true }) }
+        );
+        replaceWebhook(data);
+        setRevealedSecret({ name: data.name, secret: data.secret });
+      },
+      "Unable to rotate the secret."
+    );
+
+  const handleDelete = (webhook: AdminWebhook) =>
+    runAction(
+      webhook,
+      async () => {
+        await requestJson(`/api/admin/webhooks/${webhook.id}`, {
+          method: "DELETE"
+        });
+        setWebhooks((prev) => prev.filter((item) => item.id !== webhook.id));
+        if (openLogId === webhook.id) setOpenLogId(null);
+        if (editingId === webhook.id) resetForm();
+        setNotice({ variant: "success", message: `${webhook.name} removed.` });
+      },
+      "Unable to delete webhook."
+    );
+
+  const handleToggleLog = (webhook: AdminWebhook) => {
+    if (openLogId === webhook.id) {
+      setOpenLogId(null);
+      return;
+    }
+    setOpenLogId(webhook.id);
+    setDeliveries([]);
+    void loadDeliveries(webhook.id);
+  };
+
+  const handleRetry = (webhook: AdminWebhook, delivery: AdminWebhookDelivery) =>
+    runAction(
+      webhook,
+      async () => {
+        const { data } = await requestJson<{ data: AdminWebhookDelivery }>(
+          `/api/admin/webhooks/${webhook.id}/deliveries/${delivery.id}/retry`,
+          { method: "POST" }
+        );
+        setDeliveries((prev) =>
+          prev.map((item) => (item.id === data.id ? data : item))
+        );
+      },
+      "Unable to retry delivery."
+    );
+
+  return (
+    <div className="relative min-h-screen bg-background text-text">
+      <AdminNavBar role={role} />
+      <main className="pt-32 pb-24">
+        <section className="py-12">
+          <Container className="max-w-[min(92vw,78rem)] space-y-10">
+            <div className="rounded-[40px] border border-brand-secondary/70 bg-white/90 px-8 py-14 shadow-sm backdrop-blur">
+              <div className="flex flex-wrap items-center gap-4 font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+                <span className="rounded-full border border-brand-secondary px-4 py-1">
+                  Integrations
+                </span>
+                <span>{webhooks.length} webhooks</span>
+              </div>
+              <h1 className="mt-8 text-4xl font-medium uppercase tracking-tightest md:text-[3rem]">
+                Outgoing webhooks
+              </h1>
+              <p className="mt-5 max-w-2xl text-lg text-text-muted">
+                Each publish, unpublish or delete is POSTed as signed JSON.
+                Verify the X-Webhook-Signature header, an HMAC-SHA256 of
+                &quot;timestamp.body&quot; with the webhook secret. Failed
+                deliveries are retried with increasing delays.
+              </p>
+            </div>
+
+            <form
+              onSubmit={(event) => {
+                void handleSubmit(event);
+              }}
+              className="grid gap-4 rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:grid-cols-[1fr_2fr_auto] md:items-end md:px-8"
+            >
+              <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+                Name
+                <input
+                  type="text"
+                  required
+                  maxLength={120}
+                  value={form.name}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, name: event.target.value }))
+                  }
+                  placeholder="Newsletter"
+                  className="mt-2 w-full rounded-2xl border border-brand-secondary/70 px-4 py-2 text-sm font-normal normal-case tracking-normal focus:border-text focus:outline-none"
+                />
+              </label>
+              <label className="block text-sm font-semibold uppercase tracking-[0.24em]">
+                URL
+                <input
+                  type="url"
+                  required
+                  value={form.url}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, url: event.target.value }))
+                  }
+                  placeholder="https://example.com/hooks/projects"
+                  className="mt-2 w-full rounded-2xl border border-brand-secondary/70 px-4 py-2 text-sm font-normal normal-case tracking-normal focus:border-text focus:outline-none"
+                />
+              </label>
+              <div className="flex flex-wrap gap-3">
+                {editingId ? (
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="rounded-full border border-brand-secondary px-6 py-3 font-condensed text-xs uppercase tracking-[0.32em]"
+                  >
+                    Cancel
+                  </button>
+                ) : null}
+                <button
+                  type="submit"
+                  disabled={isSaving || form.events.length === 0}
+                  className="rounded-full border border-text px-8 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition hover:bg-brand-secondary disabled:opacity-40"
+                >
+                  {isSaving ? "Saving…" : editingId ? "Save webhook" : "Add webhook"}
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-4 text-xs uppercase tracking-[0.28em] text-text-muted md:col-span-3">
+                <span>Events</span>
+                {WEBHOOK_EVENT_OPTIONS.map((option) => (
+                  <label key={option.event} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.events.includes(option.event)}
+                      onChange={() => toggleFormEvent(option.event)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </form>
+
+            {revealedSecret ? (
+              <div className="space-y-2 rounded-2xl border border-orange-300 bg-orange-50 px-4 py-3 text-sm">
+                <p>
+                  Signing secret for <strong>{revealedSecret.name}</strong>. Copy
+                  it now; it will not be shown again.
+                </p>
+                <code className="block break-all rounded-xl bg-white px-3 py-2 text-xs">
+                  {revealedSecret.secret}
+                </code>
+                <button
+                  type="button"
+                  onClick={() => setRevealedSecret(null)}
+                  className="text-xs uppercase tracking-[0.28em] underline"
+                >
+                  Done
+                </button>
+              </div>
+            ) : null}
+
+            {notice ? (
+              <p
+                className={`rounded-2xl border px-4 py-3 text-sm ${
+                  notice.variant === "success"
+                    ? "border-green-300 bg-green-50 text-green-700"
+                    : "border-red-200 bg-red-50 text-red-600"
+                }`}
+              >
+                {notice.message}
+              </p>
+            ) : null}
+
+            <div className="space-y-3 rounded-[32px] border border-brand-secondary/70 bg-white px-6 py-7 md:px-8">
+              {isLoading && webhooks.length === 0 ? (
+                <p className="text-sm text-text-muted">Loading webhooks…</p>
+              ) : webhooks.length === 0 ? (
+                <p className="text-sm text-text-muted">No webhooks yet.</p>
+              ) : (
+                webhooks.map((webhook) => {
+                  const isBusy = busyId === webhook.id;
+                  const isLogOpen = openLogId === webhook.id;
+                  return (
+                    <div
+                      key={webhook.id}
+                      className="space-y-4 rounded-2xl border border-brand-secondary/60 px-4 py-3"
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div className="space-y-1">
+                          <p className="text-sm font-semibold uppercase tracking-[0.12em]">
+                            {webhook.name}
+                            {webhook.active ? "" : " (paused)"}
+                          </p>
+                          <p className="break-all text-sm text-text-muted">
+                            {webhook.url}
+                          </p>
+                          <p className="font-condensed text-[0.65rem] uppercase tracking-[0.28em] text-text-muted">
+                            {webhook.events.join(" • ")} • Added{" "}
+                            {formatDate(webhook.createdAt)}
+                          </p>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3">
+                          <button
+                            type="button"
+                            onClick={() => handleToggleLog(webhook)}
+                            className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em]"
+                          >
+                            {isLogOpen ? "Hide log" : "Deliveries"}
+                          </button>
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => {
+                              setEditingId(webhook.id);
+                              setForm({
+                                name: webhook.name,
+                                url: webhook.url,
+                                events: webhook.events
+                              });
+                            }}
+                            className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] disabled:opacity-30"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => {
+                              void handleToggleActive(webhook);
+                            }}
+                            className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] disabled:opacity-30"
+                          >
+                            {webhook.active ? "Pause" : "Resume"}
+                          </button>
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => {
+                              void handleRotateSecret(webhook);
+                            }}
+                            className="rounded-full border border-brand-secondary px-4 py-1 text-xs uppercase tracking-[0.28em] disabled:opacity-30"
+                          >
+                            Rotate secret
+                          </button>
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => {
+                              void handleDelete(webhook);
+                            }}
+                            className="rounded-full border border-red-400 px-4 py-1 text-xs uppercase tracking-[0.28em] text-red-600 disabled:opacity-30"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+
+                      {isLogOpen ? (
+                        <div className="space-y-2 border-t border-brand-secondary/60 pt-4">
+                          {isLoadingLog && deliveries.length === 0 ? (
+                            <p className="text-sm text-text-muted">
+                              Loading deliveries…
+                            </p>
+                          ) : deliveries.length === 0 ? (
+                            <p className="text-sm text-text-muted">
+                              Nothing delivered yet.
+                            </p>
+                          ) : (
+                            deliveries.map((delivery) => {
+                              const lastAttempt =
+                                delivery.attempts[delivery.attempts.length - 1];
+                              return (
+                                <div
+                                  key={delivery.id}
+                                  className="flex flex-wrap items-center justify-between gap-3 text-sm"
+                                >
+                                  <div className="flex flex-wrap items-center gap-3">
+                                    <span
+                                      className={`rounded-full border px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] ${
+                                        DELIVERY_STATUS_STYLES[delivery.status]
+                                      }`}
+                                    >
+                                      {delivery.status}
+                                    </span>
+                                    <span className="uppercase tracking-[0.12em]">
+                                      {delivery.event}
+                                    </span>
+                                    <span className="text-text-muted">
+                                      {delivery.projectSlug ?? "—"}
+                                    </span>
+                                  </div>
+                                  <div className="flex flex-wrap items-center gap-3 text-[0.75rem] text-text-muted">
+                                    <span>{formatDate(delivery.createdAt)}</span>
+                                    <span>
+                                      {delivery.attempts.length} attempt
+                                      {delivery.attempts.length === 1 ? "" : "s"}
+                                      {lastAttempt?.responseStatus
+                                        ? ` • HTTP ${lastAttempt.responseStatus}`
+                                        : ""}
+                                      {delivery.status !== "delivered" &&
+                                      lastAttempt?.error
+                                        ? ` • ${lastAttempt.error}`
+                                        : ""}
+                                    </span>
+                                    {delivery.nextAttemptAt ? (
+                                      <span>
+                                        Next try {formatDate(delivery.nextAttemptAt)}
+                                      </span>
+                                    ) : null}
+                                    {delivery.status !== "delivered" ? (
+                                      <button
+                                        type="button"
+                                        disabled={isBusy}
+                                        onClick={() => {
+                                          void handleRetry(webhook, delivery);
+                                        }}
+                                        className="rounded-full border border-text px-3 py-1 text-[0.6rem] uppercase tracking-[0.28em] text-text disabled:opacity-30"
+                                      >
+                                        Retry now
+                                      </button>
+                                    ) : null}
+                                  </div>
+                                </div>
+                              );
+                            })
+                          )}
+                        </div>
+                      ) : null}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </Container>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default AdminWebhooksManager;
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import Container from "@/components/Container";
+import ProjectCard from "@/components/ProjectCard";
+import type {
+  Project,
+  ProjectCategory,
+  ProjectListPage
+} from "@/lib/types/projects";
+
+type CategoryProjectsProps = {
+  category: ProjectCategory;
+  initialPage: ProjectListPage;
+  pageSize: number;
+};
+
+const CategoryProjects = ({
+  category,
+  initialPage,
+  pageSize
+}: CategoryProjectsProps) => {
+  const [projects, setProjects] = useState<Project[]>(initialPage.items);
+  const [nextCursor, setNextCursor] = useState(initialPage.nextCursor);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMore = async () => {
+    if (!nextCursor || isLoading) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        categoryId: category.id,
+        limit: String(pageSize),
+        cursor: nextCursor
+      });
+      const response = await fetch(`/api/public/projects?${params.toString()}`);
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error ?? response.statusText);
+      }
+      setProjects((prev) => [...prev, ...(payload.data as Project[])]);
+      setNextCursor(payload.meta.nextCursor);
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Unable to load projects."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Navbar />
+      <main className="flex min-h-screen flex-col bg-background text-text">
+        <section className="relative overflow-hidden pb-24 pt-28">
+          <Container>
+            <motion.div
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.7, ease: [0.25, 0.1, 0.25, 1] }}
+            >
+              <Link
+                href="/#projects"
+                className="inline-flex items-center gap-3 rounded-full border border-brand-secondary px-6 py-2 font-condensed text-xs uppercase tracking-[0.28em] text-text-muted transition hover:border-text hover:text-text"
+              >
+                ← All projects
+              </Link>
+            </motion.div>
+
+            <motion.div
+              initial={{ opacity: 0, y: 24 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.9, ease: [0.25, 0.1, 0.25, 1] }}
+              className="mt-16 space-y-6"
+            >
+              <span className="inline-flex items-center gap-3 rounded-full border border-brand-secondary px-5 py-2 font-condensed text-xs uppercase tracking-[0.28em] text-text-muted">
+                {category.projectCount}{" "}
+                {category.projectCount === 1 ? "project" : "projects"}
+              </span>
+              <h1 className="text-4xl font-medium uppercase tracking-tightest md:text-5xl lg:text-[3.75rem]">
+                {category.name}
+              </h1>
+              {category.description ? (
+                <p className="max-w-2xl text-text-muted md:text-lg">
+                  {category.description}
+                </p>
+              ) : null}
+            </motion.div>
+
+            <div className="mt-20 grid justify-items-center gap-14 sm:grid-cols-2 lg:grid-cols-3">
+              {projects.map((project, index) => (
+                <ProjectCard
+                  key={project.slug}
+                  project={project}
+                  index={index}
+                />
+              ))}
+            </div>
+
+            {error ? (
+              <p className="mt-10 text-center font-condensed text-[0.7rem] uppercase tracking-[0.24em] text-red-600">
+                {error}
+              </p>
+            ) : null}
+
+            {nextCursor ? (
+              <div className="mt-16 flex justify-center">
+                <motion.button
+                  type="button"
+                  whileHover={{ scale: 1.03 }}
+                  whileTap={{ scale: 0.97 }}
+                  onClick={() => {
+                    void loadMore();
+                  }}
+                  disabled={isLoading}
+                  className="inline-flex items-center justify-center rounded-full border border-text px-12 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition hover:bg-brand-secondary disabled:opacity-50"
+                >
+                  {isLoading ? "Loading…" : "Load more"}
+                </motion.button>
+              </div>
+            ) : null}
+          </Container>
+        </section>
+      </main>
+      <Footer />
+    </>
+  );
+};
+
+export default CategoryProjects;
@@ -9,12 +9,20 @@ import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import Container from "@/components/Container";
 import type { Project, ProjectGalleryImage } from "@/lib/types/projects";
+import { buildProjectJsonLd, serializeJsonLd } from "@/lib/utils/structuredData";
 
 type ProjectDetailProps = {
   project: Project;
+  isDraftPreview?: boolean;
+  /** Absolute page URL, used by the structured data. */
+  url?: string;
 };
 
-const ProjectDetail = ({ project }: ProjectDetailProps) => {
+const ProjectDetail = ({
+  project,
+  isDraftPreview = false,
+  url
+}: ProjectDetailProps) => {
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
 
   const closeLightbox = useCallback(() => setActiveIndex(null), []);
@@ -83,6 +91,17 @@ const ProjectDetail = ({ project }: ProjectDetailProps) => {
       </main>
       <Footer />
 
+      {isDraftPreview ? <DraftPreviewBanner slug={project.slug} /> : null}
+
+      {url && !isDraftPreview ? (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: serializeJsonLd(buildProjectJsonLd(project, url))
+          }}
+        />
+      ) : null}
+
       <Lightbox
         project={project}
         activeIndex={activeIndex}
@@ -96,6 +115,21 @@ const ProjectDetail = ({ project }: ProjectDetailProps) => {
 
 export default ProjectDetail;
 
+const DraftPreviewBanner = ({ slug }: { slug: string }) => (
+  <div className="fixed inset-x-0 bottom-6 z-40 flex justify-center px-4">
+    <div className="flex flex-wrap items-center gap-4 rounded-full border border-text bg-white/95 px-6 py-3 font-condensed text-xs uppercase tracking-[0.28em] text-text shadow-sm backdrop-blur">
+      <span>Draft preview — not published</span>
+      {/* A plain anchor: the exit route only redirects and must not be prefetched. */}
+      <a
+        href={`/api/preview/disable?slug=${encodeURIComponent(slug)}`}
+        className="rounded-full border border-brand-secondary px-4 py-1 text-text-muted transition hover:border-text hover:text-text"
+      >
+        Exit preview
+      </a>
+    </div>
+  </div>
+);
+
 type ProjectHeroProps = {
   project: Project;
 };
@@ -1,153 +1,319 @@
 'use client';
 
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import Script from "next/script";
 import { motion } from "framer-motion";
 import Container from "@/components/Container";
+import type {
+  InquiryFormPayload,
+  InquirySubmission
+} from "@/lib/types/inquiries";
 
-const ContactSection = () => (
-  <section
-    id="contact"
-    className="bg-background py-14 md:py-20"
-  >
-    <Container>
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        whileInView={{ opacity: 1, y: 0 }}
-        viewport={{ once: true, amount: 0.4 }}
-        transition={{ duration: 0.8 }}
-        className="mb-16 flex flex-col gap-6 text-left md:flex-row md:items-end md:justify-between"
-      >
-        <div className="max-w-xl space-y-4">
-          <span className="rounded-full border border-brand-secondary px-5 py-2 font-condensed text-xs uppercase tracking-[0.28em] text-text-muted">
-            Contact
-          </span>
-          <h2 className="text-[1.75rem] font-medium uppercase tracking-tightest text-text leading-tight md:text-[2.75rem]">
-            Let’s shape your next space together.
-          </h2>
-        </div>
-        <p className="max-w-md text-base leading-relaxed text-text-muted md:text-lg">
-          Share your vision, timelines, and references. We respond to new
-          enquiries within two business days from Pristina, Kosovo.
-        </p>
-      </motion.div>
-
-      <div className="grid grid-cols-1 gap-12 md:grid-cols-[1.1fr_0.9fr] md:gap-16">
-        <motion.form
-          initial={{ opacity: 0, y: 24 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          viewport={{ once: true, amount: 0.4 }}
-          transition={{ duration: 0.9, ease: [0.25, 0.1, 0.25, 1] }}
-          className="space-y-6"
-        >
-          <FormField label="Name" htmlFor="name">
-            <input
-              id="name"
-              name="name"
-              type="text"
-              placeholder="Your name"
-              className="w-full border border-brand-secondary bg-transparent px-4 py-3 text-xs uppercase tracking-[0.15em] text-text outline-none transition focus:border-text md:text-sm"
-            />
-          </FormField>
-          <FormField label="Email" htmlFor="email">
-            <input
-              id="email"
-              name="email"
-              type="email"
-              placeholder="studio@email.com"
-              className="w-full border border-brand-secondary bg-transparent px-4 py-3 text-xs uppercase tracking-[0.15em] text-text outline-none transition focus:border-text md:text-sm"
-            />
-          </FormField>
-          <FormField label="Project Type" htmlFor="projectType">
-            <input
-              id="projectType"
-              name="projectType"
-              type="text"
-              placeholder="Residence, gallery, hospitality..."
-              className="w-full border border-brand-secondary bg-transparent px-4 py-3 text-xs uppercase tracking-[0.15em] text-text outline-none transition focus:border-text md:text-sm"
-            />
-          </FormField>
-          <FormField label="Message" htmlFor="message">
-            <textarea
-              id="message"
-              name="message"
-              rows={4}
-              placeholder="Share project scope, timelines, or inspiration."
-              className="w-full border border-brand-secondary bg-transparent px-4 py-3 text-xs uppercase tracking-[0.15em] text-text outline-none transition focus:border-text md:text-sm"
-            />
-          </FormField>
-          <motion.button
-            type="submit"
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.97 }}
-            className="inline-flex items-center justify-center rounded-full border border-text px-12 py-3 font-condensed text-[0.65rem] uppercase tracking-[0.28em] transition hover:bg-brand-secondary md:text-xs"
-          >
-            Send enquiry
-          </motion.button>
-        </motion.form>
+const TURNSTILE_SITE_KEY = process.env.NEXT_PUBLIC_TURNSTILE_SITE_KEY;
+
+declare global {
+  interface Window {
+    turnstile?: { reset: () => void };
+  }
+}
+
+type FieldErrors = Partial<Record<keyof InquirySubmission, string>>;
+
+type SubmitState =
+  | { status: "idle" | "submitting" | "sent" }
+  | { status: "error"; message: string };
+
+const ContactSection = () => {
+  const [submitState, setSubmitState] = useState<SubmitState>({
+    status: "idle"
+  });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const formToken = useRef("");
 
+  // The server signs when the form was opened; it rejects sends that come
+  // too soon after that.
+  const refreshFormToken = async () => {
+    try {
+      const response = await fetch("/api/public/inquiries/token", {
+        cache: "no-store"
+      });
+      const payload = await response.json().catch(() => null);
+      formToken.current = payload?.data?.token ?? "";
+    } catch {
+      formToken.current = "";
+    }
+  };
+
+  useEffect(() => {
+    void refreshFormToken();
+  }, []);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const data = new FormData(form);
+    const submission: InquiryFormPayload = {
+      name: String(data.get("name") ?? ""),
+      email: String(data.get("email") ?? ""),
+      projectType: String(data.get("projectType") ?? ""),
+      message: String(data.get("message") ?? ""),
+      website: String(data.get("website") ?? ""),
+      formToken: formToken.current,
+      challengeToken: String(data.get("cf-turnstile-response") ?? "")
+    };
+    setSubmitState({ status: "submitting" });
+    setFieldErrors({});
+    try {
+      const response = await fetch("/api/public/inquiries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(submission)
+      });
+      const payload = await response.json().catch(() => null);
+      // Turnstile tokens are single use, so every attempt needs a new one.
+      window.turnstile?.reset();
+      // An expired form token is only reported on submit; pick up a fresh
+      // one so sending again works.
+      void refreshFormToken();
+      if (!response.ok) {
+        setFieldErrors(payload?.fields ?? {});
+        setSubmitState({
+          status: "error",
+          message: payload?.fields
+            ? "Please check the highlighted fields."
+            : payload?.error ?? "Unable to send your enquiry."
+        });
+        return;
+      }
+      form.reset();
+      setSubmitState({ status: "sent" });
+    } catch {
+      setSubmitState({
+        status: "error",
+        message: "Unable to send your enquiry. Please try again."
+      });
+    }
+  };
+
+  const inputClass = (field: keyof InquirySubmission) =>
+    `w-full border bg-transparent px-4 py-3 text-xs uppercase tracking-[0.15em] text-text outline-none transition focus:border-text md:text-sm ${
+      fieldErrors[field] ? "border-red-400" : "border-brand-secondary"
+    }`;
+
+  return (
+    <section
+      id="contact"
+      className="bg-background py-14 md:py-20"
+    >
+      <Container>
         <motion.div
-          initial={{ opacity: 0, y: 24 }}
+          initial={{ opacity: 0, y: 20 }}
           whileInView={{ opacity: 1, y: 0 }}
           viewport={{ once: true, amount: 0.4 }}
-          transition={{ duration: 0.9, delay: 0.15, ease: [0.25, 0.1, 0.25, 1] }}
-          className="flex flex-col gap-8 border border-brand-secondary px-6 py-10 sm:px-8 md:gap-10 md:px-10 md:py-12"
+          transition={{ duration: 0.8 }}
+          className="mb-16 flex flex-col gap-6 text-left md:flex-row md:items-end md:justify-between"
         >
-          <div>
-            <h3 className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
-              Studio
-            </h3>
-            <p className="mt-3 text-lg text-text">
-              Pristina, Kosovo
-            </p>
-          </div>
-          <div>
-            <h3 className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+          <div className="max-w-xl space-y-4">
+            <span className="rounded-full border border-brand-secondary px-5 py-2 font-condensed text-xs uppercase tracking-[0.28em] text-text-muted">
               Contact
-            </h3>
-            <p className="mt-3 text-lg text-text">
-              <a href="tel:+38349860923" className="hover:underline">
-                +383 49 860 923
-              </a>
-              <br />
+            </span>
+            <h2 className="text-[1.75rem] font-medium uppercase tracking-tightest text-text leading-tight md:text-[2.75rem]">
+              Let’s shape your next space together.
+            </h2>
+          </div>
+          <p className="max-w-md text-base leading-relaxed text-text-muted md:text-lg">
+            Share your vision, timelines, and references. We respond to new
+            enquiries within two business days from Pristina, Kosovo.
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 gap-12 md:grid-cols-[1.1fr_0.9fr] md:gap-16">
+          <motion.form
+            noValidate
+            onSubmit={(event) => {
+              void handleSubmit(event);
+            }}
+            initial={{ opacity: 0, y: 24 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, amount: 0.4 }}
+            transition={{ duration: 0.9, ease: [0.25, 0.1, 0.25, 1] }}
+            className="relative space-y-6"
+          >
+            <FormField label="Name" htmlFor="name" error={fieldErrors.name}>
+              <input
+                id="name"
+                name="name"
+                type="text"
+                required
+                maxLength={120}
+                autoComplete="name"
+                placeholder="Your name"
+                className={inputClass("name")}
+              />
+            </FormField>
+            <FormField label="Email" htmlFor="email" error={fieldErrors.email}>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                required
+                maxLength={254}
+                autoComplete="email"
+                placeholder="studio@email.com"
+                className={inputClass("email")}
+              />
+            </FormField>
+            <FormField
+              label="Project Type"
+              htmlFor="projectType"
+              error={fieldErrors.projectType}
+            >
+              <input
+                id="projectType"
+                name="projectType"
+                type="text"
+                maxLength={120}
+                placeholder="Residence, gallery, hospitality..."
+                className={inputClass("projectType")}
+              />
+            </FormField>
+            <FormField
+              label="Message"
+              htmlFor="message"
+              error={fieldErrors.message}
+            >
+              <textarea
+                id="message"
+                name="message"
+                rows={4}
+                required
+                maxLength={5000}
+                placeholder="Share project scope, timelines, or inspiration."
+                className={inputClass("message")}
+              />
+            </FormField>
+            {/* Honeypot: hidden from people, filled in by naive bots. */}
+            <div
+              aria-hidden="true"
+              className="absolute -left-[9999px] h-px w-px overflow-hidden"
+            >
+              <label htmlFor="website">Website</label>
+              <input
+                id="website"
+                name="website"
+                type="text"
+                tabIndex={-1}
+                autoComplete="off"
+              />
+            </div>
+            {TURNSTILE_SITE_KEY ? (
+              <>
+                <Script
+                  src="https://challenges.cloudflare.com/turnstile/v0/api.js"
+                  strategy="lazyOnload"
+                />
+                <div
+                  className="cf-turnstile"
+                  data-sitekey={TURNSTILE_SITE_KEY}
+                />
+              </>
+            ) : null}
+            <motion.button
+              type="submit"
+              disabled={submitState.status === "submitting"}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.97 }}
+              className="inline-flex items-center justify-center rounded-full border border-text px-12 py-3 font-condensed text-[0.65rem] uppercase tracking-[0.28em] transition hover:bg-brand-secondary disabled:opacity-50 md:text-xs"
+            >
+              {submitState.status === "submitting" ? "Sending…" : "Send enquiry"}
+            </motion.button>
+            {submitState.status === "sent" ? (
+              <p
+                role="status"
+                className="font-condensed text-[0.65rem] uppercase tracking-[0.24em] text-text md:text-xs"
+              >
+                Thank you — we will be in touch within two business days.
+              </p>
+            ) : null}
+            {submitState.status === "error" ? (
+              <p
+                role="alert"
+                className="font-condensed text-[0.65rem] uppercase tracking-[0.24em] text-red-600 md:text-xs"
+              >
+                {submitState.message}
+              </p>
+            ) : null}
+          </motion.form>
+
+          <motion.div
+            initial={{ opacity: 0, y: 24 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, amount: 0.4 }}
+            transition={{ duration: 0.9, delay: 0.15, ease: [0.25, 0.1, 0.25, 1] }}
+            className="flex flex-col gap-8 border border-brand-secondary px-6 py-10 sm:px-8 md:gap-10 md:px-10 md:py-12"
+          >
+            <div>
+              <h3 className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+                Studio
+              </h3>
+              <p className="mt-3 text-lg text-text">
+                Pristina, Kosovo
+              </p>
+            </div>
+            <div>
+              <h3 className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+                Contact
+              </h3>
+              <p className="mt-3 text-lg text-text">
+                <a href="tel:+38349860923" className="hover:underline">
+                  +383 49 860 923
+                </a>
+                <br />
+                <a
+                  href="mailto:studio@morarchitecture.com"
+                  className="hover:underline"
+                >
+                  studio@morarchitecture.com
+                </a>
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 font-condensed text-[0.65rem] uppercase tracking-[0.24em] text-text-muted md:gap-4 md:text-xs">
               <a
-                href="mailto:studio@morarchitecture.com"
-                className="hover:underline"
+                href="https://www.instagram.com/morstudio.ks?utm_source=ig_web_button_share_sheet&igsh=ZDNlZDc0MzIxNw=="
+                className="transition hover:text-text"
+                target="_blank"
+                rel="noopener noreferrer"
               >
-                studio@morarchitecture.com
+                Instagram
               </a>
-            </p>
-          </div>
-          <div className="flex flex-wrap items-center gap-3 font-condensed text-[0.65rem] uppercase tracking-[0.24em] text-text-muted md:gap-4 md:text-xs">
-            <a
-              href="https://www.instagram.com/morstudio.ks?utm_source=ig_web_button_share_sheet&igsh=ZDNlZDc0MzIxNw=="
-              className="transition hover:text-text"
-              target="_blank"
-              rel="noopener noreferrer"
-            >
-              Instagram
-            </a>
-            <span>—</span>
-            <a href="#" className="transition hover:text-text">
-              Behance
-            </a>
-          </div>
-        </motion.div>
-      </div>
-    </Container>
-  </section>
-);
+              <span>—</span>
+              <a href="#" className="transition hover:text-text">
+                Behance
+              </a>
+            </div>
+          </motion.div>
+        </div>
+      </Container>
+    </section>
+  );
+};
 
 type FormFieldProps = {
   label: string;
   htmlFor: string;
+  error?: string;
   children: React.ReactNode;
 };
 
-const FormField = ({ label, htmlFor, children }: FormFieldProps) => (
+const FormField = ({ label, htmlFor, error, children }: FormFieldProps) => (
   <label htmlFor={htmlFor} className="block space-y-3">
     <span className="font-condensed text-[0.6rem] uppercase tracking-[0.32em] text-text-muted md:text-[0.7rem]">
       {label}
     </span>
     {children}
+    {error ? (
+      <span className="block text-[0.7rem] text-red-600">{error}</span>
+    ) : null}
   </label>
 );
 
@@ -1,9 +1,14 @@
 'use client';
 
+import { useEffect, useState } from "react";
 import Image from "next/image";
-import { motion } from "framer-motion";
+import Link from "next/link";
+import { AnimatePresence, motion, useReducedMotion } from "framer-motion";
 import Container from "@/components/Container";
 import heroImage from "@/img/hero.jpg";
+import type { FocalPoint, Project } from "@/lib/types/projects";
+
+const ROTATION_INTERVAL_MS = 6000;
 
 const textVariants = {
   hidden: { opacity: 0, y: 40 },
@@ -14,108 +19,176 @@ const textVariants = {
   }
 };
 
-const Hero = () => (
-  <section
-    id="hero"
-    className="relative flex min-h-screen items-center justify-center overflow-hidden pb-14 pt-32 md:pb-20"
-  >
-    <Container className="relative z-10 grid gap-12 lg:grid-cols-[1.05fr_0.95fr] lg:items-center">
-      <motion.div
-        initial="hidden"
-        animate="visible"
-        variants={textVariants}
-        className="space-y-8 text-center lg:text-left"
-      >
-        <p className="inline-flex items-center gap-3 rounded-full border border-brand-secondary px-4 py-2 font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
-          Contemporary Architecture
-        </p>
-        <div className="relative inline-block">
-          <div
-            className="pointer-events-none absolute inset-0 -z-10 hidden lg:block"
-            aria-hidden
-          >
-            <motion.div
-              initial={{ opacity: 0, y: 24 }}
-              animate={{ opacity: 0.08, y: 0 }}
-              transition={{ duration: 0.9, ease: [0.25, 0.1, 0.25, 1] }}
-              className="absolute left-0 top-[6.25rem] flex w-full justify-center gap-14 text-text"
+const toObjectPosition = (focalPoint?: FocalPoint) =>
+  focalPoint
+    ? `${Math.round(focalPoint.x * 100)}% ${Math.round(focalPoint.y * 100)}%`
+    : "50% 50%";
+
+type HeroProps = {
+  featured?: Project[];
+};
+
+const Hero = ({ featured = [] }: HeroProps) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const prefersReducedMotion = useReducedMotion();
+  const slideCount = featured.length;
+  const active = slideCount ? featured[activeIndex % slideCount] : null;
+
+  useEffect(() => {
+    if (slideCount < 2 || isPaused || prefersReducedMotion) return;
+    const interval = window.setInterval(() => {
+      setActiveIndex((prev) => (prev + 1) % slideCount);
+    }, ROTATION_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [slideCount, isPaused, prefersReducedMotion]);
+
+  return (
+    <section
+      id="hero"
+      className="relative flex min-h-screen items-center justify-center overflow-hidden pb-14 pt-32 md:pb-20"
+    >
+      <Container className="relative z-10 grid gap-12 lg:grid-cols-[1.05fr_0.95fr] lg:items-center">
+        <motion.div
+          initial="hidden"
+          animate="visible"
+          variants={textVariants}
+          className="space-y-8 text-center lg:text-left"
+        >
+          <p className="inline-flex items-center gap-3 rounded-full border border-brand-secondary px-4 py-2 font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+            Contemporary Architecture
+          </p>
+          <div className="relative inline-block">
+            <div
+              className="pointer-events-none absolute inset-0 -z-10 hidden lg:block"
+              aria-hidden
             >
-              <span className="text-[11rem] font-condensed uppercase leading-none tracking-[0.08em]">
-                M
-              </span>
-              <span className="text-[11rem] font-condensed uppercase leading-none tracking-[0.08em]">
-                O
-              </span>
-              <span className="text-[11rem] font-condensed uppercase leading-none tracking-[0.08em]">
-                R
-              </span>
-            </motion.div>
+              <motion.div
+                initial={{ opacity: 0, y: 24 }}
+                animate={{ opacity: 0.08, y: 0 }}
+                transition={{ duration: 0.9, ease: [0.25, 0.1, 0.25, 1] }}
+                className="absolute left-0 top-[6.25rem] flex w-full justify-center gap-14 text-text"
+              >
+                <span className="text-[11rem] font-condensed uppercase leading-none tracking-[0.08em]">
+                  M
+                </span>
+                <span className="text-[11rem] font-condensed uppercase leading-none tracking-[0.08em]">
+                  O
+                </span>
+                <span className="text-[11rem] font-condensed uppercase leading-none tracking-[0.08em]">
+                  R
+                </span>
+              </motion.div>
+            </div>
+            <h1 className="relative text-4xl font-medium uppercase tracking-tightest text-text md:text-6xl lg:text-[4.5rem]">
+              Architecture that breathes in light, shadow and proportion.
+            </h1>
           </div>
-          <h1 className="relative text-4xl font-medium uppercase tracking-tightest text-text md:text-6xl lg:text-[4.5rem]">
-            Architecture that breathes in light, shadow and proportion.
-          </h1>
-        </div>
-        <p className="mx-auto max-w-xl text-text-muted md:text-lg lg:mx-0">
-          MOR Architecture is a multidisciplinary studio led by Tefik Morina in
-          Pristina, Kosovo, crafting serene habitats and adaptive spaces across
-          the region. Our work translates landscapes into homes, galleries, and
-          retreats with uncompromising attention to detail.
-        </p>
-        <div className="flex flex-col items-center gap-4 sm:flex-row sm:justify-start">
-          <motion.a
-            href="#projects"
-            className="inline-flex items-center justify-center rounded-full border border-text px-10 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition duration-200 hover:-translate-y-1 hover:bg-brand-secondary"
-            whileHover={{ scale: 1.03 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            View Portfolio
-          </motion.a>
-          <motion.a
-            href="#studio"
-            className="inline-flex items-center justify-center rounded-full border border-transparent px-10 py-3 font-condensed text-xs uppercase tracking-[0.32em] text-text-muted transition duration-200 hover:text-text"
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            Meet the studio
-          </motion.a>
-        </div>
-      </motion.div>
+          <p className="mx-auto max-w-xl text-text-muted md:text-lg lg:mx-0">
+            MOR Architecture is a multidisciplinary studio led by Tefik Morina in
+            Pristina, Kosovo, crafting serene habitats and adaptive spaces across
+            the region. Our work translates landscapes into homes, galleries, and
+            retreats with uncompromising attention to detail.
+          </p>
+          <div className="flex flex-col items-center gap-4 sm:flex-row sm:justify-start">
+            <motion.a
+              href="#projects"
+              className="inline-flex items-center justify-center rounded-full border border-text px-10 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition duration-200 hover:-translate-y-1 hover:bg-brand-secondary"
+              whileHover={{ scale: 1.03 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              View Portfolio
+            </motion.a>
+            <motion.a
+              href="#studio"
+              className="inline-flex items-center justify-center rounded-full border border-transparent px-10 py-3 font-condensed text-xs uppercase tracking-[0.32em] text-text-muted transition duration-200 hover:text-text"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              Meet the studio
+            </motion.a>
+          </div>
+        </motion.div>
 
-      <motion.div
-        initial={{ opacity: 0, x: 60 }}
-        animate={{ opacity: 1, x: 0 }}
-        transition={{ duration: 1, ease: [0.25, 0.1, 0.25, 1] }}
-        className="relative flex h-[60vh] min-h-[24rem] w-full justify-end lg:h-[70vh]"
-      >
-        <div className="absolute -left-10 top-12 hidden h-32 w-32 border border-brand-secondary/60 lg:block" />
-        <div className="absolute -right-6 bottom-10 hidden h-16 w-16 border border-brand-secondary/60 lg:block" />
-        <div className="relative h-full w-full overflow-hidden">
-          <Image
-            src={heroImage}
-            alt="Minimalist architectural living space"
-            fill
-            priority
-            sizes="(max-width: 768px) 80vw, (max-width: 1200px) 40vw, 540px"
-            className="object-cover"
-          />
-        </div>
         <motion.div
-          initial={{ opacity: 0, y: 24 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.4, duration: 0.9 }}
-          className="absolute -bottom-10 left-8 flex max-w-xs flex-col gap-3 bg-background px-6 py-5"
+          initial={{ opacity: 0, x: 60 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ duration: 1, ease: [0.25, 0.1, 0.25, 1] }}
+          className="relative flex h-[60vh] min-h-[24rem] w-full justify-end lg:h-[70vh]"
         >
-          <span className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
-            Signature
-          </span>
-          <span className="text-sm uppercase tracking-[0.1em] text-text">
-            Urban Courtyard Residence — 2025, Pristina
-          </span>
+          <div className="absolute -left-10 top-12 hidden h-32 w-32 border border-brand-secondary/60 lg:block" />
+          <div className="absolute -right-6 bottom-10 hidden h-16 w-16 border border-brand-secondary/60 lg:block" />
+          <div
+            className="relative h-full w-full overflow-hidden"
+            onMouseEnter={() => setIsPaused(true)}
+            onMouseLeave={() => setIsPaused(false)}
+          >
+            <AnimatePresence initial={false}>
+              <motion.div
+                key={active?.slug ?? "studio"}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 1.2, ease: [0.25, 0.1, 0.25, 1] }}
+                className="absolute inset-0"
+              >
+                <Image
+                  src={active?.heroImage || heroImage}
+                  alt={active ? active.title : "Minimalist architectural living space"}
+                  fill
+                  priority={!active || activeIndex === 0}
+                  sizes="(max-width: 768px) 80vw, (max-width: 1200px) 40vw, 540px"
+                  className="object-cover"
+                  style={{ objectPosition: toObjectPosition(active?.heroFocalPoint) }}
+                />
+              </motion.div>
+            </AnimatePresence>
+            {slideCount > 1 ? (
+              <div className="absolute right-4 top-4 z-10 flex gap-2">
+                {featured.map((project, index) => (
+                  <button
+                    key={project.slug}
+                    type="button"
+                    onClick={() => setActiveIndex(index)}
+                    aria-label={`Show ${project.title}`}
+                    aria-current={index === activeIndex % slideCount}
+                    className={`h-2 w-2 rounded-full border border-background transition ${
+                      index === activeIndex % slideCount
+                        ? "bg-background"
+                        : "bg-transparent hover:bg-background/60"
+                    }`}
+                  />
+                ))}
+              </div>
+            ) : null}
+          </div>
+          <motion.div
+            initial={{ opacity: 0, y: 24 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.4, duration: 0.9 }}
+            className="absolute -bottom-10 left-8 flex max-w-xs flex-col gap-3 bg-background px-6 py-5"
+          >
+            <span className="font-condensed text-xs uppercase tracking-[0.32em] text-text-muted">
+              {active ? "Featured" : "Signature"}
+            </span>
+            {active ? (
+              <Link
+                href={`/projects/${active.slug}`}
+                className="text-sm uppercase tracking-[0.1em] text-text transition hover:opacity-70"
+              >
+                {active.title} — {active.year}, {active.location}
+              </Link>
+            ) : (
+              <span className="text-sm uppercase tracking-[0.1em] text-text">
+                Urban Courtyard Residence — 2025, Pristina
+              </span>
+            )}
+          </motion.div>
         </motion.div>
-      </motion.div>
-    </Container>
-  </section>
-);
+      </Container>
+    </section>
+  );
+};
 
 export default Hero;
 
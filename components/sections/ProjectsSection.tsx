@@ -1,29 +1,93 @@
 'use client';
 
-import { useMemo, useState } from "react";
+import { useState } from "react";
 import { motion } from "framer-motion";
 
 import Container from "@/components/Container";
-import type { Project } from "@/lib/types/projects";
+import type {
+  Project,
+  ProjectFacetCount,
+  ProjectListPage
+} from "@/lib/types/projects";
 import ProjectCard from "../ProjectCard";
 
 type ProjectsSectionProps = {
-  projects: Project[];
+  initialPage: ProjectListPage;
+  pageSize: number;
 };
 
-const ProjectsSection = ({ projects }: ProjectsSectionProps) => {
-  const [visibleCount, setVisibleCount] = useState(3);
+type ProjectsResponse = {
+  data: Project[];
+  meta: Omit<ProjectListPage, "items">;
+};
+
+const fetchProjectsPage = async (params: Record<string, string>) => {
+  const response = await fetch(
+    `/api/public/projects?${new URLSearchParams(params).toString()}`
+  );
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error ?? response.statusText);
+  }
+  return payload as ProjectsResponse;
+};
 
-  const visibleProjects = useMemo(
-    () => projects.slice(0, visibleCount),
-    [projects, visibleCount]
+const ProjectsSection = ({ initialPage, pageSize }: ProjectsSectionProps) => {
+  const [projects, setProjects] = useState<Project[]>(initialPage.items);
+  const [nextCursor, setNextCursor] = useState(initialPage.nextCursor);
+  const [categories, setCategories] = useState<ProjectFacetCount[]>(
+    initialPage.facets.categories
   );
+  const [category, setCategory] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = async (
+    nextCategory: string | null,
+    cursor: string | null
+  ) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { data, meta } = await fetchProjectsPage({
+        limit: String(pageSize),
+        ...(nextCategory ? { category: nextCategory } : {}),
+        ...(cursor ? { cursor } : {})
+      });
+      setProjects((prev) => (cursor ? [...prev, ...data] : data));
+      setNextCursor(meta.nextCursor);
+      setCategories(meta.facets.categories);
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Unable to load projects."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectCategory = (nextCategory: string | null) => {
+    if (nextCategory === category || isLoading) return;
+    setCategory(nextCategory);
+    void loadPage(nextCategory, null);
+  };
 
   const loadMore = () => {
-    setVisibleCount((prev) => Math.min(prev + 3, projects.length));
+    if (!nextCursor || isLoading) return;
+    void loadPage(category, nextCursor);
   };
 
-  const hasMore = visibleCount < projects.length;
+  const allCount = categories.reduce((sum, item) => sum + item.count, 0);
+  const chips = [
+    { value: null, label: "All", count: allCount },
+    ...categories.map((item) => ({
+      value: item.value,
+      label: item.value,
+      count: item.count
+    }))
+  ];
 
   return (
     <section
@@ -50,22 +114,53 @@ const ProjectsSection = ({ projects }: ProjectsSectionProps) => {
           </p>
         </motion.div>
 
+        {categories.length > 1 ? (
+          <div className="mt-14 flex flex-wrap justify-center gap-3">
+            {chips.map((chip) => {
+              const isActive = chip.value === category;
+              return (
+                <button
+                  key={chip.label}
+                  type="button"
+                  onClick={() => selectCategory(chip.value)}
+                  aria-pressed={isActive}
+                  className={`rounded-full border px-5 py-2 font-condensed text-[0.7rem] uppercase tracking-[0.24em] transition ${
+                    isActive
+                      ? "border-text bg-text text-background"
+                      : "border-brand-secondary text-text-muted hover:border-text hover:text-text"
+                  }`}
+                >
+                  {chip.label}
+                  <span className="ml-2 opacity-60">{chip.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        ) : null}
+
         <div className="mt-20 grid justify-items-center gap-14 sm:grid-cols-2 lg:grid-cols-3">
-          {visibleProjects.map((project, index) => (
+          {projects.map((project, index) => (
             <ProjectCard key={project.slug} project={project} index={index} />
           ))}
         </div>
 
-        {hasMore ? (
+        {error ? (
+          <p className="mt-10 text-center font-condensed text-[0.7rem] uppercase tracking-[0.24em] text-red-600">
+            {error}
+          </p>
+        ) : null}
+
+        {nextCursor ? (
           <div className="mt-16 flex justify-center">
             <motion.button
               type="button"
               whileHover={{ scale: 1.03 }}
               whileTap={{ scale: 0.97 }}
               onClick={loadMore}
-              className="inline-flex items-center justify-center rounded-full border border-text px-12 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition hover:bg-brand-secondary"
+              disabled={isLoading}
+              className="inline-flex items-center justify-center rounded-full border border-text px-12 py-3 font-condensed text-xs uppercase tracking-[0.32em] transition hover:bg-brand-secondary disabled:opacity-50"
             >
-              Load more
+              {isLoading ? "Loading…" : "Load more"}
             </motion.button>
           </div>
         ) : null}
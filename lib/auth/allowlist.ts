@@ -26,6 +26,6 @@ export const isAllowedAdminEmail = (email?: string | null) => {
 export const describeAllowlistRequirement = () =>
   hasConfiguredAdminAllowlist
     ? undefined
-    : "ADMIN_ALLOWED_EMAILS is empty—no Google accounts can access the admin dashboard.";
+    : "ADMIN_ALLOWED_EMAILS is empty—only accounts invited from /admin/users can sign in, so no first admin can be seeded.";
 
 
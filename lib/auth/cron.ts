@@ -0,0 +1,12 @@
+/**
+ * Scheduled jobs are triggered over HTTP by the hosting cron, which sends
+ * `Authorization: Bearer $CRON_SECRET`. Without a configured secret the cron
+ * routes stay closed.
+ */
+export const isAuthorizedCronRequest = (request: Request) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+};
@@ -3,9 +3,12 @@ import GoogleProvider from "next-auth/providers/google";
 
 import {
   describeAllowlistRequirement,
-  hasConfiguredAdminAllowlist,
-  isAllowedAdminEmail
+  hasConfiguredAdminAllowlist
 } from "@/lib/auth/allowlist";
+import {
+  isAdminSignInAllowed,
+  syncUserFromProfile
+} from "@/lib/server/admin/userService";
 
 const requiredEnv = (key: string) => {
   const value = process.env[key];
@@ -40,7 +43,7 @@ export const authOptions: NextAuthOptions = {
   },
   callbacks: {
     async signIn({ user }) {
-      const allowed = isAllowedAdminEmail(user.email);
+      const allowed = await isAdminSignInAllowed(user.email);
       if (!allowed) {
         console.warn(
           `[auth] Blocked Google sign-in attempt for ${user.email ?? "unknown email"}`
@@ -62,10 +65,23 @@ export const authOptions: NextAuthOptions = {
           token.name = name;
         }
       }
+      // Tokens issued before users were persisted carry no userId, so resolve
+      // it lazily without counting the lookup as a fresh login.
+      if ((account || !token.userId) && token.email) {
+        const userId = await syncUserFromProfile({
+          email: token.email,
+          name: token.name,
+          recordLogin: Boolean(account)
+        });
+        token.userId = userId ?? undefined;
+      }
       return token;
     },
     async session({ session, token }) {
       if (session.user) {
+        if (token.userId) {
+          session.user.id = token.userId;
+        }
         if (token.email) {
           session.user.email = token.email as string;
         }
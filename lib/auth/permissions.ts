@@ -0,0 +1,40 @@
+export const ADMIN_ROLES = ["admin", "editor", "viewer"] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type AdminPermission =
+  | "projects:read"
+  | "projects:write"
+  | "projects:publish"
+  | "projects:delete"
+  | "media:upload"
+  | "users:manage"
+  | "webhooks:manage"
+  | "inquiries:manage";
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  admin: [
+    "projects:read",
+    "projects:write",
+    "projects:publish",
+    "projects:delete",
+    "media:upload",
+    "users:manage",
+    "webhooks:manage",
+    "inquiries:manage"
+  ],
+  editor: [
+    "projects:read",
+    "projects:write",
+    "media:upload",
+    "inquiries:manage"
+  ],
+  viewer: ["projects:read"]
+};
+
+export const isAdminRole = (value: unknown): value is AdminRole =>
+  typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value);
+
+export const hasPermission = (
+  role: AdminRole | null | undefined,
+  permission: AdminPermission
+) => (role ? ROLE_PERMISSIONS[role].includes(permission) : false);
@@ -1,15 +1,54 @@
 import { getServerSession } from "next-auth";
 import type { Session } from "next-auth";
+import { NextResponse } from "next/server";
 
-import { isAllowedAdminEmail } from "@/lib/auth/allowlist";
 import { authOptions } from "@/lib/auth/options";
+import {
+  hasPermission,
+  isAdminRole,
+  type AdminPermission,
+  type AdminRole
+} from "@/lib/auth/permissions";
+import { findAdminUserById } from "@/lib/server/admin/userService";
 
-export const getAdminSession = async (): Promise<Session | null> => {
+export type AdminSession = Session & {
+  user: Session["user"] & { role: AdminRole };
+};
+
+// Role and status are read from the users collection on every request so a
+// demotion or a disabled account takes effect without waiting for the JWT to
+// expire.
+export const getAdminSession = async (): Promise<AdminSession | null> => {
   const session = await getServerSession(authOptions);
-  if (session?.user?.email && isAllowedAdminEmail(session.user.email)) {
-    return session;
+  if (!session?.user?.id) {
+    return null;
+  }
+  const user = await findAdminUserById(session.user.id);
+  if (!user || user.status !== "active" || !isAdminRole(user.role)) {
+    return null;
   }
-  return null;
+  return { ...session, user: { ...session.user, role: user.role } };
 };
 
+type AuthorizationResult =
+  | { session: AdminSession; response: null }
+  | { session: null; response: NextResponse };
 
+export const authorizeAdminRequest = async (
+  permission: AdminPermission
+): Promise<AuthorizationResult> => {
+  const session = await getAdminSession();
+  if (!session) {
+    return {
+      session: null,
+      response: NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    };
+  }
+  if (!hasPermission(session.user.role, permission)) {
+    return {
+      session: null,
+      response: NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    };
+  }
+  return { session, response: null };
+};
@@ -0,0 +1,61 @@
+import {
+  Schema,
+  model,
+  models,
+  type HydratedDocument,
+  type InferSchemaType
+} from "mongoose";
+
+export const INQUIRY_STATUSES = ["new", "read", "replied"] as const;
+
+const inquiryNoteSchema = new Schema(
+  {
+    body: { type: String, required: true, maxlength: 2000 },
+    authorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    createdAt: { type: Date, required: true }
+  },
+  { _id: true }
+);
+
+const inquirySchema = new Schema(
+  {
+    name: { type: String, required: true, maxlength: 120 },
+    email: { type: String, required: true, maxlength: 254, lowercase: true },
+    projectType: { type: String, maxlength: 120, default: "" },
+    message: { type: String, required: true, maxlength: 5000 },
+    status: {
+      type: String,
+      enum: INQUIRY_STATUSES,
+      required: true,
+      default: "new"
+    },
+    // Archiving is separate from the status so a replied inquiry keeps its
+    // history when it is filed away.
+    archivedAt: { type: Date },
+    readAt: { type: Date },
+    repliedAt: { type: Date },
+    projectId: { type: Schema.Types.ObjectId, ref: "Project" },
+    notes: { type: [inquiryNoteSchema], default: [] },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User" }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: true },
+    collection: "inquiries"
+  }
+);
+
+inquirySchema.index(
+  { archivedAt: 1, createdAt: -1 },
+  { name: "idx_inquiries_archived_created" }
+);
+
+inquirySchema.index(
+  { status: 1, createdAt: -1 },
+  { name: "idx_inquiries_status_created" }
+);
+
+type Inquiry = InferSchemaType<typeof inquirySchema>;
+export type InquiryDocument = HydratedDocument<Inquiry>;
+
+export const InquiryModel =
+  models.Inquiry ?? model<Inquiry>("Inquiry", inquirySchema, "inquiries");
@@ -0,0 +1,50 @@
+import {
+  Schema,
+  model,
+  models,
+  type HydratedDocument,
+  type InferSchemaType
+} from "mongoose";
+
+const previewTokenSchema = new Schema(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true
+    },
+    // Only a SHA-256 digest is stored; the raw token lives in the shared URL.
+    tokenHash: { type: String, required: true },
+    label: { type: String, maxlength: 120 },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+    lastUsedAt: { type: Date }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "previewTokens"
+  }
+);
+
+previewTokenSchema.index(
+  { tokenHash: 1 },
+  { unique: true, name: "uq_previewTokens_hash" }
+);
+
+previewTokenSchema.index(
+  { projectId: 1, createdAt: -1 },
+  { name: "idx_previewTokens_project" }
+);
+
+previewTokenSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, name: "ttl_previewTokens_expires" }
+);
+
+type PreviewToken = InferSchemaType<typeof previewTokenSchema>;
+export type PreviewTokenDocument = HydratedDocument<PreviewToken>;
+
+export const PreviewTokenModel =
+  models.PreviewToken ??
+  model<PreviewToken>("PreviewToken", previewTokenSchema, "previewTokens");
@@ -77,13 +77,25 @@ const galleryItemSchema = new Schema(
 
 const seoSchema = new Schema(
   {
-    metaTitle: { type: String },
-    metaDescription: { type: String },
+    metaTitle: { type: String, maxlength: 90 },
+    metaDescription: { type: String, maxlength: 300 },
     ogImageAssetId: { type: Schema.Types.ObjectId, ref: "MediaAsset" }
   },
   { _id: false }
 );
 
+const reviewSchema = new Schema(
+  {
+    submittedAt: { type: Date },
+    submittedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    note: { type: String, maxlength: 2000 },
+    changesRequestedAt: { type: Date },
+    changesRequestedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    feedback: { type: String, maxlength: 2000 }
+  },
+  { _id: false }
+);
+
 const projectSchema = new Schema(
   {
     slug: {
@@ -94,6 +106,9 @@ const projectSchema = new Schema(
       lowercase: true,
       trim: true
     },
+    // Slugs this project was published under before a rename. They redirect
+    // to the current slug and are never handed to another project.
+    previousSlugs: { type: [String], default: [] },
     title: { type: String, required: true, maxlength: 120 },
     titleSort: { type: String },
     categoryId: { type: Schema.Types.ObjectId, ref: "Category", required: true },
@@ -106,11 +121,14 @@ const projectSchema = new Schema(
     },
     status: {
       type: String,
-      enum: ["draft", "published", "archived"],
+      enum: ["draft", "in_review", "published", "archived"],
       required: true,
       default: "draft"
     },
     isFeatured: { type: Boolean, default: false },
+    // Position in the homepage hero rotation, lowest first. Unset when the
+    // project is not featured.
+    featuredOrder: { type: Number },
     hero: { type: heroSchema, required: true },
     excerpt: { type: String, required: true, maxlength: 360 },
     descriptionBlocks: {
@@ -131,11 +149,15 @@ const projectSchema = new Schema(
     },
     searchTokens: [{ type: String }],
     seo: { type: seoSchema },
+    review: { type: reviewSchema },
     revision: { type: Number, default: 1, required: true },
     createdBy: { type: Schema.Types.ObjectId, ref: "User" },
     updatedBy: { type: Schema.Types.ObjectId, ref: "User" },
     publishedBy: { type: Schema.Types.ObjectId, ref: "User" },
     publishedAt: { type: Date },
+    scheduledPublishAt: { type: Date },
+    scheduledUnpublishAt: { type: Date },
+    scheduledBy: { type: Schema.Types.ObjectId, ref: "User" },
     deletedAt: { type: Date }
   },
   {
@@ -153,6 +175,18 @@ projectSchema.index(
   }
 );
 
+projectSchema.index(
+  { previousSlugs: 1 },
+  {
+    unique: true,
+    name: "uq_projects_previous_slugs",
+    collation: { locale: "en", strength: 2 },
+    // Projects that were never renamed have an empty array, which would
+    // otherwise collide as null in a unique multikey index.
+    partialFilterExpression: { previousSlugs: { $type: "string" } }
+  }
+);
+
 projectSchema.index(
   { status: 1, updatedAt: -1 },
   { name: "idx_projects_status_updated" }
@@ -164,7 +198,19 @@ projectSchema.index(
 );
 
 projectSchema.index({ deletedAt: 1 }, { name: "idx_projects_deleted" });
+projectSchema.index(
+  { isFeatured: 1, featuredOrder: 1 },
+  { name: "idx_projects_featured" }
+);
 projectSchema.index({ titleSort: 1 }, { name: "idx_projects_alpha" });
+projectSchema.index(
+  { scheduledPublishAt: 1 },
+  { name: "idx_projects_scheduled_publish", sparse: true }
+);
+projectSchema.index(
+  { scheduledUnpublishAt: 1 },
+  { name: "idx_projects_scheduled_unpublish", sparse: true }
+);
 projectSchema.index(
   { title: "text", location: "text", excerpt: "text" },
   { name: "text_projects_search" }
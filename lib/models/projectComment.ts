@@ -0,0 +1,70 @@
+import {
+  Schema,
+  model,
+  models,
+  type HydratedDocument,
+  type InferSchemaType
+} from "mongoose";
+
+const anchorSchema = new Schema(
+  {
+    kind: {
+      type: String,
+      enum: ["project", "description", "meta", "gallery"],
+      required: true,
+      default: "project"
+    },
+    // _id of the description block, meta item or gallery item on the Project.
+    itemId: { type: Schema.Types.ObjectId }
+  },
+  { _id: false }
+);
+
+const projectCommentSchema = new Schema(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true
+    },
+    // Replies point at the thread's first comment; threads only nest once.
+    parentId: { type: Schema.Types.ObjectId, ref: "ProjectComment" },
+    anchor: { type: anchorSchema, required: true },
+    body: { type: String, required: true, trim: true, maxlength: 2000 },
+    authorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    mentions: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    editedAt: { type: Date },
+    resolvedAt: { type: Date },
+    resolvedBy: { type: Schema.Types.ObjectId, ref: "User" }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: true },
+    collection: "projectComments"
+  }
+);
+
+projectCommentSchema.index(
+  { projectId: 1, createdAt: 1 },
+  { name: "idx_projectComments_project" }
+);
+
+projectCommentSchema.index(
+  { parentId: 1, createdAt: 1 },
+  { name: "idx_projectComments_parent", sparse: true }
+);
+
+projectCommentSchema.index(
+  { mentions: 1, createdAt: -1 },
+  { name: "idx_projectComments_mentions" }
+);
+
+type ProjectComment = InferSchemaType<typeof projectCommentSchema>;
+export type ProjectCommentDocument = HydratedDocument<ProjectComment>;
+
+export const ProjectCommentModel =
+  models.ProjectComment ??
+  model<ProjectComment>(
+    "ProjectComment",
+    projectCommentSchema,
+    "projectComments"
+  );
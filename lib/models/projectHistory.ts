@@ -15,11 +15,28 @@ const projectHistorySchema = new Schema(
     },
     action: {
       type: String,
-      enum: ["created", "duplicated", "saved", "published", "unpublished", "deleted"],
+      enum: [
+        "created",
+        "duplicated",
+        "saved",
+        "published",
+        "unpublished",
+        "deleted",
+        "restored",
+        "purged",
+        "schedule-updated",
+        "scheduled-publish",
+        "scheduled-unpublish",
+        "schedule-failed",
+        "review-requested",
+        "review-approved",
+        "changes-requested",
+        "featured-updated"
+      ],
       required: true
     },
-    fromStatus: { type: String, enum: ["draft", "published", "archived"] },
-    toStatus: { type: String, enum: ["draft", "published", "archived"] },
+    fromStatus: { type: String, enum: ["draft", "in_review", "published", "archived"] },
+    toStatus: { type: String, enum: ["draft", "in_review", "published", "archived"] },
     actorId: { type: Schema.Types.ObjectId, ref: "User" },
     snapshotVersion: { type: Number },
     summary: { type: String }
@@ -35,6 +52,11 @@ projectHistorySchema.index(
   { name: "idx_projectHistory_project" }
 );
 
+projectHistorySchema.index(
+  { createdAt: -1 },
+  { name: "idx_projectHistory_createdAt" }
+);
+
 type ProjectHistory = InferSchemaType<typeof projectHistorySchema>;
 export type ProjectHistoryDocument = HydratedDocument<ProjectHistory>;
 
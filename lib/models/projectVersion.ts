@@ -17,12 +17,12 @@ const projectVersionSchema = new Schema(
     version: { type: Number, required: true },
     status: {
       type: String,
-      enum: ["draft", "published", "archived"],
+      enum: ["draft", "in_review", "published", "archived"],
       required: true
     },
     source: {
       type: String,
-      enum: ["manual-save", "publish", "unpublish"],
+      enum: ["manual-save", "publish", "unpublish", "restore"],
       required: true
     },
     payload: { type: Schema.Types.Mixed, required: true },
@@ -90,9 +90,17 @@ const publishedProjectSchema = new Schema(
     },
     slug: { type: String, required: true },
     title: { type: String, required: true },
+    titleSort: { type: String },
+    // Groups category pages; the label is only a display copy and goes stale
+    // until the project is republished after a category rename.
+    categoryId: { type: Schema.Types.ObjectId, ref: "Category" },
     categoryLabel: { type: String, required: true },
     location: { type: String, required: true },
     yearDisplay: { type: String, required: true },
+    // First and last year of `yearDisplay` ("2019-21" spans 2019-2021), for
+    // range filters and sorting.
+    yearStart: { type: Number },
+    yearEnd: { type: Number },
     hero: { type: heroSchema, required: true },
     excerpt: { type: String, required: true },
     descriptionBlocks: { type: [descriptionBlockSchema], default: [] },
@@ -101,6 +109,10 @@ const publishedProjectSchema = new Schema(
     collaborators: { type: [collaboratorItemSchema], default: [] },
     gallery: { type: [galleryItemSchema], default: [] },
     seo: { type: seoSchema },
+    isFeatured: { type: Boolean, default: false },
+    featuredOrder: { type: Number },
+    // Accent-folded tokens from lib/utils/text `tokenize`, for prefix search.
+    searchTokens: { type: [String], default: [] },
     publishedAt: { type: Date, required: true },
     syncedAt: { type: Date, required: true }
   },
@@ -117,8 +129,71 @@ publishedProjectSchema.index(
   { name: "idx_publishedProjects_category" }
 );
 
+publishedProjectSchema.index(
+  { categoryId: 1 },
+  { name: "idx_publishedProjects_category_id" }
+);
+
 publishedProjectSchema.index({ publishedAt: -1 });
 
+publishedProjectSchema.index(
+  { isFeatured: 1, featuredOrder: 1 },
+  { name: "idx_publishedProjects_featured" }
+);
+
+publishedProjectSchema.index(
+  { publishedAt: -1, _id: -1 },
+  { name: "idx_publishedProjects_newest" }
+);
+
+publishedProjectSchema.index(
+  { yearStart: -1, _id: -1 },
+  { name: "idx_publishedProjects_year" }
+);
+
+publishedProjectSchema.index(
+  { titleSort: 1, _id: 1 },
+  { name: "idx_publishedProjects_alpha" }
+);
+
+publishedProjectSchema.index(
+  { "services.label": 1 },
+  { name: "idx_publishedProjects_services" }
+);
+
+publishedProjectSchema.index(
+  { location: 1 },
+  { name: "idx_publishedProjects_location" }
+);
+
+publishedProjectSchema.index(
+  { searchTokens: 1 },
+  { name: "idx_publishedProjects_search_tokens" }
+);
+
+// Language "none" disables stemming so ranking follows the exact words typed;
+// text indexes are diacritic-insensitive on their own.
+publishedProjectSchema.index(
+  {
+    title: "text",
+    categoryLabel: "text",
+    location: "text",
+    searchTokens: "text",
+    excerpt: "text"
+  },
+  {
+    name: "text_publishedProjects_search",
+    default_language: "none",
+    weights: {
+      title: 10,
+      categoryLabel: 5,
+      location: 4,
+      searchTokens: 2,
+      excerpt: 1
+    }
+  }
+);
+
 export type PublishedProject = InferSchemaType<typeof publishedProjectSchema>;
 export type PublishedProjectDocument = HydratedDocument<PublishedProject>;
 
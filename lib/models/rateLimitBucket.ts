@@ -0,0 +1,42 @@
+import {
+  Schema,
+  model,
+  models,
+  type HydratedDocument,
+  type InferSchemaType
+} from "mongoose";
+
+// One counter per client key and fixed window. The limiter weighs the
+// previous window's counter to approximate a sliding window.
+const rateLimitBucketSchema = new Schema(
+  {
+    key: { type: String, required: true },
+    windowStart: { type: Date, required: true },
+    count: { type: Number, required: true, default: 0 },
+    expiresAt: { type: Date, required: true }
+  },
+  {
+    collection: "rateLimitBuckets"
+  }
+);
+
+rateLimitBucketSchema.index(
+  { key: 1, windowStart: 1 },
+  { unique: true, name: "uq_rateLimitBuckets_key_window" }
+);
+
+rateLimitBucketSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, name: "ttl_rateLimitBuckets_expires" }
+);
+
+type RateLimitBucket = InferSchemaType<typeof rateLimitBucketSchema>;
+export type RateLimitBucketDocument = HydratedDocument<RateLimitBucket>;
+
+export const RateLimitBucketModel =
+  models.RateLimitBucket ??
+  model<RateLimitBucket>(
+    "RateLimitBucket",
+    rateLimitBucketSchema,
+    "rateLimitBuckets"
+  );
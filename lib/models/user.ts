@@ -25,11 +25,20 @@ const userSchema = new Schema(
     },
     status: {
       type: String,
-      enum: ["active", "disabled"],
+      enum: ["invited", "active", "disabled"],
       default: "active"
     },
     avatarAssetId: { type: Schema.Types.ObjectId, ref: "MediaAsset" },
-    lastLoginAt: { type: Date }
+    invitedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    invitedAt: { type: Date },
+    lastLoginAt: { type: Date },
+    notificationPreferences: {
+      published: { type: Boolean, default: true },
+      unpublished: { type: Boolean, default: true },
+      deleted: { type: Boolean, default: true },
+      reviewRequested: { type: Boolean, default: true },
+      mentioned: { type: Boolean, default: true }
+    }
   },
   { timestamps: { createdAt: true, updatedAt: true }, collection: "users" }
 );
@@ -0,0 +1,67 @@
+import {
+  Schema,
+  model,
+  models,
+  type HydratedDocument,
+  type InferSchemaType
+} from "mongoose";
+
+import { WEBHOOK_EVENTS } from "@/lib/models/webhookSubscription";
+
+const attemptSchema = new Schema(
+  {
+    at: { type: Date, required: true },
+    responseStatus: { type: Number },
+    error: { type: String, maxlength: 1000 },
+    durationMs: { type: Number }
+  },
+  { _id: false }
+);
+
+// Doubles as the outbox: deliveries are inserted in the same transaction as
+// the change that caused them and stay "pending" until a POST succeeds.
+const webhookDeliverySchema = new Schema(
+  {
+    subscriptionId: {
+      type: Schema.Types.ObjectId,
+      ref: "WebhookSubscription",
+      required: true
+    },
+    event: { type: String, enum: WEBHOOK_EVENTS, required: true },
+    projectId: { type: Schema.Types.ObjectId, ref: "Project", required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "delivered", "failed"],
+      default: "pending"
+    },
+    attempts: { type: [attemptSchema], default: [] },
+    nextAttemptAt: { type: Date },
+    deliveredAt: { type: Date }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: true },
+    collection: "webhookDeliveries"
+  }
+);
+
+webhookDeliverySchema.index(
+  { status: 1, nextAttemptAt: 1 },
+  { name: "idx_webhookDeliveries_due" }
+);
+
+webhookDeliverySchema.index(
+  { subscriptionId: 1, createdAt: -1 },
+  { name: "idx_webhookDeliveries_subscription" }
+);
+
+type WebhookDelivery = InferSchemaType<typeof webhookDeliverySchema>;
+export type WebhookDeliveryDocument = HydratedDocument<WebhookDelivery>;
+
+export const WebhookDeliveryModel =
+  models.WebhookDelivery ??
+  model<WebhookDelivery>(
+    "WebhookDelivery",
+    webhookDeliverySchema,
+    "webhookDeliveries"
+  );
@@ -0,0 +1,44 @@
+import {
+  Schema,
+  model,
+  models,
+  type HydratedDocument,
+  type InferSchemaType
+} from "mongoose";
+
+export const WEBHOOK_EVENTS = ["published", "unpublished", "deleted"] as const;
+
+const webhookSubscriptionSchema = new Schema(
+  {
+    name: { type: String, required: true, maxlength: 120 },
+    url: { type: String, required: true, maxlength: 2000 },
+    // Kept in plain text because every delivery is signed with it.
+    secret: { type: String, required: true },
+    events: {
+      type: [{ type: String, enum: WEBHOOK_EVENTS }],
+      default: () => [...WEBHOOK_EVENTS]
+    },
+    active: { type: Boolean, default: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: true },
+    collection: "webhookSubscriptions"
+  }
+);
+
+webhookSubscriptionSchema.index(
+  { active: 1, events: 1 },
+  { name: "idx_webhookSubscriptions_active_events" }
+);
+
+type WebhookSubscription = InferSchemaType<typeof webhookSubscriptionSchema>;
+export type WebhookSubscriptionDocument = HydratedDocument<WebhookSubscription>;
+
+export const WebhookSubscriptionModel =
+  models.WebhookSubscription ??
+  model<WebhookSubscription>(
+    "WebhookSubscription",
+    webhookSubscriptionSchema,
+    "webhookSubscriptions"
+  );
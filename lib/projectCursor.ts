@@ -0,0 +1,70 @@
+import { Types } from "mongoose";
+
+import type { ProjectSort } from "@/lib/types/projects";
+
+export const PROJECT_SORT_KEYS: Record<
+  ProjectSort,
+  { field: "publishedAt" | "yearStart" | "titleSort"; direction: 1 | -1 }
+> = {
+  newest: { field: "publishedAt", direction: -1 },
+  year: { field: "yearStart", direction: -1 },
+  alphabetical: { field: "titleSort", direction: 1 }
+};
+
+export class ProjectQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectQueryError";
+  }
+}
+
+export type CursorValue = string | number | null;
+
+// Cursors are opaque to clients: the sort value and _id of the last item.
+export const encodeCursor = (value: CursorValue, id: Types.ObjectId) =>
+  Buffer.from(JSON.stringify([value, id.toString()])).toString("base64url");
+
+export const decodeCursor = (cursor: string, sort: ProjectSort) => {
+  try {
+    const [value, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    ) as [CursorValue, string];
+    if (!Types.ObjectId.isValid(id)) {
+      throw new Error("Invalid id");
+    }
+    const field = PROJECT_SORT_KEYS[sort].field;
+    return {
+      value:
+        field === "publishedAt" && value !== null
+          ? new Date(value)
+          : value,
+      id: new Types.ObjectId(id)
+    };
+  } catch {
+    throw new ProjectQueryError("Invalid cursor.");
+  }
+};
+
+// Keyset condition for "after the cursor" in the given sort. Documents synced
+// before a sort field existed have it missing, which MongoDB orders before
+// every value ascending and after every value descending.
+export const buildCursorFilter = (
+  sort: ProjectSort,
+  cursor: { value: CursorValue | Date; id: Types.ObjectId }
+) => {
+  const { field, direction } = PROJECT_SORT_KEYS[sort];
+  const idOperator = direction === 1 ? "$gt" : "$lt";
+  if (cursor.value === null) {
+    const sameValue = { [field]: null, _id: { [idOperator]: cursor.id } };
+    return direction === 1
+      ? { $or: [{ [field]: { $ne: null } }, sameValue] }
+      : sameValue;
+  }
+  return {
+    $or: [
+      { [field]: { [idOperator]: cursor.value } },
+      { [field]: cursor.value, _id: { [idOperator]: cursor.id } },
+      ...(direction === -1 ? [{ [field]: null }] : [])
+    ]
+  };
+};
@@ -1,12 +1,53 @@
 import { cache } from "react";
+import { Types } from "mongoose";
+import { cookies, draftMode } from "next/headers";
+import { unstable_cache } from "next/cache";
 
 import { connectToDatabase } from "@/lib/db/connection";
+import { CategoryModel } from "@/lib/models/category";
+import { MediaAssetModel } from "@/lib/models/mediaAsset";
+import { ProjectModel } from "@/lib/models/project";
 import {
   PublishedProjectModel,
   type PublishedProject
 } from "@/lib/models/publishedProject";
-import type { Project } from "@/lib/types/projects";
-import { resolveMediaUrl } from "@/lib/server/mediaService";
+import type {
+  Project,
+  ProjectCategory,
+  ProjectFacetCount,
+  ProjectListPage,
+  ProjectListQuery,
+  ProjectOgImageSource,
+  ProjectSearchResult,
+  ProjectSort,
+  PublishedProjectSlug
+} from "@/lib/types/projects";
+import {
+  PROJECT_SORT_KEYS,
+  ProjectQueryError,
+  buildCursorFilter,
+  decodeCursor,
+  encodeCursor
+} from "@/lib/projectCursor";
+import {
+  contentTypeForFormat,
+  resolveMediaUrl
+} from "@/lib/server/mediaService";
+import {
+  PROJECT_LIST_TAG,
+  categoryTag,
+  projectTag
+} from "@/lib/server/projectCache";
+import {
+  PREVIEW_TOKEN_COOKIE,
+  resolvePreviewToken
+} from "@/lib/server/admin/previewService";
+import {
+  buildHighlightedSnippet,
+  escapeRegExp,
+  tokenize,
+  uniqueStrings
+} from "@/lib/utils/text";
 
 const sortByOrder = <T extends { order?: number }>(
   items?: Iterable<T> | null
@@ -32,6 +73,7 @@ type PublishedProjectSelection = Pick<
   | "services"
   | "collaborators"
   | "gallery"
+  | "seo"
 >;
 
 const transformPublishedDoc = (
@@ -45,6 +87,11 @@ const transformPublishedDoc = (
   year: doc.yearDisplay,
   heroImage: resolveMediaUrl(doc.hero?.src ?? ""),
   heroCaption: doc.hero?.caption ?? "",
+  heroFocalPoint:
+    typeof doc.hero?.focalPoint?.x === "number" &&
+    typeof doc.hero.focalPoint.y === "number"
+      ? { x: doc.hero.focalPoint.x, y: doc.hero.focalPoint.y }
+      : undefined,
   excerpt: doc.excerpt,
   description: sortByOrder(doc.descriptionBlocks).map((block) => block.body),
   meta: sortByOrder(doc.meta).map((item) => ({
@@ -60,33 +107,627 @@ const transformPublishedDoc = (
     caption: item.caption,
     width: item.width ?? undefined,
     height: item.height ?? undefined
-  }))
+  })),
+  seo: {
+    metaTitle: doc.seo?.metaTitle || undefined,
+    metaDescription: doc.seo?.metaDescription || undefined
+  }
 });
 
-export const fetchPublishedProjects = cache(async (): Promise<Project[]> => {
-  await connectToDatabase();
-  const docs = (await PublishedProjectModel.find({})
-    .sort({ publishedAt: -1 })
-    .lean()) as unknown as PublishedProjectSelection[];
-  return docs.map((doc) => transformPublishedDoc(doc));
-});
+// Published reads go through the Next.js data cache and are evicted by tag
+// when the service layer changes a PublishedProject (see projectCache.ts).
+export const fetchPublishedProjects = cache(
+  unstable_cache(
+    async (): Promise<Project[]> => {
+      await connectToDatabase();
+      const docs = (await PublishedProjectModel.find({})
+        .sort({ publishedAt: -1 })
+        .lean()) as unknown as PublishedProjectSelection[];
+      return docs.map((doc) => transformPublishedDoc(doc));
+    },
+    ["published-projects"],
+    { tags: [PROJECT_LIST_TAG] }
+  )
+);
 
 export const fetchPublishedProjectBySlug = cache(
-  async (slug: string): Promise<Project | null> => {
-    await connectToDatabase();
-    const doc = (await PublishedProjectModel.findOne({ slug }).lean()) as unknown as PublishedProjectSelection | null;
-    if (!doc) {
-      return null;
+  (slug: string): Promise<Project | null> =>
+    unstable_cache(
+      async () => {
+        await connectToDatabase();
+        const doc = (await PublishedProjectModel.findOne({ slug }).lean()) as unknown as PublishedProjectSelection | null;
+        if (!doc) {
+          return null;
+        }
+        return transformPublishedDoc(doc);
+      },
+      ["published-project", slug],
+      { tags: [projectTag(slug)] }
+    )()
+);
+
+type OgImageSourceDoc = Pick<
+  PublishedProject,
+  "title" | "location" | "yearDisplay" | "hero" | "syncedAt"
+> & {
+  seo?: { ogImageAssetId?: Types.ObjectId | null } | null;
+};
+
+type OgAssetDoc = {
+  storageKey: string;
+  width: number;
+  height: number;
+  format: string;
+  updatedAt?: Date | null;
+};
+
+const withVersion = (url: string, version: string) =>
+  `${url}${url.includes("?") ? "&" : "?"}v=${version}`;
+
+export const fetchProjectOgImageSource = cache(
+  (slug: string): Promise<ProjectOgImageSource | null> =>
+    unstable_cache(
+      async () => {
+        await connectToDatabase();
+        const doc = (await PublishedProjectModel.findOne(
+          { slug },
+          {
+            title: 1,
+            location: 1,
+            yearDisplay: 1,
+            hero: 1,
+            seo: 1,
+            syncedAt: 1
+          }
+        )
+          .lean()
+          .exec()) as unknown as OgImageSourceDoc | null;
+        if (!doc) {
+          return null;
+        }
+        const ogAssetId = doc.seo?.ogImageAssetId;
+        const ogAsset = ogAssetId
+          ? ((await MediaAssetModel.findOne(
+              { _id: ogAssetId, deletedAt: null },
+              { storageKey: 1, width: 1, height: 1, format: 1, updatedAt: 1 }
+            )
+              .lean()
+              .exec()) as unknown as OgAssetDoc | null)
+          : null;
+        const focalPoint = doc.hero?.focalPoint;
+        return {
+          title: doc.title,
+          location: doc.location,
+          year: doc.yearDisplay,
+          version: new Date(doc.syncedAt).getTime().toString(36),
+          hero: {
+            src: doc.hero?.src ?? "",
+            width: doc.hero?.width ?? undefined,
+            height: doc.hero?.height ?? undefined,
+            focalPoint:
+              typeof focalPoint?.x === "number" &&
+              typeof focalPoint.y === "number"
+                ? { x: focalPoint.x, y: focalPoint.y }
+                : undefined
+          },
+          ogAsset: ogAsset
+            ? {
+                url: withVersion(
+                  resolveMediaUrl(ogAsset.storageKey),
+                  new Date(ogAsset.updatedAt ?? 0).getTime().toString(36)
+                ),
+                width: ogAsset.width,
+                height: ogAsset.height,
+                contentType: contentTypeForFormat(ogAsset.format)
+              }
+            : null
+        };
+      },
+      ["published-project-og-source", slug],
+      { tags: [projectTag(slug)] }
+    )()
+);
+
+const FEATURED_PROJECTS_LIMIT = 6;
+
+/** Published featured projects in their curated hero order. */
+export const fetchFeaturedProjects = cache(
+  unstable_cache(
+    async (): Promise<Project[]> => {
+      await connectToDatabase();
+      const docs = (await PublishedProjectModel.find({ isFeatured: true })
+        .sort({ featuredOrder: 1, publishedAt: -1 })
+        .limit(FEATURED_PROJECTS_LIMIT)
+        .lean()) as unknown as PublishedProjectSelection[];
+      return docs.map((doc) => transformPublishedDoc(doc));
+    },
+    ["featured-projects"],
+    { tags: [PROJECT_LIST_TAG] }
+  )
+);
+
+export const fetchPublishedProjectSlugs = cache(
+  unstable_cache(
+    async (): Promise<PublishedProjectSlug[]> => {
+      await connectToDatabase();
+      const docs = (await PublishedProjectModel.find(
+        {},
+        { slug: 1, publishedAt: 1, syncedAt: 1 }
+      )
+        .sort({ publishedAt: -1 })
+        .lean()
+        .exec()) as unknown as Array<
+        Pick<PublishedProject, "slug" | "publishedAt" | "syncedAt">
+      >;
+      return docs.map((doc) => ({
+        slug: doc.slug,
+        publishedAt: new Date(doc.publishedAt).toISOString(),
+        syncedAt: new Date(doc.syncedAt).toISOString()
+      }));
+    },
+    ["published-project-slug-dates"],
+    { tags: [PROJECT_LIST_TAG] }
+  )
+);
+
+export const PROJECT_SORTS: ProjectSort[] = ["newest", "year", "alphabetical"];
+export const PROJECT_PAGE_DEFAULT_LIMIT = 12;
+export const PROJECT_PAGE_MAX_LIMIT = 48;
+
+type ProjectFilterKey = "category" | "service" | "location" | "year";
+
+const buildProjectFilter = (
+  query: ProjectListQuery,
+  except?: ProjectFilterKey
+) => {
+  const filter: Record<string, unknown> = {};
+  if (query.category && except !== "category") {
+    filter.categoryLabel = query.category;
+  }
+  if (query.categoryId && except !== "category") {
+    filter.categoryId = new Types.ObjectId(query.categoryId);
+  }
+  if (query.service && except !== "service") {
+    filter["services.label"] = query.service;
+  }
+  if (query.location && except !== "location") {
+    filter.location = query.location;
+  }
+  if (except !== "year") {
+    // A multi-year project matches any range it overlaps.
+    if (query.yearFrom !== undefined) {
+      filter.yearEnd = { $gte: query.yearFrom };
+    }
+    if (query.yearTo !== undefined) {
+      filter.yearStart = { $lte: query.yearTo };
     }
-    return transformPublishedDoc(doc);
+  }
+  return filter;
+};
+
+type FacetBucket = { _id: string | number | null; count: number };
+
+const toFacetCounts = (buckets: FacetBucket[]): ProjectFacetCount[] =>
+  buckets
+    .filter((bucket) => bucket._id !== null && bucket._id !== "")
+    .map((bucket) => ({ value: String(bucket._id), count: bucket.count }));
+
+// Each facet is counted with every filter except its own, so picking a
+// category still shows how many projects the other categories hold.
+const fetchProjectFacets = async (query: ProjectListQuery) => {
+  const countBy = (key: ProjectFilterKey, path: string, unwind?: string) => [
+    { $match: buildProjectFilter(query, key) },
+    ...(unwind ? [{ $unwind: unwind }] : []),
+    { $group: { _id: path, count: { $sum: 1 } } },
+    { $sort: { count: -1 as const, _id: 1 as const } }
+  ];
+  const [result] = (await PublishedProjectModel.aggregate([
+    {
+      $facet: {
+        total: [{ $match: buildProjectFilter(query) }, { $count: "count" }],
+        categories: countBy("category", "$categoryLabel"),
+        services: countBy("service", "$services.label", "$services"),
+        locations: countBy("location", "$location"),
+        years: [
+          { $match: buildProjectFilter(query, "year") },
+          { $group: { _id: "$yearStart", count: { $sum: 1 } } },
+          { $sort: { _id: -1 } }
+        ]
+      }
+    }
+  ]).exec()) as Array<{
+    total: Array<{ count: number }>;
+    categories: FacetBucket[];
+    services: FacetBucket[];
+    locations: FacetBucket[];
+    years: FacetBucket[];
+  }>;
+  return {
+    total: result?.total[0]?.count ?? 0,
+    facets: {
+      categories: toFacetCounts(result?.categories ?? []),
+      services: toFacetCounts(result?.services ?? []),
+      locations: toFacetCounts(result?.locations ?? []),
+      years: toFacetCounts(result?.years ?? [])
+    }
+  };
+};
+
+const normalizeProjectQuery = (query: ProjectListQuery) => {
+  const sort = query.sort ?? "newest";
+  if (!PROJECT_SORTS.includes(sort)) {
+    throw new ProjectQueryError(`Unknown sort "${sort}".`);
+  }
+  const limit = Math.min(
+    Math.max(Math.floor(query.limit ?? PROJECT_PAGE_DEFAULT_LIMIT), 1),
+    PROJECT_PAGE_MAX_LIMIT
+  );
+  if (query.categoryId && !Types.ObjectId.isValid(query.categoryId)) {
+    throw new ProjectQueryError("Invalid categoryId.");
+  }
+  if (
+    query.yearFrom !== undefined &&
+    query.yearTo !== undefined &&
+    query.yearFrom > query.yearTo
+  ) {
+    throw new ProjectQueryError("yearFrom must not be after yearTo.");
+  }
+  return {
+    category: query.category?.trim() || undefined,
+    categoryId: query.categoryId || undefined,
+    service: query.service?.trim() || undefined,
+    location: query.location?.trim() || undefined,
+    yearFrom: query.yearFrom,
+    yearTo: query.yearTo,
+    sort,
+    cursor: query.all ? undefined : query.cursor || undefined,
+    limit,
+    all: Boolean(query.all)
+  };
+};
+
+/**
+ * One page of published projects with keyset pagination, plus total and facet
+ * counts for the active filters. Pass `nextCursor` back to get the next page,
+ * or `all` for every match at once. Invalid input throws a
+ * `ProjectQueryError`.
+ */
+export const fetchPublishedProjectPage = cache(
+  (query: ProjectListQuery = {}): Promise<ProjectListPage> => {
+    const normalized = normalizeProjectQuery(query);
+    return unstable_cache(
+      async () => {
+        await connectToDatabase();
+        const { field, direction } = PROJECT_SORT_KEYS[normalized.sort];
+        const filter = buildProjectFilter(normalized);
+        const cursorFilter = normalized.cursor
+          ? buildCursorFilter(
+              normalized.sort,
+              decodeCursor(normalized.cursor, normalized.sort)
+            )
+          : null;
+        const [docs, { total, facets }] = await Promise.all([
+          PublishedProjectModel.find(
+            cursorFilter ? { $and: [filter, cursorFilter] } : filter
+          )
+            .sort({ [field]: direction, _id: direction })
+            // One extra document tells whether another page follows.
+            .limit(normalized.all ? 0 : normalized.limit + 1)
+            .lean()
+            .exec() as unknown as Promise<
+            Array<
+              PublishedProjectSelection & {
+                _id: Types.ObjectId;
+                publishedAt?: Date;
+                yearStart?: number;
+                titleSort?: string;
+              }
+            >
+          >,
+          fetchProjectFacets(normalized)
+        ]);
+        const page = normalized.all ? docs : docs.slice(0, normalized.limit);
+        const last = page[page.length - 1];
+        const lastValue = last ? last[field] ?? null : null;
+        return {
+          items: page.map((doc) => transformPublishedDoc(doc)),
+          nextCursor:
+            docs.length > page.length && last
+              ? encodeCursor(
+                  lastValue instanceof Date ? lastValue.toISOString() : lastValue,
+                  last._id
+                )
+              : null,
+          total,
+          facets
+        };
+      },
+      ["published-project-page", JSON.stringify(normalized)],
+      { tags: [PROJECT_LIST_TAG] }
+    )();
   }
 );
 
-export const fetchPublishedProjectSlugs = cache(async (): Promise<string[]> => {
-  await connectToDatabase();
-  const docs = await PublishedProjectModel.find({}, { slug: 1 })
-    .lean()
-    .exec();
-  return docs.map((doc) => doc.slug);
+type CategoryLike = {
+  _id: Types.ObjectId;
+  name: string;
+  slug: string;
+  description?: string | null;
+};
+
+// Categories created on the fly from a project form carry a placeholder
+// description that is not meant for visitors.
+const toProjectCategory = (
+  doc: CategoryLike,
+  projectCount: number
+): ProjectCategory => ({
+  id: doc._id.toString(),
+  slug: doc.slug,
+  name: doc.name,
+  description:
+    doc.description && doc.description !== `${doc.name} (auto-generated)`
+      ? doc.description
+      : "",
+  projectCount
 });
 
+/**
+ * Categories that have at least one published project, in `sortOrder` and
+ * then name order, each with its published project count.
+ */
+export const fetchPublishedCategories = cache(
+  unstable_cache(
+    async (): Promise<ProjectCategory[]> => {
+      await connectToDatabase();
+      const [categories, counts] = await Promise.all([
+        CategoryModel.find({}, { name: 1, slug: 1, description: 1 })
+          .sort({ sortOrder: 1, name: 1 })
+          .lean()
+          .exec() as unknown as Promise<CategoryLike[]>,
+        PublishedProjectModel.aggregate<{ _id: Types.ObjectId; count: number }>(
+          [
+            { $match: { categoryId: { $ne: null } } },
+            { $group: { _id: "$categoryId", count: { $sum: 1 } } }
+          ]
+        ).exec()
+      ]);
+      const countById = new Map(
+        counts.map((entry) => [entry._id.toString(), entry.count])
+      );
+      return categories
+        .map((doc) =>
+          toProjectCategory(doc, countById.get(doc._id.toString()) ?? 0)
+        )
+        .filter((category) => category.projectCount > 0);
+    },
+    ["published-categories"],
+    { tags: [PROJECT_LIST_TAG] }
+  )
+);
+
+export const fetchPublishedCategoryBySlug = cache(
+  (slug: string): Promise<ProjectCategory | null> =>
+    unstable_cache(
+      async () => {
+        await connectToDatabase();
+        const doc = (await CategoryModel.findOne(
+          { slug },
+          { name: 1, slug: 1, description: 1 }
+        )
+          .collation({ locale: "en", strength: 2 })
+          .lean()
+          .exec()) as unknown as CategoryLike | null;
+        if (!doc) {
+          return null;
+        }
+        const projectCount = await PublishedProjectModel.countDocuments({
+          categoryId: doc._id
+        }).exec();
+        return projectCount ? toProjectCategory(doc, projectCount) : null;
+      },
+      ["published-category", slug],
+      { tags: [PROJECT_LIST_TAG, categoryTag(slug)] }
+    )()
+);
+
+const SEARCH_MAX_TERMS = 8;
+const SEARCH_CANDIDATE_LIMIT = 50;
+
+type SearchCandidate = PublishedProjectSelection & {
+  searchTokens?: string[];
+  score?: number;
+};
+
+// Mirrors the weights of the `text_publishedProjects_search` index so prefix
+// hits rank the same way as whole-word hits.
+const SEARCH_FIELD_WEIGHTS: Array<{
+  weight: number;
+  values: (doc: SearchCandidate) => string[];
+}> = [
+  { weight: 10, values: (doc) => [doc.title] },
+  { weight: 5, values: (doc) => [doc.categoryLabel] },
+  { weight: 4, values: (doc) => [doc.location] },
+  {
+    weight: 2,
+    values: (doc) => [
+      ...(doc.searchTokens ?? []),
+      ...(doc.services ?? []).map((service) => service.label)
+    ]
+  },
+  { weight: 1, values: (doc) => [doc.excerpt] }
+];
+
+/**
+ * Scores a candidate against every term: a whole-word hit counts double, a
+ * prefix hit (the word still being typed) counts once. Returns null when a
+ * term matches nowhere, so results always contain every term.
+ */
+const scoreSearchCandidate = (doc: SearchCandidate, terms: string[]) => {
+  const fields = SEARCH_FIELD_WEIGHTS.map(({ weight, values }) => ({
+    weight,
+    tokens: values(doc).flatMap((value) => tokenize(value ?? ""))
+  }));
+  let total = 0;
+  for (const term of terms) {
+    let best = 0;
+    fields.forEach(({ weight, tokens }) => {
+      if (tokens.includes(term)) {
+        best = Math.max(best, weight * 2);
+      } else if (tokens.some((token) => token.startsWith(term))) {
+        best = Math.max(best, weight);
+      }
+    });
+    if (!best) {
+      return null;
+    }
+    total += best;
+  }
+  return total + (doc.score ?? 0);
+};
+
+const buildSearchSnippet = (doc: SearchCandidate, terms: string[]) => {
+  const excerpt = buildHighlightedSnippet(doc.excerpt ?? "", terms);
+  if (excerpt.some((segment) => segment.highlight)) {
+    return excerpt;
+  }
+  for (const block of sortByOrder(doc.descriptionBlocks)) {
+    const snippet = buildHighlightedSnippet(block.body, terms);
+    if (snippet.some((segment) => segment.highlight)) {
+      return snippet;
+    }
+  }
+  return excerpt;
+};
+
+/**
+ * Searches published projects for type-ahead. Queries are folded with
+ * `tokenize`, so accents and case never matter, and the last word may be
+ * incomplete. Whole-word matches come from the text index, partial ones from
+ * a prefix scan of `searchTokens`; both are re-ranked together here.
+ */
+export const searchPublishedProjects = async (
+  query: string,
+  limit = 10
+): Promise<ProjectSearchResult[]> => {
+  const terms = uniqueStrings(tokenize(query)).slice(0, SEARCH_MAX_TERMS);
+  if (!terms.length) {
+    return [];
+  }
+
+  await connectToDatabase();
+  const [textMatches, prefixMatches] = await Promise.all([
+    PublishedProjectModel.find(
+      { $text: { $search: terms.join(" ") } },
+      { score: { $meta: "textScore" } }
+    )
+      .sort({ score: { $meta: "textScore" } })
+      .limit(SEARCH_CANDIDATE_LIMIT)
+      .lean()
+      .exec() as unknown as Promise<SearchCandidate[]>,
+    PublishedProjectModel.find({
+      $and: terms.map((term) => ({
+        searchTokens: { $regex: `^${escapeRegExp(term)}` }
+      }))
+    })
+      .sort({ publishedAt: -1 })
+      .limit(SEARCH_CANDIDATE_LIMIT)
+      .lean()
+      .exec() as unknown as Promise<SearchCandidate[]>
+  ]);
+
+  const candidates = new Map<string, SearchCandidate>();
+  [...textMatches, ...prefixMatches].forEach((doc) => {
+    if (!candidates.has(doc.slug)) {
+      candidates.set(doc.slug, doc);
+    }
+  });
+
+  return Array.from(candidates.values())
+    .map((doc) => ({ doc, score: scoreSearchCandidate(doc, terms) }))
+    .filter(
+      (entry): entry is { doc: SearchCandidate; score: number } =>
+        entry.score !== null
+    )
+    .sort((a, b) => b.score - a.score || a.doc.title.localeCompare(b.doc.title))
+    .slice(0, limit)
+    .map(({ doc }) => ({
+      slug: doc.slug,
+      title: doc.title,
+      category: doc.categoryLabel,
+      location: doc.location,
+      year: doc.yearDisplay,
+      heroImage: resolveMediaUrl(doc.hero?.src ?? ""),
+      titleSegments: buildHighlightedSnippet(doc.title, terms, doc.title.length),
+      snippet: buildSearchSnippet(doc, terms)
+    }));
+};
+
+/**
+ * Returns the current published slug of the project that used to live at
+ * `slug`, or null when the slug was never retired or its project is offline.
+ * Cached under the retired slug's tag, which is evicted on every republish.
+ */
+export const fetchCurrentSlugForRetiredSlug = cache(
+  (slug: string): Promise<string | null> =>
+    unstable_cache(
+      async () => {
+        await connectToDatabase();
+        const project = (await ProjectModel.findOne(
+          { previousSlugs: slug, deletedAt: null },
+          { _id: 1 }
+        ).lean()) as unknown as { _id: Types.ObjectId } | null;
+        if (!project) {
+          return null;
+        }
+        const published = (await PublishedProjectModel.findOne(
+          { projectId: project._id },
+          { slug: 1 }
+        ).lean()) as unknown as { slug: string } | null;
+        return published && published.slug !== slug ? published.slug : null;
+      },
+      ["retired-project-slug", slug],
+      { tags: [projectTag(slug)] }
+    )()
+);
+
+/**
+ * Reads the draft `Project` document instead of its published copy. The
+ * preview token must unlock this exact project, so a shared link cannot be
+ * used to browse other drafts by editing the slug.
+ */
+export const fetchDraftProjectBySlug = cache(
+  async (slug: string, previewToken: string): Promise<Project | null> => {
+    const preview = await resolvePreviewToken(previewToken);
+    if (!preview || preview.slug !== slug) {
+      return null;
+    }
+    const doc = (await ProjectModel.findOne({
+      _id: preview.projectId,
+      deletedAt: null
+    }).lean()) as unknown as
+      | (Omit<PublishedProjectSelection, "projectId"> & { _id: Types.ObjectId })
+      | null;
+    if (!doc) {
+      return null;
+    }
+    // Project and PublishedProject share their content fields.
+    return transformPublishedDoc({ ...doc, projectId: doc._id });
+  }
+);
+
+/**
+ * Draft-aware variant of `fetchPublishedProjectBySlug`: in draft mode with a
+ * valid preview cookie it returns the draft, otherwise the published project.
+ */
+export const fetchProjectBySlugForRequest = async (
+  slug: string
+): Promise<{ project: Project | null; isDraft: boolean }> => {
+  if (draftMode().isEnabled) {
+    const token = cookies().get(PREVIEW_TOKEN_COOKIE)?.value;
+    const draft = token ? await fetchDraftProjectBySlug(slug, token) : null;
+    if (draft) {
+      return { project: draft, isDraft: true };
+    }
+  }
+  return { project: await fetchPublishedProjectBySlug(slug), isDraft: false };
+};
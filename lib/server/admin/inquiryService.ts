@@ -0,0 +1,367 @@
+import { Types } from "mongoose";
+
+import { ADMIN_ROLES, hasPermission } from "@/lib/auth/permissions";
+import { connectToDatabase } from "@/lib/db/connection";
+import { INQUIRY_STATUSES, InquiryModel } from "@/lib/models/inquiry";
+import { ProjectModel } from "@/lib/models/project";
+import { UserModel } from "@/lib/models/user";
+import { escapeHtml, getSiteUrl, sendEmail } from "@/lib/server/email";
+import type {
+  AdminInquiry,
+  AdminInquiryList,
+  AdminInquiryStatus,
+  AdminInquiryUpdatePayload,
+  AdminInquiryView
+} from "@/lib/types/admin";
+import type { InquirySubmission } from "@/lib/types/inquiries";
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+const FIELD_LIMITS = {
+  name: 120,
+  email: 254,
+  projectType: 120,
+  message: 5000
+} as const;
+const MESSAGE_MIN_LENGTH = 10;
+const NOTE_MAX_LENGTH = 2000;
+const INBOX_LIMIT = 200;
+
+const INQUIRY_MANAGER_ROLES = ADMIN_ROLES.filter((role) =>
+  hasPermission(role, "inquiries:manage")
+);
+
+class InquiryValidationError extends Error {
+  fields: Record<string, string>;
+
+  constructor(fields: Record<string, string>) {
+    super(Object.values(fields).join("; "));
+    this.name = "InquiryValidationError";
+    this.fields = fields;
+  }
+}
+
+type InquiryNoteLike = {
+  _id: Types.ObjectId;
+  body: string;
+  authorId: Types.ObjectId;
+  createdAt: Date;
+};
+
+type InquiryLike = {
+  _id: Types.ObjectId;
+  name: string;
+  email: string;
+  projectType?: string | null;
+  message: string;
+  status: AdminInquiryStatus;
+  archivedAt?: Date | null;
+  readAt?: Date | null;
+  repliedAt?: Date | null;
+  projectId?: Types.ObjectId | null;
+  notes?: InquiryNoteLike[];
+  createdAt: Date;
+};
+
+const toIsoString = (value?: Date | null) =>
+  value ? new Date(value).toISOString() : undefined;
+
+const readField = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const validateSubmission = (payload: Partial<InquirySubmission>) => {
+  const submission: InquirySubmission = {
+    name: readField(payload.name),
+    email: readField(payload.email).toLowerCase(),
+    projectType: readField(payload.projectType),
+    message: readField(payload.message)
+  };
+  const fields: Record<string, string> = {};
+  if (!submission.name) {
+    fields.name = "Please tell us your name.";
+  }
+  if (!EMAIL_PATTERN.test(submission.email)) {
+    fields.email = "Please enter a valid email address.";
+  }
+  if (submission.message.length < MESSAGE_MIN_LENGTH) {
+    fields.message = `Please write at least ${MESSAGE_MIN_LENGTH} characters.`;
+  }
+  (Object.keys(FIELD_LIMITS) as Array<keyof typeof FIELD_LIMITS>).forEach(
+    (field) => {
+      if (!fields[field] && submission[field].length > FIELD_LIMITS[field]) {
+        fields[field] = `Please keep this under ${FIELD_LIMITS[field]} characters.`;
+      }
+    }
+  );
+  if (Object.keys(fields).length) {
+    throw new InquiryValidationError(fields);
+  }
+  return submission;
+};
+
+// INQUIRY_NOTIFY_EMAIL (comma separated) is the studio inbox. Without it,
+// every active user who can manage inquiries is emailed instead.
+const findInquiryRecipients = async () => {
+  const configured = (process.env.INQUIRY_NOTIFY_EMAIL ?? "")
+    .split(",")
+    .map((email) => email.trim())
+    .filter(Boolean);
+  if (configured.length) {
+    return configured;
+  }
+  const users = (await UserModel.find(
+    { status: "active", role: { $in: INQUIRY_MANAGER_ROLES } },
+    { email: 1 }
+  )
+    .lean()
+    .exec()) as unknown as Array<{ email: string }>;
+  return users.map((user) => user.email);
+};
+
+const sendInquiryNotification = async (inquiry: InquirySubmission) => {
+  try {
+    const recipients = await findInquiryRecipients();
+    if (!recipients.length) {
+      return;
+    }
+    const url = `${getSiteUrl()}/admin/inquiries`;
+    const subject = `New inquiry from ${inquiry.name}${
+      inquiry.projectType ? ` — ${inquiry.projectType}` : ""
+    }`;
+    await sendEmail({
+      to: recipients,
+      replyTo: inquiry.email,
+      subject,
+      text: [
+        `${inquiry.name} <${inquiry.email}>`,
+        inquiry.projectType ? `Project type: ${inquiry.projectType}` : "",
+        inquiry.message,
+        url
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+      html: [
+        `<p><strong>${escapeHtml(inquiry.name)}</strong> &lt;${escapeHtml(inquiry.email)}&gt;</p>`,
+        inquiry.projectType
+          ? `<p>Project type: ${escapeHtml(inquiry.projectType)}</p>`
+          : "",
+        `<blockquote>${escapeHtml(inquiry.message).replace(/\n/g, "<br />")}</blockquote>`,
+        `<p><a href="${url}">${url}</a></p>`
+      ].join("")
+    });
+  } catch (error) {
+    console.error("[inquiries] Failed to send inquiry notification", error);
+  }
+};
+
+/**
+ * Stores a contact form submission and emails the studio. Invalid input
+ * throws an `InquiryValidationError` with a message per field. The inquiry
+ * is saved even when the email cannot be sent.
+ */
+export const submitInquiry = async (payload: Partial<InquirySubmission>) => {
+  const submission = validateSubmission(payload);
+  await connectToDatabase();
+  const created = await InquiryModel.create(submission);
+  await sendInquiryNotification(submission);
+  return { id: created._id.toString() };
+};
+
+const inquiriesToAdmin = async (docs: InquiryLike[]) => {
+  const projectIds = docs
+    .map((doc) => doc.projectId)
+    .filter((id): id is Types.ObjectId => Boolean(id));
+  const authorIds = docs.flatMap((doc) =>
+    (doc.notes ?? []).map((note) => note.authorId)
+  );
+  const [projects, authors] = await Promise.all([
+    projectIds.length
+      ? (ProjectModel.find({ _id: { $in: projectIds } }, { title: 1, slug: 1 })
+          .lean()
+          .exec() as unknown as Promise<
+          Array<{ _id: Types.ObjectId; title: string; slug: string }>
+        >)
+      : [],
+    authorIds.length
+      ? (UserModel.find({ _id: { $in: authorIds } }, { fullName: 1 })
+          .lean()
+          .exec() as unknown as Promise<
+          Array<{ _id: Types.ObjectId; fullName: string }>
+        >)
+      : []
+  ]);
+  const projectById = new Map(
+    projects.map((project) => [project._id.toString(), project])
+  );
+  const authorById = new Map(
+    authors.map((author) => [author._id.toString(), author.fullName])
+  );
+
+  return docs.map((doc): AdminInquiry => {
+    const project = doc.projectId
+      ? projectById.get(doc.projectId.toString())
+      : undefined;
+    return {
+      id: doc._id.toString(),
+      name: doc.name,
+      email: doc.email,
+      projectType: doc.projectType ?? "",
+      message: doc.message,
+      status: doc.status,
+      archived: Boolean(doc.archivedAt),
+      readAt: toIsoString(doc.readAt),
+      repliedAt: toIsoString(doc.repliedAt),
+      archivedAt: toIsoString(doc.archivedAt),
+      project: project
+        ? {
+            id: project._id.toString(),
+            title: project.title,
+            slug: project.slug
+          }
+        : undefined,
+      notes: (doc.notes ?? []).map((note) => {
+        const authorId = note.authorId.toString();
+        const authorName = authorById.get(authorId);
+        return {
+          id: note._id.toString(),
+          body: note.body,
+          author: authorName ? { id: authorId, name: authorName } : null,
+          createdAt: new Date(note.createdAt).toISOString()
+        };
+      }),
+      createdAt: new Date(doc.createdAt).toISOString()
+    };
+  });
+};
+
+export const fetchInquiries = async (
+  view: AdminInquiryView = "inbox"
+): Promise<AdminInquiryList> => {
+  await connectToDatabase();
+  const [docs, newCount, inboxCount, archivedCount] = await Promise.all([
+    InquiryModel.find({ archivedAt: view === "archived" ? { $ne: null } : null })
+      .sort({ createdAt: -1 })
+      .limit(INBOX_LIMIT)
+      .lean()
+      .exec() as unknown as Promise<InquiryLike[]>,
+    InquiryModel.countDocuments({ archivedAt: null, status: "new" }).exec(),
+    InquiryModel.countDocuments({ archivedAt: null }).exec(),
+    InquiryModel.countDocuments({ archivedAt: { $ne: null } }).exec()
+  ]);
+  return {
+    inquiries: await inquiriesToAdmin(docs),
+    counts: { new: newCount, inbox: inboxCount, archived: archivedCount }
+  };
+};
+
+const fetchInquiry = async (id: Types.ObjectId | string) => {
+  const doc = (await InquiryModel.findById(id)
+    .lean()
+    .exec()) as unknown as InquiryLike | null;
+  return doc ? (await inquiriesToAdmin([doc]))[0] : null;
+};
+
+/**
+ * Changes the status, archive flag or related project of an inquiry. The
+ * first time it is marked read or replied the time is recorded.
+ */
+export const updateInquiry = async (
+  inquiryId: string,
+  payload: AdminInquiryUpdatePayload,
+  actor: string
+) => {
+  if (!Types.ObjectId.isValid(inquiryId)) {
+    return null;
+  }
+  const set: Record<string, unknown> = {};
+  const unset: Record<string, 1> = {};
+  const now = new Date();
+
+  if (payload.status !== undefined) {
+    if (!INQUIRY_STATUSES.includes(payload.status)) {
+      throw new InquiryValidationError({ status: "Unknown status" });
+    }
+    set.status = payload.status;
+  }
+  if (payload.archived !== undefined) {
+    if (payload.archived) {
+      set.archivedAt = now;
+    } else {
+      unset.archivedAt = 1;
+    }
+  }
+
+  await connectToDatabase();
+  if (payload.projectId !== undefined) {
+    if (payload.projectId === null || payload.projectId === "") {
+      unset.projectId = 1;
+    } else {
+      const project = Types.ObjectId.isValid(payload.projectId)
+        ? await ProjectModel.exists({
+            _id: payload.projectId,
+            deletedAt: null
+          }).exec()
+        : null;
+      if (!project) {
+        throw new InquiryValidationError({ projectId: "Project not found" });
+      }
+      set.projectId = project._id;
+    }
+  }
+
+  const existing = (await InquiryModel.findById(inquiryId, {
+    readAt: 1,
+    repliedAt: 1
+  })
+    .lean()
+    .exec()) as unknown as Pick<InquiryLike, "readAt" | "repliedAt"> | null;
+  if (!existing) {
+    return null;
+  }
+  if (payload.status && payload.status !== "new" && !existing.readAt) {
+    set.readAt = now;
+  }
+  if (payload.status === "replied" && !existing.repliedAt) {
+    set.repliedAt = now;
+  }
+  set.updatedBy = new Types.ObjectId(actor);
+
+  await InquiryModel.updateOne(
+    { _id: inquiryId },
+    {
+      $set: set,
+      ...(Object.keys(unset).length ? { $unset: unset } : {})
+    }
+  ).exec();
+  return fetchInquiry(inquiryId);
+};
+
+export const addInquiryNote = async (
+  inquiryId: string,
+  body: unknown,
+  actor: string
+) => {
+  const trimmed = readField(body);
+  if (!trimmed) {
+    throw new InquiryValidationError({ body: "Note cannot be empty" });
+  }
+  if (trimmed.length > NOTE_MAX_LENGTH) {
+    throw new InquiryValidationError({
+      body: `Note max length is ${NOTE_MAX_LENGTH} characters`
+    });
+  }
+  if (!Types.ObjectId.isValid(inquiryId)) {
+    return null;
+  }
+  await connectToDatabase();
+  const authorId = new Types.ObjectId(actor);
+  const result = await InquiryModel.updateOne(
+    { _id: inquiryId },
+    {
+      $push: {
+        notes: { body: trimmed, authorId, createdAt: new Date() }
+      },
+      $set: { updatedBy: authorId }
+    }
+  ).exec();
+  return result.matchedCount ? fetchInquiry(inquiryId) : null;
+};
@@ -0,0 +1,288 @@
+import { Types } from "mongoose";
+
+import { ADMIN_ROLES, hasPermission } from "@/lib/auth/permissions";
+import { connectToDatabase } from "@/lib/db/connection";
+import { ProjectModel } from "@/lib/models/project";
+import { UserModel } from "@/lib/models/user";
+import { escapeHtml, getSiteUrl, sendEmail } from "@/lib/server/email";
+import type {
+  AdminNotificationEvent,
+  AdminNotificationPreferences
+} from "@/lib/types/admin";
+
+export const NOTIFICATION_EVENTS: AdminNotificationEvent[] = [
+  "published",
+  "unpublished",
+  "deleted",
+  "reviewRequested",
+  "mentioned"
+];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: AdminNotificationPreferences = {
+  published: true,
+  unpublished: true,
+  deleted: true,
+  reviewRequested: true,
+  mentioned: true
+};
+
+export type ProjectNotification = {
+  event: Exclude<AdminNotificationEvent, "mentioned">;
+  projectId: Types.ObjectId;
+  actorId: Types.ObjectId;
+  summary?: string;
+};
+
+type RecipientLike = {
+  _id: Types.ObjectId;
+  email: string;
+  fullName: string;
+};
+
+type ProjectSummary = {
+  _id: Types.ObjectId;
+  title: string;
+  slug: string;
+};
+
+const EXCERPT_MAX_LENGTH = 280;
+
+const REVIEWER_ROLES = ADMIN_ROLES.filter((role) =>
+  hasPermission(role, "projects:publish")
+);
+
+const toPreferences = (
+  stored?: Partial<AdminNotificationPreferences> | null
+): AdminNotificationPreferences =>
+  NOTIFICATION_EVENTS.reduce((preferences, event) => {
+    preferences[event] =
+      typeof stored?.[event] === "boolean"
+        ? Boolean(stored[event])
+        : DEFAULT_NOTIFICATION_PREFERENCES[event];
+    return preferences;
+  }, {} as AdminNotificationPreferences);
+
+export const fetchNotificationPreferences = async (userId: string) => {
+  await connectToDatabase();
+  const doc = Types.ObjectId.isValid(userId)
+    ? ((await UserModel.findById(userId, { notificationPreferences: 1 })
+        .lean()
+        .exec()) as unknown as {
+        notificationPreferences?: Partial<AdminNotificationPreferences>;
+      } | null)
+    : null;
+  return doc ? toPreferences(doc.notificationPreferences) : null;
+};
+
+/** Unknown keys and non-boolean values are ignored. */
+export const updateNotificationPreferences = async (
+  userId: string,
+  payload: Partial<AdminNotificationPreferences>
+) => {
+  const set: Record<string, boolean> = {};
+  NOTIFICATION_EVENTS.forEach((event) => {
+    if (typeof payload[event] === "boolean") {
+      set[`notificationPreferences.${event}`] = payload[event] as boolean;
+    }
+  });
+  await connectToDatabase();
+  if (!Types.ObjectId.isValid(userId)) {
+    return null;
+  }
+  const doc = (await UserModel.findByIdAndUpdate(
+    userId,
+    { $set: set },
+    { new: true, projection: { notificationPreferences: 1 } }
+  )
+    .lean()
+    .exec()) as unknown as {
+    notificationPreferences?: Partial<AdminNotificationPreferences>;
+  } | null;
+  return doc ? toPreferences(doc.notificationPreferences) : null;
+};
+
+// Missing preferences count as enabled, so users created before the field
+// existed still hear about events.
+const findRecipients = async (
+  event: AdminNotificationEvent,
+  filter: Record<string, unknown>
+) =>
+  (await UserModel.find(
+    {
+      ...filter,
+      status: "active",
+      [`notificationPreferences.${event}`]: { $ne: false }
+    },
+    { email: 1, fullName: 1 }
+  )
+    .lean()
+    .exec()) as unknown as RecipientLike[];
+
+const findActorName = async (actorId: Types.ObjectId) => {
+  const actor = (await UserModel.findById(actorId, { fullName: 1 })
+    .lean()
+    .exec()) as unknown as { fullName: string } | null;
+  return actor?.fullName ?? "System";
+};
+
+const findProjectSummary = async (projectId: Types.ObjectId | string) =>
+  (await ProjectModel.findById(projectId, { title: 1, slug: 1 })
+    .lean()
+    .exec()) as unknown as ProjectSummary | null;
+
+const truncate = (value: string) =>
+  value.length > EXCERPT_MAX_LENGTH
+    ? `${value.slice(0, EXCERPT_MAX_LENGTH - 1)}…`
+    : value;
+
+const buildProjectEmail = (
+  notification: ProjectNotification,
+  project: ProjectSummary,
+  actorName: string
+) => {
+  const siteUrl = getSiteUrl();
+  const adminUrl = `${siteUrl}/admin/projects`;
+  const publicUrl = `${siteUrl}/projects/${project.slug}`;
+  const title = project.title || "Untitled project";
+
+  const content: Record<
+    ProjectNotification["event"],
+    { subject: string; line: string; url: string }
+  > = {
+    published: {
+      subject: `Published: ${title}`,
+      line: `${actorName} published ${title}.`,
+      url: publicUrl
+    },
+    unpublished: {
+      subject: `Unpublished: ${title}`,
+      line: `${actorName} took ${title} offline.`,
+      url: adminUrl
+    },
+    deleted: {
+      subject: `Deleted: ${title}`,
+      line: `${actorName} moved ${title} to the trash.`,
+      url: `${siteUrl}/admin/trash`
+    },
+    reviewRequested: {
+      subject: `Review requested: ${title}`,
+      line: `${actorName} asked for ${title} to be reviewed before publishing.`,
+      url: adminUrl
+    }
+  };
+  const { subject, line, url } = content[notification.event];
+  const note = notification.summary ? truncate(notification.summary) : "";
+
+  return {
+    subject,
+    text: [line, note ? `"${note}"` : "", url].filter(Boolean).join("\n\n"),
+    html: [
+      `<p>${escapeHtml(line)}</p>`,
+      note ? `<blockquote>${escapeHtml(note)}</blockquote>` : "",
+      `<p><a href="${url}">${url}</a></p>`
+    ].join("")
+  };
+};
+
+const deliver = async (
+  recipients: RecipientLike[],
+  message: { subject: string; text: string; html: string }
+) => {
+  const results = await Promise.allSettled(
+    recipients.map((recipient) => sendEmail({ to: recipient.email, ...message }))
+  );
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(
+        `[notifications] Failed to email ${recipients[index].email}`,
+        result.reason
+      );
+    }
+  });
+};
+
+/**
+ * Emails everyone who opted in to the given project events. The actor is
+ * never notified about their own change. Review requests only go to users who
+ * can publish. Failures are logged; they never fail the change itself.
+ */
+export const sendProjectNotifications = async (
+  notifications: ProjectNotification[]
+) => {
+  for (const notification of notifications) {
+    try {
+      const project = await findProjectSummary(notification.projectId);
+      if (!project) {
+        continue;
+      }
+      const recipients = await findRecipients(notification.event, {
+        _id: { $ne: notification.actorId },
+        ...(notification.event === "reviewRequested"
+          ? { role: { $in: REVIEWER_ROLES } }
+          : {})
+      });
+      if (!recipients.length) {
+        continue;
+      }
+      const actorName = await findActorName(notification.actorId);
+      await deliver(
+        recipients,
+        buildProjectEmail(notification, project, actorName)
+      );
+    } catch (error) {
+      console.error(
+        `[notifications] Failed to send ${notification.event} notification`,
+        error
+      );
+    }
+  }
+};
+
+/** Emails users newly mentioned in a comment who opted in to mentions. */
+export const sendMentionNotifications = async ({
+  projectId,
+  actorId,
+  userIds,
+  body
+}: {
+  projectId: string;
+  actorId: string;
+  userIds: string[];
+  body: string;
+}) => {
+  if (!userIds.length) {
+    return;
+  }
+  try {
+    await connectToDatabase();
+    const project = await findProjectSummary(projectId);
+    if (!project) {
+      return;
+    }
+    const recipients = await findRecipients("mentioned", {
+      _id: { $in: userIds.map((id) => new Types.ObjectId(id)) }
+    });
+    if (!recipients.length) {
+      return;
+    }
+    const actorName = Types.ObjectId.isValid(actorId)
+      ? await findActorName(new Types.ObjectId(actorId))
+      : "Someone";
+    const title = project.title || "Untitled project";
+    const url = `${getSiteUrl()}/admin/projects`;
+    const excerpt = truncate(body);
+    await deliver(recipients, {
+      subject: `${actorName} mentioned you on ${title}`,
+      text: [`${actorName} mentioned you on ${title}:`, `"${excerpt}"`, url].join(
+        "\n\n"
+      ),
+      html: [
+        `<p>${escapeHtml(actorName)} mentioned you on <strong>${escapeHtml(title)}</strong>:</p>`,
+        `<blockquote>${escapeHtml(excerpt)}</blockquote>`,
+        `<p><a href="${url}">${url}</a></p>`
+      ].join("")
+    });
+  } catch (error) {
+    console.error("[notifications] Failed to send mention notification", error);
+  }
+};
@@ -0,0 +1,179 @@
+import { createHash, randomBytes } from "crypto";
+import { Types } from "mongoose";
+
+import { connectToDatabase } from "@/lib/db/connection";
+import { PreviewTokenModel } from "@/lib/models/previewToken";
+import { ProjectModel } from "@/lib/models/project";
+import { UserModel } from "@/lib/models/user";
+import type {
+  AdminPreviewLink,
+  AdminPreviewLinkCreated,
+  AdminPreviewLinkPayload
+} from "@/lib/types/admin";
+
+export const PREVIEW_TOKEN_COOKIE = "mor_preview_token";
+
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class PreviewLinkValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreviewLinkValidationError";
+  }
+}
+
+type PreviewTokenLike = {
+  _id: Types.ObjectId;
+  label?: string | null;
+  createdBy?: Types.ObjectId | null;
+  createdAt: Date;
+  expiresAt: Date;
+  lastUsedAt?: Date | null;
+};
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+const toPreviewLink = (
+  doc: PreviewTokenLike,
+  userNames: Map<string, string>
+): AdminPreviewLink => ({
+  id: doc._id.toString(),
+  label: doc.label ?? undefined,
+  createdBy: doc.createdBy ? userNames.get(doc.createdBy.toString()) : undefined,
+  createdAt: new Date(doc.createdAt).toISOString(),
+  expiresAt: new Date(doc.expiresAt).toISOString(),
+  lastUsedAt: doc.lastUsedAt ? new Date(doc.lastUsedAt).toISOString() : undefined
+});
+
+const loadUserNames = async (ids: Types.ObjectId[]) => {
+  const names = new Map<string, string>();
+  if (!ids.length) {
+    return names;
+  }
+  const users = await UserModel.find({ _id: { $in: ids } }, { fullName: 1 })
+    .lean()
+    .exec();
+  users.forEach((user) =>
+    names.set((user._id as Types.ObjectId).toString(), user.fullName)
+  );
+  return names;
+};
+
+const projectExists = async (projectId: string) =>
+  Types.ObjectId.isValid(projectId) &&
+  Boolean(await ProjectModel.exists({ _id: projectId, deletedAt: null }));
+
+export const fetchPreviewLinks = async (projectId: string) => {
+  await connectToDatabase();
+  if (!(await projectExists(projectId))) {
+    return null;
+  }
+  const docs = (await PreviewTokenModel.find({
+    projectId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  })
+    .sort({ createdAt: -1 })
+    .lean()
+    .exec()) as unknown as PreviewTokenLike[];
+  const userNames = await loadUserNames(
+    docs
+      .map((doc) => doc.createdBy)
+      .filter((id): id is Types.ObjectId => Boolean(id))
+  );
+  return docs.map((doc) => toPreviewLink(doc, userNames));
+};
+
+export const createPreviewLink = async (
+  projectId: string,
+  payload: AdminPreviewLinkPayload,
+  actor: { id: string; name: string }
+): Promise<AdminPreviewLinkCreated | null> => {
+  const expiresInDays = payload.expiresInDays ?? DEFAULT_EXPIRY_DAYS;
+  if (
+    !Number.isInteger(expiresInDays) ||
+    expiresInDays < 1 ||
+    expiresInDays > MAX_EXPIRY_DAYS
+  ) {
+    throw new PreviewLinkValidationError(
+      `Links can expire after 1 to ${MAX_EXPIRY_DAYS} days`
+    );
+  }
+  const label = payload.label?.trim() || undefined;
+  if (label && label.length > 120) {
+    throw new PreviewLinkValidationError("Label max length is 120 characters");
+  }
+
+  await connectToDatabase();
+  if (!(await projectExists(projectId))) {
+    return null;
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const doc = await PreviewTokenModel.create({
+    projectId,
+    tokenHash: hashToken(token),
+    label,
+    createdBy: Types.ObjectId.isValid(actor.id)
+      ? new Types.ObjectId(actor.id)
+      : undefined,
+    expiresAt: new Date(Date.now() + expiresInDays * DAY_MS)
+  });
+
+  const userNames = new Map([[actor.id, actor.name]]);
+  return {
+    ...toPreviewLink(doc as unknown as PreviewTokenLike, userNames),
+    path: `/api/preview?token=${token}`
+  };
+};
+
+export const revokePreviewLink = async (projectId: string, linkId: string) => {
+  if (!Types.ObjectId.isValid(linkId)) {
+    return false;
+  }
+  await connectToDatabase();
+  const result = await PreviewTokenModel.updateOne(
+    { _id: linkId, projectId, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Resolves a raw preview token to the project it unlocks, or null when the
+ * token is unknown, revoked, expired or its project was deleted.
+ */
+export const resolvePreviewToken = async (token?: string | null) => {
+  if (!token) {
+    return null;
+  }
+  await connectToDatabase();
+  const now = new Date();
+  const doc = (await PreviewTokenModel.findOneAndUpdate(
+    { tokenHash: hashToken(token), revokedAt: null, expiresAt: { $gt: now } },
+    { $set: { lastUsedAt: now } },
+    { new: true }
+  )
+    .lean()
+    .exec()) as unknown as { projectId: Types.ObjectId; expiresAt: Date } | null;
+  if (!doc) {
+    return null;
+  }
+  const project = (await ProjectModel.findOne(
+    { _id: doc.projectId, deletedAt: null },
+    { slug: 1 }
+  )
+    .lean()
+    .exec()) as unknown as { _id: Types.ObjectId; slug: string } | null;
+  if (!project) {
+    return null;
+  }
+  return {
+    projectId: project._id.toString(),
+    slug: project.slug,
+    expiresAt: new Date(doc.expiresAt)
+  };
+};
@@ -0,0 +1,366 @@
+import { Types } from "mongoose";
+
+import { connectToDatabase } from "@/lib/db/connection";
+import { ProjectModel } from "@/lib/models/project";
+import { ProjectCommentModel } from "@/lib/models/projectComment";
+import { UserModel } from "@/lib/models/user";
+import { fetchMentionableUsers } from "@/lib/server/admin/userService";
+import type {
+  AdminCommentAnchor,
+  AdminCommentAnchorKind,
+  AdminCommentAuthor,
+  AdminProjectComment,
+  AdminProjectCommentPayload,
+  AdminProjectCommentThread
+} from "@/lib/types/admin";
+
+const COMMENT_MAX_LENGTH = 2000;
+const ANCHOR_KINDS: AdminCommentAnchorKind[] = [
+  "project",
+  "description",
+  "meta",
+  "gallery"
+];
+const ANCHOR_FIELDS: Record<Exclude<AdminCommentAnchorKind, "project">, string> = {
+  description: "descriptionBlocks",
+  meta: "meta",
+  gallery: "gallery"
+};
+const MENTION_PATTERN = /(^|[^\w@])@([a-z0-9][a-z0-9._+-]*)/gi;
+
+class CommentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommentValidationError";
+  }
+}
+
+class CommentForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommentForbiddenError";
+  }
+}
+
+type CommentLike = {
+  _id: Types.ObjectId;
+  projectId: Types.ObjectId;
+  parentId?: Types.ObjectId | null;
+  anchor: { kind: AdminCommentAnchorKind; itemId?: Types.ObjectId | null };
+  body: string;
+  authorId: Types.ObjectId;
+  mentions?: Types.ObjectId[];
+  editedAt?: Date | null;
+  resolvedAt?: Date | null;
+  resolvedBy?: Types.ObjectId | null;
+  createdAt: Date;
+};
+
+type CommentActor = {
+  id: string;
+  /** Admins may delete anyone's comment, not just their own. */
+  canModerate: boolean;
+};
+
+const toIsoString = (value?: Date | null) =>
+  value ? new Date(value).toISOString() : undefined;
+
+const normalizeBody = (body: unknown) => {
+  const trimmed = typeof body === "string" ? body.trim() : "";
+  if (!trimmed) {
+    throw new CommentValidationError("Comment cannot be empty");
+  }
+  if (trimmed.length > COMMENT_MAX_LENGTH) {
+    throw new CommentValidationError(
+      `Comment max length is ${COMMENT_MAX_LENGTH} characters`
+    );
+  }
+  return trimmed;
+};
+
+// Trailing dots belong to the sentence ("thanks @jane."), not the handle.
+export const extractMentionHandles = (body: string) =>
+  Array.from(body.matchAll(MENTION_PATTERN), (match) =>
+    match[2].replace(/\.+$/, "").toLowerCase()
+  );
+
+const resolveMentions = async (body: string, authorId: string) => {
+  const handles = new Set(extractMentionHandles(body));
+  if (!handles.size) {
+    return [];
+  }
+  const users = await fetchMentionableUsers();
+  return users
+    .filter((user) => handles.has(user.handle) && user.id !== authorId)
+    .map((user) => new Types.ObjectId(user.id));
+};
+
+const loadNames = async (ids: Types.ObjectId[]) => {
+  const names = new Map<string, string>();
+  if (!ids.length) {
+    return names;
+  }
+  const users = await UserModel.find(
+    { _id: { $in: ids } },
+    { fullName: 1 }
+  )
+    .lean()
+    .exec();
+  users.forEach((user) =>
+    names.set((user._id as Types.ObjectId).toString(), user.fullName)
+  );
+  return names;
+};
+
+const toAuthor = (
+  id: Types.ObjectId | null | undefined,
+  names: Map<string, string>
+): AdminCommentAuthor | null => {
+  if (!id) {
+    return null;
+  }
+  const key = id.toString();
+  return { id: key, name: names.get(key) ?? "Removed user" };
+};
+
+const toComment = (
+  doc: CommentLike,
+  names: Map<string, string>
+): AdminProjectComment => ({
+  id: doc._id.toString(),
+  body: doc.body,
+  author: toAuthor(doc.authorId, names),
+  mentions: (doc.mentions ?? [])
+    .map((id) => toAuthor(id, names))
+    .filter((value): value is AdminCommentAuthor => Boolean(value)),
+  createdAt: new Date(doc.createdAt).toISOString(),
+  editedAt: toIsoString(doc.editedAt)
+});
+
+const buildThreads = async (docs: CommentLike[]) => {
+  const names = await loadNames(
+    docs.flatMap((doc) => [
+      doc.authorId,
+      ...(doc.mentions ?? []),
+      ...(doc.resolvedBy ? [doc.resolvedBy] : [])
+    ])
+  );
+  const replies = new Map<string, AdminProjectComment[]>();
+  docs
+    .filter((doc) => doc.parentId)
+    .forEach((doc) => {
+      const key = doc.parentId!.toString();
+      replies.set(key, [...(replies.get(key) ?? []), toComment(doc, names)]);
+    });
+  return docs
+    .filter((doc) => !doc.parentId)
+    .map<AdminProjectCommentThread>((doc) => ({
+      ...toComment(doc, names),
+      anchor: {
+        kind: doc.anchor.kind,
+        itemId: doc.anchor.itemId ? doc.anchor.itemId.toString() : undefined
+      },
+      resolvedAt: toIsoString(doc.resolvedAt),
+      resolvedBy: doc.resolvedBy
+        ? names.get(doc.resolvedBy.toString()) ?? "Removed user"
+        : undefined,
+      replies: replies.get(doc._id.toString()) ?? []
+    }));
+};
+
+const findProject = (projectId: string) =>
+  Types.ObjectId.isValid(projectId)
+    ? ProjectModel.findOne({ _id: projectId, deletedAt: null }).lean().exec()
+    : null;
+
+const validateAnchor = async (
+  projectId: string,
+  anchor?: AdminCommentAnchor
+): Promise<CommentLike["anchor"]> => {
+  if (!anchor || anchor.kind === "project") {
+    return { kind: "project" };
+  }
+  if (!ANCHOR_KINDS.includes(anchor.kind)) {
+    throw new CommentValidationError("Unknown comment anchor");
+  }
+  if (!anchor.itemId || !Types.ObjectId.isValid(anchor.itemId)) {
+    throw new CommentValidationError("Save the project before commenting on this item");
+  }
+  const field = ANCHOR_FIELDS[anchor.kind];
+  const exists = await ProjectModel.exists({
+    _id: projectId,
+    [`${field}._id`]: new Types.ObjectId(anchor.itemId)
+  });
+  if (!exists) {
+    throw new CommentValidationError("The commented item no longer exists");
+  }
+  return { kind: anchor.kind, itemId: new Types.ObjectId(anchor.itemId) };
+};
+
+export const fetchProjectComments = async (projectId: string) => {
+  await connectToDatabase();
+  if (!(await findProject(projectId))) {
+    return null;
+  }
+  const docs = (await ProjectCommentModel.find({ projectId })
+    .sort({ createdAt: 1 })
+    .lean()
+    .exec()) as unknown as CommentLike[];
+  return buildThreads(docs);
+};
+
+const fetchThread = async (rootId: Types.ObjectId) => {
+  const docs = (await ProjectCommentModel.find({
+    $or: [{ _id: rootId }, { parentId: rootId }]
+  })
+    .sort({ createdAt: 1 })
+    .lean()
+    .exec()) as unknown as CommentLike[];
+  const [thread] = await buildThreads(docs);
+  return thread ?? null;
+};
+
+/**
+ * Returns the updated thread plus the users newly mentioned by this write so
+ * callers can notify them.
+ */
+export const createProjectComment = async (
+  projectId: string,
+  payload: AdminProjectCommentPayload,
+  actor: CommentActor
+) => {
+  const body = normalizeBody(payload.body);
+  await connectToDatabase();
+  if (!(await findProject(projectId))) {
+    return null;
+  }
+
+  let parent: CommentLike | null = null;
+  if (payload.parentId) {
+    parent = Types.ObjectId.isValid(payload.parentId)
+      ? ((await ProjectCommentModel.findOne({
+          _id: payload.parentId,
+          projectId
+        })
+          .lean()
+          .exec()) as unknown as CommentLike | null)
+      : null;
+    if (!parent) {
+      throw new CommentValidationError("Thread not found");
+    }
+  }
+
+  const rootId = parent ? parent.parentId ?? parent._id : null;
+  const anchor = parent ? parent.anchor : await validateAnchor(projectId, payload.anchor);
+  const mentions = await resolveMentions(body, actor.id);
+
+  const doc = await ProjectCommentModel.create({
+    projectId,
+    parentId: rootId ?? undefined,
+    anchor,
+    body,
+    authorId: new Types.ObjectId(actor.id),
+    mentions
+  });
+
+  // Replying to a resolved thread reopens it.
+  if (rootId) {
+    await ProjectCommentModel.updateOne(
+      { _id: rootId, resolvedAt: { $ne: null } },
+      { $unset: { resolvedAt: 1, resolvedBy: 1 } }
+    );
+  }
+
+  return {
+    thread: await fetchThread(rootId ?? doc._id),
+    mentionedUserIds: mentions.map((id) => id.toString())
+  };
+};
+
+const findComment = async (projectId: string, commentId: string) =>
+  Types.ObjectId.isValid(commentId)
+    ? ((await ProjectCommentModel.findOne({ _id: commentId, projectId })
+        .lean()
+        .exec()) as unknown as CommentLike | null)
+    : null;
+
+export const updateProjectComment = async (
+  projectId: string,
+  commentId: string,
+  payload: { body?: string; resolved?: boolean },
+  actor: CommentActor
+) => {
+  await connectToDatabase();
+  const comment = await findComment(projectId, commentId);
+  if (!comment) {
+    return null;
+  }
+
+  const set: Record<string, unknown> = {};
+  const unset: Record<string, 1> = {};
+  let newMentions: string[] = [];
+
+  if (payload.body !== undefined) {
+    if (comment.authorId.toString() !== actor.id) {
+      throw new CommentForbiddenError("Only the author can edit a comment");
+    }
+    const body = normalizeBody(payload.body);
+    const mentions = await resolveMentions(body, actor.id);
+    const previous = new Set((comment.mentions ?? []).map((id) => id.toString()));
+    newMentions = mentions
+      .map((id) => id.toString())
+      .filter((id) => !previous.has(id));
+    set.body = body;
+    set.mentions = mentions;
+    set.editedAt = new Date();
+  }
+
+  if (payload.resolved !== undefined) {
+    if (comment.parentId) {
+      throw new CommentValidationError("Only threads can be resolved");
+    }
+    if (payload.resolved) {
+      set.resolvedAt = new Date();
+      set.resolvedBy = new Types.ObjectId(actor.id);
+    } else {
+      unset.resolvedAt = 1;
+      unset.resolvedBy = 1;
+    }
+  }
+
+  const update: Record<string, unknown> = {};
+  if (Object.keys(set).length) update.$set = set;
+  if (Object.keys(unset).length) update.$unset = unset;
+  if (!Object.keys(update).length) {
+    throw new CommentValidationError("Nothing to update");
+  }
+  await ProjectCommentModel.updateOne({ _id: comment._id }, update);
+
+  return {
+    thread: await fetchThread(comment.parentId ?? comment._id),
+    mentionedUserIds: newMentions
+  };
+};
+
+/** Deleting the first comment of a thread removes its replies too. */
+export const deleteProjectComment = async (
+  projectId: string,
+  commentId: string,
+  actor: CommentActor
+) => {
+  await connectToDatabase();
+  const comment = await findComment(projectId, commentId);
+  if (!comment) {
+    return null;
+  }
+  if (comment.authorId.toString() !== actor.id && !actor.canModerate) {
+    throw new CommentForbiddenError("Only the author or an admin can delete a comment");
+  }
+  await ProjectCommentModel.deleteMany({
+    $or: [{ _id: comment._id }, { parentId: comment._id }]
+  });
+  return {
+    id: comment._id.toString(),
+    thread: comment.parentId ? await fetchThread(comment.parentId) : null
+  };
+};
@@ -0,0 +1,462 @@
+import { Types } from "mongoose";
+
+import { connectToDatabase } from "@/lib/db/connection";
+import { ProjectModel } from "@/lib/models/project";
+import { ProjectVersionModel } from "@/lib/models/projectVersion";
+import { PublishedProjectModel } from "@/lib/models/publishedProject";
+import { resolveMediaUrl } from "@/lib/server/mediaService";
+import type {
+  AdminProjectDiff,
+  AdminProjectDiffRef,
+  AdminProjectDiffSide,
+  AdminProjectFormPayload,
+  AdminProjectListChange,
+  AdminProjectListField,
+  AdminProjectScalarChange,
+  AdminProjectScalarField
+} from "@/lib/types/admin";
+
+type StoredProjectShape = {
+  slug?: string;
+  title?: string;
+  categoryLabel?: string;
+  location?: string;
+  yearDisplay?: string;
+  excerpt?: string;
+  hero?: { src?: string | null; caption?: string | null } | null;
+  seo?: {
+    metaTitle?: string | null;
+    metaDescription?: string | null;
+  } | null;
+  descriptionBlocks?: Array<{ body: string; order?: number }> | null;
+  meta?: Array<{ label: string; value: string; order?: number }> | null;
+  services?: Array<{ label: string; order?: number }> | null;
+  collaborators?: Array<{ label: string; order?: number }> | null;
+  gallery?: Array<{
+    assetId?: Types.ObjectId | string | null;
+    src?: string | null;
+    caption?: string | null;
+    order?: number;
+  }> | null;
+};
+
+// identity decides which entries are "the same" across both sides, content
+// decides whether a matched entry was edited.
+export type ComparableEntry = {
+  identity: string;
+  content: string;
+  label: string;
+  image?: string;
+};
+
+type ComparableProject = {
+  scalars: Record<AdminProjectScalarField, string>;
+  lists: Record<AdminProjectListField, ComparableEntry[]>;
+};
+
+const SCALAR_FIELDS: AdminProjectScalarField[] = [
+  "title",
+  "slug",
+  "categoryLabel",
+  "location",
+  "yearDisplay",
+  "excerpt",
+  "heroImage",
+  "heroCaption",
+  "metaTitle",
+  "metaDescription"
+];
+
+const LIST_FIELDS: AdminProjectListField[] = [
+  "descriptionBlocks",
+  "meta",
+  "services",
+  "collaborators",
+  "gallery"
+];
+
+// Gallery entries keep their identity through the asset, so a swapped image is
+// reported as removed + added rather than as an edit.
+const PAIRABLE_LIST_FIELDS = new Set<AdminProjectListField>([
+  "descriptionBlocks",
+  "meta",
+  "services",
+  "collaborators"
+]);
+
+const sortByOrder = <T extends { order?: number }>(
+  items?: Iterable<T> | null
+) => {
+  if (!items) {
+    return [];
+  }
+  return Array.from(items).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+};
+
+const textEntry = (value: string): ComparableEntry => ({
+  identity: value,
+  content: value,
+  label: value
+});
+
+const metaEntry = (label: string, value: string): ComparableEntry => ({
+  identity: label.toLowerCase(),
+  content: `${label}: ${value}`,
+  label: `${label}: ${value}`
+});
+
+const galleryEntry = (
+  assetId: string | undefined,
+  src: string,
+  caption: string
+): ComparableEntry => {
+  const image = resolveMediaUrl(src);
+  return {
+    identity: assetId || image,
+    content: caption,
+    label: caption || "Untitled image",
+    image
+  };
+};
+
+const emptyComparable = (): ComparableProject => ({
+  scalars: {
+    title: "",
+    slug: "",
+    categoryLabel: "",
+    location: "",
+    yearDisplay: "",
+    excerpt: "",
+    heroImage: "",
+    heroCaption: "",
+    metaTitle: "",
+    metaDescription: ""
+  },
+  lists: {
+    descriptionBlocks: [],
+    meta: [],
+    services: [],
+    collaborators: [],
+    gallery: []
+  }
+});
+
+const comparableFromStored = (doc: StoredProjectShape): ComparableProject => ({
+  scalars: {
+    title: doc.title ?? "",
+    slug: doc.slug ?? "",
+    categoryLabel: doc.categoryLabel ?? "",
+    location: doc.location ?? "",
+    yearDisplay: doc.yearDisplay ?? "",
+    excerpt: doc.excerpt ?? "",
+    heroImage: resolveMediaUrl(doc.hero?.src ?? ""),
+    heroCaption: doc.hero?.caption ?? "",
+    metaTitle: doc.seo?.metaTitle ?? "",
+    metaDescription: doc.seo?.metaDescription ?? ""
+  },
+  lists: {
+    descriptionBlocks: sortByOrder(doc.descriptionBlocks).map((block) =>
+      textEntry(block.body)
+    ),
+    meta: sortByOrder(doc.meta).map((item) => metaEntry(item.label, item.value)),
+    services: sortByOrder(doc.services).map((item) => textEntry(item.label)),
+    collaborators: sortByOrder(doc.collaborators).map((item) =>
+      textEntry(item.label)
+    ),
+    gallery: sortByOrder(doc.gallery).map((item) =>
+      galleryEntry(
+        item.assetId ? item.assetId.toString() : undefined,
+        item.src ?? "",
+        item.caption ?? ""
+      )
+    )
+  }
+});
+
+// Mirrors the trimming in buildContentFromPayload so an untouched form compares
+// equal to the stored draft.
+const comparableFromPayload = (
+  payload: AdminProjectFormPayload
+): ComparableProject => ({
+  scalars: {
+    title: payload.title?.trim() ?? "",
+    slug: payload.slug?.trim() ?? "",
+    categoryLabel: payload.category?.trim() ?? "",
+    location: payload.location?.trim() ?? "",
+    yearDisplay: payload.year?.trim() ?? "",
+    excerpt: payload.excerpt?.trim() ?? "",
+    heroImage: resolveMediaUrl(payload.heroImage?.trim() ?? ""),
+    heroCaption: payload.heroCaption?.trim() ?? "",
+    metaTitle: payload.seo?.metaTitle?.trim() ?? "",
+    metaDescription: payload.seo?.metaDescription?.trim() ?? ""
+  },
+  lists: {
+    descriptionBlocks: (payload.description ?? [])
+      .map((body) => body.trim())
+      .filter(Boolean)
+      .map(textEntry),
+    meta: (payload.meta ?? [])
+      .map((item) => ({ label: item.label.trim(), value: item.value.trim() }))
+      .filter((item) => item.label && item.value)
+      .map((item) => metaEntry(item.label, item.value)),
+    services: (payload.services ?? [])
+      .map((label) => label.trim())
+      .filter(Boolean)
+      .map(textEntry),
+    collaborators: (payload.collaborators ?? [])
+      .map((label) => label.trim())
+      .filter(Boolean)
+      .map(textEntry),
+    gallery: (payload.gallery ?? [])
+      .filter((item) => item.assetId || item.src?.trim())
+      .map((item) =>
+        galleryEntry(item.assetId, (item.src ?? "").trim(), (item.caption ?? "").trim())
+      )
+  }
+});
+
+// Duplicate entries (two identical paragraphs, say) get an occurrence suffix so
+// each one can be matched independently.
+const withOccurrences = (entries: ComparableEntry[]) => {
+  const counts = new Map<string, number>();
+  return entries.map((entry) => {
+    const count = counts.get(entry.identity) ?? 0;
+    counts.set(entry.identity, count + 1);
+    return { ...entry, identity: `${entry.identity}#${count}` };
+  });
+};
+
+// Indices (into `values`) of one longest increasing subsequence. Matched entries
+// outside it are the ones that moved.
+const longestIncreasingSubsequence = (values: number[]) => {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  let bestEnd = -1;
+
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (bestEnd === -1 || lengths[i] > lengths[bestEnd]) {
+      bestEnd = i;
+    }
+  }
+
+  const result = new Set<number>();
+  for (let cursor = bestEnd; cursor !== -1; cursor = previous[cursor]) {
+    result.add(cursor);
+  }
+  return result;
+};
+
+// Matches entries by identity, then reports edits, moves, removals and
+// additions in after-side order.
+export const diffList = (
+  beforeEntries: ComparableEntry[],
+  afterEntries: ComparableEntry[],
+  pairUnmatched: boolean
+): AdminProjectListChange[] => {
+  const before = withOccurrences(beforeEntries);
+  const after = withOccurrences(afterEntries);
+  const beforeIndex = new Map(before.map((entry, index) => [entry.identity, index]));
+
+  const matches: Array<{ from: number; to: number }> = [];
+  const matchedBefore = new Set<number>();
+  after.forEach((entry, to) => {
+    const from = beforeIndex.get(entry.identity);
+    if (from !== undefined) {
+      matches.push({ from, to });
+      matchedBefore.add(from);
+    }
+  });
+
+  const changes: AdminProjectListChange[] = [];
+
+  const stable = longestIncreasingSubsequence(matches.map((match) => match.from));
+  matches.forEach((match, index) => {
+    const previous = before[match.from];
+    const next = after[match.to];
+    if (previous.content !== next.content) {
+      changes.push({
+        type: "edited",
+        before: previous.label,
+        after: next.label,
+        fromIndex: match.from,
+        toIndex: match.to,
+        image: next.image
+      });
+    }
+    if (!stable.has(index)) {
+      changes.push({
+        type: "reordered",
+        after: next.label,
+        fromIndex: match.from,
+        toIndex: match.to,
+        image: next.image
+      });
+    }
+  });
+
+  const matchedAfter = new Set(matches.map((match) => match.to));
+  const removed = before
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ index }) => !matchedBefore.has(index));
+  const added = after
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ index }) => !matchedAfter.has(index));
+
+  // An unmatched removal and addition in the same slot is almost always the
+  // same entry rewritten in place.
+  const addedBySlot = new Map(added.map((item) => [item.index, item]));
+  removed.forEach(({ entry, index }) => {
+    const replacement = pairUnmatched ? addedBySlot.get(index) : undefined;
+    if (replacement) {
+      addedBySlot.delete(index);
+      changes.push({
+        type: "edited",
+        before: entry.label,
+        after: replacement.entry.label,
+        fromIndex: index,
+        toIndex: index,
+        image: replacement.entry.image
+      });
+      return;
+    }
+    changes.push({
+      type: "removed",
+      before: entry.label,
+      fromIndex: index,
+      image: entry.image
+    });
+  });
+
+  addedBySlot.forEach(({ entry, index }) => {
+    changes.push({
+      type: "added",
+      after: entry.label,
+      toIndex: index,
+      image: entry.image
+    });
+  });
+
+  const position = (change: AdminProjectListChange) =>
+    change.toIndex ?? change.fromIndex ?? 0;
+  return changes.sort((a, b) => position(a) - position(b));
+};
+
+const diffComparables = (
+  before: ComparableProject,
+  after: ComparableProject
+) => {
+  const scalars: AdminProjectScalarChange[] = SCALAR_FIELDS.filter(
+    (field) => before.scalars[field] !== after.scalars[field]
+  ).map((field) => ({
+    field,
+    before: before.scalars[field],
+    after: after.scalars[field]
+  }));
+
+  const lists = LIST_FIELDS.reduce(
+    (acc, field) => {
+      acc[field] = diffList(
+        before.lists[field],
+        after.lists[field],
+        PAIRABLE_LIST_FIELDS.has(field)
+      );
+      return acc;
+    },
+    {} as AdminProjectDiff["lists"]
+  );
+
+  const hasChanges =
+    scalars.length > 0 || LIST_FIELDS.some((field) => lists[field].length > 0);
+
+  return { scalars, lists, hasChanges };
+};
+
+const loadComparable = async (
+  projectId: string,
+  ref: AdminProjectDiffRef
+): Promise<{ side: AdminProjectDiffSide; project: ComparableProject } | null> => {
+  if (ref === "draft") {
+    const doc = (await ProjectModel.findOne({ _id: projectId, deletedAt: null })
+      .lean()
+      .exec()) as unknown as StoredProjectShape | null;
+    if (!doc) {
+      return null;
+    }
+    return { side: { ref, exists: true }, project: comparableFromStored(doc) };
+  }
+
+  if (ref === "published") {
+    const doc = (await PublishedProjectModel.findOne({
+      projectId: new Types.ObjectId(projectId)
+    })
+      .lean()
+      .exec()) as unknown as StoredProjectShape | null;
+    return {
+      side: { ref, exists: Boolean(doc) },
+      project: doc ? comparableFromStored(doc) : emptyComparable()
+    };
+  }
+
+  const snapshot = (await ProjectVersionModel.findOne({
+    projectId,
+    version: ref
+  })
+    .lean()
+    .exec()) as unknown as { payload: StoredProjectShape } | null;
+  if (!snapshot) {
+    return null;
+  }
+  return {
+    side: { ref, exists: true },
+    project: comparableFromStored(snapshot.payload ?? {})
+  };
+};
+
+export const diffAdminProject = async (
+  projectId: string,
+  from: AdminProjectDiffRef,
+  to: AdminProjectDiffRef
+): Promise<AdminProjectDiff | null> => {
+  if (!Types.ObjectId.isValid(projectId)) {
+    return null;
+  }
+  await connectToDatabase();
+  const [before, after] = await Promise.all([
+    loadComparable(projectId, from),
+    loadComparable(projectId, to)
+  ]);
+  if (!before || !after) {
+    return null;
+  }
+  return {
+    from: before.side,
+    to: after.side,
+    ...diffComparables(before.project, after.project)
+  };
+};
+
+export const diffAdminProjectPayload = async (
+  projectId: string,
+  from: AdminProjectDiffRef,
+  payload: AdminProjectFormPayload
+): Promise<AdminProjectDiff | null> => {
+  if (!Types.ObjectId.isValid(projectId)) {
+    return null;
+  }
+  await connectToDatabase();
+  const before = await loadComparable(projectId, from);
+  if (!before) {
+    return null;
+  }
+  return {
+    from: before.side,
+    to: { ref: "payload", exists: true },
+    ...diffComparables(before.project, comparableFromPayload(payload))
+  };
+};
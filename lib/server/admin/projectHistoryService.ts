@@ -0,0 +1,204 @@
+import { Types, type FilterQuery } from "mongoose";
+
+import { connectToDatabase } from "@/lib/db/connection";
+import { ProjectModel } from "@/lib/models/project";
+import {
+  ProjectHistoryModel,
+  type ProjectHistoryDocument
+} from "@/lib/models/projectHistory";
+import { ProjectVersionModel } from "@/lib/models/projectVersion";
+import { UserModel } from "@/lib/models/user";
+import { SYSTEM_USER_ID } from "@/lib/server/admin/projectService";
+import type {
+  AdminActivityEntry,
+  AdminActivityPage
+} from "@/lib/types/admin";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+type HistoryLike = {
+  _id: Types.ObjectId;
+  projectId: Types.ObjectId;
+  action: AdminActivityEntry["action"];
+  fromStatus?: AdminActivityEntry["fromStatus"] | null;
+  toStatus?: AdminActivityEntry["toStatus"] | null;
+  actorId?: Types.ObjectId | null;
+  snapshotVersion?: number | null;
+  summary?: string | null;
+  createdAt: Date;
+};
+
+type PageOptions = {
+  cursor?: string | null;
+  limit?: number | null;
+};
+
+// Cursors pair the timestamp with the id so entries written in the same
+// millisecond are neither skipped nor repeated between pages.
+const encodeCursor = (entry: HistoryLike) =>
+  `${new Date(entry.createdAt).getTime()}_${entry._id.toString()}`;
+
+const decodeCursor = (cursor?: string | null) => {
+  if (!cursor) {
+    return null;
+  }
+  const [time, id] = cursor.split("_");
+  const timestamp = Number(time);
+  if (!Number.isFinite(timestamp) || !id || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { createdAt: new Date(timestamp), id: new Types.ObjectId(id) };
+};
+
+export const parsePageSize = (value?: string | null) => {
+  const parsed = value ? Number.parseInt(value, 10) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(parsed, MAX_PAGE_SIZE);
+};
+
+const resolveActors = async (entries: HistoryLike[]) => {
+  const ids = Array.from(
+    new Set(
+      entries
+        .map((entry) => entry.actorId?.toString())
+        .filter((value): value is string => Boolean(value))
+    )
+  );
+  const users = ids.length
+    ? await UserModel.find(
+        { _id: { $in: ids.map((id) => new Types.ObjectId(id)) } },
+        { fullName: 1, email: 1 }
+      )
+        .lean()
+        .exec()
+    : [];
+  const byId = new Map(
+    users.map((user) => [
+      (user._id as Types.ObjectId).toString(),
+      { name: user.fullName as string, email: user.email as string }
+    ])
+  );
+
+  return (actorId?: Types.ObjectId | null): AdminActivityEntry["actor"] => {
+    if (!actorId) {
+      return null;
+    }
+    const id = actorId.toString();
+    if (id === SYSTEM_USER_ID.toString()) {
+      return { id, name: "System" };
+    }
+    const user = byId.get(id);
+    return user ? { id, ...user } : { id, name: "Removed user" };
+  };
+};
+
+const resolveProjectTitles = async (entries: HistoryLike[]) => {
+  const ids = Array.from(
+    new Set(entries.map((entry) => entry.projectId.toString()))
+  );
+  const projects = await ProjectModel.find(
+    { _id: { $in: ids.map((id) => new Types.ObjectId(id)) } },
+    { title: 1 }
+  )
+    .lean()
+    .exec();
+  return new Map(
+    projects.map((project) => [
+      (project._id as Types.ObjectId).toString(),
+      project.title as string
+    ])
+  );
+};
+
+const resolveAvailableVersions = async (entries: HistoryLike[]) => {
+  const refs = entries
+    .filter((entry) => typeof entry.snapshotVersion === "number")
+    .map((entry) => ({
+      projectId: entry.projectId,
+      version: entry.snapshotVersion as number
+    }));
+  if (!refs.length) {
+    return new Set<string>();
+  }
+  const versions = await ProjectVersionModel.find(
+    { $or: refs },
+    { projectId: 1, version: 1 }
+  )
+    .lean()
+    .exec();
+  return new Set(
+    versions.map((doc) => `${doc.projectId.toString()}:${doc.version}`)
+  );
+};
+
+const fetchHistoryPage = async (
+  filter: FilterQuery<ProjectHistoryDocument>,
+  { cursor, limit }: PageOptions
+): Promise<AdminActivityPage> => {
+  await connectToDatabase();
+  const pageSize = Math.min(limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const after = decodeCursor(cursor);
+  const query: FilterQuery<ProjectHistoryDocument> = after
+    ? {
+        ...filter,
+        $or: [
+          { createdAt: { $lt: after.createdAt } },
+          { createdAt: after.createdAt, _id: { $lt: after.id } }
+        ]
+      }
+    : filter;
+
+  const docs = (await ProjectHistoryModel.find(query)
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(pageSize + 1)
+    .lean()
+    .exec()) as unknown as HistoryLike[];
+
+  const page = docs.slice(0, pageSize);
+  const [actorFor, titles, versions] = await Promise.all([
+    resolveActors(page),
+    resolveProjectTitles(page),
+    resolveAvailableVersions(page)
+  ]);
+
+  const entries = page.map((entry) => {
+    const projectId = entry.projectId.toString();
+    return {
+      id: entry._id.toString(),
+      projectId,
+      projectTitle: titles.get(projectId) ?? "Unknown project",
+      action: entry.action,
+      fromStatus: entry.fromStatus ?? undefined,
+      toStatus: entry.toStatus ?? undefined,
+      summary: entry.summary ?? undefined,
+      snapshotVersion: entry.snapshotVersion ?? undefined,
+      versionAvailable: versions.has(`${projectId}:${entry.snapshotVersion}`),
+      actor: actorFor(entry.actorId),
+      createdAt: new Date(entry.createdAt).toISOString()
+    };
+  });
+
+  return {
+    entries,
+    nextCursor:
+      docs.length > pageSize && page.length
+        ? encodeCursor(page[page.length - 1])
+        : null
+  };
+};
+
+export const fetchProjectHistory = (projectId: string, options: PageOptions) => {
+  if (!Types.ObjectId.isValid(projectId)) {
+    return Promise.resolve<AdminActivityPage>({ entries: [], nextCursor: null });
+  }
+  return fetchHistoryPage(
+    { projectId: new Types.ObjectId(projectId) },
+    options
+  );
+};
+
+export const fetchAdminActivity = (options: PageOptions) =>
+  fetchHistoryPage({}, options);
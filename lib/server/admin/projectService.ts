@@ -10,17 +10,48 @@ import {
   type ProjectDocument,
   newObjectId
 } from "@/lib/models/project";
+import { ProjectCommentModel } from "@/lib/models/projectComment";
 import { ProjectHistoryModel } from "@/lib/models/projectHistory";
 import { ProjectVersionModel } from "@/lib/models/projectVersion";
 import { PublishedProjectModel } from "@/lib/models/publishedProject";
 import { ServiceModel } from "@/lib/models/service";
-import type { AdminProjectFormPayload, AdminProjectResponse } from "@/lib/types/admin";
-import { normalizeTitle, slugify, tokenize, uniqueStrings } from "@/lib/utils/text";
+import { UserModel } from "@/lib/models/user";
+import type {
+  AdminProjectFormPayload,
+  AdminProjectResponse,
+  AdminProjectSchedulePayload,
+  AdminProjectVersionSummary,
+  AdminTrashedProject
+} from "@/lib/types/admin";
+import {
+  normalizeTitle,
+  parseYearRange,
+  slugify,
+  tokenize,
+  uniqueStrings
+} from "@/lib/utils/text";
 import { deleteMediaAssetsByIds, resolveMediaUrl } from "@/lib/server/mediaService";
+import { revalidatePublishedProjects } from "@/lib/server/projectCache";
+import {
+  sendProjectNotifications,
+  type ProjectNotification
+} from "@/lib/server/admin/notificationService";
+import {
+  deliverWebhooks,
+  enqueueWebhookEvent
+} from "@/lib/server/admin/webhookService";
+import type { AdminWebhookEvent } from "@/lib/types/admin";
 
 type ProjectLike = ProjectDocument | (Project & { _id: Types.ObjectId });
 
-const SYSTEM_USER_ID = new Types.ObjectId("000000000000000000000000");
+export const SYSTEM_USER_ID = new Types.ObjectId("000000000000000000000000");
+
+// Writes without a signed-in user (migrations, scripts) fall back to the
+// system account so attribution fields are never left empty.
+const toActorId = (actorId?: string | null) =>
+  actorId && Types.ObjectId.isValid(actorId)
+    ? new Types.ObjectId(actorId)
+    : SYSTEM_USER_ID;
 const DEFAULT_HERO_IMAGE = "";
 
 const DEFAULT_GALLERY_IMAGES: Array<{ src: string; caption: string }> = [];
@@ -52,6 +83,18 @@ class ProjectValidationError extends Error {
   }
 }
 
+class ProjectConflictError extends Error {
+  current: AdminProjectResponse;
+
+  constructor(current: AdminProjectResponse) {
+    super(
+      `Project was changed by someone else (now at revision ${current.revision}).`
+    );
+    this.name = "ProjectConflictError";
+    this.current = current;
+  }
+}
+
 const sortByOrder = <T extends { order?: number }>(
   items?: Iterable<T> | null
 ) => {
@@ -65,9 +108,13 @@ type PublishedProjectPayload = {
   projectId: Types.ObjectId;
   slug: string;
   title: string;
+  titleSort: string;
+  categoryId: Types.ObjectId;
   categoryLabel: string;
   location: string;
   yearDisplay: string;
+  yearStart: number;
+  yearEnd: number;
   hero: Project["hero"];
   excerpt: string;
   descriptionBlocks: Array<{ body: string; order: number }>;
@@ -82,6 +129,9 @@ type PublishedProjectPayload = {
     focalPoint?: { x?: number | null; y?: number | null } | null;
   }>;
   seo: Project["seo"];
+  isFeatured: boolean;
+  featuredOrder?: number;
+  searchTokens: string[];
   publishedAt: Date;
   syncedAt: Date;
 };
@@ -132,6 +182,18 @@ const wait = (ms: number) =>
     setTimeout(resolve, ms);
   });
 
+// Side effects queued by createHistoryEntry (emails, webhook attempts) run
+// only once the transaction that wrote the history entry has committed. An
+// aborted attempt's queue is dropped with its session. The write has already
+// succeeded by then, so a failing task is logged rather than surfaced.
+const afterCommitTasks = new WeakMap<ClientSession, Array<() => Promise<void>>>();
+
+const runAfterCommit = (session: ClientSession, task: () => Promise<void>) => {
+  const queue = afterCommitTasks.get(session) ?? [];
+  queue.push(task);
+  afterCommitTasks.set(session, queue);
+};
+
 const runWithTransaction = async <T>(
   operation: (session: ClientSession) => Promise<T>,
   retries = MAX_TRANSACTION_RETRIES
@@ -139,11 +201,11 @@ const runWithTransaction = async <T>(
   await connectToDatabase();
   for (let attempt = 0; attempt < retries; attempt++) {
     const session = await mongoose.startSession();
+    let result: T;
     try {
       session.startTransaction();
-      const result = await operation(session);
+      result = await operation(session);
       await session.commitTransaction();
-      return result;
     } catch (error) {
       await session.abortTransaction();
       if (attempt < retries - 1 && isTransientTransactionError(error)) {
@@ -155,6 +217,14 @@ const runWithTransaction = async <T>(
     } finally {
       session.endSession();
     }
+    for (const task of afterCommitTasks.get(session) ?? []) {
+      try {
+        await task();
+      } catch (error) {
+        console.error("[projects] After-commit task failed", error);
+      }
+    }
+    return result;
   }
   throw new Error("Transaction failed after maximum retries");
 };
@@ -181,6 +251,7 @@ const ensureMediaAsset = async (
   kind: "hero" | "gallery",
   caption: string,
   session: ClientSession,
+  actorId: Types.ObjectId,
   width: number,
   height: number
 ) => {
@@ -205,7 +276,7 @@ const ensureMediaAsset = async (
         height,
         format: mediaFormatFromUrl(url),
         fileSizeBytes: 0,
-        createdBy: SYSTEM_USER_ID,
+        createdBy: actorId,
         colorPalette: undefined
       }
     ],
@@ -214,7 +285,11 @@ const ensureMediaAsset = async (
   return created;
 };
 
-const ensureCategory = async (label: string, session: ClientSession) => {
+const ensureCategory = async (
+  label: string,
+  session: ClientSession,
+  actorId: Types.ObjectId
+) => {
   const slug = slugify(label, 60);
   const existing = await CategoryModel.findOne({ slug })
     .session(session)
@@ -230,7 +305,7 @@ const ensureCategory = async (label: string, session: ClientSession) => {
         slug,
         sortOrder: 0,
         description: `${label} (auto-generated)`,
-        createdBy: SYSTEM_USER_ID
+        createdBy: actorId
       }
     ],
     { session }
@@ -238,7 +313,11 @@ const ensureCategory = async (label: string, session: ClientSession) => {
   return created._id;
 };
 
-const ensureService = async (label: string, session: ClientSession) => {
+const ensureService = async (
+  label: string,
+  session: ClientSession,
+  actorId: Types.ObjectId
+) => {
   const cleaned = label.trim();
   const slug = slugify(cleaned, 80);
   const existing = await ServiceModel.findOne({ slug })
@@ -253,7 +332,7 @@ const ensureService = async (label: string, session: ClientSession) => {
         label: cleaned,
         slug,
         description: `${cleaned} (auto-generated)`,
-        createdBy: SYSTEM_USER_ID
+        createdBy: actorId
       }
     ],
     { session }
@@ -266,7 +345,11 @@ const parseCollaboratorLabel = (label: string) => {
   return { displayName, organization };
 };
 
-const ensureCollaborator = async (label: string, session: ClientSession) => {
+const ensureCollaborator = async (
+  label: string,
+  session: ClientSession,
+  actorId: Types.ObjectId
+) => {
   const { displayName, organization } = parseCollaboratorLabel(label);
   const existing = await CollaboratorModel.findOne({
     displayName,
@@ -283,7 +366,7 @@ const ensureCollaborator = async (label: string, session: ClientSession) => {
         displayName,
         organization,
         roleDefault: "",
-        createdBy: SYSTEM_USER_ID
+        createdBy: actorId
       }
     ],
     { session }
@@ -291,6 +374,9 @@ const ensureCollaborator = async (label: string, session: ClientSession) => {
   return created._id;
 };
 
+const SEO_META_TITLE_MAX = 90;
+const SEO_META_DESCRIPTION_MAX = 300;
+
 const validateAdminPayload = (
   payload: AdminProjectFormPayload,
   options?: { allowIncompleteMedia?: boolean }
@@ -331,6 +417,17 @@ const validateAdminPayload = (
     errors.push("Year must match YYYY or YYYY-YY");
   }
 
+  // Drafts may be saved half done; anything headed for sign-off or the live
+  // site needs its images in place.
+  if (!options?.allowIncompleteMedia) {
+    if (!payload.heroAssetId && !payload.heroImage?.trim()) {
+      errors.push("Hero image is required");
+    }
+    if (payload.gallery.some((item) => !item.assetId && !item.src?.trim())) {
+      errors.push("Every gallery item needs an image");
+    }
+  }
+
   if (payload.heroCaption.length > 140) {
     errors.push("Hero caption max length is 140 characters");
   }
@@ -365,6 +462,26 @@ const validateAdminPayload = (
     errors.push("Gallery caption max length is 240 characters");
   }
 
+  if ((payload.seo?.metaTitle ?? "").trim().length > SEO_META_TITLE_MAX) {
+    errors.push(`Meta title max length is ${SEO_META_TITLE_MAX} characters`);
+  }
+
+  if (
+    (payload.seo?.metaDescription ?? "").trim().length >
+    SEO_META_DESCRIPTION_MAX
+  ) {
+    errors.push(
+      `Meta description max length is ${SEO_META_DESCRIPTION_MAX} characters`
+    );
+  }
+
+  if (
+    payload.seo?.ogImageAssetId &&
+    !Types.ObjectId.isValid(payload.seo.ogImageAssetId)
+  ) {
+    errors.push("Social image is not a valid media asset");
+  }
+
   if (errors.length) {
     throw new ProjectValidationError(errors);
   }
@@ -381,7 +498,8 @@ const ensureUniqueSlug = async (
   // eslint-disable-next-line no-constant-condition
   while (true) {
     const existing = await ProjectModel.exists({
-      slug: candidate,
+      // Retired slugs still redirect to their project, so they stay taken.
+      $or: [{ slug: candidate }, { previousSlugs: candidate }],
       ...(ignoreId ? { _id: { $ne: ignoreId } } : {})
     })
       .session(session)
@@ -393,7 +511,19 @@ const ensureUniqueSlug = async (
   }
 };
 
-const buildSearchTokens = (payload: AdminProjectFormPayload) =>
+type SearchableFields = Pick<
+  AdminProjectFormPayload,
+  | "title"
+  | "category"
+  | "location"
+  | "year"
+  | "services"
+  | "collaborators"
+  | "meta"
+  | "excerpt"
+>;
+
+const buildSearchTokens = (payload: SearchableFields) =>
   uniqueStrings([
     ...tokenize(payload.title),
     ...tokenize(payload.category),
@@ -405,6 +535,27 @@ const buildSearchTokens = (payload: AdminProjectFormPayload) =>
     ...tokenize(payload.excerpt)
   ]);
 
+const subdocumentId = (item: { _id?: unknown }) =>
+  item._id ? String(item._id) : "";
+
+const reviewToResponse = (
+  review?: Project["review"]
+): AdminProjectResponse["review"] => {
+  if (!review?.submittedAt && !review?.changesRequestedAt) {
+    return undefined;
+  }
+  return {
+    submittedAt: review.submittedAt
+      ? new Date(review.submittedAt).toISOString()
+      : undefined,
+    note: review.note ?? undefined,
+    changesRequestedAt: review.changesRequestedAt
+      ? new Date(review.changesRequestedAt).toISOString()
+      : undefined,
+    feedback: review.feedback ?? undefined
+  };
+};
+
 const projectDocToAdminResponse = (
   doc: ProjectLike
 ): AdminProjectResponse => {
@@ -452,8 +603,30 @@ const projectDocToAdminResponse = (
     services,
     collaborators,
     gallery,
+    seo: {
+      metaTitle: doc.seo?.metaTitle ?? "",
+      metaDescription: doc.seo?.metaDescription ?? "",
+      ogImageAssetId: doc.seo?.ogImageAssetId
+        ? doc.seo.ogImageAssetId.toString()
+        : undefined
+    },
     status: doc.status as AdminProjectResponse["status"],
-    lastEdited: toIso(doc.updatedAt)
+    revision: doc.revision ?? 1,
+    lastEdited: toIso(doc.updatedAt),
+    scheduledPublishAt: doc.scheduledPublishAt
+      ? new Date(doc.scheduledPublishAt).toISOString()
+      : undefined,
+    scheduledUnpublishAt: doc.scheduledUnpublishAt
+      ? new Date(doc.scheduledUnpublishAt).toISOString()
+      : undefined,
+    review: reviewToResponse(doc.review),
+    isFeatured: Boolean(doc.isFeatured),
+    featuredOrder: doc.isFeatured ? doc.featuredOrder ?? undefined : undefined,
+    itemIds: {
+      description: sortByOrder(doc.descriptionBlocks).map(subdocumentId),
+      meta: sortByOrder(doc.meta).map(subdocumentId),
+      gallery: sortByOrder(doc.gallery).map(subdocumentId)
+    }
   };
 };
 
@@ -489,9 +662,12 @@ const projectToPublishedPayload = (
     projectId: project._id,
     slug: project.slug,
     title: project.title,
+    titleSort: project.titleSort ?? normalizeTitle(project.title),
+    categoryId: project.categoryId,
     categoryLabel: project.categoryLabel,
     location: project.location,
     yearDisplay: project.yearDisplay,
+    ...parseYearRange(project.yearDisplay),
     hero: project.hero,
     excerpt: project.excerpt,
     descriptionBlocks: sortedDescriptions,
@@ -500,29 +676,251 @@ const projectToPublishedPayload = (
     collaborators: sortedCollaborators,
     gallery: sortedGallery,
     seo: project.seo,
+    isFeatured: Boolean(project.isFeatured),
+    featuredOrder: project.isFeatured
+      ? project.featuredOrder ?? undefined
+      : undefined,
+    searchTokens: project.searchTokens ?? [],
     publishedAt: project.publishedAt ?? new Date(),
     syncedAt: new Date()
   };
 };
 
+type PublishedRecordKeys = { slug: string; categoryLabel: string } | null;
+
+// A published slug that changes is retired into previousSlugs so old links
+// redirect. Taking a retired slug back makes it current again.
+const retirePublishedSlug = async (
+  project: ProjectDocument,
+  previousSlug: string | undefined,
+  session: ClientSession
+) => {
+  const retired = new Set<string>(project.previousSlugs ?? []);
+  if (previousSlug && previousSlug !== project.slug) {
+    retired.add(previousSlug);
+  }
+  retired.delete(project.slug);
+  const next = Array.from(retired);
+  const current = project.previousSlugs ?? [];
+  if (
+    next.length === current.length &&
+    next.every((slug) => current.includes(slug))
+  ) {
+    return current;
+  }
+  await ProjectModel.updateOne(
+    { _id: project._id },
+    { $set: { previousSlugs: next } },
+    { session }
+  );
+  return next;
+};
+
+// The only writers of PublishedProject. All of them evict the public cache
+// once the transaction commits, including the previous slug and category on
+// renames.
 const upsertPublishedProject = async (
   project: ProjectDocument,
   session: ClientSession
 ) => {
   const payload = projectToPublishedPayload(project);
-  await PublishedProjectModel.findOneAndUpdate(
+  const previous = (await PublishedProjectModel.findOneAndUpdate(
     { projectId: project._id },
     { $set: payload },
-    { upsert: true, session, new: true }
+    {
+      upsert: true,
+      session,
+      new: false,
+      projection: { slug: 1, categoryLabel: 1 }
+    }
+  ).lean()) as unknown as PublishedRecordKeys;
+  const retiredSlugs = await retirePublishedSlug(project, previous?.slug, session);
+  runAfterCommit(session, async () =>
+    revalidatePublishedProjects({
+      // Retired slugs are cached as redirects, which now need a new target.
+      slugs: [previous?.slug, payload.slug, ...retiredSlugs],
+      categories: [previous?.categoryLabel, payload.categoryLabel]
+    })
   );
 };
 
+const removePublishedProject = async (
+  projectId: Types.ObjectId,
+  session: ClientSession
+) => {
+  const previous = (await PublishedProjectModel.findOneAndDelete(
+    { projectId },
+    { session, projection: { slug: 1, categoryLabel: 1 } }
+  ).lean()) as unknown as PublishedRecordKeys;
+  if (previous) {
+    const project = (await ProjectModel.findById(projectId, { previousSlugs: 1 })
+      .session(session)
+      .lean()) as unknown as { previousSlugs?: string[] } | null;
+    runAfterCommit(session, async () =>
+      revalidatePublishedProjects({
+        slugs: [previous.slug, ...(project?.previousSlugs ?? [])],
+        categories: [previous.categoryLabel]
+      })
+    );
+  }
+};
+
+// Featuring is curation, not content: it reaches the live copy right away
+// without republishing the draft.
+const syncPublishedFeatured = async (
+  projects: Array<{
+    _id: Types.ObjectId;
+    isFeatured?: boolean | null;
+    featuredOrder?: number | null;
+  }>,
+  session: ClientSession
+) => {
+  if (!projects.length) {
+    return;
+  }
+  const result = await PublishedProjectModel.bulkWrite(
+    projects.map((project) => ({
+      updateOne: {
+        filter: { projectId: project._id },
+        update: project.isFeatured
+          ? {
+              $set: {
+                isFeatured: true,
+                featuredOrder: project.featuredOrder ?? 0
+              }
+            }
+          : { $set: { isFeatured: false }, $unset: { featuredOrder: 1 } }
+      }
+    })),
+    { session }
+  );
+  if (result.matchedCount) {
+    runAfterCommit(session, async () =>
+      revalidatePublishedProjects({ slugs: [], categories: [] })
+    );
+  }
+};
+
+type PublishedRecordLike = {
+  _id: Types.ObjectId;
+  projectId: Types.ObjectId;
+  slug: string;
+  title: string;
+  categoryLabel: string;
+  location: string;
+  yearDisplay: string;
+  excerpt: string;
+  meta?: Array<{ label: string; value: string }>;
+  services?: Array<{ label: string }>;
+  collaborators?: Array<{ label: string }>;
+};
+
+export type PublishedResyncResult = {
+  rebuilt: number;
+  patched: number;
+  skipped: number;
+};
+
+const findCategoryIdByLabel = async (label: string, session: ClientSession) => {
+  const category = (await CategoryModel.findOne(
+    { slug: slugify(label, 60) },
+    { _id: 1 }
+  )
+    .session(session)
+    .lean()
+    .exec()) as unknown as { _id: Types.ObjectId } | null;
+  return category?._id;
+};
+
+const resyncPublishedRecord = async (
+  recordId: Types.ObjectId,
+  session: ClientSession
+): Promise<keyof PublishedResyncResult> => {
+  const live = (await PublishedProjectModel.findById(recordId)
+    .session(session)
+    .lean()
+    .exec()) as unknown as PublishedRecordLike | null;
+  const project = live
+    ? await ProjectModel.findOne({ _id: live.projectId, deletedAt: null })
+        .session(session)
+        .exec()
+    : null;
+  if (!live || !project) {
+    return "skipped";
+  }
+  if (project.status === "published") {
+    await upsertPublishedProject(project, session);
+    return "rebuilt";
+  }
+
+  const categoryId =
+    live.categoryLabel === project.categoryLabel
+      ? project.categoryId
+      : await findCategoryIdByLabel(live.categoryLabel, session);
+  await PublishedProjectModel.updateOne(
+    { _id: live._id },
+    {
+      $set: {
+        ...(categoryId ? { categoryId } : {}),
+        titleSort: normalizeTitle(live.title),
+        ...parseYearRange(live.yearDisplay),
+        searchTokens: buildSearchTokens({
+          title: live.title,
+          category: live.categoryLabel,
+          location: live.location,
+          year: live.yearDisplay,
+          services: (live.services ?? []).map((item) => item.label),
+          collaborators: (live.collaborators ?? []).map((item) => item.label),
+          meta: live.meta ?? [],
+          excerpt: live.excerpt
+        })
+      }
+    },
+    { session }
+  );
+  await syncPublishedFeatured([project], session);
+  runAfterCommit(session, async () =>
+    revalidatePublishedProjects({
+      slugs: [live.slug],
+      categories: [live.categoryLabel]
+    })
+  );
+  return "patched";
+};
+
+/**
+ * Backfills the fields later releases added to PublishedProject (category id,
+ * title sort key, year range, search tokens, featuring) on records written
+ * before them. Run once per deploy that adds such a field, through
+ * `npm run projects:resync`.
+ *
+ * Published projects are rebuilt from the project. A project saved as a draft
+ * after publishing has edits that aren't live yet, so its record keeps its
+ * content and only gets the derived fields, computed from that content.
+ */
+export const resyncPublishedProjects =
+  async (): Promise<PublishedResyncResult> => {
+    await connectToDatabase();
+    const records = (await PublishedProjectModel.find({}, { _id: 1 })
+      .lean()
+      .exec()) as unknown as Array<{ _id: Types.ObjectId }>;
+    const result: PublishedResyncResult = { rebuilt: 0, patched: 0, skipped: 0 };
+    for (const record of records) {
+      const outcome = await runWithTransaction((session) =>
+        resyncPublishedRecord(record._id, session)
+      );
+      result[outcome] += 1;
+    }
+    return result;
+  };
+
 const findOrCreateMediaAsset = async (
   assetId: string | undefined,
   fallbackUrl: string,
   kind: "hero" | "gallery",
   caption: string,
   session: ClientSession,
+  actorId: Types.ObjectId,
   width: number,
   height: number
 ) => {
@@ -536,12 +934,92 @@ const findOrCreateMediaAsset = async (
       return existing;
     }
   }
-  return ensureMediaAsset(fallbackUrl, kind, caption, session, width, height);
+  return ensureMediaAsset(
+    fallbackUrl,
+    kind,
+    caption,
+    session,
+    actorId,
+    width,
+    height
+  );
 };
 
-const buildContentFromPayload = async (
+type OrderedItem = { _id?: Types.ObjectId | null; order?: number };
+
+/**
+ * Review comments anchor to subdocument ids, so an item that survives an edit
+ * keeps its id: first by an identical key, then (for text items) by position.
+ */
+const assignStableIds = <P extends OrderedItem, N>(
+  previous: Iterable<P> | null | undefined,
+  next: N[],
+  previousKey: (item: P) => string,
+  nextKey: (item: N) => string,
+  { matchByPosition }: { matchByPosition: boolean }
+) => {
+  const prior = sortByOrder(previous);
+  const used = new Set<number>();
+  const matched = next.map((item) => {
+    const key = nextKey(item);
+    const index = prior.findIndex(
+      (candidate, candidateIndex) =>
+        !used.has(candidateIndex) && previousKey(candidate) === key
+    );
+    if (index < 0 || !prior[index]._id) {
+      return undefined;
+    }
+    used.add(index);
+    return prior[index]._id as Types.ObjectId;
+  });
+  return matched.map((id, index) => {
+    if (id) {
+      return id;
+    }
+    const positional = prior[index];
+    if (matchByPosition && positional?._id && !used.has(index)) {
+      used.add(index);
+      return positional._id as Types.ObjectId;
+    }
+    return newObjectId();
+  });
+};
+
+// Empty overrides are dropped so the page falls back to title and excerpt.
+const buildSeoFromPayload = async (
   payload: AdminProjectFormPayload,
   session: ClientSession
+) => {
+  const metaTitle = payload.seo?.metaTitle?.trim() ?? "";
+  const metaDescription = payload.seo?.metaDescription?.trim() ?? "";
+  let ogImageAssetId: Types.ObjectId | undefined;
+  if (payload.seo?.ogImageAssetId) {
+    const asset = await MediaAssetModel.exists({
+      _id: payload.seo.ogImageAssetId,
+      deletedAt: null
+    })
+      .session(session)
+      .exec();
+    if (!asset) {
+      throw new ProjectValidationError(["Social image no longer exists"]);
+    }
+    ogImageAssetId = asset._id;
+  }
+  if (!metaTitle && !metaDescription && !ogImageAssetId) {
+    return undefined;
+  }
+  return {
+    metaTitle: metaTitle || undefined,
+    metaDescription: metaDescription || undefined,
+    ogImageAssetId
+  };
+};
+
+const buildContentFromPayload = async (
+  payload: AdminProjectFormPayload,
+  session: ClientSession,
+  actorId: Types.ObjectId,
+  previous?: ProjectLike | null
 ) => {
   const title = payload.title.trim();
   const categoryLabel = payload.category.trim();
@@ -580,13 +1058,14 @@ const buildContentFromPayload = async (
     }))
     .filter((item) => item.assetId || item.src);
 
-  const categoryId = await ensureCategory(categoryLabel, session);
+  const categoryId = await ensureCategory(categoryLabel, session, actorId);
   const heroAsset = await findOrCreateMediaAsset(
     payload.heroAssetId,
     heroImage,
     "hero",
     heroCaption,
     session,
+    actorId,
     MEDIA_DIMENSIONS.hero.width,
     MEDIA_DIMENSIONS.hero.height
   );
@@ -599,20 +1078,35 @@ const buildContentFromPayload = async (
         "gallery",
         item.caption,
         session,
+        actorId,
         MEDIA_DIMENSIONS.gallery.width,
         MEDIA_DIMENSIONS.gallery.height
       )
     )
   );
 
+  const descriptionIds = assignStableIds(
+    previous?.descriptionBlocks,
+    descriptionEntries,
+    (block) => block.body,
+    (body) => body,
+    { matchByPosition: true }
+  );
   const descriptionBlocks = descriptionEntries.map((body, index) => ({
-    _id: newObjectId(),
+    _id: descriptionIds[index],
     body,
     order: index
   }));
 
+  const metaIds = assignStableIds(
+    previous?.meta,
+    metaEntries,
+    (item) => item.label.toLowerCase(),
+    (item) => item.label.toLowerCase(),
+    { matchByPosition: true }
+  );
   const meta = metaEntries.map((item, index) => ({
-    _id: newObjectId(),
+    _id: metaIds[index],
     label: item.label,
     value: item.value,
     order: index
@@ -620,7 +1114,7 @@ const buildContentFromPayload = async (
 
   const services = await Promise.all(
     serviceLabels.map(async (label, index) => {
-      const serviceId = await ensureService(label, session);
+      const serviceId = await ensureService(label, session, actorId);
       return {
         _id: newObjectId(),
         serviceId,
@@ -632,7 +1126,7 @@ const buildContentFromPayload = async (
 
   const collaborators = await Promise.all(
     collaboratorLabels.map(async (label, index) => {
-      const collaboratorId = await ensureCollaborator(label, session);
+      const collaboratorId = await ensureCollaborator(label, session, actorId);
       return {
         _id: newObjectId(),
         collaboratorId,
@@ -642,10 +1136,18 @@ const buildContentFromPayload = async (
     })
   );
 
+  // A replaced image is a different item, so gallery ids follow the asset.
+  const galleryIds = assignStableIds(
+    previous?.gallery,
+    galleryAssets,
+    (item) => item.assetId?.toString() ?? "",
+    (asset) => asset?._id?.toString() ?? "-",
+    { matchByPosition: false }
+  );
   const gallery = galleryEntries.map((item, index) => {
     const asset = galleryAssets[index];
     return {
-      _id: newObjectId(),
+      _id: galleryIds[index],
       assetId: asset?._id,
       src: asset?.storageKey ?? item.src ?? "",
       caption: item.caption,
@@ -653,6 +1155,8 @@ const buildContentFromPayload = async (
     };
   });
 
+  const seo = await buildSeoFromPayload(payload, session);
+
   const searchTokens = buildSearchTokens({
     ...payload,
     title,
@@ -660,11 +1164,9 @@ const buildContentFromPayload = async (
     location,
     year,
     excerpt,
-    description: descriptionEntries,
     meta: metaEntries,
     services: serviceLabels,
-    collaborators: collaboratorLabels,
-    gallery: galleryEntries
+    collaborators: collaboratorLabels
   });
 
   return {
@@ -681,14 +1183,57 @@ const buildContentFromPayload = async (
     services,
     collaborators,
     gallery,
+    seo,
     searchTokens
   };
 };
 
+type HistoryAction =
+  | "created"
+  | "duplicated"
+  | "saved"
+  | "published"
+  | "unpublished"
+  | "deleted"
+  | "restored"
+  | "purged"
+  | "schedule-updated"
+  | "scheduled-publish"
+  | "scheduled-unpublish"
+  | "schedule-failed"
+  | "review-requested"
+  | "review-approved"
+  | "changes-requested"
+  | "featured-updated";
+
+type VersionSource = "manual-save" | "publish" | "unpublish" | "restore";
+
+const HISTORY_NOTIFICATIONS: Partial<
+  Record<HistoryAction, ProjectNotification["event"]>
+> = {
+  published: "published",
+  "scheduled-publish": "published",
+  "review-approved": "published",
+  unpublished: "unpublished",
+  "scheduled-unpublish": "unpublished",
+  deleted: "deleted",
+  "review-requested": "reviewRequested"
+};
+
+const HISTORY_WEBHOOKS: Partial<Record<HistoryAction, AdminWebhookEvent>> = {
+  published: "published",
+  "scheduled-publish": "published",
+  "review-approved": "published",
+  unpublished: "unpublished",
+  "scheduled-unpublish": "unpublished",
+  deleted: "deleted"
+};
+
 const createHistoryEntry = async (
   projectId: Types.ObjectId,
-  action: "created" | "duplicated" | "saved" | "published" | "unpublished" | "deleted",
+  action: HistoryAction,
   session: ClientSession,
+  actorId: Types.ObjectId,
   extra?: Partial<{
     fromStatus: Project["status"];
     toStatus: Project["status"];
@@ -701,7 +1246,7 @@ const createHistoryEntry = async (
       {
         projectId,
         action,
-        actorId: SYSTEM_USER_ID,
+        actorId,
         fromStatus: extra?.fromStatus,
         toStatus: extra?.toStatus,
         summary: extra?.summary,
@@ -710,12 +1255,43 @@ const createHistoryEntry = async (
     ],
     { session }
   );
+
+  const event = HISTORY_NOTIFICATIONS[action];
+  if (event) {
+    const notification = { event, projectId, actorId, summary: extra?.summary };
+    runAfterCommit(session, () => sendProjectNotifications([notification]));
+  }
+
+  // The outbox entry commits with the change; the first attempt is not
+  // awaited and the webhook cron retries anything that failed.
+  const webhookEvent = HISTORY_WEBHOOKS[action];
+  if (webhookEvent) {
+    const project = await ProjectModel.findById(projectId).session(session).exec();
+    if (project) {
+      const deliveryIds = await enqueueWebhookEvent(
+        webhookEvent,
+        projectId,
+        {
+          ...projectToPublishedPayload(project),
+          // Unpublishing or deleting a never-published project has no publish time.
+          publishedAt: project.publishedAt ?? null
+        },
+        session
+      );
+      if (deliveryIds.length) {
+        runAfterCommit(session, async () => {
+          void deliverWebhooks(deliveryIds);
+        });
+      }
+    }
+  }
 };
 
 const recordVersion = async (
   project: ProjectDocument,
-  source: "manual-save" | "publish" | "unpublish",
+  source: VersionSource,
   session: ClientSession,
+  actorId: Types.ObjectId,
   published: boolean
 ) => {
   await ProjectVersionModel.create(
@@ -726,7 +1302,7 @@ const recordVersion = async (
         status: project.status,
         source,
         payload: project.toObject(),
-        createdBy: SYSTEM_USER_ID,
+        createdBy: actorId,
         published
       }
     ],
@@ -742,17 +1318,23 @@ const collectProjectAssetIds = (project?: ProjectDocument | null) => {
     project?.gallery
       ?.map((item) => (item.assetId ? item.assetId.toString() : undefined))
       .filter((value): value is string => Boolean(value)) ?? [];
-  return { hero, gallery };
+  const ogImage = project?.seo?.ogImageAssetId
+    ? project.seo.ogImageAssetId.toString()
+    : undefined;
+  return { hero, gallery, ogImage };
 };
 
 const diffAssetIds = (
-  previous: { hero?: string; gallery: string[] },
-  next: { hero?: string; gallery: string[] }
+  previous: { hero?: string; gallery: string[]; ogImage?: string },
+  next: { hero?: string; gallery: string[]; ogImage?: string }
 ) => {
   const removed: string[] = [];
   if (previous.hero && previous.hero !== next.hero) {
     removed.push(previous.hero);
   }
+  if (previous.ogImage && previous.ogImage !== next.ogImage) {
+    removed.push(previous.ogImage);
+  }
   const nextGallerySet = new Set(next.gallery);
   previous.gallery.forEach((assetId) => {
     if (!nextGallerySet.has(assetId)) {
@@ -763,23 +1345,60 @@ const diffAssetIds = (
 };
 
 type PersistOptions = {
-  action?: "saved" | "published" | "unpublished";
-  versionSource?: "manual-save" | "publish" | "unpublish";
+  action?:
+    | "saved"
+    | "published"
+    | "unpublished"
+    | "restored"
+    | "scheduled-publish"
+    | "scheduled-unpublish"
+    | "review-requested"
+    | "review-approved";
+  versionSource?: VersionSource;
+  /** Statuses the project must currently be in for this transition. */
+  fromStatuses?: Project["status"][];
+  reviewNote?: string;
   clearPublishedMetadata?: boolean;
   removePublishedRecord?: boolean;
+  summary?: string;
+  expectedRevision?: number;
+  restoreFromTrash?: boolean;
+};
+
+type ConcurrencyOptions = {
+  expectedRevision?: number;
+};
+
+type PublishOptions = ConcurrencyOptions & {
+  /** Set by the schedule runner so history records who asked for it. */
+  scheduled?: boolean;
+};
+
+const STATUS_LABELS: Record<Project["status"], string> = {
+  draft: "drafts",
+  in_review: "projects in review",
+  published: "published projects",
+  archived: "archived projects"
 };
 
 const persistProjectFromPayload = async (
   projectId: string,
   payload: AdminProjectFormPayload,
-  status: "draft" | "published",
+  status: "draft" | "in_review" | "published",
+  actor: string,
   options: PersistOptions = {}
 ) => {
+  const actorId = toActorId(actor);
+  const deletedFilter = options.restoreFromTrash
+    ? { deletedAt: { $ne: null } }
+    : { deletedAt: null };
   const result = await runWithTransaction(async (session) => {
-    validateAdminPayload(payload, { allowIncompleteMedia: status !== "published" });
+    // Submitting for review asks for sign-off on the final content, so it is
+    // held to the same bar as publishing.
+    validateAdminPayload(payload, { allowIncompleteMedia: status === "draft" });
     const existing = await ProjectModel.findOne({
       _id: projectId,
-      deletedAt: null
+      ...deletedFilter
     })
       .session(session)
       .exec();
@@ -788,12 +1407,36 @@ const persistProjectFromPayload = async (
       throw new Error("Project not found");
     }
 
-    if (options.action === "unpublished" && existing.status !== "published") {
+    if (
+      options.expectedRevision !== undefined &&
+      existing.revision !== options.expectedRevision
+    ) {
+      throw new ProjectConflictError(projectDocToAdminResponse(existing));
+    }
+
+    const isUnpublish =
+      options.action === "unpublished" ||
+      options.action === "scheduled-unpublish";
+
+    if (isUnpublish && existing.status !== "published") {
       throw new Error("Project is not published");
     }
 
+    if (options.fromStatuses && !options.fromStatuses.includes(existing.status)) {
+      throw new ProjectValidationError([
+        `Only ${options.fromStatuses
+          .map((value) => STATUS_LABELS[value])
+          .join(" or ")} can be moved to ${status.replace("_", " ")}`
+      ]);
+    }
+
     const slug = await ensureUniqueSlug(payload.slug, session, projectId);
-    const content = await buildContentFromPayload(payload, session);
+    const content = await buildContentFromPayload(
+      payload,
+      session,
+      actorId,
+      existing
+    );
     const now = new Date();
     const previousAssets = collectProjectAssetIds(existing);
 
@@ -821,19 +1464,63 @@ const persistProjectFromPayload = async (
       searchTokens: content.searchTokens,
       status,
       updatedAt: now,
-      updatedBy: SYSTEM_USER_ID
+      updatedBy: actorId
     };
 
     const unsetUpdate: Record<string, 1> = {};
 
+    if (content.seo) {
+      setUpdate.seo = content.seo;
+    } else {
+      unsetUpdate.seo = 1;
+    }
+
+    if (options.restoreFromTrash) {
+      unsetUpdate.deletedAt = 1;
+    }
+
     if (status === "published") {
       setUpdate.publishedAt = now;
-      setUpdate.publishedBy = SYSTEM_USER_ID;
+      setUpdate.publishedBy = actorId;
     } else if (options.clearPublishedMetadata) {
       unsetUpdate.publishedAt = 1;
       unsetUpdate.publishedBy = 1;
     }
 
+    // Publishing or unpublishing by hand fulfils the matching schedule too.
+    const keepsPublishSchedule =
+      status !== "published" && Boolean(existing.scheduledPublishAt);
+    const keepsUnpublishSchedule =
+      !isUnpublish && Boolean(existing.scheduledUnpublishAt);
+    if (!keepsPublishSchedule) {
+      unsetUpdate.scheduledPublishAt = 1;
+    }
+    if (!keepsUnpublishSchedule) {
+      unsetUpdate.scheduledUnpublishAt = 1;
+    }
+    if (!keepsPublishSchedule && !keepsUnpublishSchedule) {
+      unsetUpdate.scheduledBy = 1;
+    }
+
+    let summary = options.summary;
+    if (status === "published") {
+      unsetUpdate.review = 1;
+    } else if (status === "in_review") {
+      setUpdate["review.submittedAt"] = now;
+      setUpdate["review.submittedBy"] = actorId;
+      if (options.reviewNote) {
+        setUpdate["review.note"] = options.reviewNote;
+      } else {
+        unsetUpdate["review.note"] = 1;
+      }
+    } else if (existing.status === "in_review") {
+      // Saving while in review withdraws the request; feedback stays visible.
+      unsetUpdate["review.submittedAt"] = 1;
+      unsetUpdate["review.submittedBy"] = 1;
+      unsetUpdate["review.note"] = 1;
+      summary = summary ?? "Withdrawn from review";
+    }
+
     const updateCommand: Record<string, unknown> = {
       $set: setUpdate,
       $inc: { revision: 1 }
@@ -844,7 +1531,7 @@ const persistProjectFromPayload = async (
     }
 
     const project = await ProjectModel.findOneAndUpdate(
-      { _id: projectId, deletedAt: null },
+      { _id: projectId, ...deletedFilter },
       updateCommand,
       { new: true, session, runValidators: true }
     );
@@ -854,22 +1541,29 @@ const persistProjectFromPayload = async (
     }
 
     const action = options.action ?? (status === "published" ? "published" : "saved");
-    await createHistoryEntry(project._id, action, session, {
+    await createHistoryEntry(project._id, action, session, actorId, {
       fromStatus: existing.status,
       toStatus: status,
-      snapshotVersion: project.revision
+      snapshotVersion: project.revision,
+      summary
     });
 
     const versionSource =
       options.versionSource ??
       (status === "published" ? "publish" : "manual-save");
 
-    await recordVersion(project, versionSource, session, status === "published");
+    await recordVersion(
+      project,
+      versionSource,
+      session,
+      actorId,
+      status === "published"
+    );
 
     if (status === "published") {
       await upsertPublishedProject(project, session);
     } else if (options.removePublishedRecord) {
-      await PublishedProjectModel.deleteOne({ projectId: project._id }).session(session);
+      await removePublishedProject(project._id, session);
     }
 
     const nextAssets = collectProjectAssetIds(project);
@@ -914,7 +1608,8 @@ export const fetchAdminProject = async (projectId: string) => {
   return projectDocToAdminResponse(doc as ProjectLike);
 };
 
-export const createAdminProject = async () => {
+export const createAdminProject = async (actor: string) => {
+  const actorId = toActorId(actor);
   return runWithTransaction(async (session) => {
     const slug = await ensureUniqueSlug(
       `untitled-${Date.now().toString(36)}`,
@@ -937,7 +1632,7 @@ export const createAdminProject = async () => {
       gallery: DEFAULT_GALLERY_IMAGES
     };
 
-    const content = await buildContentFromPayload(payload, session);
+    const content = await buildContentFromPayload(payload, session, actorId);
     const now = new Date();
 
     const [project] = await ProjectModel.create(
@@ -958,10 +1653,11 @@ export const createAdminProject = async () => {
           services: content.services,
           collaborators: content.collaborators,
           gallery: content.gallery,
+          seo: content.seo,
           searchTokens: content.searchTokens,
           revision: 1,
-          createdBy: SYSTEM_USER_ID,
-          updatedBy: SYSTEM_USER_ID,
+          createdBy: actorId,
+          updatedBy: actorId,
           createdAt: now,
           updatedAt: now
         }
@@ -969,18 +1665,22 @@ export const createAdminProject = async () => {
       { session }
     );
 
-    await createHistoryEntry(project._id, "created", session, {
+    await createHistoryEntry(project._id, "created", session, actorId, {
       toStatus: "draft",
       snapshotVersion: 1
     });
 
-    await recordVersion(project, "manual-save", session, false);
+    await recordVersion(project, "manual-save", session, actorId, false);
 
     return projectDocToAdminResponse(project);
   });
 };
 
-export const duplicateAdminProject = async (projectId: string) => {
+export const duplicateAdminProject = async (
+  projectId: string,
+  actor: string
+) => {
+  const actorId = toActorId(actor);
   return runWithTransaction(async (session) => {
     const project = await ProjectModel.findOne({
       _id: projectId,
@@ -999,6 +1699,7 @@ export const duplicateAdminProject = async (projectId: string) => {
     const clone = project.toObject();
     clone._id = newObjectId();
     clone.slug = slug;
+    clone.previousSlugs = [];
     clone.title = `${project.title} (Copy)`;
     clone.titleSort = normalizeTitle(clone.title);
     clone.status = "draft";
@@ -1007,8 +1708,10 @@ export const duplicateAdminProject = async (projectId: string) => {
     clone.updatedAt = now;
     clone.publishedAt = undefined;
     clone.publishedBy = undefined;
-    clone.updatedBy = SYSTEM_USER_ID;
-    clone.createdBy = SYSTEM_USER_ID;
+    clone.isFeatured = false;
+    clone.featuredOrder = undefined;
+    clone.updatedBy = actorId;
+    clone.createdBy = actorId;
     clone.deletedAt = undefined;
     clone.descriptionBlocks = sortByOrder(clone.descriptionBlocks).map((block, index) => ({
       ...block,
@@ -1038,41 +1741,302 @@ export const duplicateAdminProject = async (projectId: string) => {
 
     const [duplicate] = await ProjectModel.create([clone], { session });
 
-    await createHistoryEntry(duplicate._id, "duplicated", session, {
+    await createHistoryEntry(duplicate._id, "duplicated", session, actorId, {
       fromStatus: "draft",
       toStatus: "draft",
       snapshotVersion: 1
     });
 
-    await recordVersion(duplicate, "manual-save", session, false);
+    await recordVersion(duplicate, "manual-save", session, actorId, false);
 
     return projectDocToAdminResponse(duplicate);
   });
 };
 
-export const saveAdminProject = (projectId: string, payload: AdminProjectFormPayload) =>
-  persistProjectFromPayload(projectId, payload, "draft");
+export const saveAdminProject = (
+  projectId: string,
+  payload: AdminProjectFormPayload,
+  actor: string,
+  { expectedRevision }: ConcurrencyOptions = {}
+) =>
+  persistProjectFromPayload(projectId, payload, "draft", actor, {
+    expectedRevision
+  });
 
 export const publishAdminProject = (
   projectId: string,
-  payload: AdminProjectFormPayload
-) => persistProjectFromPayload(projectId, payload, "published");
+  payload: AdminProjectFormPayload,
+  actor: string,
+  { expectedRevision, scheduled }: PublishOptions = {}
+) =>
+  persistProjectFromPayload(projectId, payload, "published", actor, {
+    expectedRevision,
+    action: scheduled ? "scheduled-publish" : "published"
+  });
 
 export const unpublishAdminProject = (
   projectId: string,
-  payload: AdminProjectFormPayload
+  payload: AdminProjectFormPayload,
+  actor: string,
+  { expectedRevision, scheduled }: PublishOptions = {}
 ) =>
-  persistProjectFromPayload(projectId, payload, "draft", {
-    action: "unpublished",
+  persistProjectFromPayload(projectId, payload, "draft", actor, {
+    expectedRevision,
+    action: scheduled ? "scheduled-unpublish" : "unpublished",
     versionSource: "unpublish",
     clearPublishedMetadata: true,
     removePublishedRecord: true
   });
 
-export const deleteAdminProject = async (projectId: string) => {
-  const assetIds: string[] = [];
+const REVIEW_COMMENT_MAX_LENGTH = 2000;
+
+const normalizeReviewComment = (comment: string | undefined, label: string) => {
+  const trimmed = comment?.trim() ?? "";
+  if (trimmed.length > REVIEW_COMMENT_MAX_LENGTH) {
+    throw new ProjectValidationError([
+      `${label} max length is ${REVIEW_COMMENT_MAX_LENGTH} characters`
+    ]);
+  }
+  return trimmed;
+};
+
+export const submitProjectForReview = (
+  projectId: string,
+  payload: AdminProjectFormPayload,
+  actor: string,
+  { expectedRevision, note }: ConcurrencyOptions & { note?: string } = {}
+) => {
+  const reviewNote = normalizeReviewComment(note, "Review note");
+  return persistProjectFromPayload(projectId, payload, "in_review", actor, {
+    expectedRevision,
+    action: "review-requested",
+    fromStatuses: ["draft"],
+    reviewNote: reviewNote || undefined,
+    summary: reviewNote || undefined
+  });
+};
+
+/**
+ * Publishes the project exactly as it was submitted for review. The content
+ * is read from the stored in-review project rather than taken from the
+ * approver, and `expectedRevision` must be the revision the approver looked
+ * at, so nothing goes live that the reviewer didn't see.
+ */
+export const approveProjectReview = async (
+  projectId: string,
+  actor: string,
+  { expectedRevision }: Required<ConcurrencyOptions>
+) => {
+  const submitted = await fetchAdminProject(projectId);
+  if (!submitted) {
+    throw new Error("Project not found");
+  }
+  return persistProjectFromPayload(projectId, submitted, "published", actor, {
+    expectedRevision,
+    action: "review-approved",
+    fromStatuses: ["in_review"]
+  });
+};
+
+/**
+ * Sends a project in review back to draft with the reviewer's comment. Only
+ * the status moves, so no version snapshot is taken.
+ */
+export const requestProjectChanges = async (
+  projectId: string,
+  comment: string,
+  actor: string,
+  { expectedRevision }: ConcurrencyOptions = {}
+) => {
+  const feedback = normalizeReviewComment(comment, "Comment");
+  if (!feedback) {
+    throw new ProjectValidationError(["A comment is required when requesting changes"]);
+  }
+  const actorId = toActorId(actor);
+  return runWithTransaction(async (session) => {
+    const existing = await ProjectModel.findOne({
+      _id: projectId,
+      deletedAt: null
+    })
+      .session(session)
+      .exec();
+
+    if (!existing) {
+      throw new Error("Project not found");
+    }
+    if (
+      expectedRevision !== undefined &&
+      existing.revision !== expectedRevision
+    ) {
+      throw new ProjectConflictError(projectDocToAdminResponse(existing));
+    }
+    if (existing.status !== "in_review") {
+      throw new ProjectValidationError(["Project is not in review"]);
+    }
+
+    const now = new Date();
+    const project = await ProjectModel.findOneAndUpdate(
+      { _id: existing._id },
+      {
+        $set: {
+          status: "draft",
+          "review.changesRequestedAt": now,
+          "review.changesRequestedBy": actorId,
+          "review.feedback": feedback
+        },
+        $unset: {
+          "review.submittedAt": 1,
+          "review.submittedBy": 1,
+          "review.note": 1
+        },
+        // Clients still holding the in-review revision must not be able to
+        // save or approve over the status change.
+        $inc: { revision: 1 }
+      },
+      { new: true, session }
+    );
+
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    await createHistoryEntry(project._id, "changes-requested", session, actorId, {
+      fromStatus: "in_review",
+      toStatus: "draft",
+      summary: feedback
+    });
+
+    return projectDocToAdminResponse(project);
+  });
+};
+
+export const fetchAdminProjectVersions = async (
+  projectId: string
+): Promise<AdminProjectVersionSummary[]> => {
+  await connectToDatabase();
+  const docs = await ProjectVersionModel.find(
+    { projectId },
+    {
+      version: 1,
+      status: 1,
+      source: 1,
+      published: 1,
+      createdAt: 1,
+      "payload.title": 1,
+      "payload.slug": 1
+    }
+  )
+    .sort({ version: -1 })
+    .lean()
+    .exec();
+
+  return docs.map((doc) => {
+    const payload = (doc.payload ?? {}) as { title?: string; slug?: string };
+    return {
+      version: doc.version,
+      status: doc.status as AdminProjectVersionSummary["status"],
+      source: doc.source as AdminProjectVersionSummary["source"],
+      published: Boolean(doc.published),
+      title: payload.title ?? "",
+      slug: payload.slug ?? "",
+      createdAt: new Date(doc.createdAt).toISOString()
+    };
+  });
+};
+
+// Snapshots can reference media that a later save already purged from R2, so
+// only assets that still exist are carried back into the restored draft.
+const snapshotToAdminPayload = async (snapshot: ProjectLike) => {
+  const restored = projectDocToAdminResponse(snapshot);
+  const referencedIds = [
+    restored.heroAssetId,
+    restored.seo?.ogImageAssetId,
+    ...restored.gallery.map((item) => item.assetId)
+  ].filter(
+    (value): value is string =>
+      typeof value === "string" && Types.ObjectId.isValid(value)
+  );
+
+  const available = new Set<string>();
+  if (referencedIds.length) {
+    const assets = await MediaAssetModel.find(
+      { _id: { $in: referencedIds.map((id) => new Types.ObjectId(id)) } },
+      { _id: 1 }
+    )
+      .lean()
+      .exec();
+    assets.forEach((asset) =>
+      available.add((asset._id as Types.ObjectId).toString())
+    );
+  }
+
+  const isAvailable = (assetId?: string) => !assetId || available.has(assetId);
+  const heroAvailable = isAvailable(restored.heroAssetId);
+  const gallery = restored.gallery.filter((item) => isAvailable(item.assetId));
+  const ogImageAssetId = restored.seo?.ogImageAssetId;
+  const droppedCount =
+    (heroAvailable ? 0 : 1) + (restored.gallery.length - gallery.length);
+
+  const payload: AdminProjectFormPayload = {
+    slug: restored.slug,
+    title: restored.title,
+    category: restored.category,
+    location: restored.location,
+    year: restored.year,
+    heroImage: heroAvailable ? restored.heroImage : DEFAULT_HERO_IMAGE,
+    heroAssetId: heroAvailable ? restored.heroAssetId : undefined,
+    heroCaption: restored.heroCaption,
+    excerpt: restored.excerpt,
+    description: restored.description,
+    meta: restored.meta,
+    services: restored.services,
+    collaborators: restored.collaborators,
+    gallery,
+    seo: restored.seo && {
+      ...restored.seo,
+      ogImageAssetId: isAvailable(ogImageAssetId) ? ogImageAssetId : undefined
+    }
+  };
+
+  return { payload, droppedCount };
+};
+
+export const restoreAdminProjectVersion = async (
+  projectId: string,
+  version: number,
+  actor: string
+) => {
+  await connectToDatabase();
+  const snapshot = (await ProjectVersionModel.findOne({ projectId, version })
+    .lean()
+    .exec()) as unknown as { payload: ProjectLike } | null;
+
+  if (!snapshot) {
+    return null;
+  }
 
-  const response = await runWithTransaction(async (session) => {
+  const { payload, droppedCount } = await snapshotToAdminPayload(
+    snapshot.payload
+  );
+
+  const summary = droppedCount
+    ? `Restored from version ${version} (${droppedCount} missing image${
+        droppedCount === 1 ? "" : "s"
+      } skipped)`
+    : `Restored from version ${version}`;
+
+  return persistProjectFromPayload(projectId, payload, "draft", actor, {
+    action: "restored",
+    versionSource: "restore",
+    summary
+  });
+};
+
+// Deleting only moves the project to the trash. Hero and gallery stay on the
+// document so media survives until the project is purged.
+export const deleteAdminProject = async (projectId: string, actor: string) => {
+  const actorId = toActorId(actor);
+  return runWithTransaction(async (session) => {
     const project = await ProjectModel.findOne({
       _id: projectId,
       deletedAt: null
@@ -1085,8 +2049,6 @@ export const deleteAdminProject = async (projectId: string) => {
     }
 
     const previousStatus = project.status;
-    const collected = collectProjectAssetIds(project);
-
     const now = new Date();
     await ProjectModel.updateOne(
       { _id: project._id },
@@ -1095,48 +2057,473 @@ export const deleteAdminProject = async (projectId: string) => {
           status: "archived",
           deletedAt: now,
           updatedAt: now,
-          updatedBy: SYSTEM_USER_ID
+          updatedBy: actorId
         },
         $unset: {
-          hero: "",
-          gallery: ""
+          scheduledPublishAt: 1,
+          scheduledUnpublishAt: 1,
+          scheduledBy: 1
         }
       },
       { session }
     );
 
-    await createHistoryEntry(project._id, "deleted", session, {
+    await createHistoryEntry(project._id, "deleted", session, actorId, {
       fromStatus: previousStatus,
       toStatus: "archived"
     });
 
-    await PublishedProjectModel.deleteOne({ projectId: project._id }).session(session);
-
-    // Reflect removed media locally so the response mirrors persisted state.
-    project.hero = {
-      assetId: undefined,
-      src: "",
-      width: 0,
-      height: 0,
-      caption: "",
-      focalPoint: undefined
-    } as Project["hero"];
-    project.gallery = [];
-
-    if (collected.hero) {
-      assetIds.push(collected.hero);
-    }
-    assetIds.push(...collected.gallery);
+    await removePublishedProject(project._id, session);
 
+    project.status = "archived";
+    project.deletedAt = now;
+    project.updatedAt = now;
     return projectDocToAdminResponse(project);
   });
+};
 
-  if (assetIds.length) {
-    await deleteMediaAssetsByIds(assetIds).catch((error) => {
+const formatScheduleTime = (value: Date) =>
+  `${value.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+
+const parseScheduleTime = (
+  value: string | null | undefined,
+  label: string,
+  errors: string[]
+) => {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    errors.push(`${label} must be a valid date`);
+    return null;
+  }
+  return parsed;
+};
+
+export const scheduleAdminProject = async (
+  projectId: string,
+  schedule: AdminProjectSchedulePayload,
+  actor: string
+) => {
+  const actorId = toActorId(actor);
+  const errors: string[] = [];
+  const publishAt = parseScheduleTime(schedule.publishAt, "Publish time", errors);
+  const unpublishAt = parseScheduleTime(
+    schedule.unpublishAt,
+    "Unpublish time",
+    errors
+  );
+  const now = new Date();
+  if (publishAt && publishAt <= now) {
+    errors.push("Publish time must be in the future");
+  }
+  if (unpublishAt && unpublishAt <= now) {
+    errors.push("Unpublish time must be in the future");
+  }
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    errors.push("Unpublish time must be after the publish time");
+  }
+  if (errors.length) {
+    throw new ProjectValidationError(errors);
+  }
+
+  return runWithTransaction(async (session) => {
+    const project = await ProjectModel.findOne({
+      _id: projectId,
+      deletedAt: null
+    })
+      .session(session)
+      .exec();
+
+    if (!project) {
+      return null;
+    }
+
+    if (unpublishAt && !publishAt && project.status !== "published") {
+      throw new ProjectValidationError([
+        "Only published projects can be scheduled for unpublishing without a publish time"
+      ]);
+    }
+
+    const setUpdate: Record<string, unknown> = {};
+    const unsetUpdate: Record<string, 1> = {};
+    if (publishAt) {
+      setUpdate.scheduledPublishAt = publishAt;
+    } else {
+      unsetUpdate.scheduledPublishAt = 1;
+    }
+    if (unpublishAt) {
+      setUpdate.scheduledUnpublishAt = unpublishAt;
+    } else {
+      unsetUpdate.scheduledUnpublishAt = 1;
+    }
+    if (publishAt || unpublishAt) {
+      setUpdate.scheduledBy = actorId;
+    } else {
+      unsetUpdate.scheduledBy = 1;
+    }
+
+    // Scheduling leaves content untouched, so the revision stays put and open
+    // editors keep saving without a conflict.
+    const updated = await ProjectModel.findOneAndUpdate(
+      { _id: project._id },
+      { $set: setUpdate, $unset: unsetUpdate },
+      { new: true, session }
+    );
+
+    if (!updated) {
+      return null;
+    }
+
+    const summary = [
+      publishAt
+        ? `Publish scheduled for ${formatScheduleTime(publishAt)}`
+        : project.scheduledPublishAt
+          ? "Scheduled publish cleared"
+          : null,
+      unpublishAt
+        ? `Unpublish scheduled for ${formatScheduleTime(unpublishAt)}`
+        : project.scheduledUnpublishAt
+          ? "Scheduled unpublish cleared"
+          : null
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+    await createHistoryEntry(project._id, "schedule-updated", session, actorId, {
+      summary: summary || "Schedule cleared"
+    });
+
+    return projectDocToAdminResponse(updated);
+  });
+};
+
+/**
+ * Adds a project to the end of the homepage hero rotation or takes it out.
+ * Drafts can be featured ahead of time; only published ones are shown.
+ */
+export const setAdminProjectFeatured = async (
+  projectId: string,
+  isFeatured: boolean,
+  actor: string
+) => {
+  const actorId = toActorId(actor);
+  return runWithTransaction(async (session) => {
+    const project = await ProjectModel.findOne({
+      _id: projectId,
+      deletedAt: null
+    })
+      .session(session)
+      .exec();
+
+    if (!project) {
+      return null;
+    }
+    if (Boolean(project.isFeatured) === isFeatured) {
+      return projectDocToAdminResponse(project);
+    }
+
+    let featuredOrder: number | undefined;
+    if (isFeatured) {
+      const last = (await ProjectModel.findOne(
+        { isFeatured: true, deletedAt: null },
+        { featuredOrder: 1 }
+      )
+        .sort({ featuredOrder: -1 })
+        .session(session)
+        .lean()) as unknown as { featuredOrder?: number } | null;
+      featuredOrder = (last?.featuredOrder ?? -1) + 1;
+    }
+
+    // Like scheduling, featuring leaves the revision alone so open editors
+    // keep saving without a conflict.
+    const updated = await ProjectModel.findOneAndUpdate(
+      { _id: project._id },
+      isFeatured
+        ? { $set: { isFeatured: true, featuredOrder } }
+        : { $set: { isFeatured: false }, $unset: { featuredOrder: 1 } },
+      { new: true, session }
+    );
+
+    if (!updated) {
+      return null;
+    }
+
+    await syncPublishedFeatured([updated], session);
+    await createHistoryEntry(project._id, "featured-updated", session, actorId, {
+      summary: isFeatured
+        ? "Featured on the homepage"
+        : "Removed from the homepage"
+    });
+
+    return projectDocToAdminResponse(updated);
+  });
+};
+
+/**
+ * Stores a new hero rotation order. `projectIds` must list exactly the
+ * currently featured projects, so a stale list from another tab is rejected
+ * rather than silently dropping or re-adding projects.
+ */
+export const reorderFeaturedProjects = async (projectIds: string[]) => {
+  const ids = uniqueStrings(projectIds);
+  if (
+    ids.length !== projectIds.length ||
+    ids.some((id) => !Types.ObjectId.isValid(id))
+  ) {
+    throw new ProjectValidationError(["Featured order contains invalid ids"]);
+  }
+
+  return runWithTransaction(async (session) => {
+    const featured = (await ProjectModel.find(
+      { isFeatured: true, deletedAt: null },
+      { _id: 1 }
+    )
+      .session(session)
+      .lean()) as unknown as Array<{ _id: Types.ObjectId }>;
+    const featuredIds = new Set(featured.map((doc) => doc._id.toString()));
+    if (
+      featuredIds.size !== ids.length ||
+      ids.some((id) => !featuredIds.has(id))
+    ) {
+      throw new ProjectValidationError([
+        "The featured projects changed; reload and try again"
+      ]);
+    }
+
+    const ordered = ids.map((id, index) => ({
+      _id: new Types.ObjectId(id),
+      isFeatured: true,
+      featuredOrder: index
+    }));
+    await ProjectModel.bulkWrite(
+      ordered.map((project) => ({
+        updateOne: {
+          filter: { _id: project._id },
+          update: { $set: { featuredOrder: project.featuredOrder } }
+        }
+      })),
+      { session }
+    );
+    await syncPublishedFeatured(ordered, session);
+
+    return ordered.map((project) => ({
+      id: project._id.toString(),
+      featuredOrder: project.featuredOrder
+    }));
+  });
+};
+
+/**
+ * Drops a scheduled job that could not run (for example a publish blocked by
+ * missing media) so the runner does not retry it forever, and leaves a
+ * history entry explaining why.
+ */
+export const recordScheduleFailure = async (
+  projectId: string,
+  job: "publish" | "unpublish",
+  reason: string,
+  actor?: string | null
+) => {
+  const actorId = toActorId(actor);
+  const field = job === "publish" ? "scheduledPublishAt" : "scheduledUnpublishAt";
+  await runWithTransaction(async (session) => {
+    const project = await ProjectModel.findOneAndUpdate(
+      { _id: projectId },
+      { $unset: { [field]: 1 } },
+      { session }
+    );
+    if (!project) {
+      return;
+    }
+    await createHistoryEntry(project._id, "schedule-failed", session, actorId, {
+      fromStatus: project.status,
+      toStatus: project.status,
+      summary: `Scheduled ${job} failed: ${reason}`
+    });
+  });
+};
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getTrashRetentionDays = () => {
+  const parsed = Number.parseInt(process.env.TRASH_RETENTION_DAYS ?? "", 10);
+  return Number.isInteger(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const fetchTrashedProjects = async (): Promise<AdminTrashedProject[]> => {
+  await connectToDatabase();
+  const docs = (await ProjectModel.find({ deletedAt: { $ne: null } })
+    .sort({ deletedAt: -1 })
+    .lean()
+    .exec()) as unknown as ProjectLike[];
+
+  const deleterIds = Array.from(
+    new Set(
+      docs
+        .map((doc) => doc.updatedBy?.toString())
+        .filter((value): value is string => Boolean(value))
+    )
+  );
+  const deleters = deleterIds.length
+    ? await UserModel.find(
+        { _id: { $in: deleterIds.map((id) => new Types.ObjectId(id)) } },
+        { fullName: 1 }
+      )
+        .lean()
+        .exec()
+    : [];
+  const deleterNames = new Map(
+    deleters.map((user) => [
+      (user._id as Types.ObjectId).toString(),
+      user.fullName as string
+    ])
+  );
+  const retentionMs = getTrashRetentionDays() * DAY_MS;
+
+  return docs.map((doc) => {
+    const project = projectDocToAdminResponse(doc);
+    const deletedAt = new Date(doc.deletedAt as Date);
+    return {
+      id: project.id,
+      title: project.title,
+      slug: project.slug,
+      category: project.category,
+      heroImage: project.heroImage,
+      revision: project.revision,
+      deletedAt: deletedAt.toISOString(),
+      deletedBy: doc.updatedBy
+        ? deleterNames.get(doc.updatedBy.toString())
+        : undefined,
+      purgeAt: new Date(deletedAt.getTime() + retentionMs).toISOString()
+    };
+  });
+};
+
+export const restoreTrashedProject = async (
+  projectId: string,
+  actor: string
+) => {
+  await connectToDatabase();
+  const snapshot = (await ProjectVersionModel.findOne({ projectId })
+    .sort({ version: -1 })
+    .lean()
+    .exec()) as unknown as { version: number; payload: ProjectLike } | null;
+
+  if (!snapshot) {
+    return null;
+  }
+
+  const { payload, droppedCount } = await snapshotToAdminPayload(
+    snapshot.payload
+  );
+
+  const summary = droppedCount
+    ? `Restored from trash using version ${snapshot.version} (${droppedCount} missing image${
+        droppedCount === 1 ? "" : "s"
+      } skipped)`
+    : `Restored from trash using version ${snapshot.version}`;
+
+  return persistProjectFromPayload(projectId, payload, "draft", actor, {
+    action: "restored",
+    versionSource: "restore",
+    restoreFromTrash: true,
+    summary
+  });
+};
+
+// Purging removes the project and its snapshots for good. History entries are
+// kept for the activity feed; media is released afterwards and
+// deleteMediaAssetsByIds skips anything another project still references.
+export const purgeTrashedProject = async (projectId: string, actor: string) => {
+  const actorId = toActorId(actor);
+  const result = await runWithTransaction(async (session) => {
+    const project = await ProjectModel.findOne({
+      _id: projectId,
+      deletedAt: { $ne: null }
+    })
+      .session(session)
+      .exec();
+
+    if (!project) {
+      return null;
+    }
+
+    const collected = collectProjectAssetIds(project);
+    const uploads = await MediaAssetModel.find(
+      { projectId: project._id },
+      { _id: 1 }
+    )
+      .session(session)
+      .lean()
+      .exec();
+
+    await ProjectVersionModel.deleteMany({ projectId: project._id }).session(
+      session
+    );
+    await ProjectCommentModel.deleteMany({ projectId: project._id }).session(
+      session
+    );
+    await ProjectModel.deleteOne({ _id: project._id }).session(session);
+
+    await createHistoryEntry(project._id, "purged", session, actorId, {
+      fromStatus: "archived",
+      summary: `Permanently deleted "${project.title}"`
+    });
+
+    return {
+      project: projectDocToAdminResponse(project),
+      assetIds: uniqueStrings([
+        ...(collected.hero ? [collected.hero] : []),
+        ...(collected.ogImage ? [collected.ogImage] : []),
+        ...collected.gallery,
+        ...uploads.map((asset) => (asset._id as Types.ObjectId).toString())
+      ])
+    };
+  });
+
+  if (!result) {
+    return null;
+  }
+
+  if (result.assetIds.length) {
+    await deleteMediaAssetsByIds(result.assetIds).catch((error) => {
       console.error("[media] Failed to delete assets", error);
     });
   }
 
-  return response;
+  return result.project;
+};
+
+export const purgeExpiredTrash = async (now = new Date()) => {
+  await connectToDatabase();
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+  const expired = await ProjectModel.find(
+    { deletedAt: { $ne: null, $lte: cutoff } },
+    { _id: 1 }
+  )
+    .lean()
+    .exec();
+
+  const purged: string[] = [];
+  for (const doc of expired) {
+    const projectId = (doc._id as Types.ObjectId).toString();
+    try {
+      const project = await purgeTrashedProject(
+        projectId,
+        SYSTEM_USER_ID.toString()
+      );
+      if (project) {
+        purged.push(projectId);
+      }
+    } catch (error) {
+      console.error(`[trash] Failed to purge project ${projectId}`, error);
+    }
+  }
+  return purged;
 };
 
@@ -0,0 +1,92 @@
+import type { Types } from "mongoose";
+
+import { connectToDatabase } from "@/lib/db/connection";
+import { ProjectModel } from "@/lib/models/project";
+import {
+  SYSTEM_USER_ID,
+  fetchAdminProject,
+  publishAdminProject,
+  recordScheduleFailure,
+  unpublishAdminProject
+} from "@/lib/server/admin/projectService";
+
+type ScheduledJob = "publish" | "unpublish";
+
+export type ScheduledJobResult = {
+  projectId: string;
+  job: ScheduledJob;
+  ok: boolean;
+  slug?: string;
+  error?: string;
+};
+
+type DueProject = {
+  _id: Types.ObjectId;
+  scheduledBy?: Types.ObjectId | null;
+};
+
+const findDueProjects = async (
+  field: "scheduledPublishAt" | "scheduledUnpublishAt",
+  now: Date
+) => {
+  const docs = await ProjectModel.find(
+    { deletedAt: null, [field]: { $lte: now } },
+    { _id: 1, scheduledBy: 1 }
+  )
+    .sort({ [field]: 1 })
+    .lean()
+    .exec();
+  return docs as unknown as DueProject[];
+};
+
+const runJob = async (
+  doc: DueProject,
+  job: ScheduledJob
+): Promise<ScheduledJobResult> => {
+  const projectId = doc._id.toString();
+  // Jobs run on behalf of whoever set the schedule, falling back to System.
+  const actor = (doc.scheduledBy ?? SYSTEM_USER_ID).toString();
+  try {
+    const current = await fetchAdminProject(projectId);
+    if (!current) {
+      throw new Error("Project not found");
+    }
+    const project =
+      job === "publish"
+        ? await publishAdminProject(projectId, current, actor, {
+            scheduled: true
+          })
+        : await unpublishAdminProject(projectId, current, actor, {
+            scheduled: true
+          });
+    return { projectId, job, ok: true, slug: project.slug };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[schedule] Scheduled ${job} failed for ${projectId}`, error);
+    await recordScheduleFailure(projectId, job, message, actor).catch(
+      (recordError) => {
+        console.error("[schedule] Failed to record schedule failure", recordError);
+      }
+    );
+    return { projectId, job, ok: false, error: message };
+  }
+};
+
+/**
+ * Publishes and unpublishes every project whose scheduled time has passed.
+ * Publishes run first so a project with both times in the past ends up
+ * unpublished. Safe to call repeatedly: each job clears its own schedule.
+ */
+export const runScheduledProjectJobs = async (now = new Date()) => {
+  await connectToDatabase();
+  const results: ScheduledJobResult[] = [];
+
+  for (const doc of await findDueProjects("scheduledPublishAt", now)) {
+    results.push(await runJob(doc, "publish"));
+  }
+  for (const doc of await findDueProjects("scheduledUnpublishAt", now)) {
+    results.push(await runJob(doc, "unpublish"));
+  }
+
+  return results;
+};
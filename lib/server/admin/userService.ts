@@ -0,0 +1,385 @@
+import { Types } from "mongoose";
+
+import { isAllowedAdminEmail } from "@/lib/auth/allowlist";
+import { isAdminRole } from "@/lib/auth/permissions";
+import { connectToDatabase } from "@/lib/db/connection";
+import { UserModel } from "@/lib/models/user";
+import { escapeHtml, getSiteUrl, sendEmail } from "@/lib/server/email";
+import type {
+  AdminMentionableUser,
+  AdminUserInvitePayload,
+  AdminUserStatus,
+  AdminUserSummary,
+  AdminUserUpdatePayload
+} from "@/lib/types/admin";
+
+const EMAIL_COLLATION = { locale: "en", strength: 2 };
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+$/;
+
+class UserValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserValidationError";
+  }
+}
+
+class UserConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserConflictError";
+  }
+}
+
+type UserLike = {
+  _id: Types.ObjectId;
+  email: string;
+  fullName: string;
+  role: string;
+  status?: string | null;
+  invitedAt?: Date | null;
+  lastLoginAt?: Date | null;
+  createdAt?: Date | null;
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const fallbackNameFromEmail = (email: string) => email.split("@")[0] || email;
+
+const toIsoString = (value?: Date | null) =>
+  value ? new Date(value).toISOString() : undefined;
+
+const userDocToSummary = (doc: UserLike): AdminUserSummary => ({
+  id: doc._id.toString(),
+  email: doc.email,
+  fullName: doc.fullName,
+  role: isAdminRole(doc.role) ? doc.role : "viewer",
+  status: (doc.status ?? "active") as AdminUserStatus,
+  invitedAt: toIsoString(doc.invitedAt),
+  lastLoginAt: toIsoString(doc.lastLoginAt),
+  createdAt: toIsoString(doc.createdAt) ?? new Date(0).toISOString()
+});
+
+const findUserByEmail = (email: string) =>
+  UserModel.findOne({ email: normalizeEmail(email) })
+    .collation(EMAIL_COLLATION)
+    .exec();
+
+/**
+ * Google accounts may sign in when an admin invited them or when they are
+ * listed in ADMIN_ALLOWED_EMAILS, which only exists to seed the first admin.
+ * A disabled record always wins over the allowlist.
+ */
+export const isAdminSignInAllowed = async (email?: string | null) => {
+  if (!email) {
+    return false;
+  }
+  await connectToDatabase();
+  const existing = await findUserByEmail(email);
+  if (existing) {
+    return existing.status !== "disabled";
+  }
+  return isAllowedAdminEmail(email);
+};
+
+/**
+ * Links a Google account to its User document and returns the id, or null
+ * when the account was never invited. `recordLogin` marks an interactive
+ * sign-in (as opposed to resolving an older session token): it refreshes the
+ * profile name and lastLoginAt and accepts a pending invitation.
+ */
+export const syncUserFromProfile = async ({
+  email,
+  name,
+  recordLogin
+}: {
+  email: string;
+  name?: string | null;
+  recordLogin: boolean;
+}) => {
+  await connectToDatabase();
+  const normalizedEmail = normalizeEmail(email);
+  const fullName = name?.trim() || fallbackNameFromEmail(normalizedEmail);
+  const existing = await findUserByEmail(normalizedEmail);
+
+  if (existing) {
+    if (existing.status === "disabled") {
+      return null;
+    }
+    if (recordLogin) {
+      existing.fullName = fullName;
+      existing.lastLoginAt = new Date();
+      existing.status = "active";
+      await existing.save();
+    }
+    return existing._id.toString();
+  }
+
+  if (!isAllowedAdminEmail(normalizedEmail)) {
+    return null;
+  }
+
+  const seeded = await UserModel.findOneAndUpdate(
+    { email: normalizedEmail },
+    {
+      $setOnInsert: {
+        email: normalizedEmail,
+        fullName,
+        role: "admin",
+        status: "active",
+        ...(recordLogin ? { lastLoginAt: new Date() } : {})
+      }
+    },
+    {
+      upsert: true,
+      new: true,
+      setDefaultsOnInsert: true,
+      collation: EMAIL_COLLATION
+    }
+  ).exec();
+
+  return seeded._id.toString();
+};
+
+export const findAdminUserById = async (userId: string) => {
+  if (!Types.ObjectId.isValid(userId)) {
+    return null;
+  }
+  await connectToDatabase();
+  const user = await UserModel.findById(userId, { role: 1, status: 1 })
+    .lean()
+    .exec();
+  return user as { role: string; status: string } | null;
+};
+
+export const fetchAdminUsers = async () => {
+  await connectToDatabase();
+  const docs = await UserModel.find().sort({ status: 1, email: 1 }).lean();
+  return docs.map((doc) => userDocToSummary(doc as unknown as UserLike));
+};
+
+const mentionHandleParts = (email: string) => {
+  const [local, domain = ""] = normalizeEmail(email).split("@");
+  return { local, domainLabel: domain.split(".")[0] };
+};
+
+/**
+ * Handles are the email local part. When two accounts share one
+ * (jane@studio.com, jane@gmail.com) the older account keeps the bare handle
+ * and later ones get their domain appended, then a counter, so every handle
+ * resolves to exactly one user and adding a user never renames another.
+ */
+export const assignMentionHandles = (
+  users: Array<{ id: string; email: string }>
+) => {
+  const taken = new Set<string>();
+  const handles = new Map<string, string>();
+  users.forEach((user) => {
+    const { local, domainLabel } = mentionHandleParts(user.email);
+    const base = taken.has(local) && domainLabel ? `${local}.${domainLabel}` : local;
+    let handle = base;
+    for (let suffix = 2; taken.has(handle); suffix += 1) {
+      handle = `${base}${suffix}`;
+    }
+    taken.add(handle);
+    handles.set(user.id, handle);
+  });
+  return handles;
+};
+
+// Anyone who can sign in can be mentioned. Disabled accounts still take part
+// in handle assignment so re-enabling one doesn't shift anyone's handle.
+export const fetchMentionableUsers = async (): Promise<AdminMentionableUser[]> => {
+  await connectToDatabase();
+  const docs = (await UserModel.find({}, { email: 1, fullName: 1, status: 1 })
+    .sort({ _id: 1 })
+    .lean()
+    .exec()) as unknown as Array<
+    Pick<UserLike, "_id" | "email" | "fullName" | "status">
+  >;
+  const handles = assignMentionHandles(
+    docs.map((doc) => ({ id: doc._id.toString(), email: doc.email }))
+  );
+  return docs
+    .filter((doc) => doc.status !== "disabled")
+    .map((doc) => ({
+      id: doc._id.toString(),
+      name: doc.fullName,
+      handle: handles.get(doc._id.toString()) ?? mentionHandleParts(doc.email).local
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const sendInvitationEmail = async (
+  user: { email: string; role: string },
+  inviterName: string
+) => {
+  const signInUrl = `${getSiteUrl()}/admin/sign-in`;
+  await sendEmail({
+    to: user.email,
+    subject: "You're invited to the MOR Architecture admin",
+    text: [
+      `${inviterName} invited you to the MOR Architecture admin as ${user.role}.`,
+      `Sign in with the Google account for ${user.email}: ${signInUrl}`
+    ].join("\n\n"),
+    html: [
+      `<p>${escapeHtml(inviterName)} invited you to the MOR Architecture admin as <strong>${escapeHtml(user.role)}</strong>.</p>`,
+      `<p>Sign in with the Google account for ${escapeHtml(user.email)}:</p>`,
+      `<p><a href="${signInUrl}">${signInUrl}</a></p>`
+    ].join("")
+  });
+};
+
+// The invitation is stored before the email goes out, so a delivery failure
+// only needs a resend rather than a second invite.
+const trySendInvitation = async (
+  user: { email: string; role: string },
+  inviterName: string
+) => {
+  try {
+    await sendInvitationEmail(user, inviterName);
+    return true;
+  } catch (error) {
+    console.error("[users] Failed to send invitation", error);
+    return false;
+  }
+};
+
+export const inviteAdminUser = async (
+  payload: AdminUserInvitePayload,
+  inviter: { id: string; name: string }
+) => {
+  const email = normalizeEmail(payload.email ?? "");
+  if (!EMAIL_PATTERN.test(email) || email.length > 320) {
+    throw new UserValidationError("A valid email address is required");
+  }
+  if (!isAdminRole(payload.role)) {
+    throw new UserValidationError("Role must be admin, editor or viewer");
+  }
+  const fullName = payload.fullName?.trim() || fallbackNameFromEmail(email);
+  if (fullName.length > 160) {
+    throw new UserValidationError("Name max length is 160 characters");
+  }
+
+  await connectToDatabase();
+  if (await findUserByEmail(email)) {
+    throw new UserConflictError(`${email} already has an account`);
+  }
+
+  const user = await UserModel.create({
+    email,
+    fullName,
+    role: payload.role,
+    status: "invited",
+    invitedAt: new Date(),
+    invitedBy: Types.ObjectId.isValid(inviter.id)
+      ? new Types.ObjectId(inviter.id)
+      : undefined
+  });
+
+  const emailSent = await trySendInvitation(user, inviter.name);
+  return { user: userDocToSummary(user as unknown as UserLike), emailSent };
+};
+
+export const resendAdminInvitation = async (
+  userId: string,
+  inviter: { name: string }
+) => {
+  await connectToDatabase();
+  const user = Types.ObjectId.isValid(userId)
+    ? await UserModel.findById(userId).exec()
+    : null;
+  if (!user) {
+    return null;
+  }
+  if (user.status !== "invited") {
+    throw new UserValidationError("Only pending invitations can be resent");
+  }
+  user.invitedAt = new Date();
+  await user.save();
+
+  const emailSent = await trySendInvitation(user, inviter.name);
+  return { user: userDocToSummary(user as unknown as UserLike), emailSent };
+};
+
+const countOtherActiveAdmins = (userId: Types.ObjectId) =>
+  UserModel.countDocuments({
+    _id: { $ne: userId },
+    role: "admin",
+    status: "active"
+  });
+
+export const updateAdminUser = async (
+  userId: string,
+  payload: AdminUserUpdatePayload,
+  actorId: string
+) => {
+  if (payload.role !== undefined && !isAdminRole(payload.role)) {
+    throw new UserValidationError("Role must be admin, editor or viewer");
+  }
+  if (
+    payload.status !== undefined &&
+    payload.status !== "active" &&
+    payload.status !== "disabled"
+  ) {
+    throw new UserValidationError("Status must be active or disabled");
+  }
+
+  await connectToDatabase();
+  const user = Types.ObjectId.isValid(userId)
+    ? await UserModel.findById(userId).exec()
+    : null;
+  if (!user) {
+    return null;
+  }
+
+  const isSelf = user._id.toString() === actorId;
+  const roleChanges = payload.role !== undefined && payload.role !== user.role;
+  const disabling = payload.status === "disabled" && user.status !== "disabled";
+
+  if (isSelf && (roleChanges || disabling)) {
+    throw new UserValidationError(
+      "You cannot change your own role or disable your own account"
+    );
+  }
+
+  if (
+    user.role === "admin" &&
+    user.status === "active" &&
+    (roleChanges || disabling) &&
+    (await countOtherActiveAdmins(user._id)) === 0
+  ) {
+    throw new UserValidationError("At least one active admin is required");
+  }
+
+  if (payload.role !== undefined) {
+    user.role = payload.role;
+  }
+  if (payload.status === "disabled") {
+    user.status = "disabled";
+  } else if (payload.status === "active" && user.status === "disabled") {
+    // Re-enabled accounts that never signed in go back to a pending invite.
+    user.status = user.lastLoginAt ? "active" : "invited";
+  }
+  await user.save();
+
+  return userDocToSummary(user as unknown as UserLike);
+};
+
+export const deleteAdminUser = async (userId: string) => {
+  await connectToDatabase();
+  const user = Types.ObjectId.isValid(userId)
+    ? await UserModel.findById(userId).exec()
+    : null;
+  if (!user) {
+    return null;
+  }
+  // Accounts that signed in are referenced from history and versions, so only
+  // pending invitations can be revoked outright.
+  if (user.status !== "invited") {
+    throw new UserValidationError(
+      "Only pending invitations can be revoked; disable the account instead"
+    );
+  }
+  await UserModel.deleteOne({ _id: user._id });
+  return userDocToSummary(user as unknown as UserLike);
+};
@@ -0,0 +1,484 @@
+import { createHmac, randomBytes } from "crypto";
+import { Types, type ClientSession } from "mongoose";
+
+import { connectToDatabase } from "@/lib/db/connection";
+import { WebhookDeliveryModel } from "@/lib/models/webhookDelivery";
+import {
+  WEBHOOK_EVENTS,
+  WebhookSubscriptionModel
+} from "@/lib/models/webhookSubscription";
+import {
+  assertPublicDestination,
+  assertPublicHttpsUrl
+} from "@/lib/server/outboundUrl";
+import type {
+  AdminWebhook,
+  AdminWebhookDelivery,
+  AdminWebhookDeliveryStatus,
+  AdminWebhookEvent,
+  AdminWebhookPayload,
+  AdminWebhookWithSecret
+} from "@/lib/types/admin";
+
+// Delay before each retry; a delivery fails for good once these run out.
+const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  6 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000
+];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery is hidden from other runners for this long, so the
+// immediate attempt and the cron never POST the same event twice at once.
+const CLAIM_TIMEOUT_MS = 60 * 1000;
+const DUE_BATCH_SIZE = 50;
+const DELIVERY_LOG_LIMIT = 50;
+const NAME_MAX_LENGTH = 120;
+
+class WebhookValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookValidationError";
+  }
+}
+
+type SubscriptionLike = {
+  _id: Types.ObjectId;
+  name: string;
+  url: string;
+  secret: string;
+  events?: AdminWebhookEvent[];
+  active?: boolean;
+  createdAt?: Date | null;
+};
+
+type DeliveryAttemptLike = {
+  at: Date;
+  responseStatus?: number | null;
+  error?: string | null;
+  durationMs?: number | null;
+};
+
+type DeliveryLike = {
+  _id: Types.ObjectId;
+  subscriptionId: Types.ObjectId;
+  event: AdminWebhookEvent;
+  projectId: Types.ObjectId;
+  payload: Record<string, unknown>;
+  status: AdminWebhookDeliveryStatus;
+  attempts?: DeliveryAttemptLike[];
+  nextAttemptAt?: Date | null;
+  deliveredAt?: Date | null;
+  createdAt: Date;
+};
+
+const toIsoString = (value?: Date | null) =>
+  value ? new Date(value).toISOString() : undefined;
+
+const generateSecret = () => `whsec_${randomBytes(24).toString("hex")}`;
+
+const subscriptionToAdmin = (doc: SubscriptionLike): AdminWebhook => ({
+  id: doc._id.toString(),
+  name: doc.name,
+  url: doc.url,
+  events: doc.events ?? [],
+  active: doc.active !== false,
+  createdAt: toIsoString(doc.createdAt) ?? new Date(0).toISOString()
+});
+
+const deliveryToAdmin = (
+  doc: DeliveryLike,
+  projectSlug?: string
+): AdminWebhookDelivery => ({
+  id: doc._id.toString(),
+  event: doc.event,
+  projectSlug,
+  status: doc.status,
+  attempts: (doc.attempts ?? []).map((attempt) => ({
+    at: new Date(attempt.at).toISOString(),
+    responseStatus: attempt.responseStatus ?? undefined,
+    error: attempt.error ?? undefined,
+    durationMs: attempt.durationMs ?? undefined
+  })),
+  nextAttemptAt:
+    doc.status === "pending" ? toIsoString(doc.nextAttemptAt) : undefined,
+  deliveredAt: toIsoString(doc.deliveredAt),
+  createdAt: new Date(doc.createdAt).toISOString()
+});
+
+const payloadSlug = (doc: DeliveryLike) =>
+  typeof doc.payload?.slug === "string" ? doc.payload.slug : undefined;
+
+const normalizeName = (name: unknown) => {
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (!trimmed) {
+    throw new WebhookValidationError("Name is required");
+  }
+  if (trimmed.length > NAME_MAX_LENGTH) {
+    throw new WebhookValidationError(
+      `Name max length is ${NAME_MAX_LENGTH} characters`
+    );
+  }
+  return trimmed;
+};
+
+const normalizeUrl = (url: unknown) => {
+  const trimmed = typeof url === "string" ? url.trim() : "";
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    throw new WebhookValidationError("A valid URL is required");
+  }
+  try {
+    assertPublicHttpsUrl(parsed);
+  } catch (error) {
+    throw new WebhookValidationError(
+      `Webhook ${error instanceof Error ? error.message : "URL is not allowed"}`
+    );
+  }
+  return parsed.toString();
+};
+
+const normalizeEvents = (events: unknown) => {
+  const list = Array.isArray(events) ? events : [];
+  const valid = WEBHOOK_EVENTS.filter((event) => list.includes(event));
+  if (!valid.length) {
+    throw new WebhookValidationError("Select at least one event");
+  }
+  return valid;
+};
+
+const findSubscription = async (webhookId: string) =>
+  Types.ObjectId.isValid(webhookId)
+    ? ((await WebhookSubscriptionModel.findById(webhookId)
+        .lean()
+        .exec()) as unknown as SubscriptionLike | null)
+    : null;
+
+export const fetchWebhooks = async (): Promise<AdminWebhook[]> => {
+  await connectToDatabase();
+  const docs = (await WebhookSubscriptionModel.find()
+    .sort({ createdAt: 1 })
+    .lean()
+    .exec()) as unknown as SubscriptionLike[];
+  return docs.map(subscriptionToAdmin);
+};
+
+export const createWebhook = async (
+  payload: AdminWebhookPayload,
+  actorId: string
+): Promise<AdminWebhookWithSecret> => {
+  const name = normalizeName(payload.name);
+  const url = normalizeUrl(payload.url);
+  const events = normalizeEvents(payload.events);
+  await connectToDatabase();
+  const doc = await WebhookSubscriptionModel.create({
+    name,
+    url,
+    events,
+    secret: generateSecret(),
+    active: payload.active !== false,
+    createdBy: Types.ObjectId.isValid(actorId)
+      ? new Types.ObjectId(actorId)
+      : undefined
+  });
+  const subscription = doc.toObject() as unknown as SubscriptionLike;
+  return { ...subscriptionToAdmin(subscription), secret: subscription.secret };
+};
+
+/**
+ * Partial update. `rotateSecret` issues a new signing secret, which is only
+ * returned from this call.
+ */
+export const updateWebhook = async (
+  webhookId: string,
+  payload: Partial<AdminWebhookPayload> & { rotateSecret?: boolean }
+): Promise<AdminWebhook | AdminWebhookWithSecret | null> => {
+  const set: Record<string, unknown> = {};
+  if (payload.name !== undefined) set.name = normalizeName(payload.name);
+  if (payload.url !== undefined) set.url = normalizeUrl(payload.url);
+  if (payload.events !== undefined) set.events = normalizeEvents(payload.events);
+  if (typeof payload.active === "boolean") set.active = payload.active;
+  if (payload.rotateSecret) set.secret = generateSecret();
+  if (!Object.keys(set).length) {
+    throw new WebhookValidationError("Nothing to update");
+  }
+
+  await connectToDatabase();
+  if (!Types.ObjectId.isValid(webhookId)) {
+    return null;
+  }
+  const doc = (await WebhookSubscriptionModel.findByIdAndUpdate(
+    webhookId,
+    { $set: set },
+    { new: true, runValidators: true }
+  )
+    .lean()
+    .exec()) as unknown as SubscriptionLike | null;
+  if (!doc) {
+    return null;
+  }
+  return payload.rotateSecret
+    ? { ...subscriptionToAdmin(doc), secret: doc.secret }
+    : subscriptionToAdmin(doc);
+};
+
+export const deleteWebhook = async (webhookId: string) => {
+  await connectToDatabase();
+  const doc = await findSubscription(webhookId);
+  if (!doc) {
+    return null;
+  }
+  await WebhookSubscriptionModel.deleteOne({ _id: doc._id });
+  await WebhookDeliveryModel.deleteMany({ subscriptionId: doc._id });
+  return subscriptionToAdmin(doc);
+};
+
+export const fetchWebhookDeliveries = async (webhookId: string) => {
+  await connectToDatabase();
+  const subscription = await findSubscription(webhookId);
+  if (!subscription) {
+    return null;
+  }
+  const docs = (await WebhookDeliveryModel.find({
+    subscriptionId: subscription._id
+  })
+    .sort({ createdAt: -1 })
+    .limit(DELIVERY_LOG_LIMIT)
+    .lean()
+    .exec()) as unknown as DeliveryLike[];
+  return docs.map((doc) => deliveryToAdmin(doc, payloadSlug(doc)));
+};
+
+/**
+ * Writes one outbox entry per active subscription for the event. Must be
+ * called inside the transaction that made the change, so the event is stored
+ * exactly when the change commits. Returns the ids to attempt after commit.
+ */
+export const enqueueWebhookEvent = async (
+  event: AdminWebhookEvent,
+  projectId: Types.ObjectId,
+  payload: Record<string, unknown>,
+  session: ClientSession
+) => {
+  const subscriptions = (await WebhookSubscriptionModel.find(
+    { active: true, events: event },
+    { _id: 1 }
+  )
+    .session(session)
+    .lean()
+    .exec()) as unknown as Array<{ _id: Types.ObjectId }>;
+  if (!subscriptions.length) {
+    return [];
+  }
+  const now = new Date();
+  const docs = await WebhookDeliveryModel.insertMany(
+    subscriptions.map((subscription) => ({
+      subscriptionId: subscription._id,
+      event,
+      projectId,
+      payload,
+      status: "pending",
+      nextAttemptAt: now
+    })),
+    { session }
+  );
+  return docs.map((doc) => doc._id.toString());
+};
+
+export const signWebhookBody = (
+  secret: string,
+  timestamp: string,
+  body: string
+) => createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+const claimDelivery = async (deliveryId: Types.ObjectId | string, now: Date) =>
+  (await WebhookDeliveryModel.findOneAndUpdate(
+    { _id: deliveryId, status: "pending", nextAttemptAt: { $lte: now } },
+    { $set: { nextAttemptAt: new Date(now.getTime() + CLAIM_TIMEOUT_MS) } },
+    { new: true }
+  )
+    .lean()
+    .exec()) as unknown as DeliveryLike | null;
+
+const postDelivery = async (
+  delivery: DeliveryLike,
+  subscription: SubscriptionLike
+): Promise<DeliveryAttemptLike & { ok: boolean }> => {
+  const at = new Date();
+  const timestamp = Math.floor(at.getTime() / 1000).toString();
+  const body = JSON.stringify({
+    id: delivery._id.toString(),
+    event: delivery.event,
+    occurredAt: new Date(delivery.createdAt).toISOString(),
+    data: delivery.payload
+  });
+  try {
+    // Resolved per attempt so a saved hostname can't later be pointed at
+    // the internal network. Redirects are not followed for the same reason.
+    await assertPublicDestination(subscription.url);
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "MOR-Architecture-Webhooks/1.0",
+        "X-Webhook-Id": delivery._id.toString(),
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": `sha256=${signWebhookBody(
+          subscription.secret,
+          timestamp,
+          body
+        )}`
+      },
+      body,
+      cache: "no-store",
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    return {
+      ok: response.ok,
+      at,
+      responseStatus: response.status,
+      error: response.ok ? undefined : response.statusText || "Request failed",
+      durationMs: Date.now() - at.getTime()
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      at,
+      error: (error instanceof Error ? error.message : String(error)).slice(
+        0,
+        1000
+      ),
+      durationMs: Date.now() - at.getTime()
+    };
+  }
+};
+
+const attemptDelivery = async (
+  deliveryId: Types.ObjectId | string,
+  now = new Date()
+): Promise<AdminWebhookDeliveryStatus | null> => {
+  const delivery = await claimDelivery(deliveryId, now);
+  if (!delivery) {
+    return null;
+  }
+  const subscription = (await WebhookSubscriptionModel.findById(
+    delivery.subscriptionId
+  )
+    .lean()
+    .exec()) as unknown as SubscriptionLike | null;
+
+  const isActive = Boolean(subscription && subscription.active !== false);
+  const attempt: DeliveryAttemptLike & { ok: boolean } =
+    subscription && isActive
+      ? await postDelivery(delivery, subscription)
+      : { ok: false, at: now, error: "Webhook is disabled or removed" };
+  const attemptCount = (delivery.attempts?.length ?? 0) + 1;
+  const { ok, ...logged } = attempt;
+
+  let status: AdminWebhookDeliveryStatus = "pending";
+  const set: Record<string, unknown> = {};
+  if (ok) {
+    status = "delivered";
+    set.deliveredAt = logged.at;
+  } else if (!isActive || attemptCount >= MAX_ATTEMPTS) {
+    status = "failed";
+  } else {
+    set.nextAttemptAt = new Date(
+      Date.now() + RETRY_DELAYS_MS[attemptCount - 1]
+    );
+  }
+  set.status = status;
+
+  await WebhookDeliveryModel.updateOne(
+    { _id: delivery._id },
+    {
+      $set: set,
+      $push: { attempts: logged },
+      ...(status === "pending" ? {} : { $unset: { nextAttemptAt: 1 } })
+    }
+  );
+  if (!ok) {
+    console.warn(
+      `[webhooks] Delivery ${delivery._id.toString()} attempt ${attemptCount} failed`,
+      logged.error
+    );
+  }
+  return status;
+};
+
+/** Attempts freshly enqueued deliveries right away; the cron retries the rest. */
+export const deliverWebhooks = async (deliveryIds: string[]) => {
+  for (const deliveryId of deliveryIds) {
+    await attemptDelivery(deliveryId).catch((error) => {
+      console.error(`[webhooks] Delivery ${deliveryId} errored`, error);
+    });
+  }
+};
+
+export const runWebhookDeliveries = async (now = new Date()) => {
+  await connectToDatabase();
+  const due = (await WebhookDeliveryModel.find(
+    { status: "pending", nextAttemptAt: { $lte: now } },
+    { _id: 1 }
+  )
+    .sort({ nextAttemptAt: 1 })
+    .limit(DUE_BATCH_SIZE)
+    .lean()
+    .exec()) as unknown as Array<{ _id: Types.ObjectId }>;
+
+  const results: Array<{
+    deliveryId: string;
+    status: AdminWebhookDeliveryStatus | null;
+  }> = [];
+  for (const doc of due) {
+    results.push({
+      deliveryId: doc._id.toString(),
+      status: await attemptDelivery(doc._id, now)
+    });
+  }
+  return results;
+};
+
+/** Puts a failed or pending delivery back in the queue and tries it now. */
+export const retryWebhookDelivery = async (
+  webhookId: string,
+  deliveryId: string
+) => {
+  await connectToDatabase();
+  if (!Types.ObjectId.isValid(webhookId) || !Types.ObjectId.isValid(deliveryId)) {
+    return null;
+  }
+  const reset = await WebhookDeliveryModel.findOneAndUpdate(
+    {
+      _id: deliveryId,
+      subscriptionId: webhookId,
+      status: { $ne: "delivered" }
+    },
+    { $set: { status: "pending", nextAttemptAt: new Date() } }
+  ).exec();
+  if (!reset) {
+    const exists = await WebhookDeliveryModel.exists({
+      _id: deliveryId,
+      subscriptionId: webhookId
+    });
+    if (exists) {
+      throw new WebhookValidationError("Delivery already succeeded");
+    }
+    return null;
+  }
+  await attemptDelivery(deliveryId);
+  const doc = (await WebhookDeliveryModel.findById(deliveryId)
+    .lean()
+    .exec()) as unknown as DeliveryLike | null;
+  if (!doc) {
+    return null;
+  }
+  return deliveryToAdmin(doc, payloadSlug(doc));
+};
@@ -0,0 +1,77 @@
+export type ChallengeVerifier = {
+  name: string;
+  verify: (token: string, remoteIp: string) => Promise<boolean>;
+};
+
+const TURNSTILE_VERIFY_URL =
+  "https://challenges.cloudflare.com/turnstile/v0/siteverify";
+
+export const createTurnstileVerifier = (
+  secretKey: string
+): ChallengeVerifier => ({
+  name: "turnstile",
+  verify: async (token, remoteIp) => {
+    const body = new URLSearchParams({ secret: secretKey, response: token });
+    if (remoteIp !== "unknown") {
+      body.set("remoteip", remoteIp);
+    }
+    const response = await fetch(TURNSTILE_VERIFY_URL, {
+      method: "POST",
+      body,
+      cache: "no-store"
+    });
+    if (!response.ok) {
+      throw new Error(`Turnstile responded with ${response.status}`);
+    }
+    const result = (await response.json()) as { success?: boolean };
+    return result.success === true;
+  }
+});
+
+// Local stand-in for a real provider: every token passes except "fail",
+// which lets the rejection path be exercised without network access.
+export const stubChallengeVerifier: ChallengeVerifier = {
+  name: "stub",
+  verify: async (token) => token !== "fail"
+};
+
+let configuredVerifier: ChallengeVerifier | null | undefined;
+
+const createVerifierFromEnv = (): ChallengeVerifier | null => {
+  const provider = process.env.CHALLENGE_PROVIDER?.trim().toLowerCase();
+  if (provider === "stub") {
+    return stubChallengeVerifier;
+  }
+  const secretKey = process.env.TURNSTILE_SECRET_KEY;
+  if (provider === "turnstile" || (!provider && secretKey)) {
+    if (!secretKey) {
+      throw new Error(
+        "Missing TURNSTILE_SECRET_KEY for CHALLENGE_PROVIDER=turnstile."
+      );
+    }
+    return createTurnstileVerifier(secretKey);
+  }
+  return null;
+};
+
+/**
+ * Replaces the verifier chosen from the environment. Pass null to turn the
+ * challenge off, or undefined to go back to the environment setting.
+ */
+export const setChallengeVerifier = (
+  verifier: ChallengeVerifier | null | undefined
+) => {
+  configuredVerifier = verifier;
+};
+
+/**
+ * The active verifier, or null when no challenge is configured. Set
+ * CHALLENGE_PROVIDER to "turnstile" or "stub"; a TURNSTILE_SECRET_KEY on its
+ * own also enables Turnstile.
+ */
+export const getChallengeVerifier = () => {
+  if (configuredVerifier === undefined) {
+    configuredVerifier = createVerifierFromEnv();
+  }
+  return configuredVerifier;
+};
@@ -0,0 +1,91 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+
+import { Resend } from "resend";
+
+const cachedClient: {
+  instance: Resend | null;
+} = {
+  instance: null
+};
+
+const getResendClient = () => {
+  if (cachedClient.instance) {
+    return cachedClient.instance;
+  }
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    throw new Error("Missing RESEND_API_KEY");
+  }
+  cachedClient.instance = new Resend(apiKey);
+  return cachedClient.instance;
+};
+
+const getSender = () => {
+  const sender = process.env.EMAIL_FROM;
+  if (!sender) {
+    throw new Error("Missing EMAIL_FROM");
+  }
+  return sender;
+};
+
+export const getSiteUrl = () =>
+  (process.env.NEXTAUTH_URL ?? "http://localhost:3000").replace(/\/+$/, "");
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export type EmailMessage = {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html: string;
+  replyTo?: string;
+};
+
+const DEFAULT_EMAIL_LOG_FILE = "logs/email.log";
+
+// EMAIL_TRANSPORT=log appends messages to EMAIL_LOG_FILE instead of calling
+// Resend, so flows that send mail can be exercised offline.
+const usesLogTransport = () => process.env.EMAIL_TRANSPORT === "log";
+
+const logEmail = async ({ to, subject, text, replyTo }: EmailMessage) => {
+  const file = path.resolve(
+    process.env.EMAIL_LOG_FILE || DEFAULT_EMAIL_LOG_FILE
+  );
+  await mkdir(path.dirname(file), { recursive: true });
+  const entry = [
+    `--- ${new Date().toISOString()}`,
+    `To: ${Array.isArray(to) ? to.join(", ") : to}`,
+    `Subject: ${subject}`,
+    ...(replyTo ? [`Reply-To: ${replyTo}`] : []),
+    "",
+    text,
+    "",
+    ""
+  ].join("\n");
+  await appendFile(file, entry, "utf8");
+};
+
+export const sendEmail = async (message: EmailMessage) => {
+  if (usesLogTransport()) {
+    await logEmail(message);
+    return;
+  }
+  const { to, subject, text, html, replyTo } = message;
+  const { error } = await getResendClient().emails.send({
+    from: getSender(),
+    to,
+    subject,
+    text,
+    html,
+    ...(replyTo ? { replyTo } : {})
+  });
+  if (error) {
+    throw new Error(`Email delivery failed: ${error.message}`);
+  }
+};
@@ -7,7 +7,8 @@ import { ProjectModel } from "@/lib/models/project";
 import {
   createPresignedUploadUrl,
   deleteR2Objects,
-  getPublicUrlForKey
+  getPublicUrlForKey,
+  getR2Object
 } from "./r2";
 
 const IMAGE_CONTENT_TYPES = new Set([
@@ -24,6 +25,11 @@ const CONTENT_TYPE_EXTENSION: Record<string, string> = {
   "image/avif": "avif"
 };
 
+export const contentTypeForFormat = (format?: string | null) =>
+  Object.keys(CONTENT_TYPE_EXTENSION).find(
+    (contentType) => CONTENT_TYPE_EXTENSION[contentType] === format
+  );
+
 const MEDIA_KIND = ["hero", "gallery"] as const;
 export type MediaKind = (typeof MEDIA_KIND)[number];
 
@@ -105,7 +111,8 @@ export const registerUploadedAsset = async ({
   width,
   height,
   fileSize,
-  contentType
+  contentType,
+  actorId
 }: {
   projectId: string;
   key: string;
@@ -115,6 +122,7 @@ export const registerUploadedAsset = async ({
   height: number;
   fileSize?: number;
   contentType: string;
+  actorId: string;
 }) => {
   if (!MEDIA_KIND.includes(kind)) {
     throw new Error("Unsupported media kind");
@@ -134,6 +142,9 @@ export const registerUploadedAsset = async ({
       format: getExtension(contentType, key),
       fileSizeBytes: fileSize ?? 0,
       projectId: sanitizeProjectId(projectId),
+      createdBy: Types.ObjectId.isValid(actorId)
+        ? new Types.ObjectId(actorId)
+        : undefined,
       deletedAt: null
     },
     { upsert: true, new: true, setDefaultsOnInsert: true }
@@ -172,7 +183,8 @@ export const deleteMediaAssetsByIds = async (assetIds: string[]) => {
     const stillInUse = await ProjectModel.exists({
       $or: [
         { "hero.assetId": asset._id },
-        { "gallery.assetId": asset._id }
+        { "gallery.assetId": asset._id },
+        { "seo.ogImageAssetId": asset._id }
       ]
     });
     if (!stillInUse) {
@@ -216,4 +228,40 @@ export const resolveMediaUrl = (value?: string | null) => {
   return `/api/media?key=${encodeURIComponent(value)}`;
 };
 
+const MEDIA_PROXY_PREFIX = "/api/media?";
 
+/**
+ * Loads the bytes of an image from a stored key, a media proxy URL or an R2
+ * URL, always from the bucket. Other absolute URLs are editor-supplied and
+ * are never fetched from the server; they resolve to null, as does an image
+ * that does not exist.
+ */
+export const readMediaObject = async (value?: string | null) => {
+  if (!value) {
+    return null;
+  }
+  let key: string | null = value;
+  if (value.startsWith(MEDIA_PROXY_PREFIX)) {
+    key = new URLSearchParams(value.slice(MEDIA_PROXY_PREFIX.length)).get(
+      "key"
+    );
+  } else if (ABSOLUTE_URL_REGEX.test(value)) {
+    const match = value.match(R2_URL_REGEX);
+    if (!match?.[1]) {
+      return null;
+    }
+    key = decodeURIComponent(match[1]);
+  }
+  const normalizedKey = key?.split("?")[0].replace(/^\/+/, "");
+  if (!normalizedKey) {
+    return null;
+  }
+  try {
+    return await getR2Object(normalizedKey);
+  } catch (error) {
+    if ((error as { name?: string }).name === "NoSuchKey") {
+      return null;
+    }
+    throw error;
+  }
+};
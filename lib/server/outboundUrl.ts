@@ -0,0 +1,95 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+/**
+ * Guards for URLs the server POSTs to on a user's behalf (webhooks), so an
+ * endpoint can't point the server at itself, the private network or the
+ * cloud metadata service.
+ */
+const blockedAddresses = new BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3]
+].forEach(([network, prefix]) =>
+  blockedAddresses.addSubnet(network as string, prefix as number, "ipv4")
+);
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+].forEach(([network, prefix]) =>
+  blockedAddresses.addSubnet(network as string, prefix as number, "ipv6")
+);
+
+class OutboundUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutboundUrlError";
+  }
+}
+
+const stripBrackets = (hostname: string) =>
+  hostname.startsWith("[") && hostname.endsWith("]")
+    ? hostname.slice(1, -1)
+    : hostname;
+
+export const isBlockedAddress = (address: string) => {
+  const family = isIP(address);
+  if (!family) {
+    return true;
+  }
+  return blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+};
+
+const isLocalHostname = (hostname: string) =>
+  hostname === "localhost" ||
+  hostname.endsWith(".localhost") ||
+  hostname.endsWith(".local") ||
+  hostname.endsWith(".internal");
+
+/**
+ * Checks what can be known without DNS: https only, and no loopback or
+ * private host written into the URL. Used when an endpoint is saved.
+ */
+export const assertPublicHttpsUrl = (url: URL) => {
+  if (url.protocol !== "https:") {
+    throw new OutboundUrlError("URLs must use https");
+  }
+  const hostname = stripBrackets(url.hostname.toLowerCase());
+  if (isLocalHostname(hostname)) {
+    throw new OutboundUrlError("URLs must point to a public host");
+  }
+  if (isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new OutboundUrlError("URLs must point to a public host");
+  }
+};
+
+/**
+ * Repeats the static checks and resolves the host, rejecting it if any
+ * address it resolves to is loopback, link-local or private. Run right
+ * before each request, since DNS can change after the URL was saved.
+ */
+export const assertPublicDestination = async (value: string) => {
+  const url = new URL(value);
+  assertPublicHttpsUrl(url);
+  const hostname = stripBrackets(url.hostname);
+  const addresses = isIP(hostname)
+    ? [{ address: hostname }]
+    : await lookup(hostname, { all: true, verbatim: true });
+  if (
+    !addresses.length ||
+    addresses.some(({ address }) => isBlockedAddress(address))
+  ) {
+    throw new OutboundUrlError(`${hostname} resolves to a non-public address`);
+  }
+};
@@ -0,0 +1,51 @@
+import { revalidateTag } from "next/cache";
+
+import { slugify } from "@/lib/utils/text";
+
+/**
+ * Cache tags for the public project fetchers in `lib/projects.ts`. Anything
+ * that lists projects is tagged with the list tag; single-project reads are
+ * tagged with their slug so a rename can evict the old URL too.
+ */
+export const PROJECT_LIST_TAG = "projects:list";
+
+export const projectTag = (slug: string) => `project:${slug}`;
+
+export const categoryTag = (category: string) =>
+  `category:${slugify(category, 60)}`;
+
+export type PublishedProjectChange = {
+  slugs: Array<string | null | undefined>;
+  categories: Array<string | null | undefined>;
+};
+
+/**
+ * Evicts everything derived from a published project. Pass both the previous
+ * and the new slug and category so renames and recategorisations clear the
+ * old entries as well. This only works inside the Next.js server: there
+ * `revalidateTag` reaches the cache the fetchers read from, so anything that
+ * changes published projects (including `npm run jobs:scheduled`, which goes
+ * through the cron route) must run there. Called anywhere else it throws, and
+ * the cached pages stay stale. That error is logged rather than rethrown
+ * because the database write has already been committed.
+ */
+export const revalidatePublishedProjects = ({
+  slugs,
+  categories
+}: PublishedProjectChange) => {
+  const tags = new Set([PROJECT_LIST_TAG]);
+  slugs.forEach((slug) => {
+    if (slug) tags.add(projectTag(slug));
+  });
+  categories.forEach((category) => {
+    if (category) tags.add(categoryTag(category));
+  });
+  try {
+    tags.forEach((tag) => revalidateTag(tag));
+  } catch (error) {
+    console.error(
+      "[cache] Revalidation failed; public pages may be stale",
+      error
+    );
+  }
+};
@@ -1,5 +1,6 @@
 import {
   DeleteObjectsCommand,
+  GetObjectCommand,
   PutObjectCommand,
   S3Client
 } from "@aws-sdk/client-s3";
@@ -79,6 +80,19 @@ export const createPresignedUploadUrl = async (
   return uploadUrl;
 };
 
+export const getR2Object = async (key: string) => {
+  const object = await getR2Client().send(
+    new GetObjectCommand({ Bucket: getR2Bucket(), Key: key })
+  );
+  if (!object.Body) {
+    return null;
+  }
+  return {
+    body: await object.Body.transformToByteArray(),
+    contentType: object.ContentType ?? "application/octet-stream"
+  };
+};
+
 export const deleteR2Objects = async (keys: string[]) => {
   if (!keys.length) {
     return;
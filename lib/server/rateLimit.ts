@@ -0,0 +1,183 @@
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+
+import { connectToDatabase } from "@/lib/db/connection";
+import { RateLimitBucketModel } from "@/lib/models/rateLimitBucket";
+
+export type RateLimitPolicy = {
+  name: string;
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+};
+
+export const RATE_LIMIT_POLICIES = {
+  publicRead: { name: "public-read", limit: 120, windowMs: 60_000 },
+  publicSearch: { name: "public-search", limit: 60, windowMs: 60_000 },
+  inquiry: { name: "inquiry", limit: 5, windowMs: 10 * 60_000 },
+  media: { name: "media", limit: 600, windowMs: 60_000 }
+} satisfies Record<string, RateLimitPolicy>;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+const isRateLimitDisabled = () => process.env.RATE_LIMIT_DISABLED === "true";
+
+// Number of reverse proxies in front of the app that append to
+// X-Forwarded-For. Entries to the left of theirs come from the client and
+// can be anything.
+const trustedProxyHops = () => {
+  const hops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? "", 10);
+  return Number.isInteger(hops) && hops > 0 ? hops : 1;
+};
+
+/**
+ * The visitor address as seen by our own proxy: the platform-provided
+ * `request.ip` where there is one (Vercel), otherwise the X-Forwarded-For
+ * entry our outermost trusted proxy appended, counted from the right.
+ */
+export const getClientIp = (request: Request) => {
+  const platformIp = (request as Request & { ip?: string }).ip?.trim();
+  if (platformIp) {
+    return platformIp;
+  }
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const hop = forwarded[forwarded.length - trustedProxyHops()];
+  return hop || request.headers.get("x-real-ip")?.trim() || "unknown";
+};
+
+// Addresses are hashed so the collection never holds raw visitor IPs.
+const toBucketKey = (policy: RateLimitPolicy, clientId: string) =>
+  createHash("sha256").update(`${policy.name}:${clientId}`).digest("hex");
+
+const incrementBucket = async (
+  key: string,
+  windowStart: Date,
+  expiresAt: Date
+) => {
+  const increment = (upsert: boolean) =>
+    RateLimitBucketModel.findOneAndUpdate(
+      { key, windowStart },
+      {
+        $inc: { count: 1 },
+        ...(upsert ? { $setOnInsert: { expiresAt } } : {})
+      },
+      { upsert, new: true }
+    )
+      .lean()
+      .exec() as unknown as Promise<{ count: number } | null>;
+  try {
+    return await increment(true);
+  } catch (error) {
+    // Two instances can race to create the same bucket; the loser retries
+    // against the bucket the winner inserted.
+    if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR) {
+      return increment(false);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Weighs the fixed-window counters at `now`: the previous window counts in
+ * proportion to how much of it still overlaps the sliding window.
+ */
+export const evaluateSlidingWindow = (
+  policy: RateLimitPolicy,
+  now: number,
+  currentCount: number,
+  previousCount: number
+): RateLimitResult => {
+  const windowStartMs = now - (now % policy.windowMs);
+  const overlap = 1 - (now - windowStartMs) / policy.windowMs;
+  const weighted = previousCount * overlap + currentCount;
+  return {
+    allowed: weighted <= policy.limit,
+    limit: policy.limit,
+    remaining: Math.max(0, Math.floor(policy.limit - weighted)),
+    resetAt: new Date(windowStartMs + policy.windowMs)
+  };
+};
+
+/**
+ * Counts one request from `clientId` against `policy`. Counters live in
+ * fixed windows and the previous window is weighted by how much of it still
+ * overlaps the sliding window, which keeps every check to two small
+ * documents while still smoothing bursts at window boundaries.
+ */
+export const consumeRateLimit = async (
+  policy: RateLimitPolicy,
+  clientId: string
+): Promise<RateLimitResult> => {
+  const now = Date.now();
+  const windowStartMs = now - (now % policy.windowMs);
+  const key = toBucketKey(policy, clientId);
+
+  await connectToDatabase();
+  const [current, previous] = await Promise.all([
+    incrementBucket(
+      key,
+      new Date(windowStartMs),
+      new Date(windowStartMs + policy.windowMs * 2)
+    ),
+    RateLimitBucketModel.findOne(
+      { key, windowStart: new Date(windowStartMs - policy.windowMs) },
+      { count: 1 }
+    )
+      .lean()
+      .exec() as unknown as Promise<{ count: number } | null>
+  ]);
+
+  return evaluateSlidingWindow(
+    policy,
+    now,
+    current?.count ?? 1,
+    previous?.count ?? 0
+  );
+};
+
+/**
+ * Applies `policy` to the caller's IP address. Resolves to a 429 response
+ * once the limit is exceeded and to null otherwise. Limiter failures are
+ * logged and let the request through rather than taking the site down.
+ */
+export const enforceRateLimit = async (
+  request: Request,
+  policy: RateLimitPolicy
+) => {
+  if (isRateLimitDisabled()) {
+    return null;
+  }
+  try {
+    const result = await consumeRateLimit(policy, getClientIp(request));
+    if (result.allowed) {
+      return null;
+    }
+    const retryAfter = Math.max(
+      1,
+      Math.ceil((result.resetAt.getTime() - Date.now()) / 1000)
+    );
+    return NextResponse.json(
+      { error: "Too many requests. Please try again shortly." },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": retryAfter.toString(),
+          "X-RateLimit-Limit": result.limit.toString(),
+          "X-RateLimit-Remaining": "0"
+        }
+      }
+    );
+  } catch (error) {
+    console.error("[rate-limit] error", error);
+    return null;
+  }
+};
@@ -0,0 +1,113 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+import { getChallengeVerifier } from "@/lib/server/challenge";
+import { getClientIp } from "@/lib/server/rateLimit";
+
+const MIN_SUBMIT_MS = 3000;
+const FORM_TOKEN_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+
+export type FormGuardFields = {
+  honeypot?: unknown;
+  formToken?: unknown;
+  challengeToken?: unknown;
+};
+
+const signFormTimestamp = (issuedAt: string) => {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("Missing NEXTAUTH_SECRET");
+  }
+  return createHmac("sha256", secret)
+    .update(`form-token:${issuedAt}`)
+    .digest("hex");
+};
+
+/**
+ * A signed issue time for a public form, fetched when the form mounts. The
+ * server reads the form's age from it on submit, so the time-to-submit check
+ * doesn't depend on anything the client reports.
+ */
+export const issueFormToken = (now = Date.now()) => {
+  const issuedAt = now.toString();
+  return `${issuedAt}.${signFormTimestamp(issuedAt)}`;
+};
+
+// Milliseconds since the token was issued, or null if it was not signed here.
+const formTokenAge = (token: unknown, now: number) => {
+  if (typeof token !== "string") {
+    return null;
+  }
+  const [issuedAt, signature = ""] = token.split(".");
+  if (!/^\d+$/.test(issuedAt ?? "")) {
+    return null;
+  }
+  const expected = Buffer.from(signFormTimestamp(issuedAt));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  return now - Number(issuedAt);
+};
+
+export type FormScreening =
+  | { ok: true }
+  | { ok: false; silent: boolean; reason: string };
+
+/**
+ * Runs the bot checks for a public form. A filled honeypot is `silent`: the
+ * caller should answer as if the submission worked so the bot learns
+ * nothing. Other failures carry a reason that can be shown to the visitor.
+ */
+export const screenFormSubmission = async (
+  request: Request,
+  fields: FormGuardFields
+): Promise<FormScreening> => {
+  if (typeof fields.honeypot === "string" && fields.honeypot.trim()) {
+    return { ok: false, silent: true, reason: "Honeypot field was filled." };
+  }
+
+  const age = formTokenAge(fields.formToken, Date.now());
+  if (age === null || age > FORM_TOKEN_MAX_AGE_MS) {
+    return {
+      ok: false,
+      silent: false,
+      reason: "This form has expired. Please send it again."
+    };
+  }
+  if (age < MIN_SUBMIT_MS) {
+    return {
+      ok: false,
+      silent: false,
+      reason: "That was quick! Please take a moment and send it again."
+    };
+  }
+
+  const verifier = getChallengeVerifier();
+  if (!verifier) {
+    return { ok: true };
+  }
+  const token =
+    typeof fields.challengeToken === "string" ? fields.challengeToken : "";
+  if (!token) {
+    return {
+      ok: false,
+      silent: false,
+      reason: "Please complete the verification and try again."
+    };
+  }
+  try {
+    const passed = await verifier.verify(token, getClientIp(request));
+    return passed
+      ? { ok: true }
+      : {
+          ok: false,
+          silent: false,
+          reason: "Verification failed. Please try again."
+        };
+  } catch (error) {
+    // An outage at the challenge provider should not close the contact
+    // form; the rate limit still applies.
+    console.error(`[challenge:${verifier.name}] error`, error);
+    return { ok: true };
+  }
+};
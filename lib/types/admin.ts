@@ -1,3 +1,5 @@
+import type { AdminRole } from "@/lib/auth/permissions";
+
 export type AdminGalleryItem = {
   assetId?: string;
   src: string;
@@ -26,10 +28,338 @@ export type AdminProjectFormPayload = {
   services: string[];
   collaborators: string[];
   gallery: AdminGalleryItem[];
+  seo?: AdminProjectSeo;
+};
+
+/** Search and sharing overrides; empty fields fall back to title and excerpt. */
+export type AdminProjectSeo = {
+  metaTitle: string;
+  metaDescription: string;
+  /** Hero or gallery asset shared instead of the generated Open Graph image. */
+  ogImageAssetId?: string;
 };
 
 export type AdminProjectResponse = AdminProjectFormPayload & {
   id: string;
-  status: "draft" | "published" | "archived";
+  status: "draft" | "in_review" | "published" | "archived";
+  revision: number;
   lastEdited: string;
+  scheduledPublishAt?: string;
+  scheduledUnpublishAt?: string;
+  review?: AdminProjectReview;
+  isFeatured: boolean;
+  /** Position in the homepage hero rotation while featured. */
+  featuredOrder?: number;
+  /** Subdocument ids in display order, used to anchor review comments. */
+  itemIds?: AdminProjectItemIds;
+};
+
+export type AdminProjectItemIds = {
+  description: string[];
+  meta: string[];
+  gallery: string[];
+};
+
+/**
+ * The open review request and the last "changes requested" feedback. Both are
+ * cleared once the project is approved or published.
+ */
+export type AdminProjectReview = {
+  submittedAt?: string;
+  note?: string;
+  changesRequestedAt?: string;
+  feedback?: string;
+};
+
+export type AdminProjectFeaturedPayload = {
+  isFeatured: boolean;
+};
+
+export type AdminFeaturedOrderPayload = {
+  /** Every featured project id, in the new order. */
+  projectIds: string[];
+};
+
+export type AdminProjectSchedulePayload = {
+  publishAt: string | null;
+  unpublishAt: string | null;
+};
+
+export type AdminProjectVersionSummary = {
+  version: number;
+  status: AdminProjectResponse["status"];
+  source: "manual-save" | "publish" | "unpublish" | "restore";
+  published: boolean;
+  title: string;
+  slug: string;
+  createdAt: string;
+};
+
+export type AdminProjectDiffRef = "draft" | "published" | number;
+
+export type AdminProjectScalarField =
+  | "title"
+  | "slug"
+  | "categoryLabel"
+  | "location"
+  | "yearDisplay"
+  | "excerpt"
+  | "heroImage"
+  | "heroCaption"
+  | "metaTitle"
+  | "metaDescription";
+
+export type AdminProjectListField =
+  | "descriptionBlocks"
+  | "meta"
+  | "services"
+  | "collaborators"
+  | "gallery";
+
+export type AdminProjectScalarChange = {
+  field: AdminProjectScalarField;
+  before: string;
+  after: string;
+};
+
+export type AdminProjectListChange = {
+  type: "added" | "removed" | "edited" | "reordered";
+  before?: string;
+  after?: string;
+  fromIndex?: number;
+  toIndex?: number;
+  image?: string;
+};
+
+export type AdminProjectDiffSide = {
+  ref: AdminProjectDiffRef | "payload";
+  exists: boolean;
+};
+
+export type AdminProjectDiff = {
+  from: AdminProjectDiffSide;
+  to: AdminProjectDiffSide;
+  hasChanges: boolean;
+  scalars: AdminProjectScalarChange[];
+  lists: Record<AdminProjectListField, AdminProjectListChange[]>;
+};
+
+export type AdminUserStatus = "invited" | "active" | "disabled";
+
+export type AdminUserSummary = {
+  id: string;
+  email: string;
+  fullName: string;
+  role: AdminRole;
+  status: AdminUserStatus;
+  invitedAt?: string;
+  lastLoginAt?: string;
+  createdAt: string;
+};
+
+export type AdminUserInvitePayload = {
+  email: string;
+  role: AdminRole;
+  fullName?: string;
+};
+
+export type AdminUserUpdatePayload = {
+  role?: AdminRole;
+  status?: "active" | "disabled";
+};
+
+export type AdminNotificationEvent =
+  | "published"
+  | "unpublished"
+  | "deleted"
+  | "reviewRequested"
+  | "mentioned";
+
+export type AdminNotificationPreferences = Record<AdminNotificationEvent, boolean>;
+
+export type AdminActivityAction =
+  | "created"
+  | "duplicated"
+  | "saved"
+  | "published"
+  | "unpublished"
+  | "deleted"
+  | "restored"
+  | "purged"
+  | "schedule-updated"
+  | "scheduled-publish"
+  | "scheduled-unpublish"
+  | "schedule-failed"
+  | "review-requested"
+  | "review-approved"
+  | "changes-requested"
+  | "featured-updated";
+
+export type AdminActivityEntry = {
+  id: string;
+  projectId: string;
+  projectTitle: string;
+  action: AdminActivityAction;
+  fromStatus?: AdminProjectResponse["status"];
+  toStatus?: AdminProjectResponse["status"];
+  summary?: string;
+  snapshotVersion?: number;
+  versionAvailable: boolean;
+  actor: { id: string; name: string; email?: string } | null;
+  createdAt: string;
+};
+
+export type AdminActivityPage = {
+  entries: AdminActivityEntry[];
+  nextCursor: string | null;
+};
+
+export type AdminTrashedProject = {
+  id: string;
+  title: string;
+  slug: string;
+  category: string;
+  heroImage: string;
+  revision: number;
+  deletedAt: string;
+  deletedBy?: string;
+  purgeAt: string;
+};
+
+export type AdminPreviewLink = {
+  id: string;
+  label?: string;
+  createdBy?: string;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+};
+
+/** Returned once at creation; the raw token cannot be recovered later. */
+export type AdminPreviewLinkCreated = AdminPreviewLink & {
+  path: string;
+};
+
+export type AdminPreviewLinkPayload = {
+  label?: string;
+  expiresInDays?: number;
+};
+
+export type AdminCommentAnchorKind = "project" | "description" | "meta" | "gallery";
+
+export type AdminCommentAnchor = {
+  kind: AdminCommentAnchorKind;
+  itemId?: string;
+};
+
+export type AdminCommentAuthor = { id: string; name: string };
+
+export type AdminProjectComment = {
+  id: string;
+  body: string;
+  author: AdminCommentAuthor | null;
+  mentions: AdminCommentAuthor[];
+  createdAt: string;
+  editedAt?: string;
+};
+
+export type AdminProjectCommentThread = AdminProjectComment & {
+  anchor: AdminCommentAnchor;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  replies: AdminProjectComment[];
+};
+
+export type AdminProjectCommentPayload = {
+  body: string;
+  anchor?: AdminCommentAnchor;
+  parentId?: string;
+};
+
+export type AdminMentionableUser = {
+  id: string;
+  name: string;
+  handle: string;
+};
+
+export type AdminWebhookEvent = "published" | "unpublished" | "deleted";
+
+export type AdminWebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export type AdminWebhook = {
+  id: string;
+  name: string;
+  url: string;
+  events: AdminWebhookEvent[];
+  active: boolean;
+  createdAt: string;
+};
+
+/** Returned on create and secret rotation; the only time the secret is shown. */
+export type AdminWebhookWithSecret = AdminWebhook & {
+  secret: string;
+};
+
+export type AdminWebhookPayload = {
+  name: string;
+  url: string;
+  events: AdminWebhookEvent[];
+  active?: boolean;
+};
+
+export type AdminWebhookDeliveryAttempt = {
+  at: string;
+  responseStatus?: number;
+  error?: string;
+  durationMs?: number;
+};
+
+export type AdminWebhookDelivery = {
+  id: string;
+  event: AdminWebhookEvent;
+  projectSlug?: string;
+  status: AdminWebhookDeliveryStatus;
+  attempts: AdminWebhookDeliveryAttempt[];
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  createdAt: string;
+};
+
+export type AdminInquiryStatus = "new" | "read" | "replied";
+
+export type AdminInquiryView = "inbox" | "archived";
+
+export type AdminInquiryNote = {
+  id: string;
+  body: string;
+  author: { id: string; name: string } | null;
+  createdAt: string;
+};
+
+export type AdminInquiry = {
+  id: string;
+  name: string;
+  email: string;
+  projectType: string;
+  message: string;
+  status: AdminInquiryStatus;
+  archived: boolean;
+  readAt?: string;
+  repliedAt?: string;
+  archivedAt?: string;
+  project?: { id: string; title: string; slug: string };
+  notes: AdminInquiryNote[];
+  createdAt: string;
+};
+
+export type AdminInquiryList = {
+  inquiries: AdminInquiry[];
+  counts: { new: number; inbox: number; archived: number };
+};
+
+export type AdminInquiryUpdatePayload = {
+  status?: AdminInquiryStatus;
+  archived?: boolean;
+  /** Null clears the related project. */
+  projectId?: string | null;
 };
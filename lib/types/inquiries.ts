@@ -0,0 +1,17 @@
+export type InquirySubmission = {
+  name: string;
+  email: string;
+  projectType: string;
+  message: string;
+};
+
+/**
+ * What the contact form posts: the submission plus the spam checks. The
+ * `website` honeypot is hidden from people and must stay empty, and
+ * `formToken` is the signed issue time from /api/public/inquiries/token.
+ */
+export type InquiryFormPayload = InquirySubmission & {
+  website?: string;
+  formToken?: string;
+  challengeToken?: string;
+};
@@ -1,5 +1,7 @@
 import { type StaticImageData } from "next/image";
 
+import type { TextSegment } from "@/lib/utils/text";
+
 export type ImageSource = StaticImageData | string;
 
 export type ProjectGalleryImage = {
@@ -14,6 +16,18 @@ export type ProjectMeta = {
   value: string;
 };
 
+/** Fractions of the image size, 0-1 from the top-left corner. */
+export type FocalPoint = {
+  x: number;
+  y: number;
+};
+
+/** Search overrides set in the admin; unset fields fall back to the content. */
+export type ProjectSeo = {
+  metaTitle?: string;
+  metaDescription?: string;
+};
+
 export type Project = {
   id?: string;
   slug: string;
@@ -23,12 +37,99 @@ export type Project = {
   year: string;
   heroImage: ImageSource;
   heroCaption: string;
+  heroFocalPoint?: FocalPoint;
   excerpt: string;
   description: string[];
   meta: ProjectMeta[];
   services: string[];
   collaborators: string[];
   gallery: ProjectGalleryImage[];
+  seo?: ProjectSeo;
+};
+
+/**
+ * What the Open Graph image of a published project is drawn from. The hero
+ * `src` is a stored media reference, not a resolved URL. `version` changes
+ * whenever the project is republished and is part of the image URL, so
+ * scrapers and CDNs never keep a stale card.
+ */
+export type ProjectOgImageSource = {
+  title: string;
+  location: string;
+  year: string;
+  version: string;
+  hero: {
+    src: string;
+    width?: number;
+    height?: number;
+    focalPoint?: FocalPoint;
+  };
+  // Uploaded replacement for the generated image, with a versioned URL.
+  ogAsset: {
+    url: string;
+    width: number;
+    height: number;
+    contentType?: string;
+  } | null;
 };
 
+/** A published slug with its publish and last sync times as ISO strings. */
+export type PublishedProjectSlug = {
+  slug: string;
+  publishedAt: string;
+  syncedAt: string;
+};
 
+export type ProjectSearchResult = {
+  slug: string;
+  title: string;
+  category: string;
+  location: string;
+  year: string;
+  heroImage: string;
+  titleSegments: TextSegment[];
+  snippet: TextSegment[];
+};
+
+export type ProjectSort = "newest" | "year" | "alphabetical";
+
+export type ProjectListQuery = {
+  category?: string;
+  categoryId?: string;
+  service?: string;
+  location?: string;
+  yearFrom?: number;
+  yearTo?: number;
+  sort?: ProjectSort;
+  cursor?: string;
+  limit?: number;
+  /** Every match in one page; `limit` and `cursor` are ignored. */
+  all?: boolean;
+};
+
+export type ProjectFacetCount = {
+  value: string;
+  count: number;
+};
+
+export type ProjectFacets = {
+  categories: ProjectFacetCount[];
+  services: ProjectFacetCount[];
+  locations: ProjectFacetCount[];
+  years: ProjectFacetCount[];
+};
+
+export type ProjectListPage = {
+  items: Project[];
+  nextCursor: string | null;
+  total: number;
+  facets: ProjectFacets;
+};
+
+export type ProjectCategory = {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  projectCount: number;
+};
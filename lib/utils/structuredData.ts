@@ -0,0 +1,57 @@
+import type { Project } from "@/lib/types/projects";
+import { parseYearRange } from "@/lib/utils/text";
+
+const STUDIO_NAME = "MOR Architecture";
+const COLLABORATOR_SEPARATOR = /\s+[—–-]\s+/;
+
+// "2019-21" becomes the ISO 8601 interval "2019/2021".
+const toTemporalCoverage = (yearDisplay: string) => {
+  const { yearStart, yearEnd } = parseYearRange(yearDisplay);
+  return yearEnd === yearStart ? String(yearStart) : `${yearStart}/${yearEnd}`;
+};
+
+// Collaborators are entered as "Name — Role".
+const toContributor = (collaborator: string) => {
+  const [name, ...role] = collaborator.split(COLLABORATOR_SEPARATOR);
+  return {
+    "@type": "Organization",
+    name: name.trim(),
+    ...(role.length ? { description: role.join(" — ").trim() } : {})
+  };
+};
+
+/**
+ * schema.org CreativeWork for a project page, with its location as a Place.
+ * `url` is the absolute page URL; the hero image is resolved against it.
+ */
+export const buildProjectJsonLd = (project: Project, url: string) => {
+  const heroImage =
+    typeof project.heroImage === "string"
+      ? project.heroImage
+      : project.heroImage.src;
+  return {
+    "@context": "https://schema.org",
+    "@type": "CreativeWork",
+    name: project.title,
+    headline: project.seo?.metaTitle || project.title,
+    description: project.seo?.metaDescription || project.excerpt,
+    url,
+    ...(heroImage ? { image: new URL(heroImage, url).toString() } : {}),
+    genre: project.category,
+    temporalCoverage: toTemporalCoverage(project.year),
+    locationCreated: {
+      "@type": "Place",
+      name: project.location,
+      address: project.location
+    },
+    creator: { "@type": "Organization", name: STUDIO_NAME },
+    ...(project.collaborators.length
+      ? { contributor: project.collaborators.map(toContributor) }
+      : {}),
+    ...(project.services.length ? { keywords: project.services.join(", ") } : {})
+  };
+};
+
+/** JSON for an inline script tag; `<` is escaped so content cannot end it. */
+export const serializeJsonLd = (data: unknown) =>
+  JSON.stringify(data).replace(/</g, "\\u003c");
@@ -16,16 +16,128 @@ export const normalizeTitle = (value: string) =>
     .replace(/[\u0300-\u036f]/g, "")
     .trim();
 
-export const tokenize = (value: string) =>
+const foldText = (value: string) =>
   value
     .toLowerCase()
     .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .split(/[\s,.;:!?/\\|-]+/)
+    .replace(/[\u0300-\u036f]/g, "");
+
+const TOKEN_SEPARATOR = /[\s,.;:!?/\\|-]+/;
+
+export const tokenize = (value: string) =>
+  foldText(value)
+    .split(TOKEN_SEPARATOR)
     .map((token) => token.trim())
     .filter(Boolean);
 
 export const uniqueStrings = (values: string[]) =>
   Array.from(new Set(values.filter(Boolean)));
 
+export type TextSegment = {
+  text: string;
+  highlight: boolean;
+};
+
+export const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Finds where `terms` (already tokenized) start a word in `value`, comparing
+ * accent-folded text but returning ranges into the original string.
+ */
+export const findTermMatches = (value: string, terms: string[]) => {
+  let folded = "";
+  const offsets: number[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const char = foldText(value[index]);
+    folded += char;
+    for (let step = 0; step < char.length; step++) {
+      offsets.push(index);
+    }
+  }
+
+  const ranges: Array<[number, number]> = [];
+  terms.forEach((term) => {
+    const pattern = new RegExp(
+      `(^|[^\\p{L}\\p{N}])(${escapeRegExp(term)})`,
+      "gu"
+    );
+    for (const match of Array.from(folded.matchAll(pattern))) {
+      const start = (match.index ?? 0) + match[1].length;
+      const end = start + match[2].length;
+      ranges.push([offsets[start], offsets[end - 1] + 1]);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Cuts `value` down to about `maxLength` characters around the first match
+ * and splits it into plain and highlighted segments for rendering.
+ */
+export const buildHighlightedSnippet = (
+  value: string,
+  terms: string[],
+  maxLength = 160
+): TextSegment[] => {
+  const matches = findTermMatches(value, terms);
+  let start = 0;
+  if (matches.length && value.length > maxLength) {
+    start = Math.max(0, matches[0][0] - Math.floor(maxLength / 3));
+    const wordStart = value.lastIndexOf(" ", start);
+    start = wordStart > 0 && start - wordStart < 20 ? wordStart + 1 : start;
+  }
+  let end = Math.min(value.length, start + maxLength);
+  if (end < value.length) {
+    const wordEnd = value.lastIndexOf(" ", end);
+    end = wordEnd > start ? wordEnd : end;
+  }
+
+  const segments: TextSegment[] = [];
+  let cursor = start;
+  matches.forEach(([matchStart, matchEnd]) => {
+    if (matchEnd <= start || matchStart >= end) return;
+    const from = Math.max(matchStart, start);
+    const to = Math.min(matchEnd, end);
+    if (from > cursor) {
+      segments.push({ text: value.slice(cursor, from), highlight: false });
+    }
+    segments.push({ text: value.slice(from, to), highlight: true });
+    cursor = to;
+  });
+  if (cursor < end) {
+    segments.push({ text: value.slice(cursor, end), highlight: false });
+  }
+  if (start > 0) {
+    segments.unshift({ text: "…", highlight: false });
+  }
+  if (end < value.length) {
+    segments.push({ text: "…", highlight: false });
+  }
+  return segments;
+};
 
+// yearDisplay is "YYYY" or "YYYY-YY"; the short end year belongs to the same
+// century unless that would put it before the start.
+export const parseYearRange = (yearDisplay: string) => {
+  const [startPart, endPart] = yearDisplay.split("-");
+  const yearStart = Number.parseInt(startPart, 10);
+  if (!endPart) {
+    return { yearStart, yearEnd: yearStart };
+  }
+  let yearEnd = Math.floor(yearStart / 100) * 100 + Number.parseInt(endPart, 10);
+  if (yearEnd < yearStart) {
+    yearEnd += 100;
+  }
+  return { yearStart, yearEnd };
+};
@@ -0,0 +1,60 @@
+/**
+ * Rebuilds the derived fields on every PublishedProject record (category id,
+ * title sort key, year range, search tokens, featuring). Deploy step: run it
+ * once against the new server after any release that adds such a field, or
+ * older live projects stay missing from category pages, year filters, the
+ * alphabetical sort and search until they are republished.
+ *
+ *   npm run projects:resync
+ *
+ * Like jobs:scheduled it goes through the server (POST
+ * /api/cron/resync-published-projects) so cached pages are revalidated too.
+ * Needs the server running at NEXTAUTH_URL and CRON_SECRET set. Safe to run
+ * again.
+ */
+import { loadEnvConfig } from "@next/env";
+
+import type { PublishedResyncResult } from "@/lib/server/admin/projectService";
+
+loadEnvConfig(process.cwd());
+
+const main = async () => {
+  // Imported after the env is loaded so the site URL sees it.
+  const { getSiteUrl } = await import("@/lib/server/email");
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("[resync] Missing CRON_SECRET");
+    return 1;
+  }
+  const response = await fetch(
+    `${getSiteUrl()}/api/cron/resync-published-projects`,
+    {
+      method: "POST",
+      headers: { Authorization: `Bearer ${secret}` },
+      cache: "no-store"
+    }
+  );
+  const payload = (await response.json().catch(() => null)) as
+    | { data?: PublishedResyncResult; error?: string }
+    | null;
+  if (!response.ok || !payload?.data) {
+    console.error(
+      `[resync] Run failed (${response.status}): ${
+        payload?.error ?? response.statusText
+      }`
+    );
+    return 1;
+  }
+  const { rebuilt, patched, skipped } = payload.data;
+  console.log(
+    `[resync] Rebuilt ${rebuilt}, backfilled ${patched} with unpublished edits, skipped ${skipped}`
+  );
+  return 0;
+};
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("[resync] Run failed", error);
+    process.exit(1);
+  });
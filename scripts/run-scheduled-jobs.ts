@@ -0,0 +1,60 @@
+/**
+ * Runs due scheduled publishes/unpublishes once, for hosts that prefer a
+ * system cron over calling the /api/cron/scheduled-projects route directly:
+ *
+ *   npm run jobs:scheduled
+ *
+ * The jobs still run inside the Next.js server, via that route, because
+ * publishing has to revalidate the server's cached project pages and that
+ * cache only exists there. Needs the server running at NEXTAUTH_URL and
+ * CRON_SECRET set.
+ */
+import { loadEnvConfig } from "@next/env";
+
+import type { ScheduledJobResult } from "@/lib/server/admin/scheduleService";
+
+loadEnvConfig(process.cwd());
+
+const main = async () => {
+  // Imported after the env is loaded so the site URL sees it.
+  const { getSiteUrl } = await import("@/lib/server/email");
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("[schedule] Missing CRON_SECRET");
+    return 1;
+  }
+  const response = await fetch(`${getSiteUrl()}/api/cron/scheduled-projects`, {
+    headers: { Authorization: `Bearer ${secret}` },
+    cache: "no-store"
+  });
+  const payload = (await response.json().catch(() => null)) as
+    | { data?: { results: ScheduledJobResult[] }; error?: string }
+    | null;
+  if (!response.ok || !payload?.data) {
+    console.error(
+      `[schedule] Run failed (${response.status}): ${
+        payload?.error ?? response.statusText
+      }`
+    );
+    return 1;
+  }
+  const { results } = payload.data;
+  results.forEach((result) => {
+    console.log(
+      result.ok
+        ? `[schedule] ${result.job}ed ${result.slug ?? result.projectId}`
+        : `[schedule] ${result.job} failed for ${result.projectId}: ${result.error}`
+    );
+  });
+  if (!results.length) {
+    console.log("[schedule] Nothing due");
+  }
+  return results.some((result) => !result.ok) ? 1 : 0;
+};
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("[schedule] Run failed", error);
+    process.exit(1);
+  });
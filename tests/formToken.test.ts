@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { setChallengeVerifier } from "@/lib/server/challenge";
+import { issueFormToken, screenFormSubmission } from "@/lib/server/spamGuard";
+
+const request = new Request("https://example.com/api/public/inquiries", {
+  method: "POST"
+});
+
+const screen = (formToken: unknown, honeypot?: string) =>
+  screenFormSubmission(request, { formToken, honeypot });
+
+describe("screenFormSubmission", () => {
+  before(() => {
+    process.env.NEXTAUTH_SECRET = "test-secret";
+    setChallengeVerifier(null);
+  });
+
+  after(() => {
+    setChallengeVerifier(undefined);
+  });
+
+  it("accepts a token issued long enough ago", async () => {
+    assert.deepEqual(await screen(issueFormToken(Date.now() - 10_000)), {
+      ok: true
+    });
+  });
+
+  it("rejects a form sent too quickly", async () => {
+    const result = await screen(issueFormToken(Date.now() - 500));
+    assert.equal(result.ok, false);
+  });
+
+  it("rejects expired, unsigned and tampered tokens", async () => {
+    const expired = issueFormToken(Date.now() - 3 * 60 * 60 * 1000);
+    const [, signature] = issueFormToken(Date.now() - 10_000).split(".");
+    const backdated = `${Date.now() - 60_000}.${signature}`;
+
+    for (const token of [expired, backdated, "12345", undefined]) {
+      const result = await screen(token);
+      assert.equal(result.ok, false);
+      assert.equal(!result.ok && result.silent, false);
+    }
+  });
+
+  it("silently drops submissions with a filled honeypot", async () => {
+    const result = await screen(issueFormToken(Date.now() - 10_000), "spam");
+    assert.deepEqual(result, {
+      ok: false,
+      silent: true,
+      reason: "Honeypot field was filled."
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { assignMentionHandles } from "@/lib/server/admin/userService";
+
+describe("assignMentionHandles", () => {
+  it("uses the email local part", () => {
+    const handles = assignMentionHandles([
+      { id: "1", email: "Jane@studio.com" },
+      { id: "2", email: "bob@studio.com" }
+    ]);
+    assert.equal(handles.get("1"), "jane");
+    assert.equal(handles.get("2"), "bob");
+  });
+
+  it("lets the first account keep a shared handle and suffixes later ones", () => {
+    const handles = assignMentionHandles([
+      { id: "1", email: "jane@studio.com" },
+      { id: "2", email: "jane@gmail.com" },
+      { id: "3", email: "jane@gmail.org" }
+    ]);
+    assert.deepEqual(Array.from(handles.values()), [
+      "jane",
+      "jane.gmail",
+      "jane.gmail2"
+    ]);
+  });
+
+  it("does not rename existing users when a colliding user is added", () => {
+    const existing = [
+      { id: "1", email: "jane@studio.com" },
+      { id: "2", email: "jane@gmail.com" }
+    ];
+    const before = assignMentionHandles(existing);
+    const after = assignMentionHandles([
+      ...existing,
+      { id: "3", email: "jane@other.com" }
+    ]);
+    assert.equal(after.get("1"), before.get("1"));
+    assert.equal(after.get("2"), before.get("2"));
+    assert.equal(after.get("3"), "jane.other");
+  });
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Types } from "mongoose";
+
+import {
+  buildCursorFilter,
+  decodeCursor,
+  encodeCursor
+} from "@/lib/projectCursor";
+
+const id = new Types.ObjectId("65a1b2c3d4e5f60718293a4b");
+
+describe("project cursors", () => {
+  it("round-trips the sort value and id", () => {
+    const cursor = encodeCursor("villa-rotonda", id);
+    const decoded = decodeCursor(cursor, "alphabetical");
+    assert.equal(decoded.value, "villa-rotonda");
+    assert.ok(decoded.id.equals(id));
+  });
+
+  it("restores dates for the newest sort", () => {
+    const publishedAt = "2024-03-01T10:00:00.000Z";
+    const decoded = decodeCursor(encodeCursor(publishedAt, id), "newest");
+    assert.ok(decoded.value instanceof Date);
+    assert.equal((decoded.value as Date).toISOString(), publishedAt);
+  });
+
+  it("rejects cursors that were not issued by the API", () => {
+    for (const cursor of ["not-a-cursor", encodeCursor(1, id).slice(0, -4)]) {
+      assert.throws(() => decodeCursor(cursor, "year"), {
+        name: "ProjectQueryError"
+      });
+    }
+    const badId = Buffer.from(JSON.stringify([2020, "nope"])).toString(
+      "base64url"
+    );
+    assert.throws(() => decodeCursor(badId, "year"), {
+      name: "ProjectQueryError"
+    });
+  });
+});
+
+describe("buildCursorFilter", () => {
+  it("continues after the cursor in ascending order", () => {
+    assert.deepEqual(buildCursorFilter("alphabetical", { value: "m", id }), {
+      $or: [
+        { titleSort: { $gt: "m" } },
+        { titleSort: "m", _id: { $gt: id } }
+      ]
+    });
+  });
+
+  it("includes documents missing the field after every value descending", () => {
+    assert.deepEqual(buildCursorFilter("year", { value: 2020, id }), {
+      $or: [
+        { yearStart: { $lt: 2020 } },
+        { yearStart: 2020, _id: { $lt: id } },
+        { yearStart: null }
+      ]
+    });
+  });
+
+  it("pages through documents missing the field by id", () => {
+    assert.deepEqual(buildCursorFilter("year", { value: null, id }), {
+      yearStart: null,
+      _id: { $lt: id }
+    });
+    assert.deepEqual(buildCursorFilter("alphabetical", { value: null, id }), {
+      $or: [
+        { titleSort: { $ne: null } },
+        { titleSort: null, _id: { $gt: id } }
+      ]
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  diffList,
+  type ComparableEntry
+} from "@/lib/server/admin/projectDiffService";
+
+const entry = (identity: string, content = identity): ComparableEntry => ({
+  identity,
+  content,
+  label: content
+});
+
+const entries = (...identities: string[]) =>
+  identities.map((identity) => entry(identity));
+
+describe("diffList", () => {
+  it("reports nothing for identical lists", () => {
+    const list = entries("a", "b", "c");
+    assert.deepEqual(diffList(list, entries("a", "b", "c"), true), []);
+  });
+
+  it("reports additions and removals at their positions", () => {
+    const before = entries("a", "b", "c");
+    assert.deepEqual(diffList(before, entries("a", "c", "d"), false), [
+      { type: "removed", before: "b", fromIndex: 1, image: undefined },
+      { type: "added", after: "d", toIndex: 2, image: undefined }
+    ]);
+  });
+
+  it("flags only the entry that moved, not the ones it shifted", () => {
+    const before = entries("a", "b", "c", "d");
+    const after = entries("b", "c", "d", "a");
+    assert.deepEqual(diffList(before, after, true), [
+      {
+        type: "reordered",
+        after: "a",
+        fromIndex: 0,
+        toIndex: 3,
+        image: undefined
+      }
+    ]);
+  });
+
+  it("reports a matched entry with new content as edited", () => {
+    const before = [entry("hero", "Old caption")];
+    const after = [entry("hero", "New caption")];
+    assert.deepEqual(diffList(before, after, false), [
+      {
+        type: "edited",
+        before: "Old caption",
+        after: "New caption",
+        fromIndex: 0,
+        toIndex: 0,
+        image: undefined
+      }
+    ]);
+  });
+
+  it("pairs a removal and an addition in the same slot when asked to", () => {
+    const before = entries("a", "b", "c");
+    const after = entries("a", "x", "c");
+
+    assert.deepEqual(diffList(before, after, true), [
+      {
+        type: "edited",
+        before: "b",
+        after: "x",
+        fromIndex: 1,
+        toIndex: 1,
+        image: undefined
+      }
+    ]);
+    assert.deepEqual(
+      diffList(before, after, false).map((change) => change.type),
+      ["removed", "added"]
+    );
+  });
+
+  it("matches duplicate entries one occurrence at a time", () => {
+    assert.deepEqual(diffList(entries("p", "p"), entries("p"), false), [
+      { type: "removed", before: "p", fromIndex: 1, image: undefined }
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+
+import { evaluateSlidingWindow, getClientIp } from "@/lib/server/rateLimit";
+
+const policy = { name: "test", limit: 10, windowMs: 60_000 };
+const windowStart = 1_700_000_040_000;
+
+describe("evaluateSlidingWindow", () => {
+  it("counts the whole previous window at the start of a window", () => {
+    const result = evaluateSlidingWindow(policy, windowStart, 1, 9);
+    assert.equal(result.allowed, true);
+    assert.equal(result.remaining, 0);
+    assert.equal(result.resetAt.getTime(), windowStart + policy.windowMs);
+  });
+
+  it("weights the previous window by its remaining overlap", () => {
+    const halfway = windowStart + policy.windowMs / 2;
+    assert.equal(evaluateSlidingWindow(policy, halfway, 5, 10).allowed, true);
+    assert.equal(evaluateSlidingWindow(policy, halfway, 6, 10).allowed, false);
+    assert.equal(evaluateSlidingWindow(policy, halfway, 2, 10).remaining, 3);
+  });
+
+  it("barely counts the previous window at the end of a window", () => {
+    const end = windowStart + policy.windowMs - 1;
+    assert.equal(evaluateSlidingWindow(policy, end, 9, 100).allowed, true);
+    assert.equal(evaluateSlidingWindow(policy, end, 11, 0).allowed, false);
+  });
+});
+
+describe("getClientIp", () => {
+  const request = (headers: Record<string, string>, ip?: string) =>
+    Object.assign(new Request("https://example.com", { headers }), { ip });
+
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  it("prefers the platform-provided address", () => {
+    assert.equal(
+      getClientIp(request({ "x-forwarded-for": "1.1.1.1" }, "9.9.9.9")),
+      "9.9.9.9"
+    );
+  });
+
+  it("takes the entry our proxy appended, not the client-supplied ones", () => {
+    const forwarded = { "x-forwarded-for": "6.6.6.6, 1.2.3.4" };
+    assert.equal(getClientIp(request(forwarded)), "1.2.3.4");
+  });
+
+  it("counts TRUSTED_PROXY_HOPS from the right", () => {
+    process.env.TRUSTED_PROXY_HOPS = "2";
+    const forwarded = { "x-forwarded-for": "6.6.6.6, 1.2.3.4, 10.0.0.2" };
+    assert.equal(getClientIp(request(forwarded)), "1.2.3.4");
+  });
+
+  it("falls back to x-real-ip, then unknown", () => {
+    process.env.TRUSTED_PROXY_HOPS = "3";
+    const headers = { "x-forwarded-for": "1.2.3.4", "x-real-ip": "5.6.7.8" };
+    assert.equal(getClientIp(request(headers)), "5.6.7.8");
+    assert.equal(getClientIp(request({})), "unknown");
+  });
+});
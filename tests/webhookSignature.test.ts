@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { describe, it } from "node:test";
+
+import { signWebhookBody } from "@/lib/server/admin/webhookService";
+
+describe("signWebhookBody", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const body = JSON.stringify({ event: "project.published" });
+    const expected = createHmac("sha256", "whsec_test")
+      .update(`1700000000.${body}`)
+      .digest("hex");
+    assert.equal(signWebhookBody("whsec_test", "1700000000", body), expected);
+  });
+
+  it("changes when the timestamp, body or secret changes", () => {
+    const signature = signWebhookBody("secret", "1", "{}");
+    assert.notEqual(signWebhookBody("secret", "2", "{}"), signature);
+    assert.notEqual(signWebhookBody("secret", "1", "{ }"), signature);
+    assert.notEqual(signWebhookBody("other", "1", "{}"), signature);
+  });
+});